@@ -0,0 +1,8 @@
+-- Migration to link audit entries written by a revert to the entry they revert
+
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS reverted_from_id INTEGER REFERENCES audit_logs(id);
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_reverted_from_id ON audit_logs(reverted_from_id);
+
+COMMENT ON COLUMN audit_logs.reverted_from_id IS 'Audit entry this change reverted, NULL for ordinary changes';
+COMMENT ON COLUMN job_status_history.source IS 'Where the change came from: manual, create, bulk_upload, bulk_edit, import or revert';
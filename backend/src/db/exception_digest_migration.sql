@@ -0,0 +1,3 @@
+-- Migration for the daily overdue jobs digest: users opt in from their profile
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS exception_digest BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,21 @@
+-- Migration for saved import column-mapping templates
+-- Each builder sends schedules in their own layout; a template remembers how its columns map
+
+CREATE TABLE IF NOT EXISTS import_mapping_templates (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    import_type VARCHAR(20) NOT NULL CHECK (import_type IN ('clients', 'projects', 'jobs')),
+    column_mapping JSONB NOT NULL,
+    transforms JSONB NOT NULL DEFAULT '{}',
+    created_by INTEGER REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Template names are unique within an import type
+CREATE UNIQUE INDEX IF NOT EXISTS import_mapping_templates_type_name_idx
+    ON import_mapping_templates(import_type, lower(name));
+
+COMMENT ON TABLE import_mapping_templates IS 'Saved column mappings for recurring import sources';
+COMMENT ON COLUMN import_mapping_templates.column_mapping IS 'Spreadsheet column header -> import field, e.g. {"Job No": "unit"}';
+COMMENT ON COLUMN import_mapping_templates.transforms IS 'Value transforms: {"statusAliases": {"Cut": "nesting-complete"}, "dateFormat": "MM/DD/YYYY"}';
@@ -0,0 +1,20 @@
+-- Migration for in-app notifications (the bell in the top bar)
+
+CREATE TABLE IF NOT EXISTS notifications (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    event VARCHAR(50) NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    body TEXT,
+    project_id INTEGER REFERENCES projects(id) ON DELETE CASCADE,
+    job_id INTEGER REFERENCES jobs(id) ON DELETE CASCADE,
+    read_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- The bell lists a user's newest notifications and counts the unread ones
+CREATE INDEX IF NOT EXISTS notifications_user_id_idx ON notifications(user_id, created_at);
+
+-- Preferences now have an in-app choice next to email; null keeps the event's default
+ALTER TABLE notification_preferences ALTER COLUMN email DROP NOT NULL;
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS in_app BOOLEAN;
@@ -0,0 +1,45 @@
+-- Migration for actual stage completion dates on jobs
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS nesting_actual_date DATE;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS machining_actual_date DATE;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS assembly_actual_date DATE;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS delivery_actual_date DATE;
+
+-- Backfill from the status history: the last time each job moved into a stage's completed
+-- status, for jobs currently at or past that stage. Initial statuses (no from status) are what
+-- a job was created or imported with, so they don't count as completing a stage.
+CREATE TEMP TABLE stage_completions (status_name TEXT, stage_order INT, column_name TEXT);
+INSERT INTO stage_completions VALUES
+  ('nesting-complete', 1, 'nesting_actual_date'),
+  ('machining-complete', 2, 'machining_actual_date'),
+  ('assembly-complete', 3, 'assembly_actual_date'),
+  ('delivered', 4, 'delivery_actual_date');
+
+DO $$
+DECLARE
+  stage RECORD;
+BEGIN
+  FOR stage IN SELECT * FROM stage_completions LOOP
+    EXECUTE format(
+      'UPDATE jobs j
+       SET %1$I = completed.completed_on
+       FROM (
+         SELECT h.job_id, MAX(h.changed_at)::date AS completed_on
+         FROM job_status_history h
+         JOIN job_statuses s ON s.id = h.to_status_id
+         WHERE s.name = %2$L AND h.from_status_id IS NOT NULL
+         GROUP BY h.job_id
+       ) completed
+       WHERE completed.job_id = j.id
+         AND j.%1$I IS NULL
+         AND j.status_id IN (
+           SELECT s.id FROM job_statuses s
+           JOIN stage_completions c ON c.status_name = s.name
+           WHERE c.stage_order >= %3$s
+         )',
+      stage.column_name, stage.status_name, stage.stage_order
+    );
+  END LOOP;
+END $$;
+
+DROP TABLE stage_completions;
@@ -0,0 +1,24 @@
+-- Migration to add job_status_history table
+-- Records every job status transition so actual stage completion can be compared with planned dates
+
+CREATE TABLE IF NOT EXISTS job_status_history (
+    id SERIAL PRIMARY KEY,
+    job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    from_status_id INTEGER REFERENCES job_statuses(id), -- NULL for the initial status
+    to_status_id INTEGER NOT NULL REFERENCES job_statuses(id),
+    source VARCHAR(50) NOT NULL DEFAULT 'manual', -- 'manual', 'create', 'bulk_upload', 'import'
+    changed_by INTEGER REFERENCES users(id),
+    changed_by_email VARCHAR(255),
+    changed_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS job_status_history_job_id_idx ON job_status_history(job_id, changed_at);
+
+-- Seed existing jobs with their current status so every job has a starting point
+INSERT INTO job_status_history (job_id, from_status_id, to_status_id, source, changed_at)
+SELECT j.id, NULL, j.status_id, 'create', COALESCE(j.created_at, NOW())
+FROM jobs j
+WHERE NOT EXISTS (SELECT 1 FROM job_status_history h WHERE h.job_id = j.id);
+
+COMMENT ON TABLE job_status_history IS 'Timeline of job status transitions';
+COMMENT ON COLUMN job_status_history.source IS 'Where the change came from: manual, create, bulk_upload or import';
@@ -0,0 +1,13 @@
+-- Migration for the job status workflow: allowed transitions and entry requirements per status
+
+ALTER TABLE job_statuses ADD COLUMN IF NOT EXISTS allowed_transitions JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE job_statuses ADD COLUMN IF NOT EXISTS entry_requirements JSONB NOT NULL DEFAULT '{}';
+
+-- A delivered job needs its delivery date, and sending a job back a stage needs a reason
+UPDATE job_statuses
+SET entry_requirements = '{"requiredFields": ["deliveryDate"]}'
+WHERE name = 'delivered' AND entry_requirements = '{}';
+
+UPDATE job_statuses
+SET entry_requirements = '{"requiredFields": [], "commentOnBackward": true}'
+WHERE name IN ('not-assigned', 'nesting-complete', 'machining-complete', 'assembly-complete') AND entry_requirements = '{}';
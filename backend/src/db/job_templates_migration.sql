@@ -0,0 +1,30 @@
+-- Migration for job templates: named job sets generated per unit for a project
+-- Applying a template to units L1-01..L1-12 creates one job per unit per template item
+
+CREATE TABLE IF NOT EXISTS job_templates (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL UNIQUE,
+    description TEXT,
+    created_by INTEGER REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS job_template_items (
+    id SERIAL PRIMARY KEY,
+    template_id INTEGER NOT NULL REFERENCES job_templates(id) ON DELETE CASCADE,
+    items VARCHAR(255) NOT NULL,
+    type VARCHAR(255),
+    status_id INTEGER REFERENCES job_statuses(id) ON DELETE SET NULL,
+    delivery_offset INTEGER NOT NULL DEFAULT 0 CHECK (delivery_offset >= 0),
+    nesting_offset INTEGER CHECK (nesting_offset >= 0),
+    machining_offset INTEGER CHECK (machining_offset >= 0),
+    assembly_offset INTEGER CHECK (assembly_offset >= 0),
+    order_index INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_template_items_template ON job_template_items(template_id, order_index);
+
+COMMENT ON TABLE job_templates IS 'Named job sets repeated per unit, e.g. kitchen, vanities, laundry and wardrobes';
+COMMENT ON COLUMN job_template_items.delivery_offset IS 'Working days before the target delivery date this job is delivered';
+COMMENT ON COLUMN job_template_items.nesting_offset IS 'Working days before the job''s delivery date; NULL uses the configured lead time';
@@ -0,0 +1,8 @@
+-- The legacy jobs.status column follows status_id: the status name for the built-in statuses, NULL for any other
+
+UPDATE jobs j
+SET status = CASE WHEN s.name = ANY(enum_range(NULL::job_status)::text[]) THEN s.name::job_status END
+FROM job_statuses s
+WHERE s.id = j.status_id;
+
+COMMENT ON COLUMN jobs.status IS 'Legacy: the status name when status_id is a built-in status, else NULL. Not read; use status_id';
@@ -0,0 +1,44 @@
+-- Migration for the notification service: per-user preferences and the email outbox
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    event VARCHAR(50) NOT NULL,
+    email BOOLEAN NOT NULL,
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT notification_preferences_user_event_unique UNIQUE (user_id, event)
+);
+
+CREATE TABLE IF NOT EXISTS notification_outbox (
+    id SERIAL PRIMARY KEY,
+    event VARCHAR(50) NOT NULL,
+    user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    recipient VARCHAR(255) NOT NULL,
+    subject VARCHAR(255) NOT NULL,
+    html TEXT NOT NULL,
+    text TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    last_error TEXT,
+    sent_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- The outbox worker picks up pending emails that are due
+CREATE INDEX IF NOT EXISTS notification_outbox_due_idx ON notification_outbox(status, next_attempt_at);
+
+-- The overdue jobs digest opt-in moves from users.exception_digest to a preference
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'exception_digest'
+  ) THEN
+    INSERT INTO notification_preferences (user_id, event, email)
+    SELECT id, 'overdue_digest', true FROM users WHERE exception_digest
+    ON CONFLICT (user_id, event) DO NOTHING;
+  END IF;
+END $$;
+
+ALTER TABLE users DROP COLUMN IF EXISTS exception_digest;
@@ -0,0 +1,36 @@
+-- Migration for project locations: buildings contain levels, levels contain units
+-- Jobs keep their free-text unit and can also link to a unit, so progress rolls up per level and building
+
+CREATE TABLE IF NOT EXISTS project_buildings (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    order_index INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS project_levels (
+    id SERIAL PRIMARY KEY,
+    building_id INTEGER NOT NULL REFERENCES project_buildings(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    order_index INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS project_units (
+    id SERIAL PRIMARY KEY,
+    level_id INTEGER NOT NULL REFERENCES project_levels(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    order_index INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_buildings_project ON project_buildings(project_id, order_index);
+CREATE INDEX IF NOT EXISTS idx_project_levels_building ON project_levels(building_id, order_index);
+CREATE INDEX IF NOT EXISTS idx_project_units_level ON project_units(level_id, order_index);
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS unit_id INTEGER REFERENCES project_units(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS jobs_unit_id_idx ON jobs(unit_id);
+
+COMMENT ON TABLE project_units IS 'Units of a project; names are unique within the project (ignoring case)';
+COMMENT ON COLUMN jobs.unit_id IS 'Project unit the job belongs to; jobs.unit holds the unit name';
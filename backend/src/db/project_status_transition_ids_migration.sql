@@ -0,0 +1,14 @@
+-- Project status allowed_transitions hold status ids, like job statuses, instead of names
+
+UPDATE project_statuses ps
+SET allowed_transitions = (
+    SELECT COALESCE(jsonb_agg(target.id ORDER BY target.order_index, target.id), '[]'::jsonb)
+    FROM jsonb_array_elements_text(ps.allowed_transitions) AS value
+    JOIN project_statuses target ON target.name = value
+)
+WHERE EXISTS (
+    SELECT 1 FROM jsonb_array_elements(ps.allowed_transitions) AS value
+    WHERE jsonb_typeof(value) = 'string'
+);
+
+COMMENT ON COLUMN project_statuses.allowed_transitions IS 'Status ids a project in this status can move to; empty allows any';
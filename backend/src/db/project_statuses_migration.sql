@@ -0,0 +1,45 @@
+-- Migration for configurable project statuses
+-- projects.status keeps holding the status name, now checked against project_statuses
+
+CREATE TABLE IF NOT EXISTS project_statuses (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(50) NOT NULL UNIQUE,
+    display_name VARCHAR(100) NOT NULL,
+    color VARCHAR(7) NOT NULL,
+    background_color VARCHAR(7) NOT NULL,
+    order_index INTEGER NOT NULL DEFAULT 0,
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    is_final BOOLEAN NOT NULL DEFAULT FALSE,
+    is_auto_complete BOOLEAN NOT NULL DEFAULT FALSE,
+    allowed_transitions JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- The statuses the app has used so far, with the badge colours of the Projects page
+INSERT INTO project_statuses (name, display_name, color, background_color, order_index, is_default, is_final, is_auto_complete, allowed_transitions) VALUES
+    ('active', 'Active', '#166534', '#dcfce7', 0, TRUE, FALSE, FALSE, '["on-hold", "completed", "cancelled"]'),
+    ('on-hold', 'On Hold', '#854d0e', '#fef9c3', 1, FALSE, FALSE, FALSE, '["active", "cancelled"]'),
+    ('completed', 'Completed', '#1e40af', '#dbeafe', 2, FALSE, TRUE, TRUE, '["active"]'),
+    ('cancelled', 'Cancelled', '#991b1b', '#fee2e2', 3, FALSE, TRUE, FALSE, '["active"]')
+ON CONFLICT (name) DO NOTHING;
+
+-- Keep any other status already in use, so the foreign key below can be added
+UPDATE projects SET status = 'active' WHERE status IS NULL OR TRIM(status) = '';
+INSERT INTO project_statuses (name, display_name, color, background_color, order_index)
+SELECT DISTINCT p.status, INITCAP(REPLACE(p.status, '-', ' ')), '#374151', '#f3f4f6', 10
+FROM projects p
+WHERE NOT EXISTS (SELECT 1 FROM project_statuses ps WHERE ps.name = p.status)
+ON CONFLICT (name) DO NOTHING;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'projects_status_project_statuses_name_fk') THEN
+        ALTER TABLE projects
+            ADD CONSTRAINT projects_status_project_statuses_name_fk
+            FOREIGN KEY (status) REFERENCES project_statuses(name) ON UPDATE CASCADE;
+    END IF;
+END $$;
+
+COMMENT ON COLUMN project_statuses.is_auto_complete IS 'Projects move to this status when all their jobs reach a final job status';
+COMMENT ON COLUMN project_statuses.allowed_transitions IS 'Status names a project in this status can move to; empty allows any';
@@ -0,0 +1,32 @@
+-- Migration for the recycle bin: soft delete for jobs, projects and contacts
+-- Deleted rows keep deleted_at/deleted_by until restored or purged
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS deleted_by INTEGER REFERENCES users(id);
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS deleted_by INTEGER REFERENCES users(id);
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS deleted_by INTEGER REFERENCES users(id);
+
+-- Lists filter on deleted_at IS NULL; the recycle bin and auto-purge look up deleted rows
+CREATE INDEX IF NOT EXISTS jobs_deleted_at_idx ON jobs(deleted_at);
+CREATE INDEX IF NOT EXISTS projects_deleted_at_idx ON projects(deleted_at);
+CREATE INDEX IF NOT EXISTS contacts_deleted_at_idx ON contacts(deleted_at);
+
+-- Application-wide settings, one JSON value per key
+CREATE TABLE IF NOT EXISTS app_settings (
+    key VARCHAR(100) PRIMARY KEY,
+    value JSONB NOT NULL,
+    updated_by INTEGER REFERENCES users(id),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Purge recycle bin items after 30 days (0 keeps them until purged by hand)
+INSERT INTO app_settings (key, value)
+VALUES ('recycle_bin.purge_after_days', '30')
+ON CONFLICT (key) DO NOTHING;
+
+COMMENT ON COLUMN jobs.deleted_at IS 'When the job was moved to the recycle bin, NULL if not deleted';
+COMMENT ON COLUMN projects.deleted_at IS 'When the project was moved to the recycle bin, NULL if not deleted';
+COMMENT ON COLUMN contacts.deleted_at IS 'When the contact was moved to the recycle bin, NULL if not deleted';
+COMMENT ON TABLE app_settings IS 'Application-wide settings, one JSON value per key';
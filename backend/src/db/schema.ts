@@ -1,4 +1,4 @@
-import { pgTable, serial, integer, varchar, text, timestamp, boolean, pgEnum, date, jsonb } from 'drizzle-orm/pg-core';
+import { pgTable, serial, integer, varchar, text, timestamp, boolean, pgEnum, date, jsonb, index, unique } from 'drizzle-orm/pg-core';
 
 // Job statuses table for flexible status management
 export const jobStatuses = pgTable('job_statuses', {
@@ -11,10 +11,20 @@ export const jobStatuses = pgTable('job_statuses', {
   isDefault: boolean('is_default').default(false),
   isFinal: boolean('is_final').default(false), // Completion status
   targetColumns: jsonb('target_columns').default('[]'), // Array of column names to target for coloring
+  allowedTransitions: jsonb('allowed_transitions').$type<number[]>().notNull().default([]), // Status ids a job can move to; empty allows any
+  entryRequirements: jsonb('entry_requirements').$type<JobStatusRequirements>().notNull().default({}), // What a job needs to enter this status
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// Checked whenever a job enters a status
+export interface JobStatusRequirements {
+  // Job fields that must be filled in, e.g. deliveryDate for "delivered"
+  requiredFields?: Array<'nestingDate' | 'machiningDate' | 'assemblyDate' | 'deliveryDate' | 'unit' | 'type' | 'comments'>;
+  // A job moving back to this status from a later one must say why in the same save
+  commentOnBackward?: boolean;
+}
+
 // Keep the enum for backward compatibility during migration
 export const jobStatusEnum = pgEnum('job_status', [
   'not-assigned', 
@@ -115,6 +125,24 @@ export const contacts = pgTable('contacts', {
   isPrimary: boolean('is_primary').default(false),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
+  deletedAt: timestamp('deleted_at'), // Set when moved to the recycle bin
+  deletedBy: integer('deleted_by').references(() => users.id),
+});
+
+// Project statuses, configured like job statuses. projects.status holds the status name.
+export const projectStatuses = pgTable('project_statuses', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 50 }).notNull().unique(),
+  displayName: varchar('display_name', { length: 100 }).notNull(),
+  color: varchar('color', { length: 7 }).notNull(), // Hex color code
+  backgroundColor: varchar('background_color', { length: 7 }).notNull(),
+  orderIndex: integer('order_index').notNull().default(0),
+  isDefault: boolean('is_default').notNull().default(false), // New projects start here; auto-reopened projects return here
+  isFinal: boolean('is_final').notNull().default(false), // Closed: completed, cancelled, etc.
+  isAutoComplete: boolean('is_auto_complete').notNull().default(false), // Projects move here when all their jobs are final
+  allowedTransitions: jsonb('allowed_transitions').$type<number[]>().notNull().default([]), // Status ids a project can move to; empty allows any
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
 });
 
 // Projects table
@@ -122,10 +150,38 @@ export const projects = pgTable('projects', {
   id: serial('id').primaryKey(),
   name: varchar('name', { length: 255 }).notNull(),
   description: text('description'),
-  status: varchar('status', { length: 50 }).default('active'),
+  status: varchar('status', { length: 50 }).default('active').references(() => projectStatuses.name, { onUpdate: 'cascade' }),
   clientId: integer('client_id').references(() => clients.id),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
+  deletedAt: timestamp('deleted_at'), // Set when moved to the recycle bin
+  deletedBy: integer('deleted_by').references(() => users.id),
+});
+
+// Project locations: buildings contain levels, levels contain units. Jobs can link to a unit.
+export const projectBuildings = pgTable('project_buildings', {
+  id: serial('id').primaryKey(),
+  projectId: integer('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 100 }).notNull(), // Building A, Tower 1, etc.
+  orderIndex: integer('order_index').notNull().default(0),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+export const projectLevels = pgTable('project_levels', {
+  id: serial('id').primaryKey(),
+  buildingId: integer('building_id').notNull().references(() => projectBuildings.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 100 }).notNull(), // L1, Ground, B1, etc.
+  orderIndex: integer('order_index').notNull().default(0),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Unit names are unique within a project so they can be matched against jobs.unit
+export const projectUnits = pgTable('project_units', {
+  id: serial('id').primaryKey(),
+  levelId: integer('level_id').notNull().references(() => projectLevels.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 100 }).notNull(), // 101, L5-03, PH1, etc.
+  orderIndex: integer('order_index').notNull().default(0),
+  createdAt: timestamp('created_at').defaultNow(),
 });
 
 // Jobs table (replaces production_tasks + project_tasks)
@@ -133,18 +189,46 @@ export const jobs = pgTable('jobs', {
   id: serial('id').primaryKey(),
   projectId: integer('project_id').references(() => projects.id),
   unit: varchar('unit', { length: 100 }), // L5, B1, 1003, etc.
+  unitId: integer('unit_id').references(() => projectUnits.id, { onDelete: 'set null' }), // Set when linked to a project unit; unit holds its name
   type: varchar('type', { length: 255 }), // B1.28/29, All Units, SPA, etc.
   items: varchar('items', { length: 255 }).notNull(), // Substrates, Kitchen & Butlers, etc.
-  nestingDate: varchar('nesting_date', { length: 10 }), // DD/MM/YYYY format
-  machiningDate: varchar('machining_date', { length: 10 }), // DD/MM/YYYY format
-  assemblyDate: varchar('assembly_date', { length: 10 }), // DD/MM/YYYY format
-  deliveryDate: varchar('delivery_date', { length: 10 }), // DD/MM/YYYY format
+  nestingDate: date('nesting_date'), // YYYY-MM-DD
+  machiningDate: date('machining_date'), // YYYY-MM-DD
+  assemblyDate: date('assembly_date'), // YYYY-MM-DD
+  deliveryDate: date('delivery_date'), // YYYY-MM-DD
+  // When each stage was actually completed: set on entering its status, editable by supervisors
+  nestingActualDate: date('nesting_actual_date'), // YYYY-MM-DD
+  machiningActualDate: date('machining_actual_date'), // YYYY-MM-DD
+  assemblyActualDate: date('assembly_actual_date'), // YYYY-MM-DD
+  deliveryActualDate: date('delivery_actual_date'), // YYYY-MM-DD
   statusId: integer('status_id').references(() => jobStatuses.id).notNull(),
   status: jobStatusEnum('status').default('not-assigned'), // Keep for migration
   comments: text('comments'),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
-});
+  deletedAt: timestamp('deleted_at'), // Set when moved to the recycle bin
+  deletedBy: integer('deleted_by').references(() => users.id),
+}, (table) => ({
+  nestingDateIdx: index('jobs_nesting_date_idx').on(table.nestingDate),
+  machiningDateIdx: index('jobs_machining_date_idx').on(table.machiningDate),
+  assemblyDateIdx: index('jobs_assembly_date_idx').on(table.assemblyDate),
+  deliveryDateIdx: index('jobs_delivery_date_idx').on(table.deliveryDate),
+  unitIdx: index('jobs_unit_id_idx').on(table.unitId),
+}));
+
+// Job status history - one row per status transition, including the initial status
+export const jobStatusHistory = pgTable('job_status_history', {
+  id: serial('id').primaryKey(),
+  jobId: integer('job_id').references(() => jobs.id, { onDelete: 'cascade' }).notNull(),
+  fromStatusId: integer('from_status_id').references(() => jobStatuses.id), // NULL for the initial status
+  toStatusId: integer('to_status_id').references(() => jobStatuses.id).notNull(),
+  source: varchar('source', { length: 50 }).notNull().default('manual'), // manual, create, bulk_upload, bulk_edit, import, revert, template
+  changedBy: integer('changed_by').references(() => users.id),
+  changedByEmail: varchar('changed_by_email', { length: 255 }),
+  changedAt: timestamp('changed_at').defaultNow().notNull(),
+}, (table) => ({
+  jobIdx: index('job_status_history_job_id_idx').on(table.jobId, table.changedAt),
+}));
 
 // Pinned projects table
 export const pinnedProjects = pgTable('pinned_projects', {
@@ -189,6 +273,69 @@ export const leadTimes = pgTable('lead_times', {
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// Workshop capacity - jobs that can be handled per stage per working day
+export const stageCapacities = pgTable('stage_capacities', {
+  id: serial('id').primaryKey(),
+  stage: varchar('stage', { length: 20 }).notNull().unique(), // nesting, machining, assembly, delivery
+  unitsPerDay: integer('units_per_day').notNull().default(0), // 0 = unlimited
+  enforcement: varchar('enforcement', { length: 10 }).notNull().default('warn'), // warn or block
+  isActive: boolean('is_active').default(true),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Named job sets repeated per unit, e.g. "Standard apartment": kitchen, vanities, laundry, wardrobes
+export const jobTemplates = pgTable('job_templates', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 255 }).notNull().unique(),
+  description: text('description'),
+  createdBy: integer('created_by').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// One job per unit when a template is applied. Offsets are working days.
+export const jobTemplateItems = pgTable('job_template_items', {
+  id: serial('id').primaryKey(),
+  templateId: integer('template_id').notNull().references(() => jobTemplates.id, { onDelete: 'cascade' }),
+  items: varchar('items', { length: 255 }).notNull(), // Kitchen & Butlers, Vanities, etc.
+  type: varchar('type', { length: 255 }),
+  statusId: integer('status_id').references(() => jobStatuses.id, { onDelete: 'set null' }), // Null = not-assigned
+  deliveryOffset: integer('delivery_offset').notNull().default(0), // Delivered this many days before the target date
+  nestingOffset: integer('nesting_offset'), // Days before this job's delivery; null = configured lead time
+  machiningOffset: integer('machining_offset'),
+  assemblyOffset: integer('assembly_offset'),
+  orderIndex: integer('order_index').notNull().default(0),
+});
+
+// Application-wide settings, one row per key
+export const appSettings = pgTable('app_settings', {
+  key: varchar('key', { length: 100 }).primaryKey(),
+  value: jsonb('value').notNull(),
+  updatedBy: integer('updated_by').references(() => users.id),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Saved column mappings for recurring import sources, e.g. one builder's schedule layout
+export const importMappingTemplates = pgTable('import_mapping_templates', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 255 }).notNull(),
+  importType: varchar('import_type', { length: 20 }).notNull(), // clients, projects or jobs
+  columnMapping: jsonb('column_mapping').$type<Record<string, string>>().notNull(), // Spreadsheet column -> import field
+  transforms: jsonb('transforms').$type<ImportValueTransforms>().notNull().default({}), // Status aliases, date format
+  createdBy: integer('created_by').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Value transforms applied while importing with a mapping template
+export interface ImportValueTransforms {
+  // Source status text (any case) -> job status name or display name
+  statusAliases?: Record<string, string>;
+  // How ambiguous dates like 03/04/2025 are read; DD/MM/YYYY when not set
+  dateFormat?: 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'DD/MM/YY' | 'YYYY-MM-DD';
+}
+
 // User column preferences table for customizable table columns
 export const userColumnPreferences = pgTable('user_column_preferences', {
   id: serial('id').primaryKey(),
@@ -202,6 +349,52 @@ export const userColumnPreferences = pgTable('user_column_preferences', {
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// Which notifications each user gets, one row per event they changed from its default
+export const notificationPreferences = pgTable('notification_preferences', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  event: varchar('event', { length: 50 }).notNull(), // project_status_changed, delivery_date_changed, ...
+  email: boolean('email'), // Null = the event's default
+  inApp: boolean('in_app'),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  userEventUnique: unique('notification_preferences_user_event_unique').on(table.userId, table.event),
+}));
+
+// In-app notifications shown under the bell in the top bar
+export const notifications = pgTable('notifications', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  event: varchar('event', { length: 50 }).notNull(),
+  title: varchar('title', { length: 255 }).notNull(),
+  body: text('body'),
+  projectId: integer('project_id').references(() => projects.id, { onDelete: 'cascade' }), // Opens ProjectDetails
+  jobId: integer('job_id').references(() => jobs.id, { onDelete: 'cascade' }), // Opens JobDetails
+  readAt: timestamp('read_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index('notifications_user_id_idx').on(table.userId, table.createdAt),
+}));
+
+// Emails waiting to go out. Rendered when queued; the outbox worker sends them and retries failures.
+export const notificationOutbox = pgTable('notification_outbox', {
+  id: serial('id').primaryKey(),
+  event: varchar('event', { length: 50 }).notNull(),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'set null' }),
+  recipient: varchar('recipient', { length: 255 }).notNull(),
+  subject: varchar('subject', { length: 255 }).notNull(),
+  html: text('html').notNull(),
+  text: text('text'),
+  status: varchar('status', { length: 20 }).notNull().default('pending'), // pending, sent or failed
+  attempts: integer('attempts').notNull().default(0),
+  nextAttemptAt: timestamp('next_attempt_at').notNull().defaultNow(),
+  lastError: text('last_error'),
+  sentAt: timestamp('sent_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  dueIdx: index('notification_outbox_due_idx').on(table.status, table.nextAttemptAt),
+}));
+
 // Audit logs table for tracking all data changes
 export const auditLogs = pgTable('audit_logs', {
   id: serial('id').primaryKey(),
@@ -215,6 +408,7 @@ export const auditLogs = pgTable('audit_logs', {
   userEmail: varchar('user_email', { length: 255 }),
   ipAddress: varchar('ip_address', { length: 45 }), // Supports both IPv4 and IPv6
   userAgent: text('user_agent'),
+  revertedFromId: integer('reverted_from_id'), // Set on changes made by reverting this audit entry
   timestamp: timestamp('timestamp').defaultNow(),
   createdAt: timestamp('created_at').defaultNow(),
 });
@@ -247,10 +441,17 @@ export type Client = typeof clients.$inferSelect;
 export type NewClient = typeof clients.$inferInsert;
 export type Contact = typeof contacts.$inferSelect;
 export type NewContact = typeof contacts.$inferInsert;
+export type ProjectStatus = typeof projectStatuses.$inferSelect;
+export type NewProjectStatus = typeof projectStatuses.$inferInsert;
 export type Project = typeof projects.$inferSelect;
 export type NewProject = typeof projects.$inferInsert;
+export type ProjectBuilding = typeof projectBuildings.$inferSelect;
+export type ProjectLevel = typeof projectLevels.$inferSelect;
+export type ProjectUnit = typeof projectUnits.$inferSelect;
 export type Job = typeof jobs.$inferSelect;
 export type NewJob = typeof jobs.$inferInsert;
+export type JobStatusHistoryEntry = typeof jobStatusHistory.$inferSelect;
+export type NewJobStatusHistoryEntry = typeof jobStatusHistory.$inferInsert;
 export type PinnedProject = typeof pinnedProjects.$inferSelect;
 export type NewPinnedProject = typeof pinnedProjects.$inferInsert;
 export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
@@ -261,8 +462,22 @@ export type JobStatus = typeof jobStatuses.$inferSelect;
 export type NewJobStatus = typeof jobStatuses.$inferInsert;
 export type LeadTime = typeof leadTimes.$inferSelect;
 export type NewLeadTime = typeof leadTimes.$inferInsert;
+export type StageCapacity = typeof stageCapacities.$inferSelect;
+export type NewStageCapacity = typeof stageCapacities.$inferInsert;
+export type JobTemplate = typeof jobTemplates.$inferSelect;
+export type NewJobTemplate = typeof jobTemplates.$inferInsert;
+export type JobTemplateItem = typeof jobTemplateItems.$inferSelect;
+export type NewJobTemplateItem = typeof jobTemplateItems.$inferInsert;
+export type AppSetting = typeof appSettings.$inferSelect;
+export type ImportMappingTemplate = typeof importMappingTemplates.$inferSelect;
+export type NewImportMappingTemplate = typeof importMappingTemplates.$inferInsert;
 export type UserColumnPreference = typeof userColumnPreferences.$inferSelect;
 export type NewUserColumnPreference = typeof userColumnPreferences.$inferInsert;
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+export type Notification = typeof notifications.$inferSelect;
+export type NewNotification = typeof notifications.$inferInsert;
+export type NotificationOutboxEntry = typeof notificationOutbox.$inferSelect;
+export type NewNotificationOutboxEntry = typeof notificationOutbox.$inferInsert;
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type NewAuditLog = typeof auditLogs.$inferInsert;
 export type LoginActivity = typeof loginActivity.$inferSelect;
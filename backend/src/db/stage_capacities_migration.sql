@@ -0,0 +1,24 @@
+-- Create stage capacities table for workshop capacity planning
+-- units_per_day is the number of jobs a stage can handle on a working day (0 = unlimited)
+CREATE TABLE IF NOT EXISTS stage_capacities (
+  id SERIAL PRIMARY KEY,
+  stage VARCHAR(20) NOT NULL UNIQUE,
+  units_per_day INTEGER NOT NULL DEFAULT 0,
+  enforcement VARCHAR(10) NOT NULL DEFAULT 'warn',
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Add constraints to ensure values are valid
+ALTER TABLE stage_capacities ADD CONSTRAINT check_stage CHECK (stage IN ('nesting', 'machining', 'assembly', 'delivery'));
+ALTER TABLE stage_capacities ADD CONSTRAINT check_enforcement CHECK (enforcement IN ('warn', 'block'));
+
+-- Insert one row per stage, unlimited until configured
+INSERT INTO stage_capacities (stage, units_per_day, enforcement, is_active)
+VALUES
+  ('nesting', 0, 'warn', true),
+  ('machining', 0, 'warn', true),
+  ('assembly', 0, 'warn', true),
+  ('delivery', 0, 'warn', true)
+ON CONFLICT (stage) DO NOTHING;
@@ -26,6 +26,16 @@ import userColumnPreferencesRoutes from './routes/userColumnPreferences.js';
 import importRoutes from './routes/import.js';
 import auditRoutes from './routes/audit.js';
 import loginActivityRoutes from './routes/loginActivity.js';
+import capacityRoutes from './routes/capacity.js';
+import exportRoutes from './routes/exports.js';
+import eventRoutes from './routes/events.js';
+import recycleBinRoutes from './routes/recycleBin.js';
+import jobTemplateRoutes from './routes/jobTemplates.js';
+import projectStatusRoutes from './routes/projectStatuses.js';
+import notificationRoutes from './routes/notifications.js';
+import { startRecycleBinPurge } from './services/recycleBinService.js';
+import { startExceptionDigest } from './services/jobExceptionsService.js';
+import { startNotificationOutbox } from './services/notificationService.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -63,6 +73,7 @@ if (process.env.FRONTEND_URL) {
 app.use(cors({
   origin: allowedOrigins,
   credentials: true,
+  exposedHeaders: ['Content-Disposition', 'X-Export-Row-Count', 'ETag'],
 }));
 app.use(express.json({ limit: '10mb' })); // Add size limit
 app.use(express.urlencoded({ limit: '10mb', extended: true })); // Add size limit
@@ -100,6 +111,13 @@ app.use('/api/user-column-preferences', userColumnPreferencesRoutes);
 app.use('/api/import', importRoutes);
 app.use('/api/audit', auditRoutes);
 app.use('/api/login-activity', loginActivityRoutes);
+app.use('/api/capacity', capacityRoutes);
+app.use('/api/exports', exportRoutes);
+app.use('/api/events', eventRoutes);
+app.use('/api/recycle-bin', recycleBinRoutes);
+app.use('/api/job-templates', jobTemplateRoutes);
+app.use('/api/project-statuses', projectStatusRoutes);
+app.use('/api/notifications', notificationRoutes);
 
 // 404 handler
 app.use('*', (req, res) => {
@@ -126,4 +144,7 @@ app.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
   console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`🔗 Health check: http://localhost:${PORT}/health`);
+  startRecycleBinPurge();
+  startExceptionDigest();
+  startNotificationOutbox();
 });
@@ -0,0 +1,115 @@
+import postgres from 'postgres';
+import dotenv from 'dotenv';
+import { normalizeImportDate } from './utils/dates.js';
+
+dotenv.config();
+
+// Converts jobs.nesting_date / machining_date / assembly_date / delivery_date from
+// DD/MM/YYYY varchar(10) to real date columns.
+//
+// Usage: tsx src/migrateJobDates.ts [--dry-run], or node dist/migrateJobDates.js after a build
+//
+// Must run before `drizzle-kit push`, which would try the type change itself and fail on
+// DD/MM/YYYY values. `npm run deploy` runs the built script first; once the columns are
+// dates it does nothing.
+//
+// Values that cannot be parsed are reported and cleared (the original value is
+// printed so it can be re-entered by hand). The whole conversion runs in a single
+// transaction, so a failure leaves the table untouched.
+
+const connectionString = process.env.DATABASE_URL;
+if (!connectionString) {
+  throw new Error('DATABASE_URL is not set');
+}
+
+const dryRun = process.argv.includes('--dry-run');
+const client = postgres(connectionString, { prepare: false });
+
+const DATE_COLUMNS = ['nesting_date', 'machining_date', 'assembly_date', 'delivery_date'] as const;
+
+interface UnparseableDate {
+  jobId: number;
+  column: string;
+  value: string;
+}
+
+async function migrateJobDates() {
+  try {
+    const columnTypes = await client<{ column_name: string; data_type: string }[]>`
+      SELECT column_name, data_type
+      FROM information_schema.columns
+      WHERE table_name = 'jobs' AND column_name IN ${client(DATE_COLUMNS as unknown as string[])}
+    `;
+
+    const pending = DATE_COLUMNS.filter(column =>
+      columnTypes.some(c => c.column_name === column && c.data_type !== 'date')
+    );
+
+    if (pending.length === 0) {
+      console.log('✅ Job date columns are already of type date, nothing to do');
+      return;
+    }
+
+    console.log(`Converting columns: ${pending.join(', ')}${dryRun ? ' (dry run)' : ''}`);
+
+    const rows = await client<Record<string, string | null>[]>`
+      SELECT id, ${client(pending as unknown as string[])} FROM jobs ORDER BY id
+    `;
+
+    const converted = new Map<number, Record<string, string | null>>();
+    const unparseable: UnparseableDate[] = [];
+
+    for (const row of rows) {
+      const jobId = Number(row.id);
+      const values: Record<string, string | null> = {};
+
+      for (const column of pending) {
+        const raw = row[column];
+        try {
+          values[column] = normalizeImportDate(raw, column);
+        } catch {
+          values[column] = null;
+          unparseable.push({ jobId, column, value: String(raw) });
+        }
+      }
+
+      converted.set(jobId, values);
+    }
+
+    console.log(`Parsed ${rows.length} jobs, ${unparseable.length} unparseable values`);
+    for (const entry of unparseable) {
+      console.log(`  ⚠️  Job ${entry.jobId} ${entry.column}: "${entry.value}" will be cleared`);
+    }
+
+    if (dryRun) {
+      console.log('Dry run complete, no changes written');
+      return;
+    }
+
+    await client.begin(async (sql) => {
+      for (const column of pending) {
+        const tempColumn = `${column}_new`;
+        await sql`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS ${sql(tempColumn)} DATE`;
+
+        for (const [jobId, values] of converted) {
+          if (values[column] === null) continue;
+          await sql`UPDATE jobs SET ${sql(tempColumn)} = ${values[column]} WHERE id = ${jobId}`;
+        }
+
+        await sql`ALTER TABLE jobs DROP COLUMN ${sql(column)}`;
+        await sql`ALTER TABLE jobs RENAME COLUMN ${sql(tempColumn)} TO ${sql(column)}`;
+        await sql`CREATE INDEX IF NOT EXISTS ${sql(`jobs_${column}_idx`)} ON jobs (${sql(column)})`;
+        console.log(`✅ ${column} converted`);
+      }
+    });
+
+    console.log('🎉 Job date migration completed successfully!');
+  } catch (error) {
+    console.error('❌ Job date migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await client.end();
+  }
+}
+
+migrateJobDates();
@@ -1,11 +1,57 @@
 import { Router } from 'express';
 import { db } from '../db/index.js';
-import { eq, and, gte, lte, sql } from 'drizzle-orm';
+import { eq, and, gte, lte, sql, isNull } from 'drizzle-orm';
 import { jobs, projects, clients, jobStatuses } from '../db/schema.js';
 import { authenticateToken } from '../middleware/auth.js';
+import { InvalidDateError, getBusinessToday, parseIsoDate, toIsoDate, type JobDateField } from '../utils/dates.js';
+import {
+  getThroughputByWeek,
+  getOnTimeDelivery,
+  getLateJobsByClient,
+  getAchievedLeadTimes,
+  getJobsPerProject,
+  getStageSlippage,
+  type ReportRange,
+} from '../services/reportsService.js';
+import { projectJobsJoin, clientProjectsJoin } from '../services/listConfigs.js';
 
 const router = Router();
 
+type JobDateColumn = typeof jobs[JobDateField];
+
+const MAX_REPORT_DAYS = 731;
+
+/**
+ * Read the report date range from ?from=&to= (YYYY-MM-DD), defaulting to the current month
+ */
+const getReportRange = (query: Record<string, unknown>): ReportRange => {
+  // A repeated parameter arrives as an array
+  for (const field of ['from', 'to']) {
+    if (query[field] !== undefined && typeof query[field] !== 'string') {
+      throw new InvalidDateError(query[field], field);
+    }
+  }
+  const today = parseIsoDate(getBusinessToday())!;
+  const from = (query.from as string | undefined) || toIsoDate(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1)));
+  const to = (query.to as string | undefined) || toIsoDate(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 0)));
+
+  const fromDate = parseIsoDate(from);
+  if (!fromDate) throw new InvalidDateError(from, 'from');
+  const toDate = parseIsoDate(to);
+  if (!toDate) throw new InvalidDateError(to, 'to');
+
+  if (toDate < fromDate) {
+    throw new RangeError('The to date must be on or after the from date');
+  }
+  if ((toDate.getTime() - fromDate.getTime()) / (1000 * 60 * 60 * 24) + 1 > MAX_REPORT_DAYS) {
+    throw new RangeError(`Date range cannot exceed ${MAX_REPORT_DAYS} days`);
+  }
+
+  return { from: toIsoDate(fromDate), to: toIsoDate(toDate) };
+};
+
+const isRangeError = (error: unknown) => error instanceof InvalidDateError || error instanceof RangeError;
+
 // Get dashboard analytics data
 router.get('/analytics', authenticateToken, async (req, res) => {
   try {
@@ -38,94 +84,78 @@ router.get('/analytics', authenticateToken, async (req, res) => {
         break;
     }
 
-    // Format dates to DD/MM/YYYY for comparison with job date fields
+    // Job stage dates are date columns, so the range is compared as YYYY-MM-DD in SQL
     const formatDateForComparison = (date: Date) => {
       const day = String(date.getDate()).padStart(2, '0');
       const month = String(date.getMonth() + 1).padStart(2, '0');
       const year = date.getFullYear();
-      return `${day}/${month}/${year}`;
+      return `${year}-${month}-${day}`;
     };
 
     const startDateStr = formatDateForComparison(startDate);
     const endDateStr = formatDateForComparison(endDate);
 
-    // For day period, we only check exact date match
-    // For other periods, we need to check date ranges
-    let dateCondition;
-    if (period === 'day') {
-      const targetDateStr = formatDateForComparison(targetDate);
-      dateCondition = (dateField: any) => eq(dateField, targetDateStr);
-    } else {
-      // For ranges, we'll need to do string comparison which is tricky with DD/MM/YYYY
-      // For now, let's use exact date matching and expand later
-      dateCondition = (dateField: any) => eq(dateField, startDateStr);
-    }
+    const dateCondition = (dateField: JobDateColumn) => and(gte(dateField, startDateStr), lte(dateField, endDateStr));
+    const inRangeCount = (dateField: JobDateColumn) =>
+      sql<number>`COUNT(*) FILTER (WHERE ${dateField} BETWEEN ${startDateStr} AND ${endDateStr})`.mapWith(Number);
 
-    // Get jobs with full relationship data
-    const allJobsData = await db
+    // Jobs whose stage date falls in the range, with project and client details
+    const getJobsInRange = (dateField: JobDateColumn) => db
       .select({
         jobId: jobs.id,
-        projectId: jobs.projectId,
-        clientId: projects.clientId,
-        unit: jobs.unit,
-        type: jobs.type,
         items: jobs.items,
-        nestingDate: jobs.nestingDate,
-        machiningDate: jobs.machiningDate,
-        assemblyDate: jobs.assemblyDate,
-        deliveryDate: jobs.deliveryDate,
-        status: jobs.status,
-        comments: jobs.comments,
         projectName: projects.name,
         clientName: clients.name,
-        clientCompany: clients.company,
-        createdAt: jobs.createdAt,
+        date: dateField,
       })
       .from(jobs)
       .leftJoin(projects, eq(jobs.projectId, projects.id))
-      .leftJoin(clients, eq(projects.clientId, clients.id));
-
-    // Filter jobs by date in application logic (since DB date comparison is complex with DD/MM/YYYY strings)
-    const isDateInRange = (dateStr: string, start: Date, end: Date) => {
-      if (!dateStr) return false;
-      
-      const parts = dateStr.split('/');
-      if (parts.length !== 3) return false;
-      
-      const day = parseInt(parts[0], 10);
-      const month = parseInt(parts[1], 10) - 1; // JS months are 0-indexed
-      const year = parseInt(parts[2], 10);
-      
-      const jobDate = new Date(year, month, day);
-      return jobDate >= start && jobDate <= end;
-    };
-
-    const filterJobsByDate = (jobs: any[], dateField: string) => {
-      if (period === 'day') {
-        const targetDateStr = formatDateForComparison(targetDate);
-        return jobs.filter(job => job[dateField] === targetDateStr);
-      } else {
-        return jobs.filter(job => isDateInRange(job[dateField], startDate, endDate));
-      }
-    };
+      .leftJoin(clients, eq(projects.clientId, clients.id))
+      .where(and(dateCondition(dateField), isNull(jobs.deletedAt)))
+      .orderBy(dateField, jobs.id);
 
-    // Calculate metrics
-    const nestedJobs = filterJobsByDate(allJobsData, 'nestingDate');
-    const machinedJobs = filterJobsByDate(allJobsData, 'machiningDate');
-    const assembledJobs = filterJobsByDate(allJobsData, 'assemblyDate');
-    const deliveredJobs = filterJobsByDate(allJobsData, 'deliveryDate');
+    const [nestedJobs, machinedJobs, assembledJobs, deliveredJobs, projectCounts, [totals]] = await Promise.all([
+      getJobsInRange(jobs.nestingDate),
+      getJobsInRange(jobs.machiningDate),
+      getJobsInRange(jobs.assemblyDate),
+      getJobsInRange(jobs.deliveryDate),
+      // Per-project job counts and stage activity in the range
+      db
+        .select({
+          clientId: projects.clientId,
+          clientName: clients.name,
+          clientCompany: clients.company,
+          projectId: projects.id,
+          projectName: projects.name,
+          jobCount: sql<number>`COUNT(*)`.mapWith(Number),
+          nested: inRangeCount(jobs.nestingDate),
+          machined: inRangeCount(jobs.machiningDate),
+          assembled: inRangeCount(jobs.assemblyDate),
+          delivered: inRangeCount(jobs.deliveryDate),
+        })
+        .from(jobs)
+        .innerJoin(projects, eq(jobs.projectId, projects.id))
+        .innerJoin(clients, eq(projects.clientId, clients.id))
+        .where(isNull(jobs.deletedAt))
+        .groupBy(projects.clientId, clients.name, clients.company, projects.id, projects.name),
+      db
+        .select({
+          totalJobs: sql<number>`COUNT(*)`.mapWith(Number),
+          totalProjects: sql<number>`COUNT(DISTINCT ${jobs.projectId})`.mapWith(Number),
+        })
+        .from(jobs)
+        .where(isNull(jobs.deletedAt)),
+    ]);
 
     // Group by client for detailed breakdown
-    const clientBreakdown = allJobsData.reduce((acc, job) => {
-      if (!job.clientId || !job.projectId) return acc;
-      
-      const clientKey = job.clientId;
+    const clientBreakdown = projectCounts.reduce((acc, row) => {
+      const clientKey = row.clientId!;
       if (!acc[clientKey]) {
         acc[clientKey] = {
-          clientId: job.clientId,
-          clientName: job.clientName,
-          clientCompany: job.clientCompany,
-          projects: {},
+          clientId: row.clientId,
+          clientName: row.clientName,
+          clientCompany: row.clientCompany,
+          projects: [],
           totalJobs: 0,
           nested: 0,
           machined: 0,
@@ -134,38 +164,19 @@ router.get('/analytics', authenticateToken, async (req, res) => {
         };
       }
 
-      // Track projects under this client
-      if (!acc[clientKey].projects[job.projectId]) {
-        acc[clientKey].projects[job.projectId] = {
-          projectId: job.projectId,
-          projectName: job.projectName,
-          jobCount: 0,
-        };
-      }
-      acc[clientKey].projects[job.projectId].jobCount++;
-      acc[clientKey].totalJobs++;
-
-      // Count activities in the date range
-      if (job.nestingDate && isDateInRange(job.nestingDate, startDate, endDate)) {
-        acc[clientKey].nested++;
-      }
-      if (job.machiningDate && isDateInRange(job.machiningDate, startDate, endDate)) {
-        acc[clientKey].machined++;
-      }
-      if (job.assemblyDate && isDateInRange(job.assemblyDate, startDate, endDate)) {
-        acc[clientKey].assembled++;
-      }
-      if (job.deliveryDate && isDateInRange(job.deliveryDate, startDate, endDate)) {
-        acc[clientKey].delivered++;
-      }
+      acc[clientKey].projects.push({
+        projectId: row.projectId,
+        projectName: row.projectName,
+        jobCount: row.jobCount,
+      });
+      acc[clientKey].totalJobs += row.jobCount;
+      acc[clientKey].nested += row.nested;
+      acc[clientKey].machined += row.machined;
+      acc[clientKey].assembled += row.assembled;
+      acc[clientKey].delivered += row.delivered;
 
       return acc;
-    }, {} as any);
-
-    // Convert projects object to array
-    Object.values(clientBreakdown).forEach((client: any) => {
-      client.projects = Object.values(client.projects);
-    });
+    }, {} as Record<number, any>);
 
     const analytics = {
       period,
@@ -179,40 +190,16 @@ router.get('/analytics', authenticateToken, async (req, res) => {
         machined: machinedJobs.length,
         assembled: assembledJobs.length,
         delivered: deliveredJobs.length,
-        totalJobs: allJobsData.length,
+        totalJobs: totals.totalJobs,
         totalClients: Object.keys(clientBreakdown).length,
-        totalProjects: new Set(allJobsData.map(job => job.projectId)).size,
+        totalProjects: totals.totalProjects,
       },
       clientBreakdown: Object.values(clientBreakdown),
       recentActivity: {
-        nested: nestedJobs.slice(0, 10).map(job => ({
-          jobId: job.jobId,
-          items: job.items,
-          projectName: job.projectName,
-          clientName: job.clientName,
-          date: job.nestingDate,
-        })),
-        machined: machinedJobs.slice(0, 10).map(job => ({
-          jobId: job.jobId,
-          items: job.items,
-          projectName: job.projectName,
-          clientName: job.clientName,
-          date: job.machiningDate,
-        })),
-        assembled: assembledJobs.slice(0, 10).map(job => ({
-          jobId: job.jobId,
-          items: job.items,
-          projectName: job.projectName,
-          clientName: job.clientName,
-          date: job.assemblyDate,
-        })),
-        delivered: deliveredJobs.slice(0, 10).map(job => ({
-          jobId: job.jobId,
-          items: job.items,
-          projectName: job.projectName,
-          clientName: job.clientName,
-          date: job.deliveryDate,
-        })),
+        nested: nestedJobs.slice(0, 10),
+        machined: machinedJobs.slice(0, 10),
+        assembled: assembledJobs.slice(0, 10),
+        delivered: deliveredJobs.slice(0, 10),
       },
     };
 
@@ -223,28 +210,124 @@ router.get('/analytics', authenticateToken, async (req, res) => {
   }
 });
 
-// Get client summary with project and job counts
+// Get client summary with project and job counts, and project counts per project status name
 router.get('/clients-summary', authenticateToken, async (req, res) => {
   try {
-    const clientsSummary = await db
-      .select({
-        clientId: clients.id,
-        clientName: clients.name,
-        clientCompany: clients.company,
-        projectCount: sql<number>`COUNT(DISTINCT ${projects.id})`,
-        jobCount: sql<number>`COUNT(${jobs.id})`,
-      })
-      .from(clients)
-      .leftJoin(projects, eq(clients.id, projects.clientId))
-      .leftJoin(jobs, eq(projects.id, jobs.projectId))
-      .groupBy(clients.id, clients.name, clients.company)
-      .orderBy(clients.name);
+    const [clientsSummary, statusCounts] = await Promise.all([
+      db
+        .select({
+          clientId: clients.id,
+          clientName: clients.name,
+          clientCompany: clients.company,
+          projectCount: sql<number>`COUNT(DISTINCT ${projects.id})`,
+          jobCount: sql<number>`COUNT(${jobs.id})`,
+        })
+        .from(clients)
+        .leftJoin(projects, clientProjectsJoin)
+        .leftJoin(jobs, projectJobsJoin)
+        .groupBy(clients.id, clients.name, clients.company)
+        .orderBy(clients.name),
+      db
+        .select({
+          clientId: projects.clientId,
+          status: projects.status,
+          projectCount: sql<number>`count(*)::int`,
+        })
+        .from(projects)
+        .where(isNull(projects.deletedAt))
+        .groupBy(projects.clientId, projects.status),
+    ]);
 
-    res.json(clientsSummary);
+    res.json(clientsSummary.map(client => ({
+      ...client,
+      projectStatusCounts: Object.fromEntries(
+        statusCounts
+          .filter(count => count.clientId === client.clientId && count.status !== null)
+          .map(count => [count.status, count.projectCount])
+      ),
+    })));
   } catch (error) {
     console.error('Error fetching clients summary:', error);
     res.status(500).json({ error: 'Failed to fetch clients summary' });
   }
 });
 
+// Jobs completing each stage per week
+router.get('/throughput', authenticateToken, async (req, res) => {
+  try {
+    res.json(await getThroughputByWeek(getReportRange(req.query)));
+  } catch (error) {
+    if (isRangeError(error)) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+    console.error('Error fetching throughput:', error);
+    res.status(500).json({ error: 'Failed to fetch throughput' });
+  }
+});
+
+// On-time delivery rate for jobs delivered in the range
+router.get('/on-time', authenticateToken, async (req, res) => {
+  try {
+    res.json(await getOnTimeDelivery(getReportRange(req.query)));
+  } catch (error) {
+    if (isRangeError(error)) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+    console.error('Error fetching on-time delivery:', error);
+    res.status(500).json({ error: 'Failed to fetch on-time delivery' });
+  }
+});
+
+// Late and overdue jobs grouped by client
+router.get('/late-by-client', authenticateToken, async (req, res) => {
+  try {
+    res.json(await getLateJobsByClient(getReportRange(req.query)));
+  } catch (error) {
+    if (isRangeError(error)) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+    console.error('Error fetching late jobs by client:', error);
+    res.status(500).json({ error: 'Failed to fetch late jobs by client' });
+  }
+});
+
+// Average working days actually taken between stages
+router.get('/lead-times', authenticateToken, async (req, res) => {
+  try {
+    res.json(await getAchievedLeadTimes(getReportRange(req.query)));
+  } catch (error) {
+    if (isRangeError(error)) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+    console.error('Error fetching achieved lead times:', error);
+    res.status(500).json({ error: 'Failed to fetch achieved lead times' });
+  }
+});
+
+// Jobs due and delivered per project
+router.get('/jobs-per-project', authenticateToken, async (req, res) => {
+  try {
+    res.json(await getJobsPerProject(getReportRange(req.query)));
+  } catch (error) {
+    if (isRangeError(error)) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+    console.error('Error fetching jobs per project:', error);
+    res.status(500).json({ error: 'Failed to fetch jobs per project' });
+  }
+});
+
+// Planned vs actual stage completion dates, in working days
+router.get('/stage-slippage', authenticateToken, async (req, res) => {
+  try {
+    res.json(await getStageSlippage(getReportRange(req.query)));
+  } catch (error) {
+    if (isRangeError(error)) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+    console.error('Error fetching stage slippage:', error);
+    res.status(500).json({ error: 'Failed to fetch stage slippage' });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -3,8 +3,15 @@ import { verifyTokenAndPermission, type AuthenticatedRequest } from '../middlewa
 import { 
   getAuditLogsForRecord, 
   getAuditLogsForUser, 
-  getRecentAuditLogs 
+  getRecentAuditLogs,
+  logAuditChanges,
+  logRecordCreation
 } from '../services/auditService.js';
+import { planAuditRevert, applyAuditRevert, AuditRevertError } from '../services/auditRevertService.js';
+import { checkCapacity, describeCapacityConflicts, withCapacityWarnings } from '../services/capacityService.js';
+import { publishChange } from '../services/liveUpdatesService.js';
+import { syncProjectStatuses } from '../services/projectStatusService.js';
+import { notifyJobChanges, notifyJobsAdded, notifyProjectStatusChanges, type JobChangeFields } from '../services/notificationService.js';
 
 const router = Router();
 
@@ -71,4 +78,90 @@ router.get('/my-actions', verifyTokenAndPermission('view_audit_logs'), async (re
   }
 });
 
+// Revert an audit entry. scope "field" (default) puts one field change back; scope "version"
+// restores the whole record as it was straight after the entry. Reverting a job's DELETE entry
+// re-creates the job. The revert is audited like any other change, linked to the entry.
+router.post('/:id/revert', verifyTokenAndPermission('admin'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const entryId = parseInt(req.params.id);
+    const { scope = 'field', force = false } = req.body || {};
+
+    if (scope !== 'field' && scope !== 'version') {
+      return res.status(400).json({ error: 'scope must be "field" or "version"' });
+    }
+
+    const plan = await planAuditRevert(entryId, scope, force === true);
+
+    const capacity = await checkCapacity(plan.stageDates);
+    if (capacity.blocking.length > 0) {
+      return res.status(409).json({
+        error: `Over capacity: ${describeCapacityConflicts(capacity.blocking)}`,
+        capacityConflicts: capacity.conflicts,
+      });
+    }
+
+    const record = await applyAuditRevert(plan, req.user?.id, req.user?.email);
+    const changedFields = Object.keys(plan.changes).filter(field => field !== 'id');
+
+    if (plan.kind === 'recreate') {
+      await logRecordCreation(plan.tableName, plan.recordId, record, req.user?.id, req.user?.email, req, entryId);
+    } else if (changedFields.length > 0) {
+      await logAuditChanges(
+        plan.tableName,
+        plan.recordId,
+        plan.oldRecord,
+        record,
+        req.user?.id,
+        req.user?.email,
+        req,
+        entryId
+      );
+    }
+
+    if (plan.tableName !== 'clients' && (plan.kind === 'recreate' || changedFields.length > 0)) {
+      publishChange(plan.tableName === 'jobs'
+        ? {
+            entity: 'job',
+            action: plan.kind === 'recreate' ? 'created' : 'updated',
+            ids: [plan.recordId],
+            projectIds: [plan.oldRecord?.projectId ?? null, record.projectId] as Array<number | null>,
+            statusChanged: plan.kind === 'update' && plan.oldRecord?.statusId !== record.statusId,
+            userId: req.user?.id,
+          }
+        : { entity: 'project', action: 'updated', ids: [plan.recordId], userId: req.user?.id });
+    }
+
+    if (plan.tableName === 'jobs') {
+      await syncProjectStatuses([plan.oldRecord?.projectId ?? null, record.projectId] as Array<number | null>, req.user?.id, req.user?.email);
+      if (plan.kind === 'recreate') {
+        await notifyJobsAdded([record as unknown as JobChangeFields], req.user?.id);
+      } else if (changedFields.length > 0) {
+        await notifyJobChanges(
+          [{ oldJob: plan.oldRecord as unknown as JobChangeFields, updatedJob: record as unknown as JobChangeFields }],
+          req.user?.id
+        );
+      }
+    } else if (plan.tableName === 'projects' && plan.kind === 'update' && typeof record.status === 'string') {
+      await notifyProjectStatusChanges(
+        [{ projectId: plan.recordId, fromStatus: (plan.oldRecord?.status as string | null) ?? null, toStatus: record.status }],
+        req.user?.id
+      );
+    }
+
+    res.json(withCapacityWarnings({
+      tableName: plan.tableName,
+      recordId: plan.recordId,
+      action: plan.kind === 'recreate' ? 'recreated' : 'updated',
+      changedFields,
+      record,
+    }, capacity));
+  } catch (error) {
+    if (error instanceof AuditRevertError) {
+      return res.status(error.status).json({ error: error.message, ...error.details });
+    }
+    console.error('Error reverting audit entry:', error);
+    res.status(500).json({ error: 'Failed to revert change' });
+  }
+});
+
 export default router;
\ No newline at end of file
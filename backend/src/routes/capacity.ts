@@ -0,0 +1,105 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth.js';
+import { verifyTokenAndPermission } from '../middleware/permissions.js';
+import {
+  getCapacityReport,
+  loadCapacitySettings,
+  updateCapacitySetting,
+  isCapacityStage,
+} from '../services/capacityService.js';
+import { getBusinessToday, parseIsoDate, toIsoDate, InvalidDateError } from '../utils/dates.js';
+
+const router = Router();
+
+const MAX_RANGE_DAYS = 366;
+
+// Get load against capacity per stage per day (defaults to the next 4 weeks)
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    // A repeated parameter arrives as an array
+    for (const field of ['from', 'to']) {
+      if (req.query[field] !== undefined && typeof req.query[field] !== 'string') {
+        throw new InvalidDateError(req.query[field], field);
+      }
+    }
+
+    const from = (req.query.from as string) || getBusinessToday();
+    const fromDate = parseIsoDate(from);
+
+    if (!fromDate) {
+      return res.status(400).json({ error: 'Invalid from date. Use YYYY-MM-DD.' });
+    }
+
+    const defaultTo = new Date(fromDate);
+    defaultTo.setUTCDate(defaultTo.getUTCDate() + 27);
+    const to = (req.query.to as string) || toIsoDate(defaultTo);
+    const toDate = parseIsoDate(to);
+
+    if (!toDate) {
+      return res.status(400).json({ error: 'Invalid to date. Use YYYY-MM-DD.' });
+    }
+
+    if (toDate < fromDate) {
+      return res.status(400).json({ error: 'The to date must be on or after the from date' });
+    }
+
+    const rangeDays = (toDate.getTime() - fromDate.getTime()) / (1000 * 60 * 60 * 24) + 1;
+    if (rangeDays > MAX_RANGE_DAYS) {
+      return res.status(400).json({ error: `Date range cannot exceed ${MAX_RANGE_DAYS} days` });
+    }
+
+    const report = await getCapacityReport(toIsoDate(fromDate), toIsoDate(toDate));
+
+    res.json(report);
+  } catch (error) {
+    if (error instanceof InvalidDateError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error fetching capacity:', error);
+    res.status(500).json({ error: 'Failed to fetch capacity' });
+  }
+});
+
+// Get capacity settings for every stage
+router.get('/settings', authenticateToken, async (req, res) => {
+  try {
+    const settings = await loadCapacitySettings();
+    res.json(settings);
+  } catch (error) {
+    console.error('Error fetching capacity settings:', error);
+    res.status(500).json({ error: 'Failed to fetch capacity settings' });
+  }
+});
+
+// Update capacity settings for a stage
+router.put('/settings/:stage', verifyTokenAndPermission('admin'), async (req, res) => {
+  try {
+    const { stage } = req.params;
+    const { unitsPerDay, enforcement, isActive } = req.body;
+
+    if (!isCapacityStage(stage)) {
+      return res.status(400).json({ error: `Unknown stage: ${stage}` });
+    }
+
+    if (unitsPerDay !== undefined && (!Number.isInteger(unitsPerDay) || unitsPerDay < 0)) {
+      return res.status(400).json({ error: 'Units per day must be a whole number of 0 or more' });
+    }
+
+    if (enforcement !== undefined && !['warn', 'block'].includes(enforcement)) {
+      return res.status(400).json({ error: 'Enforcement must be either "warn" or "block"' });
+    }
+
+    if (isActive !== undefined && typeof isActive !== 'boolean') {
+      return res.status(400).json({ error: 'isActive must be true or false' });
+    }
+
+    const setting = await updateCapacitySetting(stage, { unitsPerDay, enforcement, isActive });
+
+    res.json(setting);
+  } catch (error) {
+    console.error('Error updating capacity settings:', error);
+    res.status(500).json({ error: 'Failed to update capacity settings' });
+  }
+});
+
+export default router;
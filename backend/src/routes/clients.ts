@@ -1,9 +1,18 @@
 import express from 'express';
-import { eq, desc, sql } from 'drizzle-orm';
+import { eq, desc, sql, and, isNull, count } from 'drizzle-orm';
 import { db } from '../db/index.js';
 import { clients, projects, jobs, contacts } from '../db/schema.js';
 import { verifyTokenAndPermission, type AuthenticatedRequest } from '../middleware/permissions.js';
 import { logRecordCreation, logAuditChanges, logRecordDeletion } from '../services/auditService.js';
+import { parseListQuery, buildListPage, ListQueryError } from '../utils/listQuery.js';
+import { CLIENT_LIST_CONFIG, clientProjectCount, clientProjectsJoin } from '../services/listConfigs.js';
+import {
+  findDuplicateClients,
+  mergeClients,
+  ClientMergeError,
+  DEFAULT_MATCH_THRESHOLD,
+} from '../services/clientDuplicateService.js';
+import { publishChange } from '../services/liveUpdatesService.js';
 
 const router = express.Router();
 
@@ -12,8 +21,10 @@ router.get('/', verifyTokenAndPermission('view_clients'), async (req: Authentica
   try {
     const { includeArchived } = req.query;
     const showArchived = includeArchived === 'true';
+    const listQuery = parseListQuery(req.query, CLIENT_LIST_CONFIG);
+    const where = and(showArchived ? undefined : eq(clients.archived, false), listQuery.where);
 
-    const allClients = await db
+    const clientRows = db
       .select({
         id: clients.id,
         name: clients.name,
@@ -28,31 +39,103 @@ router.get('/', verifyTokenAndPermission('view_clients'), async (req: Authentica
         archived: clients.archived,
         createdAt: clients.createdAt,
         updatedAt: clients.updatedAt,
-        projectCount: sql<number>`COUNT(${projects.id})`,
+        projectCount: clientProjectCount,
       })
       .from(clients)
-      .leftJoin(projects, eq(clients.id, projects.clientId))
-      .where(showArchived ? undefined : eq(clients.archived, false))
-      .groupBy(clients.id, clients.name, clients.company, clients.email, clients.phone, 
-               clients.address, clients.abn, clients.contactPerson, clients.notes, clients.isActive, 
-               clients.archived, clients.createdAt, clients.updatedAt)
-      .orderBy(desc(clients.createdAt));
+      .leftJoin(projects, clientProjectsJoin)
+      .where(where)
+      .groupBy(clients.id)
+      .orderBy(...listQuery.orderBy)
+      .$dynamic();
 
     // Transform data for frontend
-    const clientsWithMetadata = allClients.map(client => ({
+    const withMetadata = (rows: Awaited<typeof clientRows>) => rows.map(client => ({
       ...client,
       projects: client.projectCount || 0,
       lastContact: client.updatedAt?.toISOString().split('T')[0] || client.createdAt?.toISOString().split('T')[0],
       status: client.isActive ? 'Active' : 'Inactive'
     }));
 
-    res.json(clientsWithMetadata);
+    // Without ?page the full (filtered, sorted) list is returned as before
+    if (!listQuery.paginated) {
+      return res.json(withMetadata(await clientRows));
+    }
+
+    const [pageRows, [{ total }]] = await Promise.all([
+      clientRows.limit(listQuery.pageSize).offset((listQuery.page - 1) * listQuery.pageSize),
+      db.select({ total: count() }).from(clients).where(where),
+    ]);
+
+    res.json(buildListPage(withMetadata(pageRows), total, listQuery));
   } catch (error) {
+    if (error instanceof ListQueryError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Error fetching clients:', error);
     res.status(500).json({ error: 'Failed to fetch clients' });
   }
 });
 
+// GET /api/clients/duplicates - Pairs of clients that look like the same business
+router.get('/duplicates', verifyTokenAndPermission('view_clients'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const threshold = req.query.threshold !== undefined ? Number(req.query.threshold) : DEFAULT_MATCH_THRESHOLD;
+    if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 1) {
+      return res.status(400).json({ error: 'threshold must be a number above 0 and up to 1' });
+    }
+
+    const pairs = await findDuplicateClients(threshold, req.query.includeArchived === 'true');
+    res.json({ threshold, pairs });
+  } catch (error) {
+    console.error('Error finding duplicate clients:', error);
+    res.status(500).json({ error: 'Failed to find duplicate clients' });
+  }
+});
+
+// POST /api/clients/merge - Merge duplicate clients into the one being kept
+router.post('/merge', verifyTokenAndPermission('edit_clients'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { survivorId, mergeIds } = req.body ?? {};
+    const result = await mergeClients(Number(survivorId), Array.isArray(mergeIds) ? mergeIds.map(Number) : []);
+
+    // Log every record the merge touched
+    const { survivor, merged, projects: movedProjects, contacts: movedContacts } = result;
+    await logAuditChanges('clients', survivor.record.id, survivor.old, survivor.record, req.user?.id, req.user?.email, req);
+    for (const client of merged) {
+      await logAuditChanges('clients', client.record.id, client.old, client.record, req.user?.id, req.user?.email, req);
+    }
+    for (const project of movedProjects) {
+      await logAuditChanges('projects', project.record.id, project.old, project.record, req.user?.id, req.user?.email, req);
+    }
+    for (const contact of movedContacts) {
+      await logAuditChanges('contacts', contact.record.id, contact.old, contact.record, req.user?.id, req.user?.email, req);
+    }
+
+    if (movedProjects.length > 0) {
+      publishChange({
+        entity: 'project',
+        action: 'updated',
+        ids: movedProjects.map(project => project.record.id),
+        userId: req.user?.id,
+      });
+    }
+
+    res.json({
+      message: `Merged ${merged.length} client${merged.length === 1 ? '' : 's'} into ${survivor.record.name}`,
+      client: survivor.record,
+      mergedClientIds: merged.map(client => client.record.id),
+      movedProjects: movedProjects.length,
+      movedContacts: movedContacts.length,
+    });
+  } catch (error) {
+    if (error instanceof ClientMergeError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error merging clients:', error);
+    res.status(500).json({ error: 'Failed to merge clients' });
+  }
+});
+
 // GET /api/clients/:id - Get a specific client
 router.get('/:id', verifyTokenAndPermission('view_clients'), async (req: AuthenticatedRequest, res) => {
   try {
@@ -79,7 +162,7 @@ router.get('/:id', verifyTokenAndPermission('view_clients'), async (req: Authent
         updatedAt: projects.updatedAt,
       })
       .from(projects)
-      .where(eq(projects.clientId, clientId))
+      .where(and(eq(projects.clientId, clientId), isNull(projects.deletedAt)))
       .orderBy(desc(projects.createdAt));
 
     // Transform data for frontend consistency
@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import { db } from '../db/index.js';
 import { contacts, clients } from '../db/schema.js';
-import { eq, and } from 'drizzle-orm';
-import { authenticateToken } from '../middleware/auth.js';
+import { eq, and, isNull } from 'drizzle-orm';
+import { authenticateToken, type AuthRequest } from '../middleware/auth.js';
+import { logRecordDeletion } from '../services/auditService.js';
+import { moveToRecycleBin } from '../services/recycleBinService.js';
 
 const router = Router();
 
@@ -14,7 +16,7 @@ router.get('/clients/:clientId/contacts', authenticateToken, async (req, res) =>
     const clientContacts = await db
       .select()
       .from(contacts)
-      .where(eq(contacts.clientId, clientId))
+      .where(and(eq(contacts.clientId, clientId), isNull(contacts.deletedAt)))
       .orderBy(contacts.isPrimary, contacts.firstName);
 
     res.json(clientContacts);
@@ -43,6 +45,7 @@ router.get('/', authenticateToken, async (req, res) => {
       })
       .from(contacts)
       .leftJoin(clients, eq(contacts.clientId, clients.id))
+      .where(isNull(contacts.deletedAt))
       .orderBy(contacts.firstName);
 
     res.json(allContacts);
@@ -112,7 +115,7 @@ router.put('/:id', authenticateToken, async (req, res) => {
         isPrimary: isPrimary || false,
         updatedAt: new Date(),
       })
-      .where(eq(contacts.id, contactId))
+      .where(and(eq(contacts.id, contactId), isNull(contacts.deletedAt)))
       .returning();
 
     if (!updatedContact) {
@@ -126,21 +129,19 @@ router.put('/:id', authenticateToken, async (req, res) => {
   }
 });
 
-// Delete a contact
-router.delete('/:id', authenticateToken, async (req, res) => {
+// Delete a contact (moves it to the recycle bin)
+router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const contactId = parseInt(req.params.id);
 
-    const [deletedContact] = await db
-      .delete(contacts)
-      .where(eq(contacts.id, contactId))
-      .returning();
-
-    if (!deletedContact) {
+    const result = await moveToRecycleBin('contact', contactId, req.user?.id);
+    if (!result) {
       return res.status(404).json({ error: 'Contact not found' });
     }
 
-    res.json({ message: 'Contact deleted successfully' });
+    await logRecordDeletion('contacts', contactId, result.change.old, req.user?.id, req.user?.email, req);
+
+    res.json({ message: 'Contact moved to the recycle bin' });
   } catch (error) {
     console.error('Error deleting contact:', error);
     res.status(500).json({ error: 'Failed to delete contact' });
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth.js';
+import { subscribe } from '../services/liveUpdatesService.js';
+
+const router = Router();
+
+// GET /api/events - Server-Sent Events stream of job and project changes
+router.get('/', authenticateToken, (req, res) => {
+  subscribe(res);
+});
+
+export default router;
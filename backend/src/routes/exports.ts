@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import { verifyTokenAndPermission, type AuthenticatedRequest } from '../middleware/permissions.js';
+import {
+  createExport,
+  getExportPermission,
+  isExportTable,
+  EXPORT_FORMATS,
+  EXPORT_TABLES,
+  ExportRequestError,
+  type ExportFormat,
+} from '../services/exportService.js';
+import { ListQueryError } from '../utils/listQuery.js';
+
+const router = Router();
+
+// Render a DataTable view as a branded PDF or XLSX file
+router.post('/', (req, res, next) => {
+  const { table } = req.body || {};
+  if (!isExportTable(table)) {
+    return res.status(400).json({ error: `table must be one of: ${EXPORT_TABLES.join(', ')}` });
+  }
+  // The view permission depends on which table is being exported
+  return verifyTokenAndPermission(getExportPermission(table))(req, res, next);
+}, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { table, format, filters, sort, projectId, title } = req.body;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+    }
+    if (filters !== undefined && (typeof filters !== 'object' || filters === null || Array.isArray(filters))) {
+      return res.status(400).json({ error: 'filters must be an object' });
+    }
+    if (sort !== undefined && (typeof sort?.field !== 'string' || !['asc', 'desc'].includes(sort?.direction))) {
+      return res.status(400).json({ error: 'sort must be { field, direction: "asc" | "desc" }' });
+    }
+    if (projectId !== undefined && !Number.isInteger(Number(projectId))) {
+      return res.status(400).json({ error: 'projectId must be an integer' });
+    }
+
+    const file = await createExport({
+      table,
+      format: format as ExportFormat,
+      filters,
+      sort,
+      projectId: projectId !== undefined ? Number(projectId) : undefined,
+      title: typeof title === 'string' ? title : undefined,
+    }, req.user.id);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.setHeader('X-Export-Row-Count', String(file.rowCount));
+    res.send(file.buffer);
+  } catch (error) {
+    if (error instanceof ExportRequestError || error instanceof ListQueryError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error creating export:', error);
+    res.status(500).json({ error: 'Failed to create export' });
+  }
+});
+
+export default router;
@@ -3,9 +3,12 @@ import { db } from '../db/index.js';
 import { jobStatuses, jobs } from '../db/schema.js';
 import { eq, asc } from 'drizzle-orm';
 import { authenticateToken } from '../middleware/auth.js';
+import { parseJobStatusWorkflowInput, deleteJobStatus, JobWorkflowError } from '../services/jobWorkflowService.js';
 
 const router = express.Router();
 
+const loadStatusIds = async () => (await db.select({ id: jobStatuses.id }).from(jobStatuses)).map(status => status.id);
+
 // Get all job statuses
 router.get('/', authenticateToken, async (req, res) => {
   try {
@@ -66,6 +69,8 @@ router.post('/', authenticateToken, async (req, res) => {
       }
     }
 
+    const workflow = parseJobStatusWorkflowInput(req.body, await loadStatusIds());
+
     // If this is being set as default, unset other defaults
     if (isDefault) {
       await db
@@ -85,11 +90,15 @@ router.post('/', authenticateToken, async (req, res) => {
         isDefault: isDefault || false,
         isFinal: isFinal || false,
         targetColumns: targetColumns || [],
+        ...workflow,
       })
       .returning();
 
     res.status(201).json(newStatus);
   } catch (error) {
+    if (error instanceof JobWorkflowError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Error creating job status:', error);
     if (error instanceof Error && 'code' in error && error.code === '23505') { // Unique constraint violation
       res.status(400).json({ error: 'Status name already exists' });
@@ -99,6 +108,35 @@ router.post('/', authenticateToken, async (req, res) => {
   }
 });
 
+// Update status order
+router.put('/reorder', authenticateToken, async (req, res) => {
+  try {
+    const { statusOrders } = req.body; // Array of { id, orderIndex }
+
+    if (!Array.isArray(statusOrders)) {
+      return res.status(400).json({ error: 'statusOrders must be an array' });
+    }
+
+    // Update all status orders in a transaction
+    for (const { id, orderIndex } of statusOrders) {
+      await db
+        .update(jobStatuses)
+        .set({ orderIndex, updatedAt: new Date() })
+        .where(eq(jobStatuses.id, id));
+    }
+
+    const updatedStatuses = await db
+      .select()
+      .from(jobStatuses)
+      .orderBy(asc(jobStatuses.orderIndex));
+
+    res.json(updatedStatuses);
+  } catch (error) {
+    console.error('Error reordering job statuses:', error);
+    res.status(500).json({ error: 'Failed to reorder job statuses' });
+  }
+});
+
 // Update job status
 router.put('/:id', authenticateToken, async (req, res) => {
   try {
@@ -140,6 +178,8 @@ router.put('/:id', authenticateToken, async (req, res) => {
       }
     }
 
+    const workflow = parseJobStatusWorkflowInput(req.body, await loadStatusIds(), parseInt(id));
+
     // If this is being set as default, unset other defaults
     if (isDefault) {
       await db
@@ -159,6 +199,7 @@ router.put('/:id', authenticateToken, async (req, res) => {
         isDefault,
         isFinal,
         targetColumns: targetColumns !== undefined ? targetColumns : undefined,
+        ...workflow,
         updatedAt: new Date(),
       })
       .where(eq(jobStatuses.id, parseInt(id)))
@@ -170,40 +211,14 @@ router.put('/:id', authenticateToken, async (req, res) => {
 
     res.json(updatedStatus);
   } catch (error) {
+    if (error instanceof JobWorkflowError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Error updating job status:', error);
     res.status(500).json({ error: 'Failed to update job status' });
   }
 });
 
-// Update status order
-router.put('/reorder', authenticateToken, async (req, res) => {
-  try {
-    const { statusOrders } = req.body; // Array of { id, orderIndex }
-
-    if (!Array.isArray(statusOrders)) {
-      return res.status(400).json({ error: 'statusOrders must be an array' });
-    }
-
-    // Update all status orders in a transaction
-    for (const { id, orderIndex } of statusOrders) {
-      await db
-        .update(jobStatuses)
-        .set({ orderIndex, updatedAt: new Date() })
-        .where(eq(jobStatuses.id, id));
-    }
-
-    const updatedStatuses = await db
-      .select()
-      .from(jobStatuses)
-      .orderBy(asc(jobStatuses.orderIndex));
-
-    res.json(updatedStatuses);
-  } catch (error) {
-    console.error('Error reordering job statuses:', error);
-    res.status(500).json({ error: 'Failed to reorder job statuses' });
-  }
-});
-
 // Delete job status
 router.delete('/:id', authenticateToken, async (req, res) => {
   try {
@@ -222,10 +237,7 @@ router.delete('/:id', authenticateToken, async (req, res) => {
       });
     }
 
-    const [deletedStatus] = await db
-      .delete(jobStatuses)
-      .where(eq(jobStatuses.id, parseInt(id)))
-      .returning();
+    const deletedStatus = await deleteJobStatus(parseInt(id));
 
     if (!deletedStatus) {
       return res.status(404).json({ error: 'Job status not found' });
@@ -233,6 +245,9 @@ router.delete('/:id', authenticateToken, async (req, res) => {
 
     res.json({ message: 'Job status deleted successfully' });
   } catch (error) {
+    if (error instanceof JobWorkflowError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Error deleting job status:', error);
     res.status(500).json({ error: 'Failed to delete job status' });
   }
@@ -0,0 +1,80 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth.js';
+import type { AuthenticatedRequest } from '../middleware/permissions.js';
+import {
+  parseJobTemplateInput,
+  listJobTemplates,
+  getJobTemplate,
+  createJobTemplate,
+  updateJobTemplate,
+  deleteJobTemplate,
+  JobTemplateError,
+} from '../services/jobTemplateService.js';
+
+const router = express.Router();
+
+// GET /api/job-templates - List job templates with their items
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    res.json(await listJobTemplates());
+  } catch (error) {
+    console.error('Error fetching job templates:', error);
+    res.status(500).json({ error: 'Failed to fetch job templates' });
+  }
+});
+
+// GET /api/job-templates/:id
+router.get('/:id', authenticateToken, async (req, res) => {
+  try {
+    res.json(await getJobTemplate(parseInt(req.params.id)));
+  } catch (error) {
+    if (error instanceof JobTemplateError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error fetching job template:', error);
+    res.status(500).json({ error: 'Failed to fetch job template' });
+  }
+});
+
+// POST /api/job-templates - Create a template
+router.post('/', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const template = await createJobTemplate(parseJobTemplateInput(req.body ?? {}), req.user?.id);
+    res.status(201).json(template);
+  } catch (error) {
+    if (error instanceof JobTemplateError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error creating job template:', error);
+    res.status(500).json({ error: 'Failed to create job template' });
+  }
+});
+
+// PUT /api/job-templates/:id - Replace a template's name, description and items
+router.put('/:id', authenticateToken, async (req, res) => {
+  try {
+    res.json(await updateJobTemplate(parseInt(req.params.id), parseJobTemplateInput(req.body ?? {})));
+  } catch (error) {
+    if (error instanceof JobTemplateError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error updating job template:', error);
+    res.status(500).json({ error: 'Failed to update job template' });
+  }
+});
+
+// DELETE /api/job-templates/:id - Jobs already created from the template are kept
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    await deleteJobTemplate(parseInt(req.params.id));
+    res.json({ message: 'Job template deleted' });
+  } catch (error) {
+    if (error instanceof JobTemplateError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error deleting job template:', error);
+    res.status(500).json({ error: 'Failed to delete job template' });
+  }
+});
+
+export default router;
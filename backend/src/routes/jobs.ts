@@ -1,16 +1,52 @@
 import { Router } from 'express';
 import { db } from '../db/index.js';
-import { eq, desc } from 'drizzle-orm';
+import { eq, and, isNull, count } from 'drizzle-orm';
 import { jobs, projects, clients, jobStatuses } from '../db/schema.js';
 import { verifyTokenAndPermission, type AuthenticatedRequest } from '../middleware/permissions.js';
 import { logRecordCreation, logAuditChanges, logRecordDeletion } from '../services/auditService.js';
+import { loadScheduleContext, buildJobSchedulePreview, applyJobSchedule, loadWorkingCalendar } from '../services/schedulingService.js';
+import { normalizeJobDates, normalizeApiDate, InvalidDateError } from '../utils/dates.js';
+import { parseListQuery, buildListPage, ListQueryError } from '../utils/listQuery.js';
+import { JOB_LIST_CONFIG } from '../services/listConfigs.js';
+import { recordStatusChange, getJobStatusHistory } from '../services/jobStatusHistoryService.js';
+import { publishChange } from '../services/liveUpdatesService.js';
+import { moveToRecycleBin } from '../services/recycleBinService.js';
+import { resolveJobUnit, LocationError } from '../services/projectLocationService.js';
+import { syncProjectStatuses } from '../services/projectStatusService.js';
+import { loadJobWorkflow, assertStatusMove, resolveJobStatus, resolveNewJobStatus, toLegacyJobStatus, JobWorkflowError } from '../services/jobWorkflowService.js';
+import {
+  getStatusChangeActualDates,
+  parseActualDatesInput,
+  getStageVariances,
+  withStageVariances,
+  ActualDatesError,
+} from '../services/stageActualsService.js';
+import { getJobExceptions } from '../services/jobExceptionsService.js';
+import { notifyJobChanges, notifyJobsAdded } from '../services/notificationService.js';
+import {
+  setVersionHeaders,
+  assertCurrentVersion,
+  pickSubmittedFields,
+  buildEditConflict,
+  EditConflictError,
+} from '../services/editConflictService.js';
+import {
+  checkCapacity,
+  getChangedStageDates,
+  getScheduleStageDates,
+  describeCapacityConflicts,
+  withCapacityWarnings,
+} from '../services/capacityService.js';
+import { parseBulkJobEdit, planBulkJobEdit, applyBulkJobEdit, BulkEditError } from '../services/jobBulkEditService.js';
 
 const router = Router();
 
 // Get all jobs
 router.get('/', verifyTokenAndPermission('view_jobs'), async (req: AuthenticatedRequest, res) => {
   try {
-    const allJobs = await db
+    const listQuery = parseListQuery(req.query, JOB_LIST_CONFIG);
+
+    const jobRows = db
       .select({
         id: jobs.id,
         projectId: jobs.projectId,
@@ -21,6 +57,10 @@ router.get('/', verifyTokenAndPermission('view_jobs'), async (req: Authenticated
         machiningDate: jobs.machiningDate,
         assemblyDate: jobs.assemblyDate,
         deliveryDate: jobs.deliveryDate,
+        nestingActualDate: jobs.nestingActualDate,
+        machiningActualDate: jobs.machiningActualDate,
+        assemblyActualDate: jobs.assemblyActualDate,
+        deliveryActualDate: jobs.deliveryActualDate,
         status: jobs.status,
         statusId: jobs.statusId,
         comments: jobs.comments,
@@ -43,15 +83,54 @@ router.get('/', verifyTokenAndPermission('view_jobs'), async (req: Authenticated
       .leftJoin(projects, eq(jobs.projectId, projects.id))
       .leftJoin(clients, eq(projects.clientId, clients.id))
       .leftJoin(jobStatuses, eq(jobs.statusId, jobStatuses.id))
-      .orderBy(desc(jobs.createdAt));
+      .where(listQuery.where)
+      .orderBy(...listQuery.orderBy)
+      .$dynamic();
+
+    // Without ?page the full (filtered, sorted) list is returned as before
+    if (!listQuery.paginated) {
+      const [rows, calendar] = await Promise.all([jobRows, loadWorkingCalendar()]);
+      return res.json(withStageVariances(rows, calendar));
+    }
 
-    res.json(allJobs);
+    const [pageRows, [{ total }], calendar] = await Promise.all([
+      jobRows.limit(listQuery.pageSize).offset((listQuery.page - 1) * listQuery.pageSize),
+      db
+        .select({ total: count() })
+        .from(jobs)
+        .leftJoin(projects, eq(jobs.projectId, projects.id))
+        .leftJoin(clients, eq(projects.clientId, clients.id))
+        .leftJoin(jobStatuses, eq(jobs.statusId, jobStatuses.id))
+        .where(listQuery.where),
+      loadWorkingCalendar(),
+    ]);
+
+    res.json(buildListPage(withStageVariances(pageRows, calendar), total, listQuery));
   } catch (error) {
+    if (error instanceof ListQueryError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Error fetching jobs:', error);
     res.status(500).json({ error: 'Failed to fetch jobs' });
   }
 });
 
+// Jobs with overdue stages: a planned stage date has passed without the job reaching that stage.
+// ?projectId= limits it to one project.
+router.get('/exceptions', verifyTokenAndPermission('view_jobs'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const projectId = req.query.projectId !== undefined ? Number(req.query.projectId) : undefined;
+    if (projectId !== undefined && !Number.isInteger(projectId)) {
+      return res.status(400).json({ error: 'projectId must be a project id' });
+    }
+
+    res.json(await getJobExceptions(undefined, projectId));
+  } catch (error) {
+    console.error('Error fetching job exceptions:', error);
+    res.status(500).json({ error: 'Failed to fetch job exceptions' });
+  }
+});
+
 // Get single job by ID
 router.get('/:id', verifyTokenAndPermission('view_jobs'), async (req: AuthenticatedRequest, res) => {
   try {
@@ -68,6 +147,10 @@ router.get('/:id', verifyTokenAndPermission('view_jobs'), async (req: Authentica
         machiningDate: jobs.machiningDate,
         assemblyDate: jobs.assemblyDate,
         deliveryDate: jobs.deliveryDate,
+        nestingActualDate: jobs.nestingActualDate,
+        machiningActualDate: jobs.machiningActualDate,
+        assemblyActualDate: jobs.assemblyActualDate,
+        deliveryActualDate: jobs.deliveryActualDate,
         status: jobs.status,
         statusId: jobs.statusId,
         comments: jobs.comments,
@@ -90,33 +173,55 @@ router.get('/:id', verifyTokenAndPermission('view_jobs'), async (req: Authentica
       .leftJoin(projects, eq(jobs.projectId, projects.id))
       .leftJoin(clients, eq(projects.clientId, clients.id))
       .leftJoin(jobStatuses, eq(jobs.statusId, jobStatuses.id))
-      .where(eq(jobs.id, jobId))
+      .where(and(eq(jobs.id, jobId), isNull(jobs.deletedAt)))
       .limit(1);
 
     if (job.length === 0) {
       return res.status(404).json({ error: 'Job not found' });
     }
 
-    res.json(job[0]);
+    setVersionHeaders(res, job[0]);
+    res.json({ ...job[0], stageVariances: getStageVariances(job[0], await loadWorkingCalendar()) });
   } catch (error) {
     console.error('Error fetching job:', error);
     res.status(500).json({ error: 'Failed to fetch job' });
   }
 });
 
+// Get job status history (oldest first)
+router.get('/:id/history', verifyTokenAndPermission('view_jobs'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const jobId = parseInt(req.params.id);
+
+    const [job] = await db
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(and(eq(jobs.id, jobId), isNull(jobs.deletedAt)))
+      .limit(1);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const history = await getJobStatusHistory(jobId);
+
+    res.json(history);
+  } catch (error) {
+    console.error('Error fetching job status history:', error);
+    res.status(500).json({ error: 'Failed to fetch job status history' });
+  }
+});
+
 // Create new job
 router.post('/', verifyTokenAndPermission('add_jobs'), async (req: AuthenticatedRequest, res) => {
   try {
     const { 
       projectId, 
       unit, 
+      unitId,
       type, 
       items, 
-      nestingDate, 
-      machiningDate, 
-      assemblyDate, 
-      deliveryDate, 
-      status = 'not-assigned', 
+      status, 
       comments 
     } = req.body;
 
@@ -124,18 +229,37 @@ router.post('/', verifyTokenAndPermission('add_jobs'), async (req: Authenticated
       return res.status(400).json({ error: 'Project ID and items are required' });
     }
 
+    const dates = normalizeJobDates(req.body);
+    const location = await resolveJobUnit(projectId, unitId);
+    // statusId, or status as a status id or name
+    const workflow = await loadJobWorkflow();
+    const targetStatus = resolveNewJobStatus(workflow, req.body.statusId ?? status);
+
+    assertStatusMove(workflow, {
+      fromStatusId: null,
+      toStatusId: targetStatus.id,
+      job: { ...req.body, ...dates, unit: location.unit ?? unit },
+    });
+
+    const capacity = await checkCapacity(getChangedStageDates(undefined, {}, dates));
+    if (capacity.blocking.length > 0) {
+      return res.status(409).json({
+        error: `Over capacity: ${describeCapacityConflicts(capacity.blocking)}`,
+        capacityConflicts: capacity.conflicts,
+      });
+    }
+
     const [newJob] = await db
       .insert(jobs)
       .values({
         projectId,
-        unit,
+        unit: location.unit ?? unit,
+        unitId: location.unitId,
         type,
         items,
-        nestingDate,
-        machiningDate,
-        assemblyDate,
-        deliveryDate,
-        statusId: status || 1, // Convert status to statusId, default to 1
+        ...dates,
+        statusId: targetStatus.id,
+        status: toLegacyJobStatus(targetStatus.name),
         comments,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -152,35 +276,216 @@ router.post('/', verifyTokenAndPermission('add_jobs'), async (req: Authenticated
       req
     );
 
-    res.status(201).json(newJob);
+    await recordStatusChange(newJob.id, null, newJob.statusId, 'create', req.user?.id, req.user?.email);
+
+    publishChange({
+      entity: 'job',
+      action: 'created',
+      ids: [newJob.id],
+      projectIds: [newJob.projectId],
+      userId: req.user?.id,
+    });
+
+    await syncProjectStatuses([newJob.projectId], req.user?.id, req.user?.email);
+    await notifyJobsAdded([newJob], req.user?.id);
+
+    res.status(201).json(withCapacityWarnings(newJob, capacity));
   } catch (error) {
+    if (error instanceof InvalidDateError || error instanceof LocationError || error instanceof JobWorkflowError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Error creating job:', error);
     res.status(500).json({ error: 'Failed to create job' });
   }
 });
 
-// Update job
+// Bulk edit jobs: set a status, shift stage dates by working days, or set type/comments
+// on every selected job. All jobs are updated in one transaction, or none are.
+router.patch('/bulk', verifyTokenAndPermission('edit_jobs'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const plan = await planBulkJobEdit(parseBulkJobEdit(req.body));
+
+    const capacity = await checkCapacity(plan.stageDates);
+    if (capacity.blocking.length > 0) {
+      return res.status(409).json({
+        error: `Over capacity: ${describeCapacityConflicts(capacity.blocking)}`,
+        capacityConflicts: capacity.conflicts,
+      });
+    }
+
+    const updatedJobs = await applyBulkJobEdit(plan, req.user?.id, req.user?.email);
+
+    // One audit entry per job, as if each had been saved on its own
+    for (const updatedJob of updatedJobs) {
+      const oldJob = plan.oldJobs.find(job => job.id === updatedJob.id);
+      await logAuditChanges(
+        'jobs',
+        updatedJob.id,
+        oldJob,
+        updatedJob,
+        req.user?.id,
+        req.user?.email,
+        req
+      );
+    }
+
+    publishChange({
+      entity: 'job',
+      action: 'updated',
+      ids: updatedJobs.map(job => job.id),
+      projectIds: updatedJobs.map(job => job.projectId),
+      statusChanged: plan.oldJobs.some((oldJob, index) =>
+        oldJob.statusId !== updatedJobs[index].statusId || oldJob.status !== updatedJobs[index].status
+      ),
+      userId: req.user?.id,
+    });
+
+    await syncProjectStatuses(updatedJobs.map(job => job.projectId), req.user?.id, req.user?.email);
+    await notifyJobChanges(
+      updatedJobs.map((updatedJob, index) => ({ oldJob: plan.oldJobs[index], updatedJob })),
+      req.user?.id
+    );
+
+    res.json(withCapacityWarnings({ updated: updatedJobs.length, jobs: updatedJobs }, capacity));
+  } catch (error) {
+    if (error instanceof BulkEditError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error bulk editing jobs:', error);
+    res.status(500).json({ error: 'Failed to update jobs' });
+  }
+});
+
+// Fields a job update may change as sent, besides dates and status; anything else in the body is ignored
+const JOB_UPDATE_FIELDS = ['unit', 'unitId', 'type', 'items', 'comments'] as const;
+
+// Update job. Only supplied fields change. Send the ETag from GET /:id as If-Match to detect
+// edits made by someone else since; a stale version gets a 409 with the current record.
 router.put('/:id', verifyTokenAndPermission('edit_jobs'), async (req: AuthenticatedRequest, res) => {
   try {
     const jobId = parseInt(req.params.id);
-    const { 
-      unit, 
-      type, 
-      items, 
-      nestingDate, 
-      machiningDate, 
-      assemblyDate, 
-      deliveryDate, 
-      status, 
-      statusId,
-      comments 
-    } = req.body;
+    const dates = normalizeJobDates(req.body);
+    // statusId, or status as a status id or name
+    const requestedStatus = req.body.statusId ?? req.body.status;
+    const workflow = requestedStatus !== undefined ? await loadJobWorkflow() : null;
+    const targetStatus = workflow ? resolveJobStatus(workflow, requestedStatus) : null;
+    const changes = {
+      ...pickSubmittedFields(req.body, JOB_UPDATE_FIELDS),
+      ...dates,
+      ...(targetStatus ? { statusId: targetStatus.id, status: toLegacyJobStatus(targetStatus.name) } : {}),
+    };
+    const ifMatch = req.get('If-Match');
+
+    const result = await db.transaction(async (tx) => {
+      // Lock the row so the version check and the write can't interleave with another save
+      const [oldJob] = await tx
+        .select()
+        .from(jobs)
+        .where(and(eq(jobs.id, jobId), isNull(jobs.deletedAt)))
+        .for('update');
+
+      if (!oldJob) return null;
+      assertCurrentVersion(ifMatch, oldJob, changes);
+
+      // Linking a unit also sets the unit text to its name
+      if (req.body.unitId !== undefined) {
+        Object.assign(changes, await resolveJobUnit(oldJob.projectId, req.body.unitId));
+      }
+
+      if (workflow && targetStatus) {
+        assertStatusMove(workflow, {
+          fromStatusId: oldJob.statusId,
+          toStatusId: targetStatus.id,
+          job: { ...oldJob, ...changes },
+          previousComments: oldJob.comments,
+        });
+        Object.assign(changes, getStatusChangeActualDates(workflow, oldJob.statusId, targetStatus.id, oldJob));
+      }
+
+      const capacity = await checkCapacity(getChangedStageDates(jobId, oldJob, dates));
+      if (capacity.blocking.length > 0) {
+        return { oldJob, capacity, updatedJob: undefined };
+      }
+
+      const [updatedJob] = await tx
+        .update(jobs)
+        .set({
+          ...changes,
+          updatedAt: new Date(),
+        })
+        .where(eq(jobs.id, jobId))
+        .returning();
+
+      return { oldJob, capacity, updatedJob };
+    });
+
+    if (!result) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const { oldJob, capacity, updatedJob } = result;
+    if (!updatedJob) {
+      return res.status(409).json({
+        error: `Over capacity: ${describeCapacityConflicts(capacity.blocking)}`,
+        capacityConflicts: capacity.conflicts,
+      });
+    }
+
+    // Log the changes
+    await logAuditChanges(
+      'jobs',
+      jobId,
+      oldJob,
+      updatedJob,
+      req.user?.id,
+      req.user?.email,
+      req
+    );
+
+    await recordStatusChange(jobId, oldJob.statusId, updatedJob.statusId, 'manual', req.user?.id, req.user?.email);
+
+    publishChange({
+      entity: 'job',
+      action: 'updated',
+      ids: [jobId],
+      projectIds: [oldJob.projectId, updatedJob.projectId],
+      statusChanged: oldJob.statusId !== updatedJob.statusId || oldJob.status !== updatedJob.status,
+      userId: req.user?.id,
+    });
+
+    // Complete or reopen the projects the job left and joined
+    await syncProjectStatuses([oldJob.projectId, updatedJob.projectId], req.user?.id, req.user?.email);
+    await notifyJobChanges([{ oldJob, updatedJob }], req.user?.id);
+
+    setVersionHeaders(res, updatedJob);
+    const stageVariances = getStageVariances(updatedJob, await loadWorkingCalendar());
+    res.json(withCapacityWarnings({ ...updatedJob, stageVariances }, capacity));
+  } catch (error) {
+    if (error instanceof InvalidDateError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof EditConflictError) {
+      return res.status(409).json(await buildEditConflict('jobs', 'job', error));
+    }
+    if (error instanceof LocationError || error instanceof JobWorkflowError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error updating job:', error);
+    res.status(500).json({ error: 'Failed to update job' });
+  }
+});
+
+// Correct the actual stage completion dates recorded on status changes. Only supplied fields
+// change; null clears a date.
+router.put('/:id/actual-dates', verifyTokenAndPermission('change_job_dates'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const jobId = parseInt(req.params.id);
+    const actualDates = parseActualDatesInput(req.body);
 
-    // Get the old record before updating
     const [oldJob] = await db
       .select()
       .from(jobs)
-      .where(eq(jobs.id, jobId))
+      .where(and(eq(jobs.id, jobId), isNull(jobs.deletedAt)))
       .limit(1);
 
     if (!oldJob) {
@@ -189,27 +494,10 @@ router.put('/:id', verifyTokenAndPermission('edit_jobs'), async (req: Authentica
 
     const [updatedJob] = await db
       .update(jobs)
-      .set({
-        unit,
-        type,
-        items,
-        nestingDate,
-        machiningDate,
-        assemblyDate,
-        deliveryDate,
-        status,
-        statusId,
-        comments,
-        updatedAt: new Date(),
-      })
+      .set({ ...actualDates, updatedAt: new Date() })
       .where(eq(jobs.id, jobId))
       .returning();
 
-    if (!updatedJob) {
-      return res.status(404).json({ error: 'Job not found' });
-    }
-
-    // Log the changes
     await logAuditChanges(
       'jobs',
       jobId,
@@ -220,37 +508,99 @@ router.put('/:id', verifyTokenAndPermission('edit_jobs'), async (req: Authentica
       req
     );
 
-    res.json(updatedJob);
+    publishChange({
+      entity: 'job',
+      action: 'updated',
+      ids: [jobId],
+      projectIds: [updatedJob.projectId],
+      userId: req.user?.id,
+    });
+
+    setVersionHeaders(res, updatedJob);
+    res.json({ ...updatedJob, stageVariances: getStageVariances(updatedJob, await loadWorkingCalendar()) });
   } catch (error) {
-    console.error('Error updating job:', error);
-    res.status(500).json({ error: 'Failed to update job' });
+    if (error instanceof InvalidDateError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof ActualDatesError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error updating actual dates:', error);
+    res.status(500).json({ error: 'Failed to update actual dates' });
   }
 });
 
-// Delete job
-router.delete('/:id', verifyTokenAndPermission('delete_jobs'), async (req: AuthenticatedRequest, res) => {
+// Schedule job dates from its delivery date (preview by default, pass apply: true to save)
+router.post('/:id/schedule', verifyTokenAndPermission('edit_jobs'), async (req: AuthenticatedRequest, res) => {
   try {
     const jobId = parseInt(req.params.id);
+    const { apply = false } = req.body;
+    const deliveryDate = normalizeApiDate(req.body.deliveryDate, 'deliveryDate') || undefined;
 
-    // Get the record before deleting for audit logging
-    const [jobToDelete] = await db
+    const [job] = await db
       .select()
       .from(jobs)
-      .where(eq(jobs.id, jobId))
+      .where(and(eq(jobs.id, jobId), isNull(jobs.deletedAt)))
       .limit(1);
 
-    if (!jobToDelete) {
+    if (!job) {
       return res.status(404).json({ error: 'Job not found' });
     }
 
-    const [deletedJob] = await db
-      .delete(jobs)
-      .where(eq(jobs.id, jobId))
-      .returning();
+    const context = await loadScheduleContext();
+    const preview = buildJobSchedulePreview(job, context, deliveryDate);
+
+    if (preview.error) {
+      return res.status(400).json({ error: preview.error, preview });
+    }
+
+    const capacity = await checkCapacity(getScheduleStageDates([preview]));
+
+    if (!apply) {
+      return res.json({ applied: false, preview, capacityConflicts: capacity.conflicts });
+    }
+
+    if (capacity.blocking.length > 0) {
+      return res.status(409).json({
+        error: `Over capacity: ${describeCapacityConflicts(capacity.blocking)}`,
+        preview,
+        capacityConflicts: capacity.conflicts,
+      });
+    }
 
-    if (!deletedJob) {
+    const updatedJob = await applyJobSchedule(preview, req.user?.id, req.user?.email, req);
+
+    if (updatedJob) {
+      publishChange({
+        entity: 'job',
+        action: 'updated',
+        ids: [jobId],
+        projectIds: [job.projectId],
+        userId: req.user?.id,
+      });
+      await notifyJobChanges([{ oldJob: job, updatedJob }], req.user?.id);
+    }
+
+    res.json({ applied: true, preview, job: updatedJob || job, capacityConflicts: capacity.conflicts });
+  } catch (error) {
+    if (error instanceof InvalidDateError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error scheduling job:', error);
+    res.status(500).json({ error: 'Failed to schedule job' });
+  }
+});
+
+// Delete job (moves it to the recycle bin)
+router.delete('/:id', verifyTokenAndPermission('delete_jobs'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const jobId = parseInt(req.params.id);
+
+    const result = await moveToRecycleBin('job', jobId, req.user?.id);
+    if (!result) {
       return res.status(404).json({ error: 'Job not found' });
     }
+    const jobToDelete = result.change.old as typeof jobs.$inferSelect;
 
     // Log the deletion
     await logRecordDeletion(
@@ -262,7 +612,17 @@ router.delete('/:id', verifyTokenAndPermission('delete_jobs'), async (req: Authe
       req
     );
 
-    res.json({ message: 'Job deleted successfully' });
+    publishChange({
+      entity: 'job',
+      action: 'deleted',
+      ids: [jobId],
+      projectIds: [jobToDelete.projectId],
+      userId: req.user?.id,
+    });
+
+    await syncProjectStatuses([jobToDelete.projectId], req.user?.id, req.user?.email);
+
+    res.json({ message: 'Job moved to the recycle bin' });
   } catch (error) {
     console.error('Error deleting job:', error);
     res.status(500).json({ error: 'Failed to delete job' });
@@ -0,0 +1,68 @@
+import { Router } from 'express';
+import { authenticateToken, type AuthRequest } from '../middleware/auth.js';
+import {
+  listNotifications,
+  parseNotificationsPatch,
+  markNotifications,
+  getNotificationPreferences,
+  parseNotificationPreferencesInput,
+  updateNotificationPreferences,
+  NotificationError,
+} from '../services/notificationService.js';
+
+const router = Router();
+
+// The current user's newest in-app notifications and unread count.
+// Query: unread=true for unread only, limit (default 20, at most 100)
+router.get('/', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const limit = req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) : undefined;
+    if (limit !== undefined && !Number.isInteger(limit)) {
+      return res.status(400).json({ error: 'limit must be a whole number' });
+    }
+    res.json(await listNotifications(req.user!.id, { unreadOnly: req.query.unread === 'true', limit }));
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({ error: 'Failed to fetch notifications' });
+  }
+});
+
+// Mark notifications read (or unread with read: false). Body: { ids: number[] } or { all: true }
+router.patch('/', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const patch = parseNotificationsPatch(req.body);
+    res.json(await markNotifications(req.user!.id, patch));
+  } catch (error) {
+    if (error instanceof NotificationError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error updating notifications:', error);
+    res.status(500).json({ error: 'Failed to update notifications' });
+  }
+});
+
+// The current user's notification preferences, one entry per event
+router.get('/preferences', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    res.json(await getNotificationPreferences(req.user!.id));
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    res.status(500).json({ error: 'Failed to fetch notification preferences' });
+  }
+});
+
+// Change some of them. Body: { [event]: { email?: boolean, inApp?: boolean } }
+router.put('/preferences', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const updates = parseNotificationPreferencesInput(req.body);
+    res.json(await updateNotificationPreferences(req.user!.id, updates));
+  } catch (error) {
+    if (error instanceof NotificationError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error updating notification preferences:', error);
+    res.status(500).json({ error: 'Failed to update notification preferences' });
+  }
+});
+
+export default router;
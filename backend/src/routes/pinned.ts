@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { db } from '../db/index.js';
-import { eq, and, desc, asc } from 'drizzle-orm';
+import { eq, and, desc, asc, isNull } from 'drizzle-orm';
 import { pinnedProjects, projects, clients } from '../db/schema.js';
 import { authenticateToken, AuthRequest } from '../middleware/auth.js';
 
@@ -31,7 +31,7 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
       .from(pinnedProjects)
       .innerJoin(projects, eq(pinnedProjects.projectId, projects.id))
       .leftJoin(clients, eq(projects.clientId, clients.id))
-      .where(eq(pinnedProjects.userId, userId))
+      .where(and(eq(pinnedProjects.userId, userId), isNull(projects.deletedAt)))
       .orderBy(asc(pinnedProjects.order));
 
     // Transform the data to match frontend expectations
@@ -0,0 +1,78 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth.js';
+import {
+  listProjectStatuses,
+  parseProjectStatusInput,
+  createProjectStatus,
+  updateProjectStatus,
+  reorderProjectStatuses,
+  deleteProjectStatus,
+  ProjectStatusError,
+} from '../services/projectStatusService.js';
+
+const router = express.Router();
+
+// GET /api/project-statuses - Statuses in order, each with its number of projects
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    res.json(await listProjectStatuses());
+  } catch (error) {
+    console.error('Error fetching project statuses:', error);
+    res.status(500).json({ error: 'Failed to fetch project statuses' });
+  }
+});
+
+// POST /api/project-statuses - Create a project status
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    res.status(201).json(await createProjectStatus(parseProjectStatusInput(req.body ?? {})));
+  } catch (error) {
+    if (error instanceof ProjectStatusError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error creating project status:', error);
+    res.status(500).json({ error: 'Failed to create project status' });
+  }
+});
+
+// PUT /api/project-statuses/reorder - Body: { ids: number[] } in the new order
+router.put('/reorder', authenticateToken, async (req, res) => {
+  try {
+    res.json(await reorderProjectStatuses(req.body?.ids));
+  } catch (error) {
+    if (error instanceof ProjectStatusError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error reordering project statuses:', error);
+    res.status(500).json({ error: 'Failed to reorder project statuses' });
+  }
+});
+
+// PUT /api/project-statuses/:id - Update a project status. Renaming it renames it on every project.
+router.put('/:id', authenticateToken, async (req, res) => {
+  try {
+    res.json(await updateProjectStatus(parseInt(req.params.id), parseProjectStatusInput(req.body ?? {})));
+  } catch (error) {
+    if (error instanceof ProjectStatusError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error updating project status:', error);
+    res.status(500).json({ error: 'Failed to update project status' });
+  }
+});
+
+// DELETE /api/project-statuses/:id - Delete a status no project uses
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    await deleteProjectStatus(parseInt(req.params.id));
+    res.json({ message: 'Project status deleted successfully' });
+  } catch (error) {
+    if (error instanceof ProjectStatusError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error deleting project status:', error);
+    res.status(500).json({ error: 'Failed to delete project status' });
+  }
+});
+
+export default router;
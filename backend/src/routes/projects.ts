@@ -1,16 +1,75 @@
 import express from 'express';
-import { eq, desc, sql } from 'drizzle-orm';
+import { eq, and, isNull, desc, sql, count } from 'drizzle-orm';
 import { db } from '../db/index.js';
 import { projects, clients, jobs, jobStatuses } from '../db/schema.js';
 import { verifyTokenAndPermission, type AuthenticatedRequest } from '../middleware/permissions.js';
 import { logRecordCreation, logAuditChanges, logRecordDeletion } from '../services/auditService.js';
+import { loadScheduleContext, buildJobSchedulePreview, applyJobSchedules, loadWorkingCalendar } from '../services/schedulingService.js';
+import { normalizeJobDates, normalizeApiDate, InvalidDateError } from '../utils/dates.js';
+import { parseListQuery, buildListPage, ListQueryError } from '../utils/listQuery.js';
+import {
+  PROJECT_LIST_CONFIG,
+  projectJobCount,
+  projectCompletedJobCount,
+  projectProgress,
+  projectJobsJoin,
+} from '../services/listConfigs.js';
+import { recordStatusChange, recordStatusChanges } from '../services/jobStatusHistoryService.js';
+import { publishChange } from '../services/liveUpdatesService.js';
+import { moveToRecycleBin } from '../services/recycleBinService.js';
+import {
+  getJobTemplate,
+  parseUnits,
+  buildTemplateJobs,
+  createTemplateJobs,
+  JobTemplateError,
+} from '../services/jobTemplateService.js';
+import {
+  getProjectLocations,
+  parseGenerateInput,
+  generateProjectLocations,
+  linkJobsToUnits,
+  renameLocation,
+  deleteLocation,
+  resolveJobUnit,
+  loadUnitIdsByName,
+  LOCATION_KINDS,
+  LocationError,
+  type LocationKind,
+} from '../services/projectLocationService.js';
+import {
+  resolveNewProjectStatus,
+  assertProjectStatusChange,
+  syncProjectStatuses,
+  ProjectStatusError,
+} from '../services/projectStatusService.js';
+import { loadJobWorkflow, assertStatusMove, findStatusMoveProblem, resolveNewJobStatus, toLegacyJobStatus, JobWorkflowError } from '../services/jobWorkflowService.js';
+import { withStageVariances } from '../services/stageActualsService.js';
+import { notifyProjectStatusChanges, notifyJobChanges, notifyJobsAdded } from '../services/notificationService.js';
+import {
+  setVersionHeaders,
+  assertCurrentVersion,
+  pickSubmittedFields,
+  buildEditConflict,
+  EditConflictError,
+} from '../services/editConflictService.js';
+import {
+  checkCapacity,
+  getChangedStageDates,
+  getScheduleStageDates,
+  describeCapacityConflicts,
+  withCapacityWarnings,
+} from '../services/capacityService.js';
 
 const router = express.Router();
 
 // GET /api/projects - Get all projects with client and job counts
 router.get('/', verifyTokenAndPermission('view_projects'), async (req: AuthenticatedRequest, res) => {
   try {
-    const allProjects = await db
+    const listQuery = parseListQuery(req.query, PROJECT_LIST_CONFIG);
+
+    // Job counts are aggregated in the same query so they can be sorted on
+    const projectRows = db
       .select({
         id: projects.id,
         name: projects.name,
@@ -21,44 +80,47 @@ router.get('/', verifyTokenAndPermission('view_projects'), async (req: Authentic
         updatedAt: projects.updatedAt,
         clientName: clients.name,
         clientCompany: clients.company,
+        jobCount: projectJobCount,
+        completedJobCount: projectCompletedJobCount,
+        progress: projectProgress,
       })
       .from(projects)
       .leftJoin(clients, eq(projects.clientId, clients.id))
-      .orderBy(desc(projects.createdAt));
-
-    // Get job counts for each project
-    const projectsWithJobCounts = await Promise.all(
-      allProjects.map(async (project) => {
-        const jobCount = await db
-          .select({ count: sql<number>`count(*)` })
-          .from(jobs)
-          .where(eq(jobs.projectId, project.id));
-
-        const completedJobCount = await db
-          .select({ count: sql<number>`count(*)` })
-          .from(jobs)
-          .where(
-            sql`${jobs.projectId} = ${project.id} AND ${jobs.status} IN ('nesting-complete', 'machining-complete', 'assembly-complete', 'delivered')`
-          );
-
-        return {
-          ...project,
-          jobCount: jobCount[0]?.count || 0,
-          completedJobCount: completedJobCount[0]?.count || 0,
-          progress: jobCount[0]?.count > 0 
-            ? Math.round(((completedJobCount[0]?.count || 0) / jobCount[0].count) * 100)
-            : 0,
-          client: project.clientName ? {
-            id: project.clientId,
-            name: project.clientName,
-            company: project.clientCompany
-          } : null
-        };
-      })
-    );
+      .leftJoin(jobs, projectJobsJoin)
+      .leftJoin(jobStatuses, eq(jobs.statusId, jobStatuses.id))
+      .where(listQuery.where)
+      .groupBy(projects.id, clients.id)
+      .orderBy(...listQuery.orderBy)
+      .$dynamic();
+
+    const withClient = (rows: Awaited<typeof projectRows>) => rows.map(project => ({
+      ...project,
+      client: project.clientName ? {
+        id: project.clientId,
+        name: project.clientName,
+        company: project.clientCompany
+      } : null
+    }));
+
+    // Without ?page the full (filtered, sorted) list is returned as before
+    if (!listQuery.paginated) {
+      return res.json(withClient(await projectRows));
+    }
+
+    const [pageRows, [{ total }]] = await Promise.all([
+      projectRows.limit(listQuery.pageSize).offset((listQuery.page - 1) * listQuery.pageSize),
+      db
+        .select({ total: count() })
+        .from(projects)
+        .leftJoin(clients, eq(projects.clientId, clients.id))
+        .where(listQuery.where),
+    ]);
 
-    res.json(projectsWithJobCounts);
+    res.json(buildListPage(withClient(pageRows), total, listQuery));
   } catch (error) {
+    if (error instanceof ListQueryError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Error fetching projects:', error);
     res.status(500).json({ error: 'Failed to fetch projects' });
   }
@@ -85,7 +147,7 @@ router.get('/:id', verifyTokenAndPermission('view_projects'), async (req: Authen
       })
       .from(projects)
       .leftJoin(clients, eq(projects.clientId, clients.id))
-      .where(eq(projects.id, projectId))
+      .where(and(eq(projects.id, projectId), isNull(projects.deletedAt)))
       .limit(1);
 
     if (project.length === 0) {
@@ -97,12 +159,17 @@ router.get('/:id', verifyTokenAndPermission('view_projects'), async (req: Authen
       .select({
         id: jobs.id,
         unit: jobs.unit,
+        unitId: jobs.unitId,
         type: jobs.type,
         items: jobs.items,
         nestingDate: jobs.nestingDate,
         machiningDate: jobs.machiningDate,
         assemblyDate: jobs.assemblyDate,
         deliveryDate: jobs.deliveryDate,
+        nestingActualDate: jobs.nestingActualDate,
+        machiningActualDate: jobs.machiningActualDate,
+        assemblyActualDate: jobs.assemblyActualDate,
+        deliveryActualDate: jobs.deliveryActualDate,
         status: jobs.status,
         statusId: jobs.statusId,
         comments: jobs.comments,
@@ -121,7 +188,7 @@ router.get('/:id', verifyTokenAndPermission('view_projects'), async (req: Authen
       })
       .from(jobs)
       .leftJoin(jobStatuses, eq(jobs.statusId, jobStatuses.id))
-      .where(eq(jobs.projectId, projectId))
+      .where(and(eq(jobs.projectId, projectId), isNull(jobs.deletedAt)))
       .orderBy(desc(jobs.createdAt));
 
     const projectWithDetails = {
@@ -133,7 +200,7 @@ router.get('/:id', verifyTokenAndPermission('view_projects'), async (req: Authen
         email: project[0].clientEmail,
         phone: project[0].clientPhone,
       } : null,
-      jobs: projectJobs,
+      jobs: withStageVariances(projectJobs, await loadWorkingCalendar()),
       jobCount: projectJobs.length,
       completedJobCount: projectJobs.filter(job => 
         ['nesting-complete', 'machining-complete', 'assembly-complete', 'delivered'].includes(job.status || '')
@@ -145,6 +212,7 @@ router.get('/:id', verifyTokenAndPermission('view_projects'), async (req: Authen
         : 0
     };
 
+    setVersionHeaders(res, project[0]);
     res.json(projectWithDetails);
   } catch (error) {
     console.error('Error fetching project:', error);
@@ -166,7 +234,7 @@ router.post('/', verifyTokenAndPermission('add_projects'), async (req: Authentic
       .values({
         name,
         description: description || null,
-        status: status || 'active',
+        status: await resolveNewProjectStatus(status),
         clientId: clientId || null,
       })
       .returning();
@@ -181,98 +249,136 @@ router.post('/', verifyTokenAndPermission('add_projects'), async (req: Authentic
       req
     );
 
+    publishChange({ entity: 'project', action: 'created', ids: [newProject[0].id], userId: req.user?.id });
+
     res.status(201).json(newProject[0]);
   } catch (error) {
+    if (error instanceof ProjectStatusError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Error creating project:', error);
     res.status(500).json({ error: 'Failed to create project' });
   }
 });
 
 // PUT /api/projects/:id - Update a project
+// Only supplied fields change. Send the ETag from GET /:id as If-Match to detect concurrent edits.
 router.put('/:id', verifyTokenAndPermission('edit_projects'), async (req: AuthenticatedRequest, res) => {
   try {
     const projectId = parseInt(req.params.id);
     const { name, description, status, clientId } = req.body;
 
-    // Get the old record before updating
-    const [oldProject] = await db
-      .select()
-      .from(projects)
-      .where(eq(projects.id, projectId))
-      .limit(1);
-
-    if (!oldProject) {
-      return res.status(404).json({ error: 'Project not found' });
-    }
-
-    const updatedProject = await db
-      .update(projects)
-      .set({
+    // A blank name or status is ignored rather than clearing the field
+    const changes = pickSubmittedFields(
+      {
         name: name || undefined,
-        description: description !== undefined ? description : undefined,
+        description,
         status: status || undefined,
-        clientId: clientId !== undefined ? clientId : undefined,
-        updatedAt: new Date(),
-      })
-      .where(eq(projects.id, projectId))
-      .returning();
+        clientId,
+      },
+      ['name', 'description', 'status', 'clientId']
+    );
+    const ifMatch = req.get('If-Match');
+
+    const result = await db.transaction(async (tx) => {
+      // Lock the row so the version check and the write can't interleave with another save
+      const [oldProject] = await tx
+        .select()
+        .from(projects)
+        .where(and(eq(projects.id, projectId), isNull(projects.deletedAt)))
+        .for('update');
+
+      if (!oldProject) return null;
+      assertCurrentVersion(ifMatch, oldProject, changes);
+      if (typeof changes.status === 'string') {
+        await assertProjectStatusChange(projectId, oldProject.status, changes.status);
+      }
+
+      const [updatedProject] = await tx
+        .update(projects)
+        .set({
+          ...changes,
+          updatedAt: new Date(),
+        })
+        .where(eq(projects.id, projectId))
+        .returning();
+
+      return { oldProject, updatedProject };
+    });
 
-    if (updatedProject.length === 0) {
+    if (!result) {
       return res.status(404).json({ error: 'Project not found' });
     }
 
+    const { oldProject, updatedProject } = result;
+
     // Log the changes
     await logAuditChanges(
       'projects',
       projectId,
       oldProject,
-      updatedProject[0],
+      updatedProject,
       req.user?.id,
       req.user?.email,
       req
     );
 
-    res.json(updatedProject[0]);
+    publishChange({ entity: 'project', action: 'updated', ids: [projectId], userId: req.user?.id });
+
+    if (updatedProject.status) {
+      await notifyProjectStatusChanges(
+        [{ projectId, fromStatus: oldProject.status, toStatus: updatedProject.status }],
+        req.user?.id
+      );
+    }
+
+    setVersionHeaders(res, updatedProject);
+    res.json(updatedProject);
   } catch (error) {
+    if (error instanceof EditConflictError) {
+      return res.status(409).json(await buildEditConflict('projects', 'project', error));
+    }
+    if (error instanceof ProjectStatusError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Error updating project:', error);
     res.status(500).json({ error: 'Failed to update project' });
   }
 });
 
-// DELETE /api/projects/:id - Delete a project
+// DELETE /api/projects/:id - Move a project and its jobs to the recycle bin
 router.delete('/:id', verifyTokenAndPermission('delete_projects'), async (req: AuthenticatedRequest, res) => {
   try {
     const projectId = parseInt(req.params.id);
 
-    // Get the record before deleting for audit logging
-    const [projectToDelete] = await db
-      .select()
-      .from(projects)
-      .where(eq(projects.id, projectId))
-      .limit(1);
-
-    if (!projectToDelete) {
-      return res.status(404).json({ error: 'Project not found' });
-    }
-
-    const deletedProject = await db
-      .delete(projects)
-      .where(eq(projects.id, projectId))
-      .returning({ id: projects.id });
-
-    if (deletedProject.length === 0) {
+    const result = await moveToRecycleBin('project', projectId, req.user?.id);
+    if (!result) {
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    // Log the deletion
+    // Log the deletion, and each job that went with it
     await logRecordDeletion(
       'projects',
       projectId,
-      projectToDelete,
+      result.change.old,
       req.user?.id,
       req.user?.email,
       req
     );
+    for (const job of result.jobs) {
+      await logRecordDeletion('jobs', job.old.id, job.old, req.user?.id, req.user?.email, req);
+    }
+
+    publishChange({ entity: 'project', action: 'deleted', ids: [projectId], userId: req.user?.id });
+    if (result.jobs.length > 0) {
+      publishChange({
+        entity: 'job',
+        action: 'deleted',
+        ids: result.jobs.map(job => job.old.id),
+        projectIds: [projectId],
+        userId: req.user?.id,
+      });
+    }
 
     res.status(204).send();
   } catch (error) {
@@ -281,54 +387,131 @@ router.delete('/:id', verifyTokenAndPermission('delete_projects'), async (req: A
   }
 });
 
+// POST /api/projects/:id/schedule - Schedule all project jobs from their delivery dates
+// Returns a preview unless apply: true is passed. An optional deliveryDate applies to every job.
+router.post('/:id/schedule', verifyTokenAndPermission('edit_jobs'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const { apply = false } = req.body;
+    const deliveryDate = normalizeApiDate(req.body.deliveryDate, 'deliveryDate') || undefined;
+
+    const project = await db
+      .select({ id: projects.id })
+      .from(projects)
+      .where(and(eq(projects.id, projectId), isNull(projects.deletedAt)))
+      .limit(1);
+
+    if (project.length === 0) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const projectJobs = await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.projectId, projectId), isNull(jobs.deletedAt)))
+      .orderBy(jobs.id);
+
+    const context = await loadScheduleContext();
+    const previews = projectJobs.map(job => buildJobSchedulePreview(job, context, deliveryDate));
+
+    const summary = {
+      jobs: previews.length,
+      changed: previews.filter(p => !p.error && p.changes.length > 0).length,
+      skipped: previews.filter(p => p.error).length,
+    };
+
+    const capacity = await checkCapacity(getScheduleStageDates(previews));
+
+    if (!apply) {
+      return res.json({ applied: false, summary, previews, capacityConflicts: capacity.conflicts });
+    }
+
+    if (capacity.blocking.length > 0) {
+      return res.status(409).json({
+        error: `Over capacity: ${describeCapacityConflicts(capacity.blocking)}`,
+        summary,
+        previews,
+        capacityConflicts: capacity.conflicts,
+      });
+    }
+
+    const jobChanges = await applyJobSchedules(previews, req.user?.id, req.user?.email, req);
+    const updatedJobIds = jobChanges.map(change => change.updatedJob.id);
+    const updated = updatedJobIds.length;
+
+    publishChange({
+      entity: 'job',
+      action: 'updated',
+      ids: updatedJobIds,
+      projectIds: [projectId],
+      userId: req.user?.id,
+    });
+
+    await notifyJobChanges(jobChanges, req.user?.id);
+
+    res.json({ applied: true, summary: { ...summary, updated }, previews, capacityConflicts: capacity.conflicts });
+  } catch (error) {
+    if (error instanceof InvalidDateError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error scheduling project:', error);
+    res.status(500).json({ error: 'Failed to schedule project' });
+  }
+});
+
 // POST /api/projects/:id/jobs - Create a new job for a project
 router.post('/:id/jobs', verifyTokenAndPermission('add_jobs'), async (req: AuthenticatedRequest, res) => {
   try {
     const projectId = parseInt(req.params.id);
-    const { unit, type, items, status, nestingDate, machiningDate, assemblyDate, deliveryDate, comments } = req.body;
+    const { unit, unitId, type, items, status, comments } = req.body;
 
     if (!items) {
       return res.status(400).json({ error: 'Items field is required' });
     }
 
+    const dates = normalizeJobDates(req.body);
+    const { nestingDate, machiningDate, assemblyDate, deliveryDate } = dates;
+
     // Verify project exists
     const project = await db
       .select({ id: projects.id })
       .from(projects)
-      .where(eq(projects.id, projectId))
+      .where(and(eq(projects.id, projectId), isNull(projects.deletedAt)))
       .limit(1);
 
     if (project.length === 0) {
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    // Convert status string to statusId if provided
-    let statusId = 1; // Default to first status
-    if (status) {
-      if (typeof status === 'number') {
-        statusId = status;
-      } else {
-        // Look up status by name
-        const statusRecord = await db
-          .select({ id: jobStatuses.id })
-          .from(jobStatuses)
-          .where(eq(jobStatuses.name, status))
-          .limit(1);
-        
-        if (statusRecord.length > 0) {
-          statusId = statusRecord[0].id;
-        }
-      }
+    const location = await resolveJobUnit(projectId, unitId);
+
+    const capacity = await checkCapacity(getChangedStageDates(undefined, {}, dates));
+    if (capacity.blocking.length > 0) {
+      return res.status(409).json({
+        error: `Over capacity: ${describeCapacityConflicts(capacity.blocking)}`,
+        capacityConflicts: capacity.conflicts,
+      });
     }
 
+    const workflow = await loadJobWorkflow();
+    const targetStatus = resolveNewJobStatus(workflow, req.body.statusId ?? status);
+
+    assertStatusMove(workflow, {
+      fromStatusId: null,
+      toStatusId: targetStatus.id,
+      job: { ...req.body, ...dates, unit: location.unit ?? unit },
+    });
+
     const newJob = await db
       .insert(jobs)
       .values({
         projectId,
-        unit: unit || null,
+        unit: location.unit ?? (unit || null),
+        unitId: location.unitId,
         type: type || null,
         items,
-        statusId,
+        statusId: targetStatus.id,
+        status: toLegacyJobStatus(targetStatus.name),
         nestingDate: nestingDate || null,
         machiningDate: machiningDate || null,
         assemblyDate: assemblyDate || null,
@@ -337,8 +520,25 @@ router.post('/:id/jobs', verifyTokenAndPermission('add_jobs'), async (req: Authe
       })
       .returning();
 
-    res.status(201).json(newJob[0]);
+    await recordStatusChange(newJob[0].id, null, newJob[0].statusId, 'create', req.user?.id, req.user?.email);
+
+    publishChange({
+      entity: 'job',
+      action: 'created',
+      ids: [newJob[0].id],
+      projectIds: [projectId],
+      userId: req.user?.id,
+    });
+
+    // New jobs reopen a completed project
+    await syncProjectStatuses([projectId], req.user?.id, req.user?.email);
+    await notifyJobsAdded(newJob, req.user?.id);
+
+    res.status(201).json(withCapacityWarnings(newJob[0], capacity));
   } catch (error) {
+    if (error instanceof InvalidDateError || error instanceof LocationError || error instanceof JobWorkflowError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Error creating job:', error);
     res.status(500).json({ error: 'Failed to create job' });
   }
@@ -358,28 +558,69 @@ router.post('/:id/jobs/bulk', verifyTokenAndPermission('add_jobs'), async (req:
     const project = await db
       .select({ id: projects.id })
       .from(projects)
-      .where(eq(projects.id, projectId))
+      .where(and(eq(projects.id, projectId), isNull(projects.deletedAt)))
       .limit(1);
 
     if (project.length === 0) {
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    // Validate all jobs before inserting
-    for (const job of jobsData) {
+    // Validate all jobs before inserting. Statuses may be given by id or by name.
+    const workflow = await loadJobWorkflow();
+    for (const [index, job] of jobsData.entries()) {
       if (!job.items) {
         return res.status(400).json({ error: 'All jobs must have an items field' });
       }
+
+      try {
+        Object.assign(job, normalizeJobDates(job));
+      } catch (error) {
+        if (error instanceof InvalidDateError) {
+          return res.status(400).json({ error: `Job ${index + 1}: ${error.message}` });
+        }
+        throw error;
+      }
+
+      try {
+        const targetStatus = resolveNewJobStatus(workflow, job.statusId ?? job.status);
+        job.statusId = targetStatus.id;
+        job.status = toLegacyJobStatus(targetStatus.name);
+      } catch (error) {
+        if (error instanceof JobWorkflowError) {
+          return res.status(error.status).json({ error: `Job ${index + 1}: ${error.message}` });
+        }
+        throw error;
+      }
+
+      const problem = findStatusMoveProblem(workflow, { fromStatusId: null, toStatusId: job.statusId, job });
+      if (problem) {
+        return res.status(400).json({ error: `Job ${index + 1}: ${problem}` });
+      }
+    }
+
+    const capacity = await checkCapacity(
+      jobsData.flatMap((job: Record<string, string | null>) => getChangedStageDates(undefined, {}, job))
+    );
+    if (capacity.blocking.length > 0) {
+      return res.status(409).json({
+        error: `Over capacity: ${describeCapacityConflicts(capacity.blocking)}`,
+        capacityConflicts: capacity.conflicts,
+      });
     }
 
+    // Rows whose unit names one of the project's units are linked to it
+    const projectUnits = await loadUnitIdsByName(projectId);
+
     const newJobs = await db
       .insert(jobs)
       .values(jobsData.map((job: any) => ({
         projectId,
         unit: job.unit || null,
+        unitId: job.unit ? projectUnits.get(String(job.unit).trim().toLowerCase())?.id ?? null : null,
         type: job.type || null,
         items: job.items,
-        statusId: job.status || 1,
+        statusId: job.statusId,
+        status: job.status,
         nestingDate: job.nestingDate || null,
         machiningDate: job.machiningDate || null,
         assemblyDate: job.assemblyDate || null,
@@ -388,10 +629,30 @@ router.post('/:id/jobs/bulk', verifyTokenAndPermission('add_jobs'), async (req:
       })))
       .returning();
 
+    await recordStatusChanges(
+      newJobs.map(job => ({ jobId: job.id, fromStatusId: null, toStatusId: job.statusId })),
+      'bulk_upload',
+      req.user?.id,
+      req.user?.email
+    );
+
+    publishChange({
+      entity: 'job',
+      action: 'created',
+      ids: newJobs.map(job => job.id),
+      projectIds: [projectId],
+      userId: req.user?.id,
+    });
+
+    // New jobs reopen a completed project
+    await syncProjectStatuses([projectId], req.user?.id, req.user?.email);
+    await notifyJobsAdded(newJobs, req.user?.id);
+
     res.status(201).json({ 
       message: `Successfully created ${newJobs.length} jobs`,
       created: newJobs.length,
-      jobs: newJobs 
+      jobs: newJobs,
+      capacityConflicts: capacity.conflicts
     });
   } catch (error) {
     console.error('Error creating bulk jobs:', error);
@@ -399,4 +660,185 @@ router.post('/:id/jobs/bulk', verifyTokenAndPermission('add_jobs'), async (req:
   }
 });
 
+// POST /api/projects/:id/jobs/from-template - Create a job template's jobs for each unit
+// Body: { templateId, units: string[], deliveryDate, dryRun? }. A dry run returns the jobs
+// that would be created, with their dates and any capacity conflicts, without writing.
+router.post('/:id/jobs/from-template', verifyTokenAndPermission('add_jobs'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const { templateId, units, deliveryDate, dryRun } = req.body ?? {};
+
+    const targetDate = normalizeApiDate(deliveryDate, 'deliveryDate');
+    if (!targetDate) {
+      return res.status(400).json({ error: 'deliveryDate is required' });
+    }
+    const template = await getJobTemplate(Number(templateId));
+    const templateJobs = await buildTemplateJobs(template, parseUnits(units), targetDate);
+
+    const workflow = await loadJobWorkflow();
+    for (const job of templateJobs) {
+      const problem = findStatusMoveProblem(workflow, { fromStatusId: null, toStatusId: job.statusId, job });
+      if (problem) {
+        return res.status(400).json({ error: `${job.unit} ${job.items}: ${problem}` });
+      }
+    }
+
+    const capacity = await checkCapacity(templateJobs.flatMap(job => getChangedStageDates(undefined, {}, job)));
+    if (dryRun === true) {
+      return res.json({ jobs: templateJobs, capacityConflicts: capacity.conflicts });
+    }
+    if (capacity.blocking.length > 0) {
+      return res.status(409).json({
+        error: `Over capacity: ${describeCapacityConflicts(capacity.blocking)}`,
+        capacityConflicts: capacity.conflicts,
+      });
+    }
+
+    const newJobs = await createTemplateJobs(projectId, templateJobs, req.user?.id, req.user?.email);
+
+    for (const job of newJobs) {
+      await logRecordCreation('jobs', job.id, job, req.user?.id, req.user?.email, req);
+    }
+
+    publishChange({
+      entity: 'job',
+      action: 'created',
+      ids: newJobs.map(job => job.id),
+      projectIds: [projectId],
+      userId: req.user?.id,
+    });
+
+    // New jobs reopen a completed project
+    await syncProjectStatuses([projectId], req.user?.id, req.user?.email);
+    await notifyJobsAdded(newJobs, req.user?.id);
+
+    res.status(201).json({
+      message: `Created ${newJobs.length} jobs from ${template.name}`,
+      created: newJobs.length,
+      jobs: newJobs,
+      capacityConflicts: capacity.conflicts,
+    });
+  } catch (error) {
+    if (error instanceof JobTemplateError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof InvalidDateError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error creating jobs from template:', error);
+    res.status(500).json({ error: 'Failed to create jobs from template' });
+  }
+});
+
+const parseLocationKind = (value: string): LocationKind | null =>
+  (LOCATION_KINDS as string[]).includes(value) ? value as LocationKind : null;
+
+// GET /api/projects/:id/locations - Buildings, levels and units with linked job counts
+router.get('/:id/locations', verifyTokenAndPermission('view_projects'), async (req: AuthenticatedRequest, res) => {
+  try {
+    res.json(await getProjectLocations(parseInt(req.params.id)));
+  } catch (error) {
+    if (error instanceof LocationError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error fetching project locations:', error);
+    res.status(500).json({ error: 'Failed to fetch project locations' });
+  }
+});
+
+// POST /api/projects/:id/locations/generate - Create buildings, levels and units from ranges
+// Body: { buildings?: "A-B", levels: "1-12", units: "01-08", buildingName?, levelName?, unitName?, linkJobs? }
+router.post('/:id/locations/generate', verifyTokenAndPermission('edit_projects'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const result = await generateProjectLocations(projectId, parseGenerateInput(req.body ?? {}));
+
+    publishChange({ entity: 'project', action: 'updated', ids: [projectId], userId: req.user?.id });
+    if (result.linkedJobIds.length > 0) {
+      publishChange({ entity: 'job', action: 'updated', ids: result.linkedJobIds, projectIds: [projectId], userId: req.user?.id });
+    }
+
+    res.status(201).json({ ...result, locations: await getProjectLocations(projectId) });
+  } catch (error) {
+    if (error instanceof LocationError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error generating project locations:', error);
+    res.status(500).json({ error: 'Failed to generate project locations' });
+  }
+});
+
+// POST /api/projects/:id/locations/link-jobs - Link unlinked jobs to the unit named in their unit text
+router.post('/:id/locations/link-jobs', verifyTokenAndPermission('edit_jobs'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const linkedJobIds = await linkJobsToUnits(projectId);
+
+    if (linkedJobIds.length > 0) {
+      publishChange({ entity: 'job', action: 'updated', ids: linkedJobIds, projectIds: [projectId], userId: req.user?.id });
+    }
+
+    res.json({ linked: linkedJobIds.length, locations: await getProjectLocations(projectId) });
+  } catch (error) {
+    if (error instanceof LocationError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error linking jobs to units:', error);
+    res.status(500).json({ error: 'Failed to link jobs to units' });
+  }
+});
+
+// PATCH /api/projects/:id/locations/:kind/:locationId - Rename a building, level or unit
+router.patch('/:id/locations/:kind/:locationId', verifyTokenAndPermission('edit_projects'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const kind = parseLocationKind(req.params.kind);
+    if (!kind) {
+      return res.status(404).json({ error: 'Unknown location type' });
+    }
+
+    const renamedJobIds = await renameLocation(projectId, kind, parseInt(req.params.locationId), req.body?.name);
+
+    publishChange({ entity: 'project', action: 'updated', ids: [projectId], userId: req.user?.id });
+    if (renamedJobIds.length > 0) {
+      publishChange({ entity: 'job', action: 'updated', ids: renamedJobIds, projectIds: [projectId], userId: req.user?.id });
+    }
+
+    res.json(await getProjectLocations(projectId));
+  } catch (error) {
+    if (error instanceof LocationError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error renaming project location:', error);
+    res.status(500).json({ error: 'Failed to rename project location' });
+  }
+});
+
+// DELETE /api/projects/:id/locations/:kind/:locationId - Delete a building, level or unit and
+// everything under it. Linked jobs are kept and unlinked.
+router.delete('/:id/locations/:kind/:locationId', verifyTokenAndPermission('edit_projects'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const kind = parseLocationKind(req.params.kind);
+    if (!kind) {
+      return res.status(404).json({ error: 'Unknown location type' });
+    }
+
+    const unlinkedJobIds = await deleteLocation(projectId, kind, parseInt(req.params.locationId));
+
+    publishChange({ entity: 'project', action: 'updated', ids: [projectId], userId: req.user?.id });
+    if (unlinkedJobIds.length > 0) {
+      publishChange({ entity: 'job', action: 'updated', ids: unlinkedJobIds, projectIds: [projectId], userId: req.user?.id });
+    }
+
+    res.json(await getProjectLocations(projectId));
+  } catch (error) {
+    if (error instanceof LocationError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error deleting project location:', error);
+    res.status(500).json({ error: 'Failed to delete project location' });
+  }
+});
+
 export default router;
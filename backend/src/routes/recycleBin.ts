@@ -0,0 +1,110 @@
+import { Router } from 'express';
+import { verifyTokenAndPermission, type AuthenticatedRequest } from '../middleware/permissions.js';
+import { logAuditChanges, logRecordDeletion } from '../services/auditService.js';
+import { publishChange } from '../services/liveUpdatesService.js';
+import { syncProjectStatuses } from '../services/projectStatusService.js';
+import {
+  listRecycleBin,
+  restoreFromRecycleBin,
+  purgeFromRecycleBin,
+  setPurgeAfterDays,
+  isRecycleBinType,
+  AUDIT_TABLE_NAMES,
+  RecycleBinError,
+} from '../services/recycleBinService.js';
+
+const router = Router();
+
+// GET /api/recycle-bin - Deleted jobs, projects and contacts, newest first
+router.get('/', verifyTokenAndPermission('admin'), async (req: AuthenticatedRequest, res) => {
+  try {
+    res.json(await listRecycleBin());
+  } catch (error) {
+    console.error('Error fetching recycle bin:', error);
+    res.status(500).json({ error: 'Failed to fetch recycle bin' });
+  }
+});
+
+// PUT /api/recycle-bin/settings - Set the auto-purge age in days (0 turns auto-purge off)
+router.put('/settings', verifyTokenAndPermission('admin'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const purgeAfterDays = await setPurgeAfterDays(req.body?.purgeAfterDays, req.user?.id);
+    res.json({ purgeAfterDays });
+  } catch (error) {
+    if (error instanceof RecycleBinError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error updating recycle bin settings:', error);
+    res.status(500).json({ error: 'Failed to update recycle bin settings' });
+  }
+});
+
+// POST /api/recycle-bin/:type/:id/restore - Restore a job, project (with its jobs) or contact
+router.post('/:type/:id/restore', verifyTokenAndPermission('admin'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { type } = req.params;
+    const id = parseInt(req.params.id);
+    if (!isRecycleBinType(type)) {
+      return res.status(400).json({ error: 'type must be job, project or contact' });
+    }
+
+    const result = await restoreFromRecycleBin(type, id);
+
+    await logAuditChanges(AUDIT_TABLE_NAMES[type], id, result.change.old, result.change.record, req.user?.id, req.user?.email, req);
+    for (const job of result.jobs) {
+      await logAuditChanges('jobs', job.record.id, job.old, job.record, req.user?.id, req.user?.email, req);
+    }
+
+    if (type === 'project') {
+      publishChange({ entity: 'project', action: 'created', ids: [id], userId: req.user?.id });
+    }
+    const restoredJobs = type === 'job' ? [result.change.record] : result.jobs.map(job => job.record);
+    if (restoredJobs.length > 0) {
+      publishChange({
+        entity: 'job',
+        action: 'created',
+        ids: restoredJobs.map(job => job.id),
+        projectIds: restoredJobs.map(job => ('projectId' in job ? job.projectId : null)),
+        userId: req.user?.id,
+      });
+    }
+
+    await syncProjectStatuses(restoredJobs.map(job => ('projectId' in job ? job.projectId : null)), req.user?.id, req.user?.email);
+
+    res.json({ type, id, record: result.change.record, restoredJobs: result.jobs.length });
+  } catch (error) {
+    if (error instanceof RecycleBinError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error restoring from recycle bin:', error);
+    res.status(500).json({ error: 'Failed to restore item' });
+  }
+});
+
+// DELETE /api/recycle-bin/:type/:id - Permanently remove an item that is in the recycle bin
+router.delete('/:type/:id', verifyTokenAndPermission('admin'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { type } = req.params;
+    const id = parseInt(req.params.id);
+    if (!isRecycleBinType(type)) {
+      return res.status(400).json({ error: 'type must be job, project or contact' });
+    }
+
+    const result = await purgeFromRecycleBin(type, id);
+
+    await logRecordDeletion(AUDIT_TABLE_NAMES[type], id, result.record, req.user?.id, req.user?.email, req);
+    for (const job of result.jobs) {
+      await logRecordDeletion('jobs', job.id, job, req.user?.id, req.user?.email, req);
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    if (error instanceof RecycleBinError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error purging from recycle bin:', error);
+    res.status(500).json({ error: 'Failed to purge item' });
+  }
+});
+
+export default router;
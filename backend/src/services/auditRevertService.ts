@@ -0,0 +1,265 @@
+import { db } from '../db/index.js';
+import { auditLogs, jobs, projects, clients, projectUnits, jobStatuses } from '../db/schema.js';
+import { and, eq, gt, desc, getTableColumns } from 'drizzle-orm';
+import { getChangedStageDates, type ProposedStageDate } from './capacityService.js';
+import { recordStatusChange } from './jobStatusHistoryService.js';
+
+/**
+ * Undo changes recorded in the audit log.
+ *
+ * A field revert puts one UPDATE entry's old value back. A version restore rebuilds the whole
+ * record as it was straight after an entry, by undoing every later field change in turn.
+ * A purged job is re-created from the snapshot in its DELETE entry, under its old id so its
+ * audit history still lines up. Records still in the recycle bin are restored from there instead.
+ */
+
+const REVERTIBLE_TABLES = { jobs, projects, clients };
+type RevertibleTableName = keyof typeof REVERTIBLE_TABLES;
+
+// Never written back: the key, timestamps the revert sets itself, and recycle bin state
+const PROTECTED_FIELDS = ['id', 'createdAt', 'updatedAt', 'deletedAt', 'deletedBy'];
+
+export type RevertScope = 'field' | 'version';
+
+type AuditEntry = typeof auditLogs.$inferSelect;
+type RecordValues = Record<string, unknown>;
+
+export interface AuditRevertPlan {
+  entry: AuditEntry;
+  tableName: RevertibleTableName;
+  recordId: number;
+  // Update the existing record, or re-create a deleted one
+  kind: 'update' | 'recreate';
+  oldRecord: RecordValues | null;
+  changes: RecordValues;
+  stageDates: ProposedStageDate[];
+}
+
+export class AuditRevertError extends Error {
+  constructor(message: string, public status = 400, public details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'AuditRevertError';
+  }
+}
+
+const isRevertibleTable = (tableName: string): tableName is RevertibleTableName =>
+  tableName in REVERTIBLE_TABLES;
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Audit values are stored as JSON; timestamps come back as strings and need to be Dates again
+const decodeValue = (tableName: RevertibleTableName, field: string, stored: string | null): unknown => {
+  if (stored === null) return null;
+  const value = JSON.parse(stored);
+  const column = getTableColumns(REVERTIBLE_TABLES[tableName])[field as never] as { dataType: string } | undefined;
+  if (column?.dataType === 'date' && typeof value === 'string') {
+    return new Date(value);
+  }
+  return value;
+};
+
+const isWritableField = (tableName: RevertibleTableName, field: string | null): field is string =>
+  !!field && !PROTECTED_FIELDS.includes(field) && field in getTableColumns(REVERTIBLE_TABLES[tableName]);
+
+const loadRecord = async (tableName: RevertibleTableName, recordId: number): Promise<RecordValues | null> => {
+  const table = REVERTIBLE_TABLES[tableName];
+  const [record] = await db.select().from(table).where(eq(table.id, recordId)).limit(1);
+  return record ?? null;
+};
+
+// Keep only the fields that would actually change
+const diffChanges = (current: RecordValues, target: RecordValues): RecordValues =>
+  Object.fromEntries(Object.entries(target).filter(([field, value]) => !sameValue(current[field], value)));
+
+const planRecreate = async (entry: AuditEntry, tableName: RevertibleTableName): Promise<AuditRevertPlan> => {
+  if (tableName !== 'jobs') {
+    throw new AuditRevertError(`Deleted ${tableName} cannot be re-created from the audit log; only deleted jobs can`);
+  }
+  const existing = await loadRecord(tableName, entry.recordId);
+  if (existing?.deletedAt) {
+    throw new AuditRevertError(`Job ${entry.recordId} is in the recycle bin; restore it from there`, 409);
+  }
+  if (existing) {
+    throw new AuditRevertError(`Job ${entry.recordId} already exists`, 409);
+  }
+  if (!entry.oldValue) {
+    throw new AuditRevertError('This deletion has no snapshot to restore from');
+  }
+
+  const snapshot = JSON.parse(entry.oldValue) as RecordValues;
+  const changes: RecordValues = {};
+  for (const field of Object.keys(getTableColumns(jobs))) {
+    if (field === 'updatedAt' || snapshot[field] === undefined) continue;
+    changes[field] = decodeValue(tableName, field, JSON.stringify(snapshot[field]));
+  }
+  changes.id = entry.recordId;
+  // The snapshot of a purged job was taken while it was in the recycle bin
+  changes.deletedAt = null;
+  changes.deletedBy = null;
+
+  if (typeof changes.projectId === 'number') {
+    const project = await loadRecord('projects', changes.projectId);
+    if (!project) {
+      throw new AuditRevertError(`The job's project ${changes.projectId} no longer exists`, 409);
+    }
+    if (project.deletedAt) {
+      throw new AuditRevertError(`The job's project ${changes.projectId} is in the recycle bin; restore it from there first`, 409);
+    }
+  }
+  if (typeof changes.unitId === 'number') {
+    const [unit] = await db.select({ id: projectUnits.id }).from(projectUnits).where(eq(projectUnits.id, changes.unitId)).limit(1);
+    if (!unit) {
+      throw new AuditRevertError(
+        `The job's unit ${changes.unit ?? changes.unitId} has been removed from the project's locations; add it back first`,
+        409
+      );
+    }
+  }
+  if (typeof changes.statusId === 'number') {
+    const [status] = await db.select({ id: jobStatuses.id }).from(jobStatuses).where(eq(jobStatuses.id, changes.statusId)).limit(1);
+    if (!status) {
+      throw new AuditRevertError(`The job's status ${changes.statusId} no longer exists`, 409);
+    }
+  }
+
+  return {
+    entry,
+    tableName,
+    recordId: entry.recordId,
+    kind: 'recreate',
+    oldRecord: null,
+    changes,
+    stageDates: getChangedStageDates(undefined, {}, changes as Parameters<typeof getChangedStageDates>[2]),
+  };
+};
+
+/**
+ * Work out what reverting an audit entry would change, without writing anything.
+ * A field revert refuses to overwrite a value changed again since the entry unless force is set.
+ */
+export const planAuditRevert = async (
+  entryId: number,
+  scope: RevertScope,
+  force = false
+): Promise<AuditRevertPlan> => {
+  const [entry] = await db.select().from(auditLogs).where(eq(auditLogs.id, entryId)).limit(1);
+  if (!entry) {
+    throw new AuditRevertError('Audit entry not found', 404);
+  }
+
+  const { tableName, recordId } = entry;
+  if (!isRevertibleTable(tableName)) {
+    throw new AuditRevertError(`Changes to ${tableName} cannot be reverted`);
+  }
+
+  if (entry.action === 'DELETE') {
+    const existing = tableName === 'jobs' ? null : await loadRecord(tableName, recordId);
+    if (existing?.deletedAt) {
+      throw new AuditRevertError(`This ${tableName} record is in the recycle bin; restore it from there`, 409);
+    }
+    return planRecreate(entry, tableName);
+  }
+
+  const current = await loadRecord(tableName, recordId);
+  if (!current) {
+    throw new AuditRevertError(`This ${tableName} record has been deleted; restore the deletion first`, 409);
+  }
+  if (current.deletedAt) {
+    throw new AuditRevertError(`This ${tableName} record is in the recycle bin; restore it from there first`, 409);
+  }
+
+  let target: RecordValues;
+  if (scope === 'field') {
+    if (entry.action !== 'UPDATE') {
+      throw new AuditRevertError('Only field changes can be reverted on their own; restore the version instead');
+    }
+    if (!isWritableField(tableName, entry.fieldName)) {
+      throw new AuditRevertError(`Field ${entry.fieldName} cannot be reverted`);
+    }
+    const changedSince = !sameValue(current[entry.fieldName], decodeValue(tableName, entry.fieldName, entry.newValue));
+    if (changedSince && !force) {
+      throw new AuditRevertError(
+        `${entry.fieldName} has been changed again since this entry. Revert with force to overwrite it.`,
+        409,
+        { code: 'changed_since', field: entry.fieldName, current: current[entry.fieldName] }
+      );
+    }
+    target = { [entry.fieldName]: decodeValue(tableName, entry.fieldName, entry.oldValue) };
+  } else {
+    // Undo later changes newest first, so each field ends at its value straight after this entry
+    const laterChanges = await db
+      .select()
+      .from(auditLogs)
+      .where(and(
+        eq(auditLogs.tableName, tableName),
+        eq(auditLogs.recordId, recordId),
+        eq(auditLogs.action, 'UPDATE'),
+        gt(auditLogs.id, entry.id)
+      ))
+      .orderBy(desc(auditLogs.id));
+
+    target = {};
+    for (const change of laterChanges) {
+      if (isWritableField(tableName, change.fieldName)) {
+        target[change.fieldName] = decodeValue(tableName, change.fieldName, change.oldValue);
+      }
+    }
+  }
+
+  const changes = diffChanges(current, target);
+  return {
+    entry,
+    tableName,
+    recordId,
+    kind: 'update',
+    oldRecord: current,
+    changes,
+    stageDates: tableName === 'jobs' ? getChangedStageDates(recordId, current, changes) : [],
+  };
+};
+
+/**
+ * Write a planned revert and return the record as saved. Audit logging is left to the caller,
+ * which has the request to log against.
+ */
+export const applyAuditRevert = async (
+  plan: AuditRevertPlan,
+  userId?: number,
+  userEmail?: string
+): Promise<RecordValues> => {
+  const table = REVERTIBLE_TABLES[plan.tableName];
+
+  if (plan.kind === 'recreate') {
+    const job = plan.changes as typeof jobs.$inferInsert;
+    const [record] = await db
+      .insert(jobs)
+      .values({ ...job, updatedAt: new Date() })
+      .returning();
+    // The job's status history was deleted with it; start a new one
+    await recordStatusChange(record.id, null, record.statusId, 'revert', userId, userEmail);
+    return record;
+  }
+
+  if (Object.keys(plan.changes).length === 0) {
+    return plan.oldRecord as RecordValues;
+  }
+
+  const [record]: RecordValues[] = await db
+    .update(table)
+    .set({ ...plan.changes, updatedAt: new Date() })
+    .where(eq(table.id, plan.recordId))
+    .returning();
+
+  if (plan.tableName === 'jobs' && plan.oldRecord?.statusId !== record.statusId) {
+    await recordStatusChange(
+      plan.recordId,
+      (plan.oldRecord?.statusId as number | undefined) ?? null,
+      record.statusId as number,
+      'revert',
+      userId,
+      userEmail
+    );
+  }
+
+  return record;
+};
@@ -13,6 +13,7 @@ export interface AuditLogData {
   userId?: number;
   userEmail?: string;
   req?: Request; // For extracting IP and user agent
+  revertedFromId?: number; // The audit entry this change reverts
 }
 
 /**
@@ -29,7 +30,8 @@ export const logAuditChange = async (data: AuditLogData): Promise<void> => {
       newValue,
       userId,
       userEmail,
-      req
+      req,
+      revertedFromId
     } = data;
 
     // Extract IP address and user agent from request
@@ -47,6 +49,7 @@ export const logAuditChange = async (data: AuditLogData): Promise<void> => {
       userEmail: userEmail || null,
       ipAddress: ipAddress || null,
       userAgent: userAgent || null,
+      revertedFromId: revertedFromId || null,
     });
 
     console.log(`Audit log created: ${action} on ${tableName}.${recordId}${fieldName ? `.${fieldName}` : ''} by user ${userId || 'unknown'}`);
@@ -66,7 +69,8 @@ export const logAuditChanges = async (
   newRecord: any,
   userId?: number,
   userEmail?: string,
-  req?: Request
+  req?: Request,
+  revertedFromId?: number
 ): Promise<void> => {
   try {
     const changes: AuditLogData[] = [];
@@ -93,7 +97,8 @@ export const logAuditChanges = async (
         newValue: newVal,
         userId,
         userEmail,
-        req
+        req,
+        revertedFromId
       });
     }
 
@@ -115,7 +120,8 @@ export const logRecordCreation = async (
   record: any,
   userId?: number,
   userEmail?: string,
-  req?: Request
+  req?: Request,
+  revertedFromId?: number
 ): Promise<void> => {
   await logAuditChange({
     tableName,
@@ -124,7 +130,8 @@ export const logRecordCreation = async (
     newValue: record,
     userId,
     userEmail,
-    req
+    req,
+    revertedFromId
   });
 };
 
@@ -0,0 +1,275 @@
+import { db } from '../db/index.js';
+import { jobs, stageCapacities } from '../db/schema.js';
+import { and, gte, lte, inArray, isNull, notInArray, sql, type SQL } from 'drizzle-orm';
+import type { JobDateField } from '../utils/dates.js';
+import { parseIsoDate, toIsoDate } from '../utils/dates.js';
+import { isWorkingDay, loadWorkingCalendar, type WorkingCalendar, type JobSchedulePreview } from './schedulingService.js';
+
+export const CAPACITY_STAGES = ['nesting', 'machining', 'assembly', 'delivery'] as const;
+
+export type CapacityStage = typeof CAPACITY_STAGES[number];
+
+export type CapacityEnforcement = 'warn' | 'block';
+
+// The job date column each stage's load is counted from
+export const STAGE_DATE_FIELD: Record<CapacityStage, JobDateField> = {
+  nesting: 'nestingDate',
+  machining: 'machiningDate',
+  assembly: 'assemblyDate',
+  delivery: 'deliveryDate',
+};
+
+export interface StageCapacitySetting {
+  stage: CapacityStage;
+  unitsPerDay: number; // 0 = unlimited
+  enforcement: CapacityEnforcement;
+  isActive: boolean;
+}
+
+export interface StageDayLoad {
+  load: number;
+  capacity: number | null; // null = unlimited
+  overCapacity: boolean;
+}
+
+export interface CapacityDay {
+  date: string; // YYYY-MM-DD
+  isWorkingDay: boolean;
+  stages: Record<CapacityStage, StageDayLoad>;
+}
+
+export interface CapacityConflict {
+  date: string;
+  stage: CapacityStage;
+  load: number; // Including the proposed change
+  capacity: number;
+  enforcement: CapacityEnforcement;
+  reason: 'over_capacity' | 'non_working_day';
+}
+
+export interface CapacityCheckResult {
+  conflicts: CapacityConflict[];
+  blocking: CapacityConflict[];
+}
+
+// A job date being set - jobId is omitted for jobs that don't exist yet
+export interface ProposedStageDate {
+  jobId?: number;
+  field: JobDateField;
+  date: string | null;
+}
+
+export const isCapacityStage = (stage: string): stage is CapacityStage =>
+  (CAPACITY_STAGES as readonly string[]).includes(stage);
+
+/**
+ * Load capacity settings for every stage, defaulting missing stages to unlimited
+ */
+export const loadCapacitySettings = async (): Promise<StageCapacitySetting[]> => {
+  const rows = await db.select().from(stageCapacities);
+
+  return CAPACITY_STAGES.map(stage => {
+    const row = rows.find(r => r.stage === stage);
+    return {
+      stage,
+      unitsPerDay: row?.unitsPerDay ?? 0,
+      enforcement: row?.enforcement === 'block' ? 'block' : 'warn',
+      isActive: row?.isActive ?? true,
+    };
+  });
+};
+
+/**
+ * Capacity for a stage on a given day. Non-working days have no capacity.
+ * Returns null when the stage is unlimited.
+ */
+const getDayCapacity = (setting: StageCapacitySetting, date: Date, calendar: WorkingCalendar): number | null => {
+  if (!setting.isActive || setting.unitsPerDay <= 0) return null;
+  return isWorkingDay(date, calendar) ? setting.unitsPerDay : 0;
+};
+
+/**
+ * Count jobs per day on a stage date column, optionally filtered
+ */
+const countJobsByDate = async (field: JobDateField, condition: SQL | undefined) => {
+  const column = jobs[field];
+  const rows = await db
+    .select({
+      date: column,
+      count: sql<number>`COUNT(*)`.mapWith(Number),
+    })
+    .from(jobs)
+    .where(and(isNull(jobs.deletedAt), condition))
+    .groupBy(column);
+
+  return new Map(rows.filter(row => row.date).map(row => [row.date as string, row.count]));
+};
+
+/**
+ * Report load against capacity for every day and stage in a date range (inclusive)
+ */
+export const getCapacityReport = async (from: string, to: string) => {
+  const start = parseIsoDate(from);
+  const end = parseIsoDate(to);
+  if (!start || !end) {
+    throw new Error('Invalid date range');
+  }
+
+  const [settings, calendar] = await Promise.all([loadCapacitySettings(), loadWorkingCalendar()]);
+
+  const loads = await Promise.all(CAPACITY_STAGES.map(stage => {
+    const column = jobs[STAGE_DATE_FIELD[stage]];
+    return countJobsByDate(STAGE_DATE_FIELD[stage], and(gte(column, from), lte(column, to)));
+  }));
+
+  const days: CapacityDay[] = [];
+  for (const date = new Date(start); date <= end; date.setUTCDate(date.getUTCDate() + 1)) {
+    const isoDate = toIsoDate(date);
+    const stages = {} as Record<CapacityStage, StageDayLoad>;
+
+    CAPACITY_STAGES.forEach((stage, index) => {
+      const setting = settings.find(s => s.stage === stage)!;
+      const load = loads[index].get(isoDate) || 0;
+      const capacity = getDayCapacity(setting, date, calendar);
+      stages[stage] = { load, capacity, overCapacity: capacity !== null && load > capacity };
+    });
+
+    days.push({ date: isoDate, isWorkingDay: isWorkingDay(date, calendar), stages });
+  }
+
+  return { from, to, settings, days };
+};
+
+/**
+ * Check whether setting the given job dates would put any stage over capacity.
+ * Only pass dates that are actually changing, so existing overloads don't block unrelated edits.
+ */
+export const checkCapacity = async (proposed: ProposedStageDate[]): Promise<CapacityCheckResult> => {
+  const result: CapacityCheckResult = { conflicts: [], blocking: [] };
+  const datedChanges = proposed.filter(change => change.date);
+  if (datedChanges.length === 0) return result;
+
+  const settings = await loadCapacitySettings();
+  const limitedStages = settings.filter(s => s.isActive && s.unitsPerDay > 0);
+  if (limitedStages.length === 0) return result;
+
+  const calendar = await loadWorkingCalendar();
+
+  for (const setting of limitedStages) {
+    const field = STAGE_DATE_FIELD[setting.stage];
+    const changes = datedChanges.filter(change => change.field === field);
+    if (changes.length === 0) continue;
+
+    // Count of jobs being added to each day by this change
+    const added = new Map<string, number>();
+    for (const change of changes) {
+      added.set(change.date!, (added.get(change.date!) || 0) + 1);
+    }
+
+    const movingJobIds = changes.map(change => change.jobId).filter((id): id is number => id !== undefined);
+    const column = jobs[field];
+    const existing = await countJobsByDate(field, and(
+      inArray(column, [...added.keys()]),
+      movingJobIds.length > 0 ? notInArray(jobs.id, movingJobIds) : undefined
+    ));
+
+    for (const [date, count] of added) {
+      const day = parseIsoDate(date);
+      if (!day) continue;
+
+      const capacity = getDayCapacity(setting, day, calendar) ?? Infinity;
+      const load = (existing.get(date) || 0) + count;
+      if (load <= capacity) continue;
+
+      const conflict: CapacityConflict = {
+        date,
+        stage: setting.stage,
+        load,
+        capacity,
+        enforcement: setting.enforcement,
+        reason: capacity === 0 ? 'non_working_day' : 'over_capacity',
+      };
+      result.conflicts.push(conflict);
+      if (setting.enforcement === 'block') {
+        result.blocking.push(conflict);
+      }
+    }
+  }
+
+  result.conflicts.sort((a, b) => a.date.localeCompare(b.date));
+  return result;
+};
+
+/**
+ * Build the proposed stage dates for a job from the date fields that change
+ */
+export const getChangedStageDates = (
+  jobId: number | undefined,
+  current: Partial<Record<JobDateField, string | null>>,
+  next: Partial<Record<JobDateField, string | null>>
+): ProposedStageDate[] => {
+  const changes: ProposedStageDate[] = [];
+  for (const stage of CAPACITY_STAGES) {
+    const field = STAGE_DATE_FIELD[stage];
+    if (next[field] === undefined || next[field] === current[field]) continue;
+    changes.push({ jobId, field, date: next[field] ?? null });
+  }
+  return changes;
+};
+
+/**
+ * Build the proposed stage dates from schedule previews
+ */
+export const getScheduleStageDates = (previews: JobSchedulePreview[]): ProposedStageDate[] =>
+  previews
+    .filter(preview => !preview.error)
+    .flatMap(preview => preview.changes.map(change => ({
+      jobId: preview.jobId,
+      field: change.field,
+      date: change.proposed,
+    })));
+
+/**
+ * Human readable summary of blocking conflicts for error responses
+ */
+export const describeCapacityConflicts = (conflicts: CapacityConflict[]): string =>
+  conflicts
+    .map(c => c.reason === 'non_working_day'
+      ? `${c.stage} on ${c.date} is not a working day`
+      : `${c.stage} on ${c.date} would have ${c.load} jobs (capacity ${c.capacity})`)
+    .join('; ');
+
+/**
+ * Update the capacity settings for a stage
+ */
+export const updateCapacitySetting = async (
+  stage: CapacityStage,
+  updates: Partial<Omit<StageCapacitySetting, 'stage'>>
+) => {
+  const [row] = await db
+    .insert(stageCapacities)
+    .values({
+      stage,
+      unitsPerDay: updates.unitsPerDay ?? 0,
+      enforcement: updates.enforcement ?? 'warn',
+      isActive: updates.isActive ?? true,
+    })
+    .onConflictDoUpdate({
+      target: stageCapacities.stage,
+      set: {
+        ...(updates.unitsPerDay !== undefined && { unitsPerDay: updates.unitsPerDay }),
+        ...(updates.enforcement !== undefined && { enforcement: updates.enforcement }),
+        ...(updates.isActive !== undefined && { isActive: updates.isActive }),
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+
+  return row;
+};
+
+/**
+ * Attach non-blocking capacity conflicts to a response body as capacityWarnings
+ */
+export const withCapacityWarnings = <T extends object>(body: T, result: CapacityCheckResult) =>
+  result.conflicts.length > 0 ? { ...body, capacityWarnings: result.conflicts } : body;
@@ -0,0 +1,397 @@
+import { db } from '../db/index.js';
+import { clients, projects, contacts } from '../db/schema.js';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+
+/**
+ * Finding and merging duplicate clients.
+ *
+ * Imports and quick adds create a new client whenever the name differs at all, so
+ * "ABC Builders" and "ABC Builders Pty Ltd" end up as two clients. Clients are compared by
+ * ABN, email, email domain and name/company similarity, with company suffixes, punctuation
+ * and case ignored. Merging moves the duplicates' projects and contacts to the client being
+ * kept, combines notes and fills its blank details, then archives the duplicates.
+ */
+
+type Client = typeof clients.$inferSelect;
+type Project = typeof projects.$inferSelect;
+type Contact = typeof contacts.$inferSelect;
+
+export const DEFAULT_MATCH_THRESHOLD = 0.7;
+
+// Details a client can be matched on; an import row may only have a name
+export interface ClientCandidate {
+  name: string;
+  company?: string | null;
+  email?: string | null;
+  abn?: string | null;
+}
+
+export interface ClientIdentity extends ClientCandidate {
+  id: number;
+  archived: boolean | null;
+}
+
+export interface ClientMatch {
+  id: number;
+  name: string;
+  archived: boolean;
+  // 0 to 1
+  score: number;
+  reasons: string[];
+}
+
+export interface DuplicateClientPair {
+  clients: [ClientIdentity, ClientIdentity];
+  score: number;
+  reasons: string[];
+}
+
+export interface MergeChange<T> {
+  old: T;
+  record: T;
+}
+
+export interface ClientMergeResult {
+  survivor: MergeChange<Client>;
+  merged: MergeChange<Client>[];
+  projects: MergeChange<Project>[];
+  contacts: MergeChange<Contact>[];
+}
+
+export class ClientMergeError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ClientMergeError';
+  }
+}
+
+// Words that don't tell two businesses apart
+const NAME_NOISE_WORDS = new Set([
+  'pty', 'ltd', 'limited', 'proprietary', 'inc', 'incorporated', 'llc', 'co', 'company', 'corp', 'corporation', 'the',
+]);
+
+// Shared mailbox providers, where a matching domain says nothing about the business
+const FREE_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'outlook.com', 'hotmail.com', 'live.com', 'yahoo.com', 'yahoo.com.au', 'icloud.com',
+  'bigpond.com', 'bigpond.net.au', 'optusnet.com.au', 'iinet.net.au', 'tpg.com.au',
+]);
+
+// How strongly each signal on its own suggests a duplicate. Signals combine, so a similar
+// name with the same email domain scores higher than either alone.
+const SIGNAL_WEIGHTS = {
+  abn: 0.95,
+  email: 0.9,
+  sameName: 0.9,
+  similarName: 0.85,
+  emailDomain: 0.4,
+};
+
+// Below this, names are too different to count as a signal
+const MIN_NAME_SIMILARITY = 0.75;
+
+export const normalizeClientName = (value: string | null | undefined): string =>
+  (value ?? '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !NAME_NOISE_WORDS.has(word))
+    .join(' ');
+
+const normalizeAbn = (value: string | null | undefined): string => {
+  const digits = (value ?? '').replace(/\D/g, '');
+  return digits.length === 11 ? digits : '';
+};
+
+const normalizeEmail = (value: string | null | undefined): string => (value ?? '').trim().toLowerCase();
+
+const businessDomain = (email: string): string => {
+  const domain = email.split('@')[1] ?? '';
+  return domain && !FREE_EMAIL_DOMAINS.has(domain) ? domain : '';
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Similarity of two normalized names, 0 to 1. Edit distance catches typos and spacing
+ * ("ABC Builders" / "ABCBuilders"); word overlap catches extra words ("Smith Homes" /
+ * "Smith Homes Qld").
+ */
+const nameSimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const compactA = a.replace(/ /g, '');
+  const compactB = b.replace(/ /g, '');
+  const longest = Math.max(compactA.length, compactB.length);
+  const editSimilarity = 1 - levenshtein(compactA, compactB) / longest;
+
+  const wordsA = new Set(a.split(' '));
+  const wordsB = new Set(b.split(' '));
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  const [fewer, more] = wordsA.size <= wordsB.size ? [wordsA, wordsB] : [wordsB, wordsA];
+  // Every word of the shorter name appears in the longer one; a single short word is too weak
+  const contained = shared === fewer.size && (fewer.size > 1 || [...fewer][0].length >= 4)
+    ? 0.9 - 0.05 * (more.size - fewer.size)
+    : 0;
+  const overlap = shared / new Set([...wordsA, ...wordsB]).size;
+
+  return Math.max(editSimilarity, contained, overlap);
+};
+
+interface NormalizedClient {
+  names: string[];
+  email: string;
+  domain: string;
+  abn: string;
+}
+
+const normalizeCandidate = (candidate: ClientCandidate): NormalizedClient => {
+  const email = normalizeEmail(candidate.email);
+  return {
+    names: [...new Set([normalizeClientName(candidate.name), normalizeClientName(candidate.company)].filter(Boolean))],
+    email,
+    domain: businessDomain(email),
+    abn: normalizeAbn(candidate.abn),
+  };
+};
+
+const scoreNormalized = (a: NormalizedClient, b: NormalizedClient): { score: number; reasons: string[] } => {
+  const signals: Array<[number, string]> = [];
+
+  if (a.abn && a.abn === b.abn) signals.push([SIGNAL_WEIGHTS.abn, 'Same ABN']);
+  if (a.email && a.email === b.email) {
+    signals.push([SIGNAL_WEIGHTS.email, 'Same email']);
+  } else if (a.domain && a.domain === b.domain) {
+    signals.push([SIGNAL_WEIGHTS.emailDomain, `Same email domain (${a.domain})`]);
+  }
+
+  let bestName = 0;
+  for (const nameA of a.names) {
+    for (const nameB of b.names) {
+      bestName = Math.max(bestName, nameSimilarity(nameA, nameB));
+    }
+  }
+  if (bestName === 1) {
+    signals.push([SIGNAL_WEIGHTS.sameName, 'Same name, ignoring suffixes like Pty Ltd']);
+  } else if (bestName >= MIN_NAME_SIMILARITY) {
+    signals.push([SIGNAL_WEIGHTS.similarName * bestName, `Similar name (${Math.round(bestName * 100)}%)`]);
+  }
+
+  const score = 1 - signals.reduce((remaining, [weight]) => remaining * (1 - weight), 1);
+  return { score: Math.round(score * 100) / 100, reasons: signals.map(([, reason]) => reason) };
+};
+
+/**
+ * Score how likely two clients are the same business, 0 to 1, with the reasons
+ */
+export const compareClients = (a: ClientCandidate, b: ClientCandidate) =>
+  scoreNormalized(normalizeCandidate(a), normalizeCandidate(b));
+
+export const loadClientIdentities = (): Promise<ClientIdentity[]> =>
+  db
+    .select({
+      id: clients.id,
+      name: clients.name,
+      company: clients.company,
+      email: clients.email,
+      abn: clients.abn,
+      archived: clients.archived,
+    })
+    .from(clients)
+    .orderBy(asc(clients.id));
+
+/**
+ * Existing clients that look like the candidate, best first. Pass a preloaded client list
+ * when checking many candidates.
+ */
+export const findClientMatches = async (
+  candidate: ClientCandidate,
+  pool?: ClientIdentity[],
+  threshold = DEFAULT_MATCH_THRESHOLD
+): Promise<ClientMatch[]> => {
+  const existing = pool ?? await loadClientIdentities();
+  const normalized = normalizeCandidate(candidate);
+
+  return existing
+    .map(client => ({ client, ...scoreNormalized(normalized, normalizeCandidate(client)) }))
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .map(({ client, score, reasons }) => ({ id: client.id, name: client.name, archived: !!client.archived, score, reasons }));
+};
+
+/**
+ * Every pair of clients that look like the same business, best first.
+ * Only pairs sharing an ABN, email domain, name word or name prefix are compared, so this
+ * stays fast with thousands of clients.
+ */
+export const findDuplicateClients = async (
+  threshold = DEFAULT_MATCH_THRESHOLD,
+  includeArchived = false
+): Promise<DuplicateClientPair[]> => {
+  const all = (await loadClientIdentities()).filter(client => includeArchived || !client.archived);
+  const normalized = all.map(normalizeCandidate);
+
+  const buckets = new Map<string, number[]>();
+  const addToBucket = (key: string, index: number) => {
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(index);
+    else buckets.set(key, [index]);
+  };
+  normalized.forEach((client, index) => {
+    if (client.abn) addToBucket(`abn:${client.abn}`, index);
+    if (client.email) addToBucket(`domain:${client.domain || client.email}`, index);
+    for (const name of client.names) {
+      addToBucket(`prefix:${name.replace(/ /g, '').slice(0, 4)}`, index);
+      for (const word of name.split(' ')) {
+        if (word.length >= 3) addToBucket(`word:${word}`, index);
+      }
+    }
+  });
+
+  const compared = new Set<string>();
+  const pairs: DuplicateClientPair[] = [];
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const key = `${bucket[i]}:${bucket[j]}`;
+        if (compared.has(key)) continue;
+        compared.add(key);
+
+        const { score, reasons } = scoreNormalized(normalized[bucket[i]], normalized[bucket[j]]);
+        if (score >= threshold) {
+          pairs.push({ clients: [all[bucket[i]], all[bucket[j]]], score, reasons });
+        }
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => b.score - a.score || a.clients[0].id - b.clients[0].id);
+};
+
+const MERGE_FILL_FIELDS = ['company', 'email', 'phone', 'address', 'abn', 'contactPerson'] as const;
+
+/**
+ * Merge clients into the one being kept, in one transaction. Projects (including ones in the
+ * recycle bin) and contacts move to the survivor, its blank details are filled from the
+ * duplicates, their notes are appended to its notes, and the duplicates are archived.
+ */
+export const mergeClients = async (survivorId: number, mergeIds: number[]): Promise<ClientMergeResult> => {
+  const duplicateIds = [...new Set(mergeIds)];
+  if (!Number.isInteger(survivorId) || duplicateIds.length === 0 || !duplicateIds.every(Number.isInteger)) {
+    throw new ClientMergeError('survivorId and a non-empty mergeIds array of client ids are required');
+  }
+  if (duplicateIds.includes(survivorId)) {
+    throw new ClientMergeError('A client cannot be merged into itself');
+  }
+
+  return db.transaction(async (tx) => {
+    const locked = await tx
+      .select()
+      .from(clients)
+      .where(inArray(clients.id, [survivorId, ...duplicateIds]))
+      .orderBy(asc(clients.id))
+      .for('update');
+
+    const survivor = locked.find(client => client.id === survivorId);
+    if (!survivor) {
+      throw new ClientMergeError('Client to keep not found', 404);
+    }
+    const duplicates = duplicateIds.map(id => locked.find(client => client.id === id));
+    const missing = duplicateIds.filter((_, index) => !duplicates[index]);
+    if (missing.length > 0) {
+      throw new ClientMergeError(`Client${missing.length === 1 ? '' : 's'} ${missing.join(', ')} not found`, 404);
+    }
+
+    const movedProjects = await tx
+      .select()
+      .from(projects)
+      .where(inArray(projects.clientId, duplicateIds));
+    const movedContacts = await tx
+      .select()
+      .from(contacts)
+      .where(inArray(contacts.clientId, duplicateIds));
+
+    const now = new Date();
+    const projectChanges: MergeChange<Project>[] = [];
+    if (movedProjects.length > 0) {
+      const updated = await tx
+        .update(projects)
+        .set({ clientId: survivorId, updatedAt: now })
+        .where(inArray(projects.clientId, duplicateIds))
+        .returning();
+      for (const record of updated) {
+        projectChanges.push({ old: movedProjects.find(project => project.id === record.id)!, record });
+      }
+    }
+
+    const contactChanges: MergeChange<Contact>[] = [];
+    if (movedContacts.length > 0) {
+      const survivorHasPrimary = (await tx
+        .select({ id: contacts.id })
+        .from(contacts)
+        .where(and(eq(contacts.clientId, survivorId), eq(contacts.isPrimary, true))))
+        .length > 0;
+      const updated = await tx
+        .update(contacts)
+        // The survivor's own contacts keep their primary flag
+        .set({ clientId: survivorId, updatedAt: now, ...(survivorHasPrimary ? { isPrimary: false } : {}) })
+        .where(inArray(contacts.clientId, duplicateIds))
+        .returning();
+      for (const record of updated) {
+        contactChanges.push({ old: movedContacts.find(contact => contact.id === record.id)!, record });
+      }
+    }
+
+    const survivorValues: Partial<Client> = {};
+    for (const field of MERGE_FILL_FIELDS) {
+      if (!survivor[field]) {
+        const value = duplicates.find(client => client![field])?.[field];
+        if (value) survivorValues[field] = value;
+      }
+    }
+    const mergedNotes = duplicates
+      .filter(client => client!.notes?.trim())
+      .map(client => `Merged from ${client!.name} (#${client!.id}):\n${client!.notes!.trim()}`);
+    if (mergedNotes.length > 0) {
+      survivorValues.notes = [survivor.notes?.trim(), ...mergedNotes].filter(Boolean).join('\n\n');
+    }
+
+    const [updatedSurvivor] = await tx
+      .update(clients)
+      .set({ ...survivorValues, updatedAt: now })
+      .where(eq(clients.id, survivorId))
+      .returning();
+
+    const merged: MergeChange<Client>[] = [];
+    for (const duplicate of duplicates) {
+      const [record] = await tx
+        .update(clients)
+        .set({ archived: true, isActive: false, updatedAt: now })
+        .where(eq(clients.id, duplicate!.id))
+        .returning();
+      merged.push({ old: duplicate!, record });
+    }
+
+    return {
+      survivor: { old: survivor, record: updatedSurvivor },
+      merged,
+      projects: projectChanges,
+      contacts: contactChanges,
+    };
+  });
+};
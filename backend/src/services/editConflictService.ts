@@ -0,0 +1,172 @@
+import type { Response } from 'express';
+import { db } from '../db/index.js';
+import { auditLogs } from '../db/schema.js';
+import { and, eq, inArray, desc } from 'drizzle-orm';
+
+/**
+ * Optimistic concurrency for job and project edits.
+ *
+ * A record's version is its updatedAt timestamp. Reads send it as an ETag, and clients return it
+ * in If-Match when saving. A save against an older version gets a 409 with the current record
+ * and the fields that differ, instead of silently overwriting the other person's change.
+ */
+
+export interface VersionedRecord {
+  updatedAt: Date | null;
+}
+
+export interface FieldConflict {
+  field: string;
+  current: unknown;
+  submitted: unknown;
+  // Who last changed the field, from the audit log
+  changedBy: string | null;
+  changedAt: Date | null;
+}
+
+export class EditConflictError extends Error {
+  constructor(
+    public current: VersionedRecord & { id: number },
+    public submitted: Record<string, unknown>
+  ) {
+    super('Record was changed after the client loaded it');
+    this.name = 'EditConflictError';
+  }
+}
+
+export interface EditConflict {
+  error: string;
+  code: 'edit_conflict';
+  etag: string;
+  current: unknown;
+  conflicts: FieldConflict[];
+}
+
+export const getRecordEtag = (record: VersionedRecord): string =>
+  `"${record.updatedAt ? record.updatedAt.getTime() : 0}"`;
+
+/**
+ * Send the record's version as an ETag. The ETag is an edit version only: responses also carry
+ * related data (a project's jobs, a job's status), so they must not be cached and revalidated by it.
+ */
+export const setVersionHeaders = (res: Response, record: VersionedRecord): void => {
+  res.set('ETag', getRecordEtag(record));
+  res.set('Cache-Control', 'no-store');
+};
+
+/**
+ * Check an If-Match header against the record's current version.
+ * Without the header there is nothing to check, so older clients keep last-write-wins.
+ */
+export const matchesIfMatch = (ifMatch: string | undefined, record: VersionedRecord): boolean => {
+  if (!ifMatch) return true;
+  const etag = getRecordEtag(record);
+  return ifMatch
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .some(tag => tag === '*' || tag === etag);
+};
+
+/**
+ * Throw EditConflictError unless the If-Match header matches the record's current version
+ */
+export const assertCurrentVersion = (
+  ifMatch: string | undefined,
+  current: VersionedRecord & { id: number },
+  submitted: Record<string, unknown>
+): void => {
+  if (!matchesIfMatch(ifMatch, current)) {
+    throw new EditConflictError(current, submitted);
+  }
+};
+
+/**
+ * Copy the listed fields that are present in a request body, so omitted fields are left unchanged
+ */
+export const pickSubmittedFields = (
+  body: Record<string, unknown>,
+  fields: readonly string[]
+): Record<string, unknown> => {
+  const picked: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (body[field] !== undefined) {
+      picked[field] = body[field];
+    }
+  }
+  return picked;
+};
+
+// Treat empty and missing values alike, and compare dates by instant
+const normalizeValue = (value: unknown): string | null => {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+};
+
+/**
+ * List the submitted fields whose values differ from the current record,
+ * with the most recent audited change to each field.
+ */
+export const diffAgainstCurrent = async (
+  tableName: string,
+  recordId: number,
+  current: Record<string, unknown>,
+  submitted: Record<string, unknown>
+): Promise<FieldConflict[]> => {
+  const fields = Object.keys(submitted).filter(
+    field => normalizeValue(submitted[field]) !== normalizeValue(current[field])
+  );
+  if (fields.length === 0) return [];
+
+  // Who changed what is a nicety; the conflict is still reported if the lookup fails
+  let history: Array<{ fieldName: string | null; userEmail: string | null; timestamp: Date | null }> = [];
+  try {
+    history = await db
+      .select({
+        fieldName: auditLogs.fieldName,
+        userEmail: auditLogs.userEmail,
+        timestamp: auditLogs.timestamp,
+      })
+      .from(auditLogs)
+      .where(and(
+        eq(auditLogs.tableName, tableName),
+        eq(auditLogs.recordId, recordId),
+        eq(auditLogs.action, 'UPDATE'),
+        inArray(auditLogs.fieldName, fields)
+      ))
+      .orderBy(desc(auditLogs.timestamp));
+  } catch (error) {
+    console.error('Error loading field history for edit conflict:', error);
+  }
+
+  return fields.map(field => {
+    const lastChange = history.find(entry => entry.fieldName === field);
+    return {
+      field,
+      current: current[field] ?? null,
+      submitted: submitted[field] ?? null,
+      changedBy: lastChange?.userEmail ?? null,
+      changedAt: lastChange?.timestamp ?? null,
+    };
+  });
+};
+
+/**
+ * Build the 409 body for a save made against an out-of-date version
+ */
+export const buildEditConflict = async (
+  tableName: string,
+  label: string,
+  conflict: EditConflictError
+): Promise<EditConflict> => ({
+  error: `This ${label} was changed by someone else after you opened it. Review their changes and save again.`,
+  code: 'edit_conflict',
+  etag: getRecordEtag(conflict.current),
+  current: conflict.current,
+  conflicts: await diffAgainstCurrent(
+    tableName,
+    conflict.current.id,
+    conflict.current as unknown as Record<string, unknown>,
+    conflict.submitted
+  ),
+});
@@ -1,3 +1,9 @@
+import nodemailer from 'nodemailer';
+import { mkdir, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+
 export interface EmailOptions {
   to: string;
   subject: string;
@@ -5,65 +11,151 @@ export interface EmailOptions {
   text?: string;
 }
 
+/**
+ * Delivers an email. Chosen with EMAIL_TRANSPORT: smtp, smtp2go, file or console. Without it,
+ * production (NODE_ENV or EMAIL_MODE) sends through SMTP2Go and anything else logs to the console.
+ */
+export interface EmailTransport {
+  name: string;
+  send(options: EmailOptions): Promise<void>;
+}
+
+export const EMAIL_TRANSPORTS = ['smtp', 'smtp2go', 'file', 'console'] as const;
+export type EmailTransportName = typeof EMAIL_TRANSPORTS[number];
+
+const getSender = () => process.env.FROM_EMAIL || 'j11@digitalconnections.au';
+
+// Strip HTML for the text version when none is given
+const toPlainText = (options: EmailOptions) => options.text || options.html.replace(/<[^>]*>/g, '');
+
 // SMTP2Go REST API configuration
 const SMTP2GO_API_URL = 'https://api.smtp2go.com/v3/email/send';
 
-async function sendViaAPI(options: EmailOptions): Promise<void> {
-  if (!process.env.SMTP_PASS) {
-    throw new Error('SMTP2Go API key not configured. Please check SMTP_PASS environment variable.');
-  }
-
-  const emailData = {
-    api_key: process.env.SMTP_PASS,
-    to: [options.to],
-    sender: process.env.FROM_EMAIL || 'j11@digitalconnections.au',
-    subject: options.subject,
-    text_body: options.text || options.html.replace(/<[^>]*>/g, ''), // Strip HTML for text version
-    html_body: options.html
-  };
+export const createSmtp2GoTransport = (): EmailTransport => ({
+  name: 'smtp2go',
+  async send(options) {
+    const apiKey = process.env.SMTP2GO_API_KEY || process.env.SMTP_PASS;
+    if (!apiKey) {
+      throw new Error('SMTP2Go API key not configured. Please check SMTP2GO_API_KEY environment variable.');
+    }
 
-  try {
     const response = await fetch(SMTP2GO_API_URL, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(emailData)
+      body: JSON.stringify({
+        api_key: apiKey,
+        to: [options.to],
+        sender: getSender(),
+        subject: options.subject,
+        text_body: toPlainText(options),
+        html_body: options.html,
+      }),
     });
 
-    const result = await response.json();
-    
-    if (response.ok && result.data?.succeeded) {
-      console.log(`✅ Email sent successfully to ${options.to}`);
-      console.log(`Email ID: ${result.data.email_id}`);
-    } else {
-      console.error('SMTP2Go API error:', result);
-      throw new Error(`SMTP2Go API failed: ${result.data?.failures?.[0]?.error || 'Unknown error'}`);
+    const result = await response.json().catch(() => null);
+    if (!response.ok || !result?.data?.succeeded) {
+      throw new Error(`SMTP2Go API failed: ${result?.data?.failures?.[0]?.error || result?.data?.error || response.statusText || 'Unknown error'}`);
     }
-  } catch (error) {
-    console.error('❌ Failed to send email via SMTP2Go API:', error);
-    throw new Error('Failed to send email. Please try again later.');
+    console.log(`✅ Email sent to ${options.to} (SMTP2Go ID: ${result.data.email_id})`);
+  },
+});
+
+export const createSmtpTransport = (): EmailTransport => {
+  if (!process.env.SMTP_HOST) {
+    throw new Error('SMTP host not configured. Please check SMTP_HOST environment variable.');
+  }
+  const port = parseInt(process.env.SMTP_PORT || '587', 10);
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(options) {
+      const info = await transporter.sendMail({
+        from: getSender(),
+        to: options.to,
+        subject: options.subject,
+        text: toPlainText(options),
+        html: options.html,
+      });
+      console.log(`✅ Email sent to ${options.to} (SMTP message ID: ${info.messageId})`);
+    },
+  };
+};
+
+// One JSON file per email, for local development and tests
+export const createFileTransport = (dir = process.env.EMAIL_FILE_DIR || join(tmpdir(), 'j11-emails')): EmailTransport => ({
+  name: 'file',
+  async send(options) {
+    await mkdir(dir, { recursive: true });
+    const sentAt = new Date();
+    const file = join(dir, `${sentAt.toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}.json`);
+    await writeFile(file, JSON.stringify({ from: getSender(), ...options, sentAt }, null, 2));
+    console.log(`📧 Email to ${options.to} written to ${file}`);
+  },
+});
+
+export const createConsoleTransport = (): EmailTransport => ({
+  name: 'console',
+  async send(options) {
+    console.log('📧 Email (Development Mode)');
+    console.log('To:', options.to);
+    console.log('Subject:', options.subject);
+    console.log(toPlainText(options).trim());
+    console.log('---');
+  },
+});
+
+const TRANSPORT_FACTORIES: Record<EmailTransportName, () => EmailTransport> = {
+  smtp: createSmtpTransport,
+  smtp2go: createSmtp2GoTransport,
+  file: createFileTransport,
+  console: createConsoleTransport,
+};
+
+let transport: EmailTransport | null = null;
+
+/**
+ * The configured transport, created on first use
+ */
+export const getEmailTransport = (): EmailTransport => {
+  if (transport) return transport;
+
+  const configured = process.env.EMAIL_TRANSPORT?.toLowerCase();
+  if (configured && !(EMAIL_TRANSPORTS as readonly string[]).includes(configured)) {
+    throw new Error(`Unknown EMAIL_TRANSPORT "${configured}". Use one of: ${EMAIL_TRANSPORTS.join(', ')}`);
   }
+  const isProduction = process.env.EMAIL_MODE === 'production' || process.env.NODE_ENV === 'production';
+  const name = (configured as EmailTransportName | undefined) || (isProduction ? 'smtp2go' : 'console');
+
+  transport = TRANSPORT_FACTORIES[name]();
+  return transport;
+};
+
+/**
+ * Replace the transport, e.g. with a file transport in tests. null goes back to the configured one.
+ */
+export const setEmailTransport = (replacement: EmailTransport | null): void => {
+  transport = replacement;
+};
+
+/**
+ * Send one email now. Errors carry the transport's reason. Notifications go through the
+ * outbox in notificationService instead, which retries failures.
+ */
+export async function sendEmail(options: EmailOptions): Promise<void> {
+  await getEmailTransport().send(options);
 }
 
 export async function sendPasswordResetEmail(to: string, resetToken: string): Promise<void> {
   const resetUrl = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/reset-password?token=${resetToken}`;
   
-  // Check if we should send real emails or just log
-  const shouldSendEmail = process.env.EMAIL_MODE === 'production' || process.env.NODE_ENV === 'production';
-  
-  if (!shouldSendEmail) {
-    // Development mode - just log
-    console.log('📧 Password Reset Email (Development Mode)');
-    console.log('To:', to);
-    console.log('Reset URL:', resetUrl);
-    console.log('Token:', resetToken);
-    console.log('---');
-    console.log(`✅ Mock email logged for ${to}`);
-    return;
-  }
-
-  // Production mode - send actual email via SMTP2Go API
   try {
     const htmlContent = `
       <!DOCTYPE html>
@@ -129,7 +221,7 @@ export async function sendPasswordResetEmail(to: string, resetToken: string): Pr
       If you have any questions, please contact support.
     `;
 
-    await sendViaAPI({
+    await sendEmail({
       to: to,
       subject: 'Password Reset Request - J11 Production Manager',
       html: htmlContent,
@@ -141,30 +233,3 @@ export async function sendPasswordResetEmail(to: string, resetToken: string): Pr
     throw new Error('Failed to send password reset email. Please try again later.');
   }
 }
-
-export async function sendEmail(options: EmailOptions): Promise<void> {
-  // Check if we should send real emails or just log
-  const shouldSendEmail = process.env.EMAIL_MODE === 'production' || process.env.NODE_ENV === 'production';
-  
-  if (!shouldSendEmail) {
-    // Development mode - just log
-    console.log('📧 Email (Development Mode)');
-    console.log('To:', options.to);
-    console.log('Subject:', options.subject);
-    console.log('HTML:', options.html.substring(0, 200) + '...');
-    if (options.text) {
-      console.log('Text:', options.text.substring(0, 200) + '...');
-    }
-    console.log('---');
-    console.log(`✅ Mock email logged for ${options.to}`);
-    return;
-  }
-
-  // Production mode - send actual email via SMTP2Go API
-  try {
-    await sendViaAPI(options);
-  } catch (error) {
-    console.error('❌ Failed to send email:', error);
-    throw new Error('Failed to send email. Please try again later.');
-  }
-}
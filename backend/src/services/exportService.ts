@@ -0,0 +1,702 @@
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+import { db } from '../db/index.js';
+import { jobs, projects, projectStatuses, clients, jobStatuses, userColumnPreferences } from '../db/schema.js';
+import { eq, and, isNull, asc } from 'drizzle-orm';
+import { JOB_DATE_FIELDS, ACTUAL_DATE_FIELD, formatDisplayDate, getBusinessTimeZone, parseIsoDate } from '../utils/dates.js';
+import { parseListQuery, type ListQuery, type ListQueryConfig } from '../utils/listQuery.js';
+import {
+  JOB_LIST_CONFIG,
+  PROJECT_JOB_LIST_CONFIG,
+  PROJECT_LIST_CONFIG,
+  CLIENT_LIST_CONFIG,
+  projectJobCount,
+  projectCompletedJobCount,
+  projectProgress,
+  clientProjectCount,
+  projectJobsJoin,
+  clientProjectsJoin,
+} from './listConfigs.js';
+
+/**
+ * Server-side table exports.
+ *
+ * Each exportable DataTable view is described by a dataset: its columns and
+ * how to load the rows. Filters and sort go through the same list
+ * configuration as the list routes, so an export matches the table. Column
+ * visibility and order come from the user's saved user_column_preferences.
+ */
+
+export const EXPORT_FORMATS = ['pdf', 'xlsx'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export interface ExportSort {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface ExportRequest {
+  table: ExportTable;
+  format: ExportFormat;
+  filters?: Record<string, unknown>;
+  sort?: ExportSort;
+  projectId?: number;
+  title?: string;
+}
+
+export interface ExportFile {
+  buffer: Buffer;
+  contentType: string;
+  filename: string;
+  rowCount: number;
+}
+
+export class ExportRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportRequestError';
+  }
+}
+
+interface CellStyle {
+  color: string;
+  backgroundColor: string;
+}
+
+type CellValue = string | number | null;
+
+interface ExportColumn<T> {
+  key: string;
+  label: string;
+  width: number; // points, matching the DataTable default widths
+  type?: 'text' | 'number' | 'date' | 'percent';
+  value: (row: T) => CellValue;
+  style?: (row: T) => CellStyle | undefined;
+}
+
+interface ExportDataset<T> {
+  title: string;
+  permission: string;
+  listConfig: ListQueryConfig;
+  columns: ExportColumn<T>[];
+  load: (request: ExportRequest, listQuery: ListQuery) => Promise<T[]>;
+  describeFilters: (filters: Record<string, unknown>) => string[];
+}
+
+const BRAND_COLOR = '#FF661F';
+const BRAND_NAME = 'J11 Production Manager';
+
+const FORMAT_DETAILS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  pdf: { contentType: 'application/pdf', extension: 'pdf' },
+  xlsx: { contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' },
+};
+
+// Matches the status badge colours used by the Clients page
+const CLIENT_STATUS_STYLES: Record<string, CellStyle> = {
+  active: { backgroundColor: '#dcfce7', color: '#166534' },
+  inactive: { backgroundColor: '#f3f4f6', color: '#374151' },
+};
+
+const DEFAULT_STATUS_STYLE: CellStyle = { backgroundColor: '#f3f4f6', color: '#374151' };
+
+// Status target columns use the stage name rather than the date field name
+const TARGET_COLUMN_NAMES: Record<string, string> = {
+  nestingDate: 'nesting',
+  machiningDate: 'machining',
+  assemblyDate: 'assembly',
+  deliveryDate: 'delivery',
+};
+
+const normalizeHexColor = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const hex = value.trim().replace(/^#/, '');
+  if (/^[0-9a-fA-F]{6}$/.test(hex)) return `#${hex.toLowerCase()}`;
+  if (/^[0-9a-fA-F]{3}$/.test(hex)) return `#${hex.split('').map(c => c + c).join('').toLowerCase()}`;
+  return null;
+};
+
+// Multi-select filters arrive as arrays of values
+const filterText = (filters: Record<string, unknown>, key: string): string => {
+  const value = filters[key];
+  if (Array.isArray(value)) return value.filter(item => typeof item === 'string').join(', ');
+  return typeof value === 'string' ? value.trim() : '';
+};
+
+const filterFlag = (filters: Record<string, unknown>, key: string): boolean =>
+  filters[key] === true || filters[key] === 'true';
+
+const describeDateRange = (filters: Record<string, unknown>): string | null => {
+  const from = formatDisplayDate(filterText(filters, 'dateFrom'));
+  const to = formatDisplayDate(filterText(filters, 'dateTo'));
+  if (from && to) return `Date: ${from} to ${to}`;
+  if (from) return `Date: from ${from}`;
+  if (to) return `Date: until ${to}`;
+  return null;
+};
+
+// ----- Jobs -----
+
+const loadJobRows = (listQuery: ListQuery, projectId?: number) => db
+  .select({
+    id: jobs.id,
+    unit: jobs.unit,
+    type: jobs.type,
+    items: jobs.items,
+    nestingDate: jobs.nestingDate,
+    machiningDate: jobs.machiningDate,
+    assemblyDate: jobs.assemblyDate,
+    deliveryDate: jobs.deliveryDate,
+    nestingActualDate: jobs.nestingActualDate,
+    machiningActualDate: jobs.machiningActualDate,
+    assemblyActualDate: jobs.assemblyActualDate,
+    deliveryActualDate: jobs.deliveryActualDate,
+    comments: jobs.comments,
+    createdAt: jobs.createdAt,
+    projectName: projects.name,
+    clientName: clients.name,
+    statusName: jobStatuses.name,
+    statusDisplayName: jobStatuses.displayName,
+    statusColor: jobStatuses.color,
+    statusBackgroundColor: jobStatuses.backgroundColor,
+    targetColumns: jobStatuses.targetColumns,
+  })
+  .from(jobs)
+  .leftJoin(projects, eq(jobs.projectId, projects.id))
+  .leftJoin(clients, eq(projects.clientId, clients.id))
+  .leftJoin(jobStatuses, eq(jobs.statusId, jobStatuses.id))
+  .where(and(projectId !== undefined ? eq(jobs.projectId, projectId) : undefined, listQuery.where))
+  .orderBy(...listQuery.orderBy);
+
+type JobRow = Awaited<ReturnType<typeof loadJobRows>>[number];
+
+const jobStatusStyle = (job: JobRow): CellStyle | undefined => {
+  const backgroundColor = normalizeHexColor(job.statusBackgroundColor);
+  const color = normalizeHexColor(job.statusColor);
+  return backgroundColor && color ? { backgroundColor, color } : undefined;
+};
+
+const jobDateStyle = (field: string) => (job: JobRow): CellStyle | undefined => {
+  if (!Array.isArray(job.targetColumns)) return undefined;
+  const target = (job.targetColumns as { column?: string; color?: string }[]).find(item =>
+    item && typeof item.column === 'string' && item.column.toLowerCase() === TARGET_COLUMN_NAMES[field]
+  );
+  const backgroundColor = normalizeHexColor(target?.color);
+  return backgroundColor ? { backgroundColor, color: '#ffffff' } : undefined;
+};
+
+const jobDateColumns: ExportColumn<JobRow>[] = JOB_DATE_FIELDS.map(field => ({
+  key: field,
+  label: TARGET_COLUMN_NAMES[field].charAt(0).toUpperCase() + TARGET_COLUMN_NAMES[field].slice(1),
+  width: 110,
+  type: 'date',
+  value: job => job[field],
+  style: jobDateStyle(field),
+}));
+
+const jobActualDateColumns: ExportColumn<JobRow>[] = JOB_DATE_FIELDS.map(field => ({
+  key: ACTUAL_DATE_FIELD[field],
+  label: `${TARGET_COLUMN_NAMES[field].charAt(0).toUpperCase() + TARGET_COLUMN_NAMES[field].slice(1)} Actual`,
+  width: 110,
+  type: 'date',
+  value: job => job[ACTUAL_DATE_FIELD[field]],
+}));
+
+const jobStatusColumn: ExportColumn<JobRow> = {
+  key: 'status',
+  label: 'Status',
+  width: 130,
+  value: job => job.statusDisplayName || job.statusName,
+  style: jobStatusStyle,
+};
+
+const describeJobFilters = (filters: Record<string, unknown>): string[] => {
+  const descriptions: string[] = [];
+  const search = filterText(filters, 'search');
+  if (search) descriptions.push(`Search: "${search}"`);
+  for (const [key, label] of [['status', 'Status'], ['client', 'Client'], ['project', 'Project']]) {
+    const value = filterText(filters, key);
+    if (value) descriptions.push(`${label}: ${value}`);
+  }
+  const dateRange = describeDateRange(filters);
+  if (dateRange) descriptions.push(dateRange);
+  if (filterFlag(filters, 'hideCompleted')) descriptions.push('Hiding delivered jobs');
+  return descriptions;
+};
+
+const jobsDataset: ExportDataset<JobRow> = {
+  title: 'Jobs',
+  permission: 'view_jobs',
+  listConfig: JOB_LIST_CONFIG,
+  columns: [
+    { key: 'id', label: 'ID', width: 60, type: 'number', value: job => job.id },
+    { key: 'unit', label: 'Unit', width: 80, value: job => job.unit },
+    { key: 'type', label: 'Type', width: 100, value: job => job.type },
+    { key: 'items', label: 'Items', width: 150, value: job => job.items },
+    { key: 'clientName', label: 'Client', width: 150, value: job => job.clientName },
+    { key: 'projectName', label: 'Project', width: 150, value: job => job.projectName },
+    jobStatusColumn,
+    ...jobDateColumns,
+    ...jobActualDateColumns,
+    { key: 'comments', label: 'Comments', width: 200, value: job => job.comments },
+    { key: 'createdAt', label: 'Created', width: 110, type: 'date', value: job => job.createdAt?.toISOString() ?? null },
+  ],
+  load: (_request, listQuery) => loadJobRows(listQuery),
+  describeFilters: describeJobFilters,
+};
+
+const projectJobsDataset: ExportDataset<JobRow> = {
+  title: 'Project Jobs',
+  permission: 'view_jobs',
+  listConfig: PROJECT_JOB_LIST_CONFIG,
+  columns: [
+    { key: 'id', label: 'Job #', width: 80, type: 'number', value: job => job.id },
+    { key: 'unit', label: 'Unit', width: 80, value: job => job.unit },
+    { key: 'type', label: 'Type', width: 100, value: job => job.type },
+    { key: 'items', label: 'Items', width: 150, value: job => job.items },
+    ...jobDateColumns,
+    ...jobActualDateColumns,
+    jobStatusColumn,
+    { key: 'comments', label: 'Comments', width: 200, value: job => job.comments },
+  ],
+  load: async (request, listQuery) => {
+    if (request.projectId === undefined) {
+      throw new ExportRequestError('projectId is required for project-jobs exports');
+    }
+    const [project] = await db
+      .select({ id: projects.id })
+      .from(projects)
+      .where(and(eq(projects.id, request.projectId), isNull(projects.deletedAt)))
+      .limit(1);
+    if (!project) {
+      throw new ExportRequestError('Project not found');
+    }
+    return loadJobRows(listQuery, request.projectId);
+  },
+  describeFilters: describeJobFilters,
+};
+
+// ----- Projects -----
+
+const loadProjectRows = (listQuery: ListQuery) => db
+  .select({
+    id: projects.id,
+    name: projects.name,
+    description: projects.description,
+    status: projects.status,
+    statusDisplayName: projectStatuses.displayName,
+    statusColor: projectStatuses.color,
+    statusBackgroundColor: projectStatuses.backgroundColor,
+    createdAt: projects.createdAt,
+    clientName: clients.name,
+    clientCompany: clients.company,
+    jobCount: projectJobCount,
+    completedJobCount: projectCompletedJobCount,
+    progress: projectProgress,
+  })
+  .from(projects)
+  .leftJoin(clients, eq(projects.clientId, clients.id))
+  .leftJoin(projectStatuses, eq(projects.status, projectStatuses.name))
+  .leftJoin(jobs, projectJobsJoin)
+  .leftJoin(jobStatuses, eq(jobs.statusId, jobStatuses.id))
+  .where(listQuery.where)
+  .groupBy(projects.id, clients.id, projectStatuses.id)
+  .orderBy(...listQuery.orderBy);
+
+type ProjectRow = Awaited<ReturnType<typeof loadProjectRows>>[number];
+
+const projectStatusStyle = (project: ProjectRow): CellStyle => {
+  const backgroundColor = normalizeHexColor(project.statusBackgroundColor);
+  const color = normalizeHexColor(project.statusColor);
+  return backgroundColor && color ? { backgroundColor, color } : DEFAULT_STATUS_STYLE;
+};
+
+const projectsDataset: ExportDataset<ProjectRow> = {
+  title: 'Projects',
+  permission: 'view_projects',
+  listConfig: PROJECT_LIST_CONFIG,
+  columns: [
+    { key: 'id', label: 'ID', width: 80, type: 'number', value: project => project.id },
+    { key: 'name', label: 'Project Name', width: 200, value: project => project.name },
+    { key: 'client', label: 'Client', width: 150, value: project => project.clientName },
+    {
+      key: 'status',
+      label: 'Status',
+      width: 120,
+      value: project => project.statusDisplayName ?? project.status,
+      style: projectStatusStyle,
+    },
+    { key: 'progress', label: 'Progress', width: 100, type: 'percent', value: project => project.progress },
+    {
+      key: 'jobCount',
+      label: 'Jobs',
+      width: 80,
+      value: project => `${project.completedJobCount}/${project.jobCount}`,
+    },
+    { key: 'createdAt', label: 'Created', width: 120, type: 'date', value: project => project.createdAt?.toISOString() ?? null },
+  ],
+  load: (_request, listQuery) => loadProjectRows(listQuery),
+  describeFilters: (filters) => {
+    const descriptions: string[] = [];
+    const search = filterText(filters, 'search');
+    if (search) descriptions.push(`Search: "${search}"`);
+    const status = filterText(filters, 'status');
+    if (status) descriptions.push(`Status: ${status}`);
+    const client = filterText(filters, 'client');
+    if (client) descriptions.push(`Client: ${client}`);
+    const dateRange = describeDateRange(filters);
+    if (dateRange) descriptions.push(dateRange);
+    return descriptions;
+  },
+};
+
+// ----- Clients -----
+
+const loadClientRows = async (listQuery: ListQuery) => {
+  const rows = await db
+    .select({
+      id: clients.id,
+      name: clients.name,
+      company: clients.company,
+      email: clients.email,
+      contactPerson: clients.contactPerson,
+      isActive: clients.isActive,
+      createdAt: clients.createdAt,
+      projectCount: clientProjectCount,
+    })
+    .from(clients)
+    .leftJoin(projects, clientProjectsJoin)
+    .where(and(eq(clients.archived, false), listQuery.where))
+    .groupBy(clients.id)
+    .orderBy(...listQuery.orderBy);
+
+  return rows.map(row => ({ ...row, status: row.isActive ? 'Active' : 'Inactive' }));
+};
+
+type ClientRow = Awaited<ReturnType<typeof loadClientRows>>[number];
+
+const clientsDataset: ExportDataset<ClientRow> = {
+  title: 'Clients',
+  permission: 'view_clients',
+  listConfig: CLIENT_LIST_CONFIG,
+  columns: [
+    { key: 'name', label: 'Company', width: 200, value: client => client.name },
+    { key: 'contactPerson', label: 'Contact', width: 180, value: client => client.contactPerson },
+    { key: 'email', label: 'Email', width: 180, value: client => client.email },
+    {
+      key: 'status',
+      label: 'Status',
+      width: 100,
+      value: client => client.status,
+      style: client => CLIENT_STATUS_STYLES[client.status.toLowerCase()] || DEFAULT_STATUS_STYLE,
+    },
+    { key: 'projects', label: 'Projects', width: 80, type: 'number', value: client => client.projectCount },
+  ],
+  load: (_request, listQuery) => loadClientRows(listQuery),
+  describeFilters: (filters) => {
+    const descriptions: string[] = [];
+    const search = filterText(filters, 'search');
+    if (search) descriptions.push(`Search: "${search}"`);
+    const status = filterText(filters, 'status');
+    if (status && status !== 'All') descriptions.push(`Status: ${status}`);
+    if (filterFlag(filters, 'hideInactive')) descriptions.push('Hiding inactive clients');
+    return descriptions;
+  },
+};
+
+// The rows each table loads, keyed by the table names used for user_column_preferences
+interface ExportRows {
+  jobs: JobRow;
+  'project-jobs': JobRow;
+  projects: ProjectRow;
+  clients: ClientRow;
+}
+
+export type ExportTable = keyof ExportRows;
+
+const DATASETS: { [Table in ExportTable]: ExportDataset<ExportRows[Table]> } = {
+  jobs: jobsDataset,
+  'project-jobs': projectJobsDataset,
+  projects: projectsDataset,
+  clients: clientsDataset,
+};
+
+export const EXPORT_TABLES = Object.keys(DATASETS) as ExportTable[];
+
+export const isExportTable = (value: unknown): value is ExportTable =>
+  typeof value === 'string' && value in DATASETS;
+
+export const getExportPermission = (table: ExportTable): string => DATASETS[table].permission;
+
+// ----- Building the table -----
+
+// Columns once their values are read: what the renderers need
+type ExportTableColumn = Omit<ExportColumn<unknown>, 'value' | 'style'>;
+
+interface ExportTableData {
+  title: string;
+  subtitle: string;
+  columns: ExportTableColumn[];
+  rows: { values: CellValue[]; styles: (CellStyle | undefined)[] }[];
+}
+
+/**
+ * Pick the visible columns in the user's saved order, falling back to the dataset order
+ */
+const resolveColumns = async <T>(
+  dataset: ExportDataset<T>,
+  table: ExportTable,
+  userId: number
+): Promise<ExportColumn<T>[]> => {
+  const preferences = await db
+    .select()
+    .from(userColumnPreferences)
+    .where(and(
+      eq(userColumnPreferences.userId, userId),
+      eq(userColumnPreferences.tableName, table)
+    ))
+    .orderBy(asc(userColumnPreferences.orderIndex));
+
+  if (preferences.length === 0) return dataset.columns;
+
+  const columns = preferences
+    .filter(pref => pref.isVisible !== false)
+    .map(pref => dataset.columns.find(column => column.key === pref.columnName))
+    .filter((column): column is ExportColumn<T> => column !== undefined);
+
+  return columns.length > 0 ? columns : dataset.columns;
+};
+
+const buildTableData = async <Table extends ExportTable>(
+  request: ExportRequest & { table: Table },
+  userId: number
+): Promise<ExportTableData> => {
+  const dataset: ExportDataset<ExportRows[Table]> = DATASETS[request.table];
+  const filters = request.filters || {};
+
+  // Sorting on a column the list cannot sort by falls back to the default order
+  const sort = request.sort && request.sort.field in dataset.listConfig.sortFields
+    ? `${request.sort.field}:${request.sort.direction}`
+    : undefined;
+  const listQuery = parseListQuery({ ...filters, sort }, dataset.listConfig);
+
+  const [rows, columns] = await Promise.all([
+    dataset.load(request, listQuery),
+    resolveColumns(dataset, request.table, userId),
+  ]);
+
+  const filterDescriptions = dataset.describeFilters(filters);
+
+  return {
+    title: request.title?.trim() || dataset.title,
+    subtitle: filterDescriptions.length > 0 ? filterDescriptions.join(' • ') : `All ${dataset.title.toLowerCase()}`,
+    columns,
+    rows: rows.map(row => ({
+      values: columns.map(column => column.value(row)),
+      styles: columns.map(column => column.style?.(row)),
+    })),
+  };
+};
+
+const formatCellText = (column: ExportTableColumn, value: CellValue): string => {
+  if (value === null || value === undefined || value === '') return '-';
+  if (column.type === 'date') return formatDisplayDate(String(value)) || String(value);
+  if (column.type === 'percent') return `${value}%`;
+  return String(value);
+};
+
+const formatGeneratedAt = (date: Date): string =>
+  date.toLocaleString('en-AU', { timeZone: getBusinessTimeZone() });
+
+// ----- XLSX -----
+
+const toArgb = (hex: string): string => `FF${hex.replace('#', '').toUpperCase()}`;
+
+const renderXlsx = async (data: ExportTableData, generatedAt: Date): Promise<Buffer> => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = BRAND_NAME;
+  workbook.created = generatedAt;
+
+  const sheet = workbook.addWorksheet(data.title.slice(0, 31).replace(/[\\/*?:[\]]/g, ' '), {
+    pageSetup: { orientation: 'landscape', paperSize: 9, fitToPage: true, fitToWidth: 1, fitToHeight: 0 },
+  });
+  const columnCount = Math.max(data.columns.length, 1);
+
+  sheet.columns = data.columns.map(column => ({ key: column.key, width: Math.max(8, Math.round(column.width / 7)) }));
+
+  const titleRow = sheet.addRow([`${BRAND_NAME} - ${data.title}`]);
+  sheet.mergeCells(titleRow.number, 1, titleRow.number, columnCount);
+  titleRow.height = 24;
+  titleRow.getCell(1).font = { bold: true, size: 14, color: { argb: 'FFFFFFFF' } };
+  titleRow.getCell(1).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: toArgb(BRAND_COLOR) } };
+  titleRow.getCell(1).alignment = { vertical: 'middle' };
+
+  for (const line of [data.subtitle, `Generated: ${formatGeneratedAt(generatedAt)}`]) {
+    const row = sheet.addRow([line]);
+    sheet.mergeCells(row.number, 1, row.number, columnCount);
+    row.getCell(1).font = { italic: true, color: { argb: 'FF4B5563' } };
+  }
+  sheet.addRow([]);
+
+  const headerRow = sheet.addRow(data.columns.map(column => column.label));
+  headerRow.eachCell(cell => {
+    cell.font = { bold: true, color: { argb: 'FF374151' } };
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFF9FAFB' } };
+    cell.border = { bottom: { style: 'thin', color: { argb: 'FFD1D5DB' } } };
+  });
+  sheet.views = [{ state: 'frozen', ySplit: headerRow.number }];
+  if (data.columns.length > 0) {
+    sheet.autoFilter = {
+      from: { row: headerRow.number, column: 1 },
+      to: { row: headerRow.number, column: data.columns.length },
+    };
+  }
+
+  for (const exportRow of data.rows) {
+    const row = sheet.addRow(exportRow.values.map((value, index) => {
+      const column = data.columns[index];
+      if (value === null || value === undefined) return null;
+      if (column.type === 'date') return parseIsoDate(String(value)) ?? value;
+      if (column.type === 'percent') return Number(value) / 100;
+      return value;
+    }));
+
+    exportRow.styles.forEach((style, index) => {
+      const cell = row.getCell(index + 1);
+      const column = data.columns[index];
+      if (column.type === 'date') cell.numFmt = 'dd/mm/yyyy';
+      if (column.type === 'percent') cell.numFmt = '0%';
+      cell.alignment = { vertical: 'top', wrapText: true };
+      if (style) {
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: toArgb(style.backgroundColor) } };
+        cell.font = { bold: true, color: { argb: toArgb(style.color) } };
+      }
+    });
+  }
+
+  const footerRow = sheet.addRow([`${BRAND_NAME} - ${data.rows.length} rows`]);
+  footerRow.getCell(1).font = { italic: true, size: 9, color: { argb: 'FF6B7280' } };
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
+
+// ----- PDF -----
+
+const PDF_MARGIN = 30;
+const PDF_FONT_SIZE = 8;
+const PDF_CELL_PADDING = 4;
+
+const renderPdf = (data: ExportTableData, generatedAt: Date): Promise<Buffer> => new Promise((resolve, reject) => {
+  const doc = new PDFDocument({
+    size: 'A4',
+    layout: 'landscape',
+    margin: PDF_MARGIN,
+    bufferPages: true,
+    info: { Title: data.title, Author: BRAND_NAME },
+  });
+
+  const chunks: Buffer[] = [];
+  doc.on('data', chunk => chunks.push(chunk));
+  doc.on('end', () => resolve(Buffer.concat(chunks)));
+  doc.on('error', reject);
+
+  const pageWidth = doc.page.width - PDF_MARGIN * 2;
+  const bottomLimit = doc.page.height - PDF_MARGIN - 20;
+  const totalWidth = data.columns.reduce((sum, column) => sum + column.width, 0) || 1;
+  const widths = data.columns.map(column => (column.width / totalWidth) * pageWidth);
+
+  const rowHeight = (texts: string[], bold = false): number => {
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(PDF_FONT_SIZE);
+    return Math.max(...texts.map((text, index) =>
+      doc.heightOfString(text, { width: widths[index] - PDF_CELL_PADDING * 2 })
+    ), PDF_FONT_SIZE) + PDF_CELL_PADDING * 2;
+  };
+
+  const drawRow = (texts: string[], y: number, height: number, styles: (CellStyle | undefined)[], header = false) => {
+    let x = PDF_MARGIN;
+    texts.forEach((text, index) => {
+      const style = styles[index];
+      const fill = header ? '#f9fafb' : style?.backgroundColor;
+      if (fill) {
+        doc.rect(x, y, widths[index], height).fill(fill);
+      }
+      doc.rect(x, y, widths[index], height).lineWidth(0.5).stroke('#d1d5db');
+      doc
+        .font(header || style ? 'Helvetica-Bold' : 'Helvetica')
+        .fontSize(PDF_FONT_SIZE)
+        .fillColor(style?.color || (header ? '#374151' : '#111827'))
+        .text(text, x + PDF_CELL_PADDING, y + PDF_CELL_PADDING, { width: widths[index] - PDF_CELL_PADDING * 2 });
+      x += widths[index];
+    });
+  };
+
+  const headerTexts = data.columns.map(column => column.label.toUpperCase());
+  const headerHeight = rowHeight(headerTexts, true);
+
+  // Branded header band
+  doc.rect(0, 0, doc.page.width, 56).fill(BRAND_COLOR);
+  doc.font('Helvetica-Bold').fontSize(16).fillColor('#ffffff').text(data.title, PDF_MARGIN, 14, { width: pageWidth });
+  doc.font('Helvetica').fontSize(9).text(BRAND_NAME, PDF_MARGIN, 36, { width: pageWidth });
+  doc.font('Helvetica').fontSize(9).fillColor('#4b5563')
+    .text(data.subtitle, PDF_MARGIN, 66, { width: pageWidth })
+    .text(`Generated: ${formatGeneratedAt(generatedAt)}`, { width: pageWidth });
+
+  let y = doc.y + 8;
+  drawRow(headerTexts, y, headerHeight, [], true);
+  y += headerHeight;
+
+  for (const exportRow of data.rows) {
+    const texts = exportRow.values.map((value, index) => formatCellText(data.columns[index], value));
+    const height = rowHeight(texts);
+    if (y + height > bottomLimit) {
+      doc.addPage();
+      y = PDF_MARGIN;
+      drawRow(headerTexts, y, headerHeight, [], true);
+      y += headerHeight;
+    }
+    drawRow(texts, y, height, exportRow.styles);
+    y += height;
+  }
+
+  if (data.rows.length === 0) {
+    doc.font('Helvetica').fontSize(PDF_FONT_SIZE).fillColor('#6b7280')
+      .text('No rows match the current filters', PDF_MARGIN, y + PDF_CELL_PADDING, { width: pageWidth });
+  }
+
+  const range = doc.bufferedPageRange();
+  for (let index = range.start; index < range.start + range.count; index++) {
+    doc.switchToPage(index);
+    // Writing inside the bottom margin would otherwise start a new page
+    doc.page.margins.bottom = 0;
+    doc.font('Helvetica').fontSize(7).fillColor('#6b7280').text(
+      `${BRAND_NAME} - ${data.rows.length} rows • Page ${index + 1} of ${range.count}`,
+      PDF_MARGIN,
+      doc.page.height - PDF_MARGIN - 8,
+      { width: pageWidth, align: 'right', lineBreak: false }
+    );
+  }
+
+  doc.end();
+});
+
+/**
+ * Render a table export for a user, applying their column preferences
+ */
+export const createExport = async (request: ExportRequest, userId: number): Promise<ExportFile> => {
+  const data = await buildTableData(request, userId);
+  const generatedAt = new Date();
+  const { contentType, extension } = FORMAT_DETAILS[request.format];
+
+  const buffer = request.format === 'pdf'
+    ? await renderPdf(data, generatedAt)
+    : await renderXlsx(data, generatedAt);
+
+  const slug = data.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'export';
+  const stamp = generatedAt.toISOString().slice(0, 10);
+
+  return {
+    buffer,
+    contentType,
+    filename: `${slug}-${stamp}.${extension}`,
+    rowCount: data.rows.length,
+  };
+};
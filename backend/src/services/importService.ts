@@ -0,0 +1,536 @@
+import { db } from '../db/index.js';
+import { clients, projects, projectStatuses, jobs, jobStatuses, type ImportValueTransforms } from '../db/schema.js';
+import { and, asc, inArray, isNull } from 'drizzle-orm';
+import { normalizeImportDate, InvalidDateError, type JobDateField } from '../utils/dates.js';
+import { recordStatusChanges } from './jobStatusHistoryService.js';
+import { loadJobWorkflow, findStatusMoveProblem, toLegacyJobStatus } from './jobWorkflowService.js';
+import { findClientMatches, loadClientIdentities, type ClientMatch } from './clientDuplicateService.js';
+
+/**
+ * Smart imports of clients, projects and jobs from spreadsheet rows.
+ *
+ * An import is planned before anything is written: every row is validated, and the clients and
+ * projects the rows need are matched against existing records or marked to be created. A dry run
+ * returns the plan as a report. A real import refuses to write while any row has errors, then
+ * writes the whole plan in one transaction, so it either fully commits or fully rolls back.
+ *
+ * A client the import would create that looks like an existing one (say "ABC Builders Pty Ltd"
+ * for "ABC Builders") is flagged with its likely matches. The import waits until each flagged
+ * client is either matched to an existing client or confirmed as new.
+ */
+
+export type ImportType = 'jobs' | 'clients' | 'projects';
+
+export const isImportType = (value: string): value is ImportType =>
+  value === 'jobs' || value === 'clients' || value === 'projects';
+
+// Inserted in batches to stay well under the query parameter limit
+const INSERT_BATCH_SIZE = 500;
+
+export interface ImportRowError {
+  // 1-based position in the uploaded data
+  row: number;
+  field?: string;
+  message: string;
+}
+
+type NewClient = typeof clients.$inferInsert;
+type NewProject = typeof projects.$inferInsert;
+type NewJob = typeof jobs.$inferInsert;
+
+interface PlannedClient {
+  name: string;
+  // Null until created
+  id: number | null;
+  // False when an existing client is matched
+  create: boolean;
+  values: NewClient;
+  // Existing clients this new one looks like, until the import says which to use
+  possibleMatches: ClientMatch[];
+}
+
+interface PlannedProject {
+  name: string;
+  clientName: string;
+  id: number | null;
+  create: boolean;
+  values: Omit<NewProject, 'clientId'>;
+}
+
+interface PlannedJob {
+  row: number;
+  projectKey: string;
+  values: Omit<NewJob, 'projectId'>;
+}
+
+export interface ImportPlan {
+  type: ImportType;
+  rowCount: number;
+  // Keyed by client name
+  clients: Map<string, PlannedClient>;
+  // Keyed by projectKey(client name, project name)
+  projects: Map<string, PlannedProject>;
+  jobs: PlannedJob[];
+  rowErrors: ImportRowError[];
+}
+
+// For each flagged client, by its name in the file: an existing client id to use, or 'new'
+export type ImportClientMatches = Record<string, number | 'new'>;
+
+export interface ImportOptions {
+  // From the mapping template the rows were mapped with
+  transforms?: ImportValueTransforms;
+  clientMatches?: ImportClientMatches;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  // Rows imported, or that would be on a dry run
+  success: number;
+  // Rows with errors
+  failed: number;
+  errors: string[];
+  rowErrors: ImportRowError[];
+  clientsCreated: number;
+  projectsCreated: number;
+  // New clients that look like existing ones and need a decision before importing
+  clientsToConfirm: number;
+  details: {
+    clients: Array<{ name: string; id: number | null; created: boolean; possibleMatches: ClientMatch[] }>;
+    projects: Array<{ name: string; id: number | null; clientName: string; created: boolean }>;
+    jobs: Array<{ row: number; unit: string | null; items: string; id: number | null }>;
+  };
+}
+
+export class ImportError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+const projectKey = (clientName: string, projectName: string) => `${clientName}\u0000${projectName}`;
+
+const readText = (value: unknown): string => (value === undefined || value === null ? '' : String(value).trim());
+
+const optionalText = (value: unknown): string | null => readText(value) || null;
+
+// Spreadsheet wording for the built-in statuses
+const STATUS_ALIASES: Record<string, string> = {
+  'delivery complete': 'delivered',
+  'complete': 'delivered',
+  'finished': 'delivered',
+  'done': 'delivered',
+  'assembly complete': 'assembly-complete',
+  'assembly': 'assembly-complete',
+  'machining complete': 'machining-complete',
+  'machining': 'machining-complete',
+  'machined': 'machining-complete',
+  'nesting complete': 'nesting-complete',
+  'nesting': 'nesting-complete',
+  'nested': 'nesting-complete',
+  'not assigned': 'not-assigned',
+  'unassigned': 'not-assigned',
+  'pending': 'not-assigned',
+  'waiting': 'not-assigned',
+};
+const DEFAULT_STATUS = 'not-assigned';
+
+type StatusRow = { id: number; name: string; displayName: string };
+
+/**
+ * Match an imported status by alias, name or display name, ignoring case. A template's own
+ * aliases are tried before the built-in ones.
+ * A blank status is the default status; an unknown one is undefined.
+ */
+const resolveStatus = (
+  value: string,
+  statuses: StatusRow[],
+  templateAliases: Map<string, string> = new Map()
+): StatusRow | undefined => {
+  let normalized = value.toLowerCase();
+  if (!normalized) {
+    return statuses.find(status => status.name === DEFAULT_STATUS) ?? statuses[0];
+  }
+  normalized = templateAliases.get(normalized) ?? normalized;
+  const name = STATUS_ALIASES[normalized] ?? normalized;
+  return statuses.find(status =>
+    status.name.toLowerCase() === name || status.displayName.toLowerCase() === normalized
+  );
+};
+
+type ProjectStatusRow = { name: string; displayName: string; isDefault: boolean };
+
+/**
+ * Match an imported project status by name or display name, ignoring case.
+ * A blank status is the default project status; an unknown one is undefined.
+ */
+const resolveProjectStatus = (value: string, statuses: ProjectStatusRow[]): ProjectStatusRow | undefined => {
+  const normalized = value.toLowerCase();
+  if (!normalized) {
+    return statuses.find(status => status.isDefault) ?? statuses[0];
+  }
+  return statuses.find(status =>
+    status.name.toLowerCase() === normalized || status.displayName.toLowerCase() === normalized
+  );
+};
+
+/**
+ * Rewrite a date in a template's source format as DD/MM/YYYY before the usual date parsing.
+ * Values that don't fit the format are passed through unchanged.
+ */
+const applyDateFormat = (value: unknown, dateFormat: ImportValueTransforms['dateFormat']): unknown => {
+  if (typeof value !== 'string') return value;
+  const match = value.trim().match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (!match) return value;
+  const [, first, second, year] = match;
+  if (dateFormat === 'MM/DD/YYYY' && year.length === 4) return `${second}/${first}/${year}`;
+  if (dateFormat === 'DD/MM/YY' && year.length === 2) return `${first}/${second}/20${year}`;
+  return value;
+};
+
+/**
+ * Look up existing clients by name, and their projects. Where names repeat, the oldest record
+ * wins unless the import chose a client by id.
+ */
+const loadExisting = async (clientNames: string[], chosenClients: Map<string, { id: number; name: string }>) => {
+  const existingClients = new Map<string, number>();
+  const existingProjects = new Map<string, number>();
+  if (clientNames.length === 0) return { existingClients, existingProjects };
+
+  const clientRows = await db
+    .select({ id: clients.id, name: clients.name })
+    .from(clients)
+    .where(inArray(clients.name, clientNames))
+    .orderBy(asc(clients.id));
+  for (const client of clientRows) {
+    if (!existingClients.has(client.name)) existingClients.set(client.name, client.id);
+  }
+  for (const client of chosenClients.values()) {
+    existingClients.set(client.name, client.id);
+  }
+
+  const clientIds = [...existingClients.values()];
+  if (clientIds.length > 0) {
+    const projectRows = await db
+      .select({ id: projects.id, name: projects.name, clientId: projects.clientId })
+      .from(projects)
+      .where(and(inArray(projects.clientId, clientIds), isNull(projects.deletedAt)))
+      .orderBy(asc(projects.id));
+    const clientNameById = new Map(clientRows.map(client => [client.id, client.name]));
+    for (const project of projectRows) {
+      const key = projectKey(clientNameById.get(project.clientId!)!, project.name);
+      if (!existingProjects.has(key)) existingProjects.set(key, project.id);
+    }
+  }
+
+  return { existingClients, existingProjects };
+};
+
+/**
+ * Existing clients the import chose for flagged names, keyed by the name in the file
+ */
+const loadChosenClients = async (clientMatches: ImportClientMatches) => {
+  const chosenIds = new Map(
+    Object.entries(clientMatches).filter((entry): entry is [string, number] => typeof entry[1] === 'number')
+  );
+  const chosen = new Map<string, { id: number; name: string }>();
+  if (chosenIds.size === 0) return chosen;
+
+  const rows = await db
+    .select({ id: clients.id, name: clients.name })
+    .from(clients)
+    .where(inArray(clients.id, [...new Set(chosenIds.values())]));
+  for (const [fileName, id] of chosenIds) {
+    const client = rows.find(row => row.id === id);
+    if (!client) {
+      throw new ImportError(`Client #${id} chosen for '${fileName}' was not found`);
+    }
+    chosen.set(fileName, client);
+  }
+  return chosen;
+};
+
+/**
+ * Validate the uploaded rows and work out what an import would create or match, without writing
+ */
+export const planImport = async (
+  type: ImportType,
+  data: unknown,
+  { transforms = {}, clientMatches = {} }: ImportOptions = {}
+): Promise<ImportPlan> => {
+  if (!Array.isArray(data)) {
+    throw new ImportError('Data must be an array');
+  }
+  const rows = data.map(row => (row && typeof row === 'object' ? row : {}) as Record<string, unknown>);
+
+  const chosenClients = await loadChosenClients(clientMatches);
+  const fileClientNameOf = (row: Record<string, unknown>) =>
+    type === 'jobs' ? readText(row.client_name) || 'Unknown Client' : readText(type === 'clients' ? row.name : row.client_name);
+  // Rows for a flagged client go to the existing client chosen for it
+  const clientNameOf = (row: Record<string, unknown>) => {
+    const name = fileClientNameOf(row);
+    return chosenClients.get(name)?.name ?? name;
+  };
+  const { existingClients, existingProjects } = await loadExisting(
+    [...new Set(rows.map(clientNameOf).filter(Boolean))],
+    chosenClients
+  );
+  const statuses: StatusRow[] = type === 'jobs'
+    ? await db
+        .select({ id: jobStatuses.id, name: jobStatuses.name, displayName: jobStatuses.displayName })
+        .from(jobStatuses)
+        .orderBy(asc(jobStatuses.orderIndex))
+    : [];
+  const projectStatusRows: ProjectStatusRow[] = type === 'clients'
+    ? []
+    : await db
+        .select({ name: projectStatuses.name, displayName: projectStatuses.displayName, isDefault: projectStatuses.isDefault })
+        .from(projectStatuses)
+        .orderBy(asc(projectStatuses.orderIndex));
+  const workflow = type === 'jobs' ? await loadJobWorkflow() : null;
+  // Projects a jobs import creates start in the default status
+  const defaultProjectStatus = resolveProjectStatus('', projectStatusRows)?.name;
+
+  const templateAliases = new Map(
+    Object.entries(transforms.statusAliases ?? {}).map(([source, target]) => [source.toLowerCase(), target.toLowerCase()])
+  );
+
+  const plan: ImportPlan = { type, rowCount: rows.length, clients: new Map(), projects: new Map(), jobs: [], rowErrors: [] };
+
+  const useClient = (name: string, values: NewClient = { name }) => {
+    if (!plan.clients.has(name)) {
+      const id = existingClients.get(name) ?? null;
+      plan.clients.set(name, { name, id, create: id === null, values, possibleMatches: [] });
+    }
+  };
+  const useProject = (
+    clientName: string,
+    name: string,
+    values: PlannedProject['values'] = { name, status: defaultProjectStatus }
+  ) => {
+    const key = projectKey(clientName, name);
+    if (!plan.projects.has(key)) {
+      const id = existingProjects.get(key) ?? null;
+      plan.projects.set(key, { name, clientName, id, create: id === null, values });
+    }
+    return key;
+  };
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 1;
+    const rowErrors: ImportRowError[] = [];
+    const fail = (message: string, field?: string) => rowErrors.push({ row: rowNumber, field, message });
+
+    if (type === 'clients') {
+      const name = readText(row.name);
+      const chosen = chosenClients.get(name);
+      if (!name) {
+        fail('Client name is required', 'name');
+      } else if (chosen) {
+        // Matched to an existing client, so there is nothing to create
+        useClient(chosen.name);
+      } else if (existingClients.has(name)) {
+        fail(`Client '${name}' already exists`, 'name');
+      } else if (plan.clients.has(name)) {
+        fail(`Client '${name}' appears more than once in this file`, 'name');
+      }
+      if (rowErrors.length === 0 && !chosen) {
+        useClient(name, {
+          name,
+          email: optionalText(row.email),
+          phone: optionalText(row.phone),
+          address: optionalText(row.address),
+          contactPerson: optionalText(row.contact_person),
+          notes: optionalText(row.notes),
+          isActive: true,
+          archived: false,
+        });
+      }
+    }
+
+    if (type === 'projects') {
+      const name = readText(row.name);
+      const clientName = readText(row.client_name);
+      const statusText = readText(row.status);
+      const status = resolveProjectStatus(statusText, projectStatusRows);
+      if (!name) fail('Project name is required', 'name');
+      if (!status) fail(`Unknown project status '${statusText}'`, 'status');
+      if (!clientName) fail('Client name is required', 'client_name');
+      if (name && clientName) {
+        const key = projectKey(clientName, name);
+        if (existingProjects.has(key)) {
+          fail(`Project '${name}' already exists for client '${clientName}'`, 'name');
+        } else if (plan.projects.has(key)) {
+          fail(`Project '${name}' for client '${clientName}' appears more than once in this file`, 'name');
+        }
+      }
+      if (rowErrors.length === 0) {
+        useClient(clientName);
+        useProject(clientName, name, {
+          name,
+          description: optionalText(row.description),
+          status: status!.name,
+        });
+      }
+    }
+
+    if (type === 'jobs') {
+      const items = readText(row.items);
+      if (!items) fail('Items is required', 'items');
+
+      const dates: Partial<Record<JobDateField, string | null>> = {};
+      const dateColumns: Array<[string, JobDateField]> = [
+        ['nesting', 'nestingDate'],
+        ['machining', 'machiningDate'],
+        ['assembly', 'assemblyDate'],
+        ['delivery', 'deliveryDate'],
+      ];
+      for (const [column, field] of dateColumns) {
+        try {
+          dates[field] = normalizeImportDate(applyDateFormat(row[column], transforms.dateFormat), column);
+        } catch (error) {
+          if (!(error instanceof InvalidDateError)) throw error;
+          fail(error.message, column);
+        }
+      }
+
+      const statusText = readText(row.status);
+      const status = resolveStatus(statusText, statuses, templateAliases);
+      if (!status) fail(`Unknown status '${statusText}'`, 'status');
+      // A new job enters its status, so the status's entry requirements apply
+      const statusProblem = status && workflow && findStatusMoveProblem(workflow, {
+        fromStatusId: null,
+        toStatusId: status.id,
+        job: { ...dates, unit: readText(row.unit), type: readText(row.type), comments: optionalText(row.comments) },
+      });
+      if (statusProblem) fail(statusProblem, 'status');
+
+      if (rowErrors.length === 0) {
+        const clientName = clientNameOf(row);
+        useClient(clientName);
+        const key = useProject(clientName, readText(row.project_name) || 'Unknown Project');
+        plan.jobs.push({
+          row: rowNumber,
+          projectKey: key,
+          values: {
+            unit: readText(row.unit) || `Unnamed-${rowNumber}`,
+            type: readText(row.type) || 'Unknown',
+            items,
+            statusId: status!.id,
+            status: toLegacyJobStatus(status!.name),
+            ...dates,
+            comments: optionalText(row.comments),
+          },
+        });
+      }
+    }
+
+    plan.rowErrors.push(...rowErrors);
+  });
+
+  const newClients = [...plan.clients.values()].filter(client => client.create && clientMatches[client.name] !== 'new');
+  if (newClients.length > 0) {
+    const pool = await loadClientIdentities();
+    for (const client of newClients) {
+      client.possibleMatches = await findClientMatches(
+        { name: client.name, company: client.values.company, email: client.values.email, abn: client.values.abn },
+        pool
+      );
+    }
+  }
+
+  return plan;
+};
+
+/**
+ * Write a planned import in one transaction. Fills in the ids of created records on the plan.
+ */
+export const applyImportPlan = async (plan: ImportPlan, userId?: number, userEmail?: string): Promise<number[]> => {
+  if (plan.rowErrors.length > 0) {
+    throw new ImportError('Fix the rows with errors before importing');
+  }
+  if ([...plan.clients.values()].some(client => client.possibleMatches.length > 0)) {
+    throw new ImportError('Choose an existing client or confirm a new one for each flagged client', 409);
+  }
+
+  return db.transaction(async (tx) => {
+    for (const client of plan.clients.values()) {
+      if (!client.create) continue;
+      const [created] = await tx.insert(clients).values(client.values).returning({ id: clients.id });
+      client.id = created.id;
+    }
+
+    for (const project of plan.projects.values()) {
+      if (!project.create) continue;
+      const clientId = plan.clients.get(project.clientName)!.id!;
+      const [created] = await tx
+        .insert(projects)
+        .values({ ...project.values, clientId })
+        .returning({ id: projects.id });
+      project.id = created.id;
+    }
+
+    const jobIds: number[] = [];
+    for (let start = 0; start < plan.jobs.length; start += INSERT_BATCH_SIZE) {
+      const batch = plan.jobs.slice(start, start + INSERT_BATCH_SIZE);
+      const created = await tx
+        .insert(jobs)
+        .values(batch.map(job => ({ ...job.values, projectId: plan.projects.get(job.projectKey)!.id! })))
+        .returning({ id: jobs.id, statusId: jobs.statusId });
+      jobIds.push(...created.map(job => job.id));
+
+      await recordStatusChanges(
+        created.map(job => ({ jobId: job.id, fromStatusId: null, toStatusId: job.statusId })),
+        'import',
+        userId,
+        userEmail,
+        tx
+      );
+    }
+
+    return jobIds;
+  });
+};
+
+/**
+ * Summarise a plan for the response. After a real import, pass the created job ids in plan order.
+ */
+export const buildImportReport = (plan: ImportPlan, dryRun: boolean, jobIds: number[] = []): ImportReport => {
+  const clientDetails = [...plan.clients.values()].map(client => ({
+    name: client.name,
+    id: client.id,
+    created: client.create,
+    possibleMatches: client.possibleMatches,
+  }));
+  const projectDetails = [...plan.projects.values()].map(project => ({
+    name: project.name,
+    id: project.id,
+    clientName: project.clientName,
+    created: project.create,
+  }));
+  const imported = plan.type === 'jobs'
+    ? plan.jobs.length
+    : (plan.type === 'clients' ? clientDetails : projectDetails).filter(item => item.created).length;
+
+  return {
+    dryRun,
+    success: imported,
+    failed: new Set(plan.rowErrors.map(error => error.row)).size,
+    errors: plan.rowErrors.map(error => `Row ${error.row}: ${error.message}`),
+    rowErrors: plan.rowErrors,
+    clientsCreated: clientDetails.filter(client => client.created).length,
+    projectsCreated: projectDetails.filter(project => project.created).length,
+    clientsToConfirm: clientDetails.filter(client => client.possibleMatches.length > 0).length,
+    details: {
+      clients: clientDetails,
+      projects: projectDetails,
+      jobs: plan.jobs.map((job, index) => ({
+        row: job.row,
+        unit: job.values.unit ?? null,
+        items: job.values.items,
+        id: jobIds[index] ?? null,
+      })),
+    },
+  };
+};
@@ -0,0 +1,189 @@
+import { db } from '../db/index.js';
+import { importMappingTemplates, type ImportMappingTemplate, type ImportValueTransforms } from '../db/schema.js';
+import { and, asc, eq, ne, sql } from 'drizzle-orm';
+import { isImportType, type ImportType } from './importService.js';
+
+/**
+ * Saved column mappings for the import wizard. A template maps one source's spreadsheet
+ * headers to import fields, with optional value transforms, and is picked automatically
+ * for a new file by how many of its headers the file has.
+ */
+
+// Fields each import type accepts, matching the wizard's DATABASE_FIELDS
+export const IMPORT_FIELDS: Record<ImportType, string[]> = {
+  clients: ['name', 'email', 'phone', 'address', 'contact_person', 'notes'],
+  projects: ['name', 'client_name', 'description', 'status', 'start_date', 'end_date', 'budget'],
+  jobs: ['unit', 'type', 'items', 'project_name', 'client_name', 'nesting', 'machining', 'assembly', 'delivery', 'status', 'comments'],
+};
+
+export const DATE_FORMATS = ['DD/MM/YYYY', 'MM/DD/YYYY', 'DD/MM/YY', 'YYYY-MM-DD'] as const;
+
+export interface ImportTemplateInput {
+  name: string;
+  importType: ImportType;
+  columnMapping: Record<string, string>;
+  transforms: ImportValueTransforms;
+}
+
+export interface ImportTemplateMatch extends ImportMappingTemplate {
+  // Share of the template's columns found in the file, 0 to 1
+  score: number;
+  // The template's mapping keyed by the file's own header spelling, for columns it has
+  mapping: Record<string, string>;
+}
+
+export class ImportTemplateError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ImportTemplateError';
+  }
+}
+
+// Headers match ignoring case and repeated spaces
+const normalizeHeader = (header: string) => header.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const parseTransforms = (value: unknown): ImportValueTransforms => {
+  if (value === undefined || value === null) return {};
+  if (!isPlainObject(value)) {
+    throw new ImportTemplateError('transforms must be an object');
+  }
+
+  const transforms: ImportValueTransforms = {};
+  if (value.statusAliases !== undefined) {
+    if (!isPlainObject(value.statusAliases)) {
+      throw new ImportTemplateError('transforms.statusAliases must map source status text to a job status');
+    }
+    const aliases: Record<string, string> = {};
+    for (const [source, target] of Object.entries(value.statusAliases)) {
+      if (typeof target !== 'string' || !source.trim() || !target.trim()) {
+        throw new ImportTemplateError('transforms.statusAliases must map source status text to a job status');
+      }
+      aliases[source.trim()] = target.trim();
+    }
+    if (Object.keys(aliases).length > 0) transforms.statusAliases = aliases;
+  }
+  if (value.dateFormat !== undefined && value.dateFormat !== null && value.dateFormat !== '') {
+    if (!(DATE_FORMATS as readonly unknown[]).includes(value.dateFormat)) {
+      throw new ImportTemplateError(`transforms.dateFormat must be one of ${DATE_FORMATS.join(', ')}`);
+    }
+    transforms.dateFormat = value.dateFormat as ImportValueTransforms['dateFormat'];
+  }
+  return transforms;
+};
+
+/**
+ * Validate a template body for POST /api/import/templates or PUT /api/import/templates/:id
+ */
+export const parseTemplateInput = (body: Record<string, unknown>): ImportTemplateInput => {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > 255) {
+    throw new ImportTemplateError('name is required and must be at most 255 characters');
+  }
+  if (typeof body.importType !== 'string' || !isImportType(body.importType)) {
+    throw new ImportTemplateError('importType must be clients, projects or jobs');
+  }
+  const importType = body.importType;
+
+  if (!isPlainObject(body.columnMapping) || Object.keys(body.columnMapping).length === 0) {
+    throw new ImportTemplateError('columnMapping must map at least one column to a field');
+  }
+  const columnMapping: Record<string, string> = {};
+  const mappedFields = new Set<string>();
+  for (const [column, field] of Object.entries(body.columnMapping)) {
+    if (typeof field !== 'string' || !IMPORT_FIELDS[importType].includes(field)) {
+      throw new ImportTemplateError(`Column "${column}" maps to ${JSON.stringify(field)}, which is not a ${importType} import field`);
+    }
+    if (mappedFields.has(field)) {
+      throw new ImportTemplateError(`More than one column maps to ${field}`);
+    }
+    mappedFields.add(field);
+    columnMapping[column.trim()] = field;
+  }
+
+  return { name, importType, columnMapping, transforms: parseTransforms(body.transforms) };
+};
+
+export const listImportTemplates = (importType?: ImportType): Promise<ImportMappingTemplate[]> =>
+  db
+    .select()
+    .from(importMappingTemplates)
+    .where(importType ? eq(importMappingTemplates.importType, importType) : undefined)
+    .orderBy(asc(importMappingTemplates.importType), asc(importMappingTemplates.name));
+
+export const getImportTemplate = async (id: number): Promise<ImportMappingTemplate> => {
+  const [template] = await db
+    .select()
+    .from(importMappingTemplates)
+    .where(eq(importMappingTemplates.id, id))
+    .limit(1);
+  if (!template) {
+    throw new ImportTemplateError('Import template not found', 404);
+  }
+  return template;
+};
+
+const assertNameAvailable = async (input: ImportTemplateInput, exceptId?: number) => {
+  const [existing] = await db
+    .select({ id: importMappingTemplates.id })
+    .from(importMappingTemplates)
+    .where(and(
+      eq(importMappingTemplates.importType, input.importType),
+      sql`lower(${importMappingTemplates.name}) = ${input.name.toLowerCase()}`,
+      exceptId !== undefined ? ne(importMappingTemplates.id, exceptId) : undefined
+    ))
+    .limit(1);
+  if (existing) {
+    throw new ImportTemplateError(`A ${input.importType} template named "${input.name}" already exists`, 409);
+  }
+};
+
+export const createImportTemplate = async (input: ImportTemplateInput, userId?: number): Promise<ImportMappingTemplate> => {
+  await assertNameAvailable(input);
+  const [template] = await db
+    .insert(importMappingTemplates)
+    .values({ ...input, createdBy: userId ?? null })
+    .returning();
+  return template;
+};
+
+export const updateImportTemplate = async (id: number, input: ImportTemplateInput): Promise<ImportMappingTemplate> => {
+  await getImportTemplate(id);
+  await assertNameAvailable(input, id);
+  const [template] = await db
+    .update(importMappingTemplates)
+    .set({ ...input, updatedAt: new Date() })
+    .where(eq(importMappingTemplates.id, id))
+    .returning();
+  return template;
+};
+
+export const deleteImportTemplate = async (id: number): Promise<void> => {
+  await getImportTemplate(id);
+  await db.delete(importMappingTemplates).where(eq(importMappingTemplates.id, id));
+};
+
+/**
+ * Rank an import type's templates by how well they fit a file's headers, best first.
+ * Ties go to the template that maps more of the file's columns.
+ */
+export const detectImportTemplates = async (importType: ImportType, headers: string[]): Promise<ImportTemplateMatch[]> => {
+  const headerByKey = new Map(headers.map(header => [normalizeHeader(header), header]));
+  const templates = await listImportTemplates(importType);
+
+  return templates
+    .map(template => {
+      const mapping: Record<string, string> = {};
+      const columns = Object.entries(template.columnMapping);
+      for (const [column, field] of columns) {
+        const header = headerByKey.get(normalizeHeader(column));
+        if (header !== undefined) mapping[header] = field;
+      }
+      const matched = Object.keys(mapping).length;
+      return { ...template, score: columns.length > 0 ? matched / columns.length : 0, mapping };
+    })
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score || Object.keys(b.mapping).length - Object.keys(a.mapping).length);
+};
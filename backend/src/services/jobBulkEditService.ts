@@ -0,0 +1,220 @@
+import { db } from '../db/index.js';
+import { jobs, jobStatuses } from '../db/schema.js';
+import { eq, and, inArray, isNull } from 'drizzle-orm';
+import { JOB_DATE_FIELDS, parseIsoDate, toIsoDate, type JobDateField, type JobActualDateField } from '../utils/dates.js';
+import { addWorkingDays, loadWorkingCalendar } from './schedulingService.js';
+import { getChangedStageDates, type ProposedStageDate } from './capacityService.js';
+import { recordStatusChanges } from './jobStatusHistoryService.js';
+import { loadJobWorkflow, findStatusMoveProblem, toLegacyJobStatus } from './jobWorkflowService.js';
+import { getStatusChangeActualDates } from './stageActualsService.js';
+
+export const MAX_BULK_JOBS = 500;
+
+// How many workflow problems a refused bulk edit lists
+const MAX_LISTED_PROBLEMS = 5;
+
+// The same set of changes is applied to every selected job
+export interface BulkJobChanges {
+  statusId?: number;
+  // Move every set stage date by this many working days (negative moves earlier)
+  shiftWorkingDays?: number;
+  type?: string | null;
+  comments?: string | null;
+}
+
+export interface BulkJobEditRequest {
+  jobIds: number[];
+  changes: BulkJobChanges;
+}
+
+type Job = typeof jobs.$inferSelect;
+type JobUpdate = Partial<Pick<Job, 'statusId' | 'status' | 'type' | 'comments' | JobDateField | JobActualDateField>>;
+
+export interface BulkJobEditPlan {
+  oldJobs: Job[];
+  updates: Map<number, JobUpdate>;
+  stageDates: ProposedStageDate[];
+}
+
+export class BulkEditError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'BulkEditError';
+  }
+}
+
+const readOptionalText = (value: unknown, field: string): string | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  if (typeof value !== 'string') {
+    throw new BulkEditError(`${field} must be a string or null`);
+  }
+  return value.trim() === '' ? null : value;
+};
+
+/**
+ * Validate a PATCH /api/jobs/bulk body
+ */
+export const parseBulkJobEdit = (body: Record<string, unknown>): BulkJobEditRequest => {
+  const { jobIds, changes } = body;
+
+  if (!Array.isArray(jobIds) || jobIds.length === 0) {
+    throw new BulkEditError('jobIds must be a non-empty array');
+  }
+  if (!jobIds.every(id => Number.isInteger(id) && id > 0)) {
+    throw new BulkEditError('jobIds must contain job ids');
+  }
+  const uniqueIds = [...new Set(jobIds as number[])];
+  if (uniqueIds.length > MAX_BULK_JOBS) {
+    throw new BulkEditError(`Cannot edit more than ${MAX_BULK_JOBS} jobs at once`);
+  }
+
+  if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+    throw new BulkEditError('changes must be an object');
+  }
+  const input = changes as Record<string, unknown>;
+  const parsed: BulkJobChanges = {};
+
+  if (input.statusId !== undefined) {
+    if (!Number.isInteger(input.statusId)) {
+      throw new BulkEditError('statusId must be a status id');
+    }
+    parsed.statusId = input.statusId as number;
+  }
+
+  if (input.shiftWorkingDays !== undefined) {
+    const days = input.shiftWorkingDays;
+    if (!Number.isInteger(days) || days === 0 || Math.abs(days as number) > 365) {
+      throw new BulkEditError('shiftWorkingDays must be a whole number of working days between -365 and 365, other than 0');
+    }
+    parsed.shiftWorkingDays = days as number;
+  }
+
+  const type = readOptionalText(input.type, 'type');
+  if (type !== undefined) parsed.type = type;
+  const comments = readOptionalText(input.comments, 'comments');
+  if (comments !== undefined) parsed.comments = comments;
+
+  if (Object.keys(parsed).length === 0) {
+    throw new BulkEditError('Nothing to change: set statusId, shiftWorkingDays, type or comments');
+  }
+
+  return { jobIds: uniqueIds, changes: parsed };
+};
+
+/**
+ * Load the selected jobs and work out each job's update, without writing anything
+ */
+export const planBulkJobEdit = async (request: BulkJobEditRequest): Promise<BulkJobEditPlan> => {
+  const { jobIds, changes } = request;
+
+  const oldJobs = await db
+    .select()
+    .from(jobs)
+    .where(and(inArray(jobs.id, jobIds), isNull(jobs.deletedAt)))
+    .orderBy(jobs.id);
+
+  const missing = jobIds.filter(id => !oldJobs.some(job => job.id === id));
+  if (missing.length > 0) {
+    throw new BulkEditError(`Jobs not found: ${missing.join(', ')}`, 404);
+  }
+
+  const common: JobUpdate = {};
+  if (changes.statusId !== undefined) {
+    const [status] = await db
+      .select({ id: jobStatuses.id, name: jobStatuses.name })
+      .from(jobStatuses)
+      .where(eq(jobStatuses.id, changes.statusId))
+      .limit(1);
+    if (!status) {
+      throw new BulkEditError(`Job status ${changes.statusId} not found`);
+    }
+    common.statusId = status.id;
+    common.status = toLegacyJobStatus(status.name);
+  }
+  if (changes.type !== undefined) common.type = changes.type;
+  if (changes.comments !== undefined) common.comments = changes.comments;
+
+  const calendar = changes.shiftWorkingDays !== undefined ? await loadWorkingCalendar() : null;
+  const updates = new Map<number, JobUpdate>();
+  const stageDates: ProposedStageDate[] = [];
+
+  for (const job of oldJobs) {
+    const update: JobUpdate = { ...common };
+
+    if (calendar && changes.shiftWorkingDays !== undefined) {
+      for (const field of JOB_DATE_FIELDS) {
+        const current = parseIsoDate(job[field]);
+        if (current) {
+          update[field] = toIsoDate(addWorkingDays(current, changes.shiftWorkingDays, calendar));
+        }
+      }
+      stageDates.push(...getChangedStageDates(job.id, job, update));
+    }
+
+    updates.set(job.id, update);
+  }
+
+  // Every selected job has to be allowed to make the move, or none of them move
+  if (common.statusId !== undefined) {
+    const workflow = await loadJobWorkflow();
+    const problems = oldJobs.flatMap(job => {
+      const problem = findStatusMoveProblem(workflow, {
+        fromStatusId: job.statusId,
+        toStatusId: common.statusId!,
+        job: { ...job, ...updates.get(job.id) },
+        previousComments: job.comments,
+      });
+      return problem ? [`Job ${job.id}: ${problem}`] : [];
+    });
+    if (problems.length > 0) {
+      const more = problems.length - MAX_LISTED_PROBLEMS;
+      throw new BulkEditError(
+        problems.slice(0, MAX_LISTED_PROBLEMS).join('; ') + (more > 0 ? `; and ${more} more` : '')
+      );
+    }
+
+    for (const job of oldJobs) {
+      Object.assign(updates.get(job.id)!, getStatusChangeActualDates(workflow, job.statusId, common.statusId, job));
+    }
+  }
+
+  return { oldJobs, updates, stageDates };
+};
+
+/**
+ * Write every job's update in one transaction, so the selection changes together or not at all
+ */
+export const applyBulkJobEdit = async (
+  plan: BulkJobEditPlan,
+  userId?: number,
+  userEmail?: string
+): Promise<Job[]> => {
+  return db.transaction(async (tx) => {
+    const updatedJobs: Job[] = [];
+    const now = new Date();
+
+    for (const job of plan.oldJobs) {
+      const [updatedJob] = await tx
+        .update(jobs)
+        .set({ ...plan.updates.get(job.id), updatedAt: now })
+        .where(eq(jobs.id, job.id))
+        .returning();
+      updatedJobs.push(updatedJob);
+    }
+
+    await recordStatusChanges(
+      updatedJobs.map(job => ({
+        jobId: job.id,
+        fromStatusId: plan.oldJobs.find(old => old.id === job.id)?.statusId ?? null,
+        toStatusId: job.statusId,
+      })),
+      'bulk_edit',
+      userId,
+      userEmail,
+      tx
+    );
+
+    return updatedJobs;
+  });
+};
@@ -0,0 +1,171 @@
+import { db } from '../db/index.js';
+import { jobs, projects, clients, jobStatuses } from '../db/schema.js';
+import { and, eq, isNull, or, sql, type SQL } from 'drizzle-orm';
+import { ACTUAL_DATE_FIELD, getBusinessClock, getBusinessToday, parseIsoDate } from '../utils/dates.js';
+import { countWorkingDays, isWorkingDay, loadWorkingCalendar } from './schedulingService.js';
+import { STAGE_STATUSES, type ProductionStage } from './stageActualsService.js';
+import { getSetting, setSetting } from './settingsService.js';
+import { notify } from './notificationService.js';
+
+/**
+ * Overdue job stages. A stage is overdue once its planned date is at least one working day
+ * behind us and the job has neither reached the status that completes the stage (by status
+ * order) nor recorded an actual date for it. Jobs in a final status are never overdue.
+ */
+
+export interface OverdueStage {
+  stage: ProductionStage;
+  plannedDate: string;
+  workingDaysOverdue: number;
+}
+
+export interface JobException {
+  jobId: number;
+  projectId: number | null;
+  unit: string | null;
+  items: string;
+  projectName: string | null;
+  clientName: string | null;
+  status: { id: number | null; name: string | null; displayName: string | null };
+  overdueStages: OverdueStage[];
+  workingDaysOverdue: number; // The most overdue stage
+}
+
+export interface JobExceptions {
+  asOf: string; // YYYY-MM-DD
+  jobs: JobException[];
+  totals: Record<ProductionStage, number>;
+}
+
+const DIGEST_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+const DIGEST_LAST_SENT_KEY = 'exceptionDigestLastSent';
+
+// Hour in the business timezone after which the morning digest goes out
+const getDigestHour = () => {
+  const hour = parseInt(process.env.EXCEPTION_DIGEST_HOUR || '', 10);
+  return Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : 7;
+};
+
+/**
+ * Every job with an overdue stage as of the given day, most overdue first
+ */
+export const getJobExceptions = async (asOf = getBusinessToday(), projectId?: number): Promise<JobExceptions> => {
+  const [statuses, calendar] = await Promise.all([
+    db.select({ name: jobStatuses.name, orderIndex: jobStatuses.orderIndex }).from(jobStatuses),
+    loadWorkingCalendar(),
+  ]);
+  const completionOrder = new Map(statuses.map(status => [status.name, status.orderIndex]));
+
+  const plannedBefore: SQL[] = STAGE_STATUSES.map(({ dateField }) => sql`${jobs[dateField]} < ${asOf}`);
+
+  const rows = await db
+    .select({
+      jobId: jobs.id,
+      projectId: jobs.projectId,
+      unit: jobs.unit,
+      items: jobs.items,
+      nestingDate: jobs.nestingDate,
+      machiningDate: jobs.machiningDate,
+      assemblyDate: jobs.assemblyDate,
+      deliveryDate: jobs.deliveryDate,
+      nestingActualDate: jobs.nestingActualDate,
+      machiningActualDate: jobs.machiningActualDate,
+      assemblyActualDate: jobs.assemblyActualDate,
+      deliveryActualDate: jobs.deliveryActualDate,
+      projectName: projects.name,
+      clientName: clients.name,
+      statusId: jobStatuses.id,
+      statusName: jobStatuses.name,
+      statusDisplayName: jobStatuses.displayName,
+      statusOrder: jobStatuses.orderIndex,
+    })
+    .from(jobs)
+    .leftJoin(projects, eq(jobs.projectId, projects.id))
+    .leftJoin(clients, eq(projects.clientId, clients.id))
+    .leftJoin(jobStatuses, eq(jobs.statusId, jobStatuses.id))
+    .where(and(
+      isNull(jobs.deletedAt),
+      isNull(projects.deletedAt),
+      sql`coalesce(${jobStatuses.isFinal}, false) = false`,
+      projectId !== undefined ? eq(jobs.projectId, projectId) : undefined,
+      or(...plannedBefore)
+    ));
+
+  const today = parseIsoDate(asOf)!;
+  const totals: Record<ProductionStage, number> = { nesting: 0, machining: 0, assembly: 0, delivery: 0 };
+  const exceptions: JobException[] = [];
+
+  for (const row of rows) {
+    const overdueStages: OverdueStage[] = [];
+
+    for (const { stage, status, dateField } of STAGE_STATUSES) {
+      const plannedDate = row[dateField];
+      if (!plannedDate || row[ACTUAL_DATE_FIELD[dateField]]) continue;
+
+      const stageOrder = completionOrder.get(status);
+      if (stageOrder !== undefined && row.statusOrder !== null && row.statusOrder >= stageOrder) continue;
+
+      const workingDaysOverdue = countWorkingDays(parseIsoDate(plannedDate)!, today, calendar);
+      if (workingDaysOverdue < 1) continue;
+
+      overdueStages.push({ stage, plannedDate, workingDaysOverdue });
+      totals[stage]++;
+    }
+
+    if (overdueStages.length === 0) continue;
+
+    exceptions.push({
+      jobId: row.jobId,
+      projectId: row.projectId,
+      unit: row.unit,
+      items: row.items,
+      projectName: row.projectName,
+      clientName: row.clientName,
+      status: { id: row.statusId, name: row.statusName, displayName: row.statusDisplayName },
+      overdueStages,
+      workingDaysOverdue: Math.max(...overdueStages.map(stage => stage.workingDaysOverdue)),
+    });
+  }
+
+  exceptions.sort((a, b) => b.workingDaysOverdue - a.workingDaysOverdue || a.jobId - b.jobId);
+
+  return { asOf, jobs: exceptions, totals };
+};
+
+/**
+ * Send today's exceptions to every user who turned on the digest. Nothing is sent when no
+ * job is overdue. Returns the number of users it went to.
+ */
+export const sendExceptionDigest = async (asOf = getBusinessToday()): Promise<number> => {
+  const exceptions = await getJobExceptions(asOf);
+  if (exceptions.jobs.length === 0) return 0;
+
+  return (await notify('overdue_digest', exceptions)).length;
+};
+
+/**
+ * Send the digest once each working-day morning. The last sent date is kept in app settings,
+ * so a restart doesn't send it twice.
+ */
+export const startExceptionDigest = (): void => {
+  const run = async () => {
+    try {
+      const { date: today, hour } = getBusinessClock();
+      if (hour < getDigestHour()) return;
+
+      if (await getSetting<string | null>(DIGEST_LAST_SENT_KEY, null) === today) return;
+      if (!isWorkingDay(parseIsoDate(today)!, await loadWorkingCalendar())) return;
+
+      await setSetting(DIGEST_LAST_SENT_KEY, today);
+      const sent = await sendExceptionDigest(today);
+      if (sent > 0) {
+        console.log(`Exception digest: sent to ${sent} user${sent === 1 ? '' : 's'}`);
+      }
+    } catch (error) {
+      console.error('Error sending exception digest:', error);
+    }
+  };
+
+  run();
+  setInterval(run, DIGEST_CHECK_INTERVAL_MS).unref();
+};
@@ -0,0 +1,100 @@
+import { db } from '../db/index.js';
+import { jobStatusHistory, jobStatuses, users } from '../db/schema.js';
+import { eq, asc } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+
+export type StatusChangeSource = 'manual' | 'create' | 'bulk_upload' | 'bulk_edit' | 'import' | 'revert' | 'template';
+
+export interface StatusChange {
+  jobId: number;
+  fromStatusId: number | null;
+  toStatusId: number;
+}
+
+// Lets callers record history inside their own transaction
+type HistoryWriter = Pick<typeof db, 'insert'>;
+
+/**
+ * Record job status transitions. Entries where the status did not change are skipped.
+ * A failure is only logged when writing outside a transaction. Inside one it is rethrown,
+ * since Postgres aborts the transaction and its COMMIT would silently roll back.
+ */
+export const recordStatusChanges = async (
+  changes: StatusChange[],
+  source: StatusChangeSource,
+  userId?: number,
+  userEmail?: string,
+  writer: HistoryWriter = db
+): Promise<void> => {
+  const entries = changes
+    .filter(change => change.fromStatusId !== change.toStatusId)
+    .map(change => ({
+      jobId: change.jobId,
+      fromStatusId: change.fromStatusId,
+      toStatusId: change.toStatusId,
+      source,
+      changedBy: userId || null,
+      changedByEmail: userEmail || null,
+    }));
+
+  if (entries.length === 0) return;
+
+  try {
+    await writer.insert(jobStatusHistory).values(entries);
+  } catch (error) {
+    if (writer !== db) throw error;
+    console.error('Failed to record job status history:', error);
+    // Don't throw error to avoid breaking the main operation
+  }
+};
+
+/**
+ * Record a single job status transition
+ */
+export const recordStatusChange = (
+  jobId: number,
+  fromStatusId: number | null,
+  toStatusId: number,
+  source: StatusChangeSource,
+  userId?: number,
+  userEmail?: string,
+  writer: HistoryWriter = db
+): Promise<void> => recordStatusChanges([{ jobId, fromStatusId, toStatusId }], source, userId, userEmail, writer);
+
+/**
+ * Get a job's status timeline, oldest first
+ */
+export const getJobStatusHistory = async (jobId: number) => {
+  const fromStatus = alias(jobStatuses, 'from_status');
+  const toStatus = alias(jobStatuses, 'to_status');
+
+  return db
+    .select({
+      id: jobStatusHistory.id,
+      jobId: jobStatusHistory.jobId,
+      source: jobStatusHistory.source,
+      changedAt: jobStatusHistory.changedAt,
+      changedBy: jobStatusHistory.changedBy,
+      changedByEmail: jobStatusHistory.changedByEmail,
+      changedByFirstName: users.firstName,
+      changedByLastName: users.lastName,
+      fromStatus: {
+        id: fromStatus.id,
+        name: fromStatus.name,
+        displayName: fromStatus.displayName,
+      },
+      toStatus: {
+        id: toStatus.id,
+        name: toStatus.name,
+        displayName: toStatus.displayName,
+        color: toStatus.color,
+        backgroundColor: toStatus.backgroundColor,
+      },
+    })
+    .from(jobStatusHistory)
+    .leftJoin(fromStatus, eq(jobStatusHistory.fromStatusId, fromStatus.id))
+    .innerJoin(toStatus, eq(jobStatusHistory.toStatusId, toStatus.id))
+    .leftJoin(users, eq(jobStatusHistory.changedBy, users.id))
+    .where(eq(jobStatusHistory.jobId, jobId))
+    .orderBy(asc(jobStatusHistory.changedAt), asc(jobStatusHistory.id));
+};
@@ -0,0 +1,321 @@
+import { db } from '../db/index.js';
+import { jobTemplates, jobTemplateItems, jobStatuses, jobs, projects, type JobTemplate, type JobTemplateItem } from '../db/schema.js';
+import { and, asc, eq, inArray, isNull, ne, sql } from 'drizzle-orm';
+import { parseIsoDate, toIsoDate, type JobDateField } from '../utils/dates.js';
+import { loadScheduleContext, addWorkingDays } from './schedulingService.js';
+import { recordStatusChanges } from './jobStatusHistoryService.js';
+import { loadUnitIdsByName } from './projectLocationService.js';
+import { toLegacyJobStatus } from './jobWorkflowService.js';
+
+/**
+ * Job templates: named job sets that repeat for every unit of a project, such as kitchen,
+ * vanities, laundry and wardrobes for each apartment. Applying a template to a list of units
+ * creates one job per unit per template item, back-scheduled from a target delivery date.
+ *
+ * Each item can be delivered some working days before the target, and can override the
+ * configured lead times for its own nesting, machining and assembly dates.
+ */
+
+// One application creates units × items jobs; keep that to a size one request can insert
+export const MAX_TEMPLATE_JOBS = 2000;
+const MAX_OFFSET_DAYS = 365;
+const DEFAULT_STATUS = 'not-assigned';
+
+export interface JobTemplateItemInput {
+  items: string;
+  type: string | null;
+  statusId: number | null;
+  deliveryOffset: number;
+  nestingOffset: number | null;
+  machiningOffset: number | null;
+  assemblyOffset: number | null;
+}
+
+export interface JobTemplateInput {
+  name: string;
+  description: string | null;
+  items: JobTemplateItemInput[];
+}
+
+export interface JobTemplateWithItems extends JobTemplate {
+  items: JobTemplateItem[];
+}
+
+// A job the template would create
+export interface TemplateJob {
+  unit: string;
+  items: string;
+  type: string | null;
+  statusId: number;
+  nestingDate: string | null;
+  machiningDate: string | null;
+  assemblyDate: string | null;
+  deliveryDate: string;
+}
+
+export class JobTemplateError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'JobTemplateError';
+  }
+}
+
+const readOffset = (value: unknown, label: string, required: boolean): number | null => {
+  if (value === undefined || value === null || value === '') {
+    if (required) return 0;
+    return null;
+  }
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 0 || days > MAX_OFFSET_DAYS) {
+    throw new JobTemplateError(`${label} must be a whole number of working days from 0 to ${MAX_OFFSET_DAYS}`);
+  }
+  return days;
+};
+
+/**
+ * Validate a template body for POST /api/job-templates or PUT /api/job-templates/:id
+ */
+export const parseJobTemplateInput = (body: Record<string, unknown>): JobTemplateInput => {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > 255) {
+    throw new JobTemplateError('name is required and must be at most 255 characters');
+  }
+  if (!Array.isArray(body.items) || body.items.length === 0) {
+    throw new JobTemplateError('A template needs at least one item');
+  }
+
+  const items = body.items.map((raw, index): JobTemplateItemInput => {
+    const item = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const label = `Item ${index + 1}`;
+    const itemsText = typeof item.items === 'string' ? item.items.trim() : '';
+    if (!itemsText || itemsText.length > 255) {
+      throw new JobTemplateError(`${label}: items is required and must be at most 255 characters`);
+    }
+    const type = typeof item.type === 'string' && item.type.trim() ? item.type.trim().slice(0, 255) : null;
+    let statusId: number | null = null;
+    if (item.statusId !== undefined && item.statusId !== null && item.statusId !== '') {
+      statusId = Number(item.statusId);
+      if (!Number.isInteger(statusId)) {
+        throw new JobTemplateError(`${label}: statusId must be a job status id`);
+      }
+    }
+
+    return {
+      items: itemsText,
+      type,
+      statusId,
+      deliveryOffset: readOffset(item.deliveryOffset, `${label}: deliveryOffset`, true)!,
+      nestingOffset: readOffset(item.nestingOffset, `${label}: nestingOffset`, false),
+      machiningOffset: readOffset(item.machiningOffset, `${label}: machiningOffset`, false),
+      assemblyOffset: readOffset(item.assemblyOffset, `${label}: assemblyOffset`, false),
+    };
+  });
+
+  const description = typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null;
+  return { name, description, items };
+};
+
+const assertStatusesExist = async (input: JobTemplateInput) => {
+  const statusIds = [...new Set(input.items.map(item => item.statusId).filter((id): id is number => id !== null))];
+  if (statusIds.length === 0) return;
+  const found = await db.select({ id: jobStatuses.id }).from(jobStatuses).where(inArray(jobStatuses.id, statusIds));
+  const missing = statusIds.filter(id => !found.some(status => status.id === id));
+  if (missing.length > 0) {
+    throw new JobTemplateError(`Unknown job status id ${missing.join(', ')}`);
+  }
+};
+
+const assertNameAvailable = async (name: string, exceptId?: number) => {
+  const [existing] = await db
+    .select({ id: jobTemplates.id })
+    .from(jobTemplates)
+    .where(and(
+      sql`lower(${jobTemplates.name}) = ${name.toLowerCase()}`,
+      exceptId !== undefined ? ne(jobTemplates.id, exceptId) : undefined
+    ))
+    .limit(1);
+  if (existing) {
+    throw new JobTemplateError(`A job template named "${name}" already exists`, 409);
+  }
+};
+
+export const listJobTemplates = async (): Promise<JobTemplateWithItems[]> => {
+  const [templates, items] = await Promise.all([
+    db.select().from(jobTemplates).orderBy(asc(jobTemplates.name)),
+    db.select().from(jobTemplateItems).orderBy(asc(jobTemplateItems.templateId), asc(jobTemplateItems.orderIndex)),
+  ]);
+  return templates.map(template => ({ ...template, items: items.filter(item => item.templateId === template.id) }));
+};
+
+export const getJobTemplate = async (id: number): Promise<JobTemplateWithItems> => {
+  const [template] = await db.select().from(jobTemplates).where(eq(jobTemplates.id, id)).limit(1);
+  if (!template) {
+    throw new JobTemplateError('Job template not found', 404);
+  }
+  const items = await db
+    .select()
+    .from(jobTemplateItems)
+    .where(eq(jobTemplateItems.templateId, id))
+    .orderBy(asc(jobTemplateItems.orderIndex));
+  return { ...template, items };
+};
+
+export const createJobTemplate = async (input: JobTemplateInput, userId?: number): Promise<JobTemplateWithItems> => {
+  await assertNameAvailable(input.name);
+  await assertStatusesExist(input);
+
+  const id = await db.transaction(async (tx) => {
+    const [template] = await tx
+      .insert(jobTemplates)
+      .values({ name: input.name, description: input.description, createdBy: userId ?? null })
+      .returning({ id: jobTemplates.id });
+    await tx
+      .insert(jobTemplateItems)
+      .values(input.items.map((item, index) => ({ ...item, templateId: template.id, orderIndex: index })));
+    return template.id;
+  });
+  return getJobTemplate(id);
+};
+
+// Items are replaced as a whole; jobs already created from the template are not affected
+export const updateJobTemplate = async (id: number, input: JobTemplateInput): Promise<JobTemplateWithItems> => {
+  await getJobTemplate(id);
+  await assertNameAvailable(input.name, id);
+  await assertStatusesExist(input);
+
+  await db.transaction(async (tx) => {
+    await tx
+      .update(jobTemplates)
+      .set({ name: input.name, description: input.description, updatedAt: new Date() })
+      .where(eq(jobTemplates.id, id));
+    await tx.delete(jobTemplateItems).where(eq(jobTemplateItems.templateId, id));
+    await tx
+      .insert(jobTemplateItems)
+      .values(input.items.map((item, index) => ({ ...item, templateId: id, orderIndex: index })));
+  });
+  return getJobTemplate(id);
+};
+
+export const deleteJobTemplate = async (id: number): Promise<void> => {
+  await getJobTemplate(id);
+  await db.delete(jobTemplates).where(eq(jobTemplates.id, id));
+};
+
+/**
+ * Clean up a unit list: trimmed, blanks dropped, repeats removed, order kept
+ */
+export const parseUnits = (value: unknown): string[] => {
+  if (!Array.isArray(value)) {
+    throw new JobTemplateError('units must be an array of unit names');
+  }
+  const units = [...new Set(value.map(unit => String(unit ?? '').trim()).filter(Boolean))];
+  if (units.length === 0) {
+    throw new JobTemplateError('At least one unit is required');
+  }
+  const tooLong = units.find(unit => unit.length > 100);
+  if (tooLong) {
+    throw new JobTemplateError(`Unit "${tooLong.slice(0, 20)}..." is longer than 100 characters`);
+  }
+  return units;
+};
+
+/**
+ * Work out the jobs a template creates for the units, dated back from the target delivery date
+ */
+export const buildTemplateJobs = async (
+  template: JobTemplateWithItems,
+  units: string[],
+  targetDeliveryDate: string
+): Promise<TemplateJob[]> => {
+  const target = parseIsoDate(targetDeliveryDate);
+  if (!target) {
+    throw new JobTemplateError('deliveryDate must be a date in YYYY-MM-DD format');
+  }
+  if (units.length * template.items.length > MAX_TEMPLATE_JOBS) {
+    throw new JobTemplateError(
+      `${units.length} units × ${template.items.length} items is more than ${MAX_TEMPLATE_JOBS} jobs; apply the template in smaller batches`
+    );
+  }
+
+  const [context, statuses] = await Promise.all([
+    loadScheduleContext(),
+    db.select({ id: jobStatuses.id, name: jobStatuses.name }).from(jobStatuses).orderBy(asc(jobStatuses.orderIndex)),
+  ]);
+  const defaultStatusId = (statuses.find(status => status.name === DEFAULT_STATUS) ?? statuses[0])?.id;
+  if (defaultStatusId === undefined) {
+    throw new JobTemplateError('No job statuses are configured', 500);
+  }
+
+  // Dates are the same for every unit, so work them out once per item
+  const datedItems = template.items.map(item => {
+    const delivery = item.deliveryOffset > 0
+      ? addWorkingDays(target, -item.deliveryOffset, context.calendar)
+      : target;
+    const stageDate = (field: Exclude<JobDateField, 'deliveryDate'>, override: number | null) => {
+      const offset = override !== null ? -override : context.offsets[field];
+      return offset === undefined ? null : toIsoDate(addWorkingDays(delivery, offset, context.calendar));
+    };
+    return {
+      item,
+      dates: {
+        nestingDate: stageDate('nestingDate', item.nestingOffset),
+        machiningDate: stageDate('machiningDate', item.machiningOffset),
+        assemblyDate: stageDate('assemblyDate', item.assemblyOffset),
+        deliveryDate: toIsoDate(delivery),
+      },
+    };
+  });
+
+  return units.flatMap(unit => datedItems.map(({ item, dates }) => ({
+    unit,
+    items: item.items,
+    type: item.type,
+    statusId: item.statusId ?? defaultStatusId,
+    ...dates,
+  })));
+};
+
+/**
+ * Create a template's jobs for a project in one transaction and return them
+ */
+export const createTemplateJobs = async (
+  projectId: number,
+  templateJobs: TemplateJob[],
+  userId?: number,
+  userEmail?: string
+) => {
+  const [project] = await db
+    .select({ id: projects.id })
+    .from(projects)
+    .where(and(eq(projects.id, projectId), isNull(projects.deletedAt)))
+    .limit(1);
+  if (!project) {
+    throw new JobTemplateError('Project not found', 404);
+  }
+
+  const statuses = await db.select({ id: jobStatuses.id, name: jobStatuses.name }).from(jobStatuses);
+  const legacyStatuses = new Map(statuses.map(status => [status.id, toLegacyJobStatus(status.name)]));
+  // Units named like one of the project's units are linked to it
+  const projectUnits = await loadUnitIdsByName(projectId);
+
+  return db.transaction(async (tx) => {
+    const created = await tx
+      .insert(jobs)
+      .values(templateJobs.map(job => ({
+        ...job,
+        projectId,
+        unitId: projectUnits.get(job.unit.toLowerCase())?.id ?? null,
+        status: legacyStatuses.get(job.statusId) ?? null,
+      })))
+      .returning();
+
+    await recordStatusChanges(
+      created.map(job => ({ jobId: job.id, fromStatusId: null, toStatusId: job.statusId })),
+      'template',
+      userId,
+      userEmail,
+      tx
+    );
+    return created;
+  });
+};
@@ -0,0 +1,228 @@
+import { db } from '../db/index.js';
+import { jobStatuses, jobStatusEnum, type JobStatus, type JobStatusRequirements } from '../db/schema.js';
+import { asc, eq } from 'drizzle-orm';
+import { includesTransition, onlyTransition, withoutTransition } from '../utils/statusTransitions.js';
+
+/**
+ * The job status workflow, configured per job status:
+ *
+ * - allowedTransitions: the statuses a job may move to from this one; an empty list allows any.
+ * - entryRequirements: fields a job needs filled in to enter this status, and whether moving
+ *   back to it from a later status needs a comment in the same save.
+ *
+ * A job created in a status enters it too, so entry requirements apply to new jobs; transitions
+ * only apply to changes. Audit reverts put a job back exactly as it was and are not checked.
+ */
+
+export const REQUIREMENT_FIELDS = [
+  'nestingDate',
+  'machiningDate',
+  'assemblyDate',
+  'deliveryDate',
+  'unit',
+  'type',
+  'comments',
+] as const;
+
+export type RequirementField = typeof REQUIREMENT_FIELDS[number];
+
+const FIELD_LABELS: Record<RequirementField, string> = {
+  nestingDate: 'a nesting date',
+  machiningDate: 'a machining date',
+  assemblyDate: 'an assembly date',
+  deliveryDate: 'a delivery date',
+  unit: 'a unit',
+  type: 'a type',
+  comments: 'comments',
+};
+
+export class JobWorkflowError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'JobWorkflowError';
+  }
+}
+
+type WorkflowStatus = Pick<JobStatus, 'id' | 'name' | 'displayName' | 'orderIndex' | 'isDefault' | 'allowedTransitions' | 'entryRequirements'>;
+
+export type JobWorkflow = Map<number, WorkflowStatus>;
+
+export interface StatusMove {
+  // null for a job being created
+  fromStatusId: number | null;
+  toStatusId: number;
+  // The job's values as they will be saved
+  job: Partial<Record<RequirementField, unknown>>;
+  // The job's comments before the save, to tell whether the save adds one
+  previousComments?: string | null;
+}
+
+export const loadJobWorkflow = async (): Promise<JobWorkflow> => {
+  const statuses = await db
+    .select({
+      id: jobStatuses.id,
+      name: jobStatuses.name,
+      displayName: jobStatuses.displayName,
+      orderIndex: jobStatuses.orderIndex,
+      isDefault: jobStatuses.isDefault,
+      allowedTransitions: jobStatuses.allowedTransitions,
+      entryRequirements: jobStatuses.entryRequirements,
+    })
+    .from(jobStatuses)
+    .orderBy(asc(jobStatuses.orderIndex));
+  return new Map(statuses.map(status => [status.id, status]));
+};
+
+/**
+ * The status a job write asks for: a status id (a number or digits) or a status name
+ */
+export const resolveJobStatus = (workflow: JobWorkflow, value: unknown): WorkflowStatus => {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+$/.test(value.trim()))) {
+    const status = workflow.get(Number(value));
+    if (!status) {
+      throw new JobWorkflowError(`Job status ${value} not found`);
+    }
+    return status;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const status = [...workflow.values()].find(candidate => candidate.name === value.trim());
+    if (!status) {
+      throw new JobWorkflowError(`Job status "${value}" not found`);
+    }
+    return status;
+  }
+  throw new JobWorkflowError('status must be a job status id or name');
+};
+
+/**
+ * The status for a new job: the one asked for, or the default status when none is given
+ */
+export const resolveNewJobStatus = (workflow: JobWorkflow, value: unknown): WorkflowStatus => {
+  if (value !== undefined && value !== null && value !== '') {
+    return resolveJobStatus(workflow, value);
+  }
+  const statuses = [...workflow.values()];
+  const fallback = statuses.find(status => status.isDefault) ?? statuses[0];
+  if (!fallback) {
+    throw new JobWorkflowError('No job statuses are configured', 500);
+  }
+  return fallback;
+};
+
+/**
+ * The legacy jobs.status value for a status. The column only holds the built-in statuses, so
+ * it's null for any other; every write that sets statusId sets it too, and nothing reads it.
+ */
+export const toLegacyJobStatus = (statusName: string) =>
+  jobStatusEnum.enumValues.find(value => value === statusName) ?? null;
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+/**
+ * Why a status move isn't allowed, or null when it is
+ */
+export const findStatusMoveProblem = (workflow: JobWorkflow, move: StatusMove): string | null => {
+  if (move.fromStatusId === move.toStatusId) return null;
+
+  const target = workflow.get(move.toStatusId);
+  if (!target) {
+    return `Job status ${move.toStatusId} not found`;
+  }
+  const current = move.fromStatusId !== null ? workflow.get(move.fromStatusId) : undefined;
+
+  if (current && current.allowedTransitions.length > 0 && !current.allowedTransitions.includes(target.id)) {
+    return `A job can't move from ${current.displayName} to ${target.displayName}`;
+  }
+
+  const missing = (target.entryRequirements.requiredFields ?? []).filter(field => isBlank(move.job[field]));
+  if (missing.length > 0) {
+    return `${target.displayName} needs ${missing.map(field => FIELD_LABELS[field]).join(', ')}`;
+  }
+
+  const movingBack = current !== undefined && target.orderIndex < current.orderIndex;
+  const commentAdded = !isBlank(move.job.comments) && move.job.comments !== move.previousComments;
+  if (movingBack && target.entryRequirements.commentOnBackward && !commentAdded) {
+    return `Moving a job back from ${current.displayName} to ${target.displayName} needs a comment saying why`;
+  }
+
+  return null;
+};
+
+export const assertStatusMove = (workflow: JobWorkflow, move: StatusMove): void => {
+  const problem = findStatusMoveProblem(workflow, move);
+  if (problem) {
+    throw new JobWorkflowError(problem);
+  }
+};
+
+/**
+ * Validate allowedTransitions and entryRequirements in a job status body. Fields that are not
+ * in the body are left out of the result, so an update keeps them.
+ */
+export const parseJobStatusWorkflowInput = (
+  body: Record<string, unknown>,
+  statusIds: number[],
+  ownId?: number
+): { allowedTransitions?: number[]; entryRequirements?: JobStatusRequirements } => {
+  const result: { allowedTransitions?: number[]; entryRequirements?: JobStatusRequirements } = {};
+
+  if (body.allowedTransitions !== undefined) {
+    const transitions = body.allowedTransitions;
+    if (!Array.isArray(transitions) || !transitions.every(id => Number.isInteger(id))) {
+      throw new JobWorkflowError('allowedTransitions must be an array of job status ids');
+    }
+    const unknown = transitions.filter(id => !statusIds.includes(id));
+    if (unknown.length > 0) {
+      throw new JobWorkflowError(`Unknown job status ${unknown.join(', ')} in allowedTransitions`);
+    }
+    result.allowedTransitions = [...new Set(transitions as number[])].filter(id => id !== ownId);
+  }
+
+  if (body.entryRequirements !== undefined) {
+    const requirements = body.entryRequirements;
+    if (!requirements || typeof requirements !== 'object' || Array.isArray(requirements)) {
+      throw new JobWorkflowError('entryRequirements must be an object');
+    }
+    const { requiredFields = [], commentOnBackward = false } = requirements as Record<string, unknown>;
+    if (!Array.isArray(requiredFields) || !requiredFields.every(field => (REQUIREMENT_FIELDS as readonly unknown[]).includes(field))) {
+      throw new JobWorkflowError(`entryRequirements.requiredFields may only contain ${REQUIREMENT_FIELDS.join(', ')}`);
+    }
+    if (typeof commentOnBackward !== 'boolean') {
+      throw new JobWorkflowError('entryRequirements.commentOnBackward must be true or false');
+    }
+    result.entryRequirements = {
+      requiredFields: [...new Set(requiredFields as RequirementField[])],
+      commentOnBackward,
+    };
+  }
+
+  return result;
+};
+
+/**
+ * Delete a job status and drop it from the other statuses' allowed transitions. Refused while
+ * a status can move nowhere else, since an emptied list would allow any move. Returns the
+ * deleted status, or null when there was none.
+ */
+export const deleteJobStatus = async (statusId: number): Promise<JobStatus | null> => {
+  const restricted = await db
+    .select({ displayName: jobStatuses.displayName })
+    .from(jobStatuses)
+    .where(onlyTransition(jobStatuses.allowedTransitions, statusId));
+  if (restricted.length > 0) {
+    throw new JobWorkflowError(
+      `${restricted.map(status => status.displayName).join(', ')} can only move to this status; change their allowed transitions first`,
+      409
+    );
+  }
+
+  return db.transaction(async (tx) => {
+    const [deleted] = await tx.delete(jobStatuses).where(eq(jobStatuses.id, statusId)).returning();
+    if (!deleted) return null;
+    await tx
+      .update(jobStatuses)
+      .set({ allowedTransitions: withoutTransition(jobStatuses.allowedTransitions, statusId) })
+      .where(includesTransition(jobStatuses.allowedTransitions, statusId));
+    return deleted;
+  });
+};
@@ -0,0 +1,126 @@
+import { sql, and, eq, isNull } from 'drizzle-orm';
+import { jobs, projects, clients, jobStatuses } from '../db/schema.js';
+import type { ListQueryConfig } from '../utils/listQuery.js';
+
+/**
+ * Filter and sort definitions for the list routes, shared with table exports.
+ * Keys match the DataTable column and filter keys on the matching page.
+ */
+
+const jobStageDates = [jobs.nestingDate, jobs.machiningDate, jobs.assemblyDate, jobs.deliveryDate];
+
+// Jobs in a final status count as completed
+const jobNotCompleted = sql`not coalesce(${jobStatuses.isFinal}, false)`;
+
+// Requires jobs left-joined to projects, clients and job_statuses
+export const JOB_LIST_CONFIG: ListQueryConfig = {
+  filters: {
+    search: {
+      type: 'text',
+      columns: [jobs.id, jobs.unit, jobs.type, jobs.items, jobs.comments, clients.name, projects.name],
+    },
+    status: { type: 'multiSelect', column: jobStatuses.name },
+    client: { type: 'multiSelect', column: clients.name },
+    project: { type: 'multiSelect', column: projects.name },
+    projectId: { type: 'select', column: jobs.projectId, map: value => (/^\d+$/.test(value) ? Number(value) : undefined) },
+    date: { type: 'dateRange', columns: jobStageDates, match: 'all' },
+    hideCompleted: { type: 'toggle', condition: jobNotCompleted },
+  },
+  sortFields: {
+    id: jobs.id,
+    unit: jobs.unit,
+    type: jobs.type,
+    items: jobs.items,
+    clientName: clients.name,
+    projectName: projects.name,
+    status: jobStatuses.orderIndex,
+    nestingDate: jobs.nestingDate,
+    machiningDate: jobs.machiningDate,
+    assemblyDate: jobs.assemblyDate,
+    deliveryDate: jobs.deliveryDate,
+    nestingActualDate: jobs.nestingActualDate,
+    machiningActualDate: jobs.machiningActualDate,
+    assemblyActualDate: jobs.assemblyActualDate,
+    deliveryActualDate: jobs.deliveryActualDate,
+    comments: jobs.comments,
+    createdAt: jobs.createdAt,
+  },
+  defaultSort: [{ field: 'createdAt', direction: 'desc' }],
+  tieBreaker: jobs.id,
+  deletedColumn: jobs.deletedAt,
+};
+
+// The jobs tab of a project: searches the status name and matches any stage date in range
+export const PROJECT_JOB_LIST_CONFIG: ListQueryConfig = {
+  ...JOB_LIST_CONFIG,
+  filters: {
+    search: {
+      type: 'text',
+      columns: [jobs.id, jobs.unit, jobs.type, jobs.items, jobs.comments, jobStatuses.displayName, jobStatuses.name],
+    },
+    date: { type: 'dateRange', columns: jobStageDates, match: 'any' },
+    hideCompleted: { type: 'toggle', condition: jobNotCompleted },
+  },
+  defaultSort: [{ field: 'id', direction: 'asc' }],
+};
+
+// Join conditions that leave out rows in the recycle bin, for aggregates over the joined rows
+export const projectJobsJoin = and(eq(jobs.projectId, projects.id), isNull(jobs.deletedAt));
+export const clientProjectsJoin = and(eq(clients.id, projects.clientId), isNull(projects.deletedAt));
+
+// Aggregates over the jobs and their statuses left-joined to each project (the query groups by project)
+export const projectJobCount = sql<number>`count(${jobs.id})::int`;
+export const projectCompletedJobCount = sql<number>`(count(${jobs.id}) filter (where ${jobStatuses.isFinal}))::int`;
+export const projectProgress = sql<number>`coalesce(round(100.0 * ${projectCompletedJobCount} / nullif(${projectJobCount}, 0)), 0)::int`;
+
+// Requires projects left-joined to clients; progress and job counts also need projectJobsJoin and job_statuses
+export const PROJECT_LIST_CONFIG: ListQueryConfig = {
+  filters: {
+    search: {
+      type: 'text',
+      columns: [projects.name, projects.description, clients.name, clients.company],
+    },
+    status: { type: 'multiSelect', column: projects.status },
+    client: { type: 'multiSelect', column: clients.name },
+    date: { type: 'dateRange', columns: [projects.createdAt], match: 'all' },
+  },
+  sortFields: {
+    id: projects.id,
+    name: projects.name,
+    client: clients.name,
+    status: projects.status,
+    progress: projectProgress,
+    jobCount: projectJobCount,
+    createdAt: projects.createdAt,
+  },
+  defaultSort: [{ field: 'createdAt', direction: 'desc' }],
+  tieBreaker: projects.id,
+  deletedColumn: projects.deletedAt,
+};
+
+export const clientProjectCount = sql<number>`count(${projects.id})::int`;
+
+// Requires clients left-joined to projects (clientProjectsJoin) and grouped by client
+export const CLIENT_LIST_CONFIG: ListQueryConfig = {
+  filters: {
+    search: {
+      type: 'text',
+      columns: [clients.name, clients.company, clients.contactPerson, clients.email],
+    },
+    status: {
+      type: 'select',
+      column: clients.isActive,
+      map: value => (value === 'Active' ? true : value === 'Inactive' ? false : undefined),
+    },
+    hideInactive: { type: 'toggle', condition: sql`${clients.isActive} = true` },
+  },
+  sortFields: {
+    name: clients.name,
+    contactPerson: clients.contactPerson,
+    status: sql`case when ${clients.isActive} then 'Active' else 'Inactive' end`,
+    projects: clientProjectCount,
+    createdAt: clients.createdAt,
+  },
+  defaultSort: [{ field: 'createdAt', direction: 'desc' }],
+  tieBreaker: clients.id,
+};
@@ -0,0 +1,73 @@
+import type { Response } from 'express';
+
+export type LiveEntity = 'job' | 'project';
+
+export type LiveAction = 'created' | 'updated' | 'deleted' | 'imported';
+
+export interface LiveChange {
+  entity: LiveEntity;
+  action: LiveAction;
+  ids: number[];
+  // Projects whose jobs changed, so project screens can ignore unrelated events
+  projectIds?: Array<number | null>;
+  // True when at least one job moved to a different status
+  statusChanged?: boolean;
+  userId?: number;
+}
+
+// Comment lines keep proxies from closing idle connections
+const HEARTBEAT_MS = 25_000;
+
+const subscribers = new Set<Response>();
+let nextEventId = 1;
+
+const uniqueIds = (ids: Array<number | null | undefined>) =>
+  [...new Set(ids.filter((id): id is number => typeof id === 'number'))];
+
+/**
+ * Hold a response open as a Server-Sent Events stream until the client disconnects.
+ * Subscribers live in this process, so every API instance pushes only its own writes.
+ */
+export const subscribe = (res: Response): void => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    // Stop nginx-style proxies from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.write('retry: 5000\n\n');
+  subscribers.add(res);
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    subscribers.delete(res);
+  });
+};
+
+/**
+ * Push a change to every open stream. Call after the write has been committed.
+ */
+export const publishChange = (change: LiveChange): void => {
+  const ids = uniqueIds(change.ids);
+  if (ids.length === 0 || subscribers.size === 0) return;
+
+  const payload = JSON.stringify({
+    ...change,
+    ids,
+    projectIds: change.projectIds ? uniqueIds(change.projectIds) : undefined,
+    at: new Date().toISOString(),
+  });
+  const message = `id: ${nextEventId++}\nevent: change\ndata: ${payload}\n\n`;
+
+  for (const res of subscribers) {
+    try {
+      res.write(message);
+    } catch (error) {
+      console.error('Error sending live update:', error);
+      subscribers.delete(res);
+    }
+  }
+};
@@ -0,0 +1,669 @@
+import { db } from '../db/index.js';
+import {
+  users,
+  notificationPreferences,
+  notificationOutbox,
+  notifications,
+  jobs,
+  pinnedProjects,
+  projects,
+  clients,
+  projectStatuses,
+  jobStatuses,
+  type Job,
+} from '../db/schema.js';
+import { and, asc, desc, eq, inArray, isNotNull, isNull, lt, lte, sql } from 'drizzle-orm';
+import { getUserWithPermissions } from '../middleware/permissions.js';
+import { sendEmail } from './emailService.js';
+import {
+  renderNotification,
+  getNotificationLink,
+  type NotificationEvent,
+  type NotificationPayloads,
+} from './notificationTemplates.js';
+
+/**
+ * Notifications. An event is rendered with its template and delivered on each channel the
+ * user wants: emails are queued in the outbox, which a worker sends through the configured
+ * transport and retries with backoff; in-app notifications are listed under the bell in the
+ * top bar. Project and job events go to the users who pinned the project, never to the user
+ * who made the change.
+ */
+
+export type { NotificationEvent } from './notificationTemplates.js';
+
+export type NotificationChannel = 'email' | 'inApp';
+
+const NOTIFICATION_CHANNELS: NotificationChannel[] = ['email', 'inApp'];
+
+interface NotificationEventConfig {
+  label: string;
+  description: string;
+  // Defaults when the user hasn't chosen
+  email: boolean;
+  inApp: boolean;
+  permission: string; // Needed to receive it
+}
+
+export const NOTIFICATION_EVENTS: Record<NotificationEvent, NotificationEventConfig> = {
+  project_status_changed: {
+    label: 'Project status changes',
+    description: 'A project you pinned changes status',
+    email: true,
+    inApp: true,
+    permission: 'view_projects',
+  },
+  job_status_changed: {
+    label: 'Job status changes',
+    description: 'A job on a project you pinned changes status',
+    email: false,
+    inApp: false,
+    permission: 'view_jobs',
+  },
+  job_status_moved_back: {
+    label: 'Job status moved back',
+    description: 'A job on a project you pinned goes back to an earlier status',
+    email: false,
+    inApp: true,
+    permission: 'view_jobs',
+  },
+  job_added: {
+    label: 'Jobs added',
+    description: 'Jobs are added to a project you pinned',
+    email: false,
+    inApp: true,
+    permission: 'view_jobs',
+  },
+  delivery_date_changed: {
+    label: 'Delivery date changes',
+    description: 'A job on a project you pinned gets a new delivery date',
+    email: true,
+    inApp: true,
+    permission: 'view_jobs',
+  },
+  overdue_digest: {
+    label: 'Daily overdue jobs digest',
+    description: 'Each working-day morning, the jobs with overdue stages',
+    email: false,
+    inApp: false,
+    permission: 'view_jobs',
+  },
+};
+
+const NOTIFICATION_EVENT_NAMES = Object.keys(NOTIFICATION_EVENTS) as NotificationEvent[];
+
+export interface NotificationPreferenceSetting {
+  event: NotificationEvent;
+  label: string;
+  description: string;
+  email: boolean;
+  inApp: boolean;
+}
+
+export type NotificationPreferenceUpdates = Partial<Record<NotificationEvent, Partial<Record<NotificationChannel, boolean>>>>;
+
+export class NotificationError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'NotificationError';
+  }
+}
+
+const OUTBOX_INTERVAL_MS = 30 * 1000;
+const OUTBOX_BATCH_SIZE = 50;
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = 60 * 1000; // 1, 2, 4, 8 then 16 minutes between attempts
+const SEND_LEASE_MS = 5 * 60 * 1000; // A claimed email is retried after this if the send never finished
+const SENT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const READ_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
+/**
+ * Every event with the user's choice, or its default
+ */
+export const getNotificationPreferences = async (userId: number): Promise<NotificationPreferenceSetting[]> => {
+  const saved = await db
+    .select({ event: notificationPreferences.event, email: notificationPreferences.email, inApp: notificationPreferences.inApp })
+    .from(notificationPreferences)
+    .where(eq(notificationPreferences.userId, userId));
+
+  return NOTIFICATION_EVENT_NAMES.map(event => {
+    const { label, description, email, inApp } = NOTIFICATION_EVENTS[event];
+    const choice = saved.find(row => row.event === event);
+    return {
+      event,
+      label,
+      description,
+      email: choice?.email ?? email,
+      inApp: choice?.inApp ?? inApp,
+    };
+  });
+};
+
+/**
+ * Validate a PUT /api/notifications/preferences body: { [event]: { email?: boolean, inApp?: boolean } }
+ */
+export const parseNotificationPreferencesInput = (body: unknown): NotificationPreferenceUpdates => {
+  if (!body || typeof body !== 'object' || Array.isArray(body) || Object.keys(body).length === 0) {
+    throw new NotificationError(`Send at least one of: ${NOTIFICATION_EVENT_NAMES.join(', ')}`);
+  }
+
+  const updates: NotificationPreferenceUpdates = {};
+  for (const [event, value] of Object.entries(body)) {
+    if (!NOTIFICATION_EVENT_NAMES.includes(event as NotificationEvent)) {
+      throw new NotificationError(`Unknown notification "${event}"`);
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new NotificationError(`${event} must be an object with email and/or inApp`);
+    }
+
+    const channels: Partial<Record<NotificationChannel, boolean>> = {};
+    for (const channel of NOTIFICATION_CHANNELS) {
+      const choice = (value as Record<string, unknown>)[channel];
+      if (choice === undefined) continue;
+      if (typeof choice !== 'boolean') {
+        throw new NotificationError(`${event}.${channel} must be true or false`);
+      }
+      channels[channel] = choice;
+    }
+    if (Object.keys(channels).length === 0) {
+      throw new NotificationError(`${event} must set email and/or inApp`);
+    }
+    updates[event as NotificationEvent] = channels;
+  }
+  return updates;
+};
+
+export const updateNotificationPreferences = async (
+  userId: number,
+  updates: NotificationPreferenceUpdates
+): Promise<NotificationPreferenceSetting[]> => {
+  for (const [event, channels] of Object.entries(updates) as Array<[NotificationEvent, Partial<Record<NotificationChannel, boolean>>]>) {
+    await db
+      .insert(notificationPreferences)
+      .values({ userId, event, email: channels.email ?? null, inApp: channels.inApp ?? null })
+      .onConflictDoUpdate({
+        target: [notificationPreferences.userId, notificationPreferences.event],
+        set: { ...channels, updatedAt: new Date() },
+      });
+  }
+  return getNotificationPreferences(userId);
+};
+
+/**
+ * Active users, from the given ids or everyone, who want the event on some channel and may see it
+ */
+const getRecipients = async (event: NotificationEvent, userIds: number[] | null, excludeUserIds: number[]) => {
+  if (userIds && userIds.length === 0) return [];
+
+  const candidates = await db
+    .select({
+      id: users.id,
+      email: users.email,
+      emailChoice: notificationPreferences.email,
+      inAppChoice: notificationPreferences.inApp,
+    })
+    .from(users)
+    .leftJoin(notificationPreferences, and(
+      eq(notificationPreferences.userId, users.id),
+      eq(notificationPreferences.event, event)
+    ))
+    .where(and(
+      userIds ? inArray(users.id, userIds) : undefined,
+      sql`coalesce(${users.isActive}, true) = true`,
+      sql`coalesce(${users.isBlocked}, false) = false`
+    ));
+
+  const defaults = NOTIFICATION_EVENTS[event];
+  const recipients: { id: number; email: string; channels: Record<NotificationChannel, boolean> }[] = [];
+  for (const candidate of candidates) {
+    if (excludeUserIds.includes(candidate.id)) continue;
+    const channels = {
+      email: candidate.emailChoice ?? defaults.email,
+      inApp: candidate.inAppChoice ?? defaults.inApp,
+    };
+    if (!channels.email && !channels.inApp) continue;
+
+    const user = await getUserWithPermissions(candidate.id);
+    if (user && (user.isSuperAdmin || user.permissions.some(granted => granted.name === defaults.permission))) {
+      recipients.push({ id: candidate.id, email: candidate.email, channels });
+    }
+  }
+  return recipients;
+};
+
+interface NotifyOptions {
+  userIds?: number[]; // Only these users; everyone when not given
+  excludeUserIds?: number[]; // The user who made the change, or users already told
+}
+
+/**
+ * Deliver an event to everyone who wants it: queue its email and/or add it to their in-app
+ * notifications. Returns the ids of the users reached.
+ */
+export const notify = async <E extends NotificationEvent>(
+  event: E,
+  payload: NotificationPayloads[E],
+  options: NotifyOptions = {}
+): Promise<number[]> => {
+  const recipients = await getRecipients(event, options.userIds ?? null, options.excludeUserIds ?? []);
+  if (recipients.length === 0) return [];
+
+  const message = renderNotification(event, payload);
+  const emailRecipients = recipients.filter(recipient => recipient.channels.email);
+  const inAppRecipients = recipients.filter(recipient => recipient.channels.inApp);
+
+  if (inAppRecipients.length > 0) {
+    const link = getNotificationLink(event, payload);
+    await db.insert(notifications).values(inAppRecipients.map(recipient => ({
+      userId: recipient.id,
+      event,
+      title: message.subject,
+      body: message.summary,
+      ...link,
+    })));
+  }
+
+  if (emailRecipients.length > 0) {
+    await db.insert(notificationOutbox).values(emailRecipients.map(recipient => ({
+      event,
+      userId: recipient.id,
+      recipient: recipient.email,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+    })));
+
+    // Send now rather than waiting for the next poll
+    processOutbox().catch(error => console.error('Error sending notifications:', error));
+  }
+  return recipients.map(recipient => recipient.id);
+};
+
+const getPinnedUserIds = async (projectIds: number[]): Promise<Map<number, number[]>> => {
+  const pinnedBy = new Map<number, number[]>();
+  if (projectIds.length === 0) return pinnedBy;
+
+  const rows = await db
+    .select({ projectId: pinnedProjects.projectId, userId: pinnedProjects.userId })
+    .from(pinnedProjects)
+    .where(inArray(pinnedProjects.projectId, projectIds));
+
+  for (const row of rows) {
+    if (row.projectId === null || row.userId === null) continue;
+    pinnedBy.set(row.projectId, [...(pinnedBy.get(row.projectId) ?? []), row.userId]);
+  }
+  return pinnedBy;
+};
+
+const loadProjectRefs = async (projectIds: number[]) => {
+  if (projectIds.length === 0) return new Map<number, { projectName: string; clientName: string | null }>();
+  const rows = await db
+    .select({ id: projects.id, projectName: projects.name, clientName: clients.name })
+    .from(projects)
+    .leftJoin(clients, eq(projects.clientId, clients.id))
+    .where(and(inArray(projects.id, projectIds), isNull(projects.deletedAt)));
+  return new Map(rows.map(row => [row.id, { projectName: row.projectName, clientName: row.clientName }]));
+};
+
+const getUserName = async (userId?: number): Promise<string | null> => {
+  if (!userId) return null;
+  const [user] = await db
+    .select({ firstName: users.firstName, lastName: users.lastName, username: users.username, email: users.email })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  if (!user) return null;
+  return `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.username || user.email;
+};
+
+/**
+ * Tell the users who pinned each project that its status changed. Status names, as stored
+ * on projects. Failures are logged; a notification never fails the change it reports.
+ */
+export const notifyProjectStatusChanges = async (
+  changes: { projectId: number; fromStatus: string | null; toStatus: string }[],
+  changedByUserId?: number
+): Promise<void> => {
+  try {
+    const moved = changes.filter(change => change.fromStatus !== change.toStatus);
+    if (moved.length === 0) return;
+
+    const projectIds = moved.map(change => change.projectId);
+    const pinnedBy = await getPinnedUserIds(projectIds);
+    if (pinnedBy.size === 0) return;
+
+    const [refs, statuses, changedBy] = await Promise.all([
+      loadProjectRefs(projectIds),
+      db.select({ name: projectStatuses.name, displayName: projectStatuses.displayName }).from(projectStatuses),
+      getUserName(changedByUserId),
+    ]);
+    const displayName = (name: string | null) =>
+      name === null ? null : statuses.find(status => status.name === name)?.displayName ?? name;
+
+    for (const change of moved) {
+      const ref = refs.get(change.projectId);
+      const userIds = pinnedBy.get(change.projectId);
+      if (!ref || !userIds) continue;
+
+      await notify('project_status_changed', {
+        projectId: change.projectId,
+        ...ref,
+        fromStatus: displayName(change.fromStatus),
+        toStatus: displayName(change.toStatus)!,
+        changedBy,
+      }, { userIds, excludeUserIds: changedByUserId ? [changedByUserId] : [] });
+    }
+  } catch (error) {
+    console.error('Error queueing project status notifications:', error);
+  }
+};
+
+export type JobChangeFields = Pick<Job, 'id' | 'projectId' | 'unit' | 'items' | 'statusId' | 'deliveryDate'>;
+
+const describeJob = (job: Pick<Job, 'unit' | 'items'>) => job.unit ? `${job.unit} - ${job.items}` : job.items;
+
+/**
+ * Tell the users who pinned a job's project about status and delivery date changes. A move to
+ * an earlier status is its own event; users told about it don't also get the plain status
+ * change. Pass each job before and after the save. Failures are logged, as for project status
+ * changes.
+ */
+export const notifyJobChanges = async (
+  changes: { oldJob: JobChangeFields; updatedJob: JobChangeFields }[],
+  changedByUserId?: number
+): Promise<void> => {
+  try {
+    const relevant = changes.filter(({ oldJob, updatedJob }) =>
+      updatedJob.projectId !== null &&
+      (oldJob.statusId !== updatedJob.statusId || oldJob.deliveryDate !== updatedJob.deliveryDate)
+    );
+    if (relevant.length === 0) return;
+
+    const projectIds = [...new Set(relevant.map(({ updatedJob }) => updatedJob.projectId!))];
+    const pinnedBy = await getPinnedUserIds(projectIds);
+    if (pinnedBy.size === 0) return;
+
+    const [refs, statuses, changedBy] = await Promise.all([
+      loadProjectRefs(projectIds),
+      db.select({ id: jobStatuses.id, displayName: jobStatuses.displayName, orderIndex: jobStatuses.orderIndex }).from(jobStatuses),
+      getUserName(changedByUserId),
+    ]);
+    const findStatus = (id: number | null) => (id === null ? undefined : statuses.find(status => status.id === id));
+    const displayName = (id: number | null) => findStatus(id)?.displayName ?? null;
+
+    for (const { oldJob, updatedJob } of relevant) {
+      const ref = refs.get(updatedJob.projectId!);
+      const userIds = pinnedBy.get(updatedJob.projectId!);
+      if (!ref || !userIds) continue;
+
+      const jobRef = {
+        projectId: updatedJob.projectId!,
+        ...ref,
+        jobId: updatedJob.id,
+        job: describeJob(updatedJob),
+      };
+      const excludeUserIds = changedByUserId ? [changedByUserId] : [];
+      const options = { userIds, excludeUserIds };
+
+      const toStatus = displayName(updatedJob.statusId);
+      if (oldJob.statusId !== updatedJob.statusId && toStatus) {
+        const statusChange = { ...jobRef, fromStatus: displayName(oldJob.statusId), toStatus, changedBy };
+        const fromOrder = findStatus(oldJob.statusId)?.orderIndex;
+        const toOrder = findStatus(updatedJob.statusId)?.orderIndex;
+        const movedBack = fromOrder !== undefined && toOrder !== undefined && toOrder < fromOrder;
+
+        const told = movedBack ? await notify('job_status_moved_back', statusChange, options) : [];
+        await notify('job_status_changed', statusChange, { userIds, excludeUserIds: [...excludeUserIds, ...told] });
+      }
+      if (oldJob.deliveryDate !== updatedJob.deliveryDate) {
+        await notify('delivery_date_changed', {
+          ...jobRef,
+          fromDate: oldJob.deliveryDate,
+          toDate: updatedJob.deliveryDate,
+          changedBy,
+        }, options);
+      }
+    }
+  } catch (error) {
+    console.error('Error queueing job notifications:', error);
+  }
+};
+
+/**
+ * Tell the users who pinned a project that jobs were added to it, one notification per
+ * project. Failures are logged, as for other changes.
+ */
+export const notifyJobsAdded = async (
+  addedJobs: Pick<Job, 'id' | 'projectId' | 'unit' | 'items'>[],
+  changedByUserId?: number
+): Promise<void> => {
+  try {
+    const byProject = new Map<number, typeof addedJobs>();
+    for (const job of addedJobs) {
+      if (job.projectId === null) continue;
+      byProject.set(job.projectId, [...(byProject.get(job.projectId) ?? []), job]);
+    }
+    if (byProject.size === 0) return;
+
+    const pinnedBy = await getPinnedUserIds([...byProject.keys()]);
+    if (pinnedBy.size === 0) return;
+
+    const [refs, changedBy] = await Promise.all([
+      loadProjectRefs([...pinnedBy.keys()]),
+      getUserName(changedByUserId),
+    ]);
+
+    for (const [projectId, userIds] of pinnedBy) {
+      const ref = refs.get(projectId);
+      if (!ref) continue;
+      await notify('job_added', {
+        projectId,
+        ...ref,
+        jobs: byProject.get(projectId)!.map(job => ({ jobId: job.id, job: describeJob(job) })),
+        changedBy,
+      }, { userIds, excludeUserIds: changedByUserId ? [changedByUserId] : [] });
+    }
+  } catch (error) {
+    console.error('Error queueing job added notifications:', error);
+  }
+};
+
+export interface InAppNotification {
+  id: number;
+  event: string;
+  title: string;
+  body: string | null;
+  projectId: number | null;
+  jobId: number | null;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+// A user's notifications, leaving out those about deleted jobs and projects. Needs
+// notifications left-joined to projects and jobs.
+const visibleNotifications = (userId: number) =>
+  and(eq(notifications.userId, userId), isNull(projects.deletedAt), isNull(jobs.deletedAt));
+
+const countUnread = async (userId: number): Promise<number> => {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(notifications)
+    .leftJoin(projects, eq(notifications.projectId, projects.id))
+    .leftJoin(jobs, eq(notifications.jobId, jobs.id))
+    .where(and(visibleNotifications(userId), isNull(notifications.readAt)));
+  return row?.count ?? 0;
+};
+
+/**
+ * A user's newest in-app notifications and how many are unread. Notifications about deleted
+ * jobs and projects are left out.
+ */
+export const listNotifications = async (
+  userId: number,
+  options: { unreadOnly?: boolean; limit?: number } = {}
+): Promise<{ unreadCount: number; notifications: InAppNotification[] }> => {
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+
+  const rows = await db
+    .select({
+      id: notifications.id,
+      event: notifications.event,
+      title: notifications.title,
+      body: notifications.body,
+      projectId: notifications.projectId,
+      jobId: notifications.jobId,
+      readAt: notifications.readAt,
+      createdAt: notifications.createdAt,
+    })
+    .from(notifications)
+    .leftJoin(projects, eq(notifications.projectId, projects.id))
+    .leftJoin(jobs, eq(notifications.jobId, jobs.id))
+    .where(and(
+      visibleNotifications(userId),
+      options.unreadOnly ? isNull(notifications.readAt) : undefined
+    ))
+    .orderBy(desc(notifications.createdAt), desc(notifications.id))
+    .limit(limit);
+
+  return { unreadCount: await countUnread(userId), notifications: rows };
+};
+
+/**
+ * Validate a PATCH /api/notifications body: { ids: number[] } or { all: true }, with an
+ * optional read (default true)
+ */
+export const parseNotificationsPatch = (body: unknown): { ids: number[] | null; read: boolean } => {
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const read = input.read === undefined ? true : input.read;
+  if (typeof read !== 'boolean') {
+    throw new NotificationError('read must be true or false');
+  }
+  if (input.all === true) {
+    return { ids: null, read };
+  }
+  if (!Array.isArray(input.ids) || input.ids.length === 0 || !input.ids.every(id => Number.isInteger(id) && id > 0)) {
+    throw new NotificationError('Send ids (notification ids) or all: true');
+  }
+  return { ids: [...new Set(input.ids as number[])], read };
+};
+
+/**
+ * Mark some or all of a user's notifications read or unread. Other users' ids are ignored.
+ */
+export const markNotifications = async (
+  userId: number,
+  patch: { ids: number[] | null; read: boolean }
+): Promise<{ updated: number; unreadCount: number }> => {
+  const updated = await db
+    .update(notifications)
+    .set({ readAt: patch.read ? new Date() : null })
+    .where(and(
+      eq(notifications.userId, userId),
+      patch.ids ? inArray(notifications.id, patch.ids) : undefined,
+      patch.read ? isNull(notifications.readAt) : isNotNull(notifications.readAt)
+    ))
+    .returning({ id: notifications.id });
+
+  return { updated: updated.length, unreadCount: await countUnread(userId) };
+};
+
+/**
+ * Wait before the next attempt, doubling each time
+ */
+export const getRetryDelayMs = (attempts: number): number => RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0);
+
+let processing = false;
+
+/**
+ * Send the outbox emails that are due. Each is claimed before sending so two servers, or a
+ * poll overlapping a send, can't send it twice. A failed send is retried with backoff until
+ * MAX_ATTEMPTS, then marked failed.
+ */
+export const processOutbox = async (): Promise<{ sent: number; failed: number }> => {
+  const result = { sent: 0, failed: 0 };
+  if (processing) return result;
+  processing = true;
+
+  try {
+    const due = await db
+      .select()
+      .from(notificationOutbox)
+      .where(and(eq(notificationOutbox.status, 'pending'), lte(notificationOutbox.nextAttemptAt, new Date())))
+      .orderBy(asc(notificationOutbox.nextAttemptAt), asc(notificationOutbox.id))
+      .limit(OUTBOX_BATCH_SIZE);
+
+    for (const entry of due) {
+      const attempts = entry.attempts + 1;
+      const [claimed] = await db
+        .update(notificationOutbox)
+        .set({ attempts, nextAttemptAt: new Date(Date.now() + SEND_LEASE_MS) })
+        .where(and(
+          eq(notificationOutbox.id, entry.id),
+          eq(notificationOutbox.status, 'pending'),
+          eq(notificationOutbox.attempts, entry.attempts)
+        ))
+        .returning({ id: notificationOutbox.id });
+      if (!claimed) continue;
+
+      try {
+        await sendEmail({
+          to: entry.recipient,
+          subject: entry.subject,
+          html: entry.html,
+          text: entry.text ?? undefined,
+        });
+        await db
+          .update(notificationOutbox)
+          .set({ status: 'sent', sentAt: new Date(), lastError: null })
+          .where(eq(notificationOutbox.id, entry.id));
+        result.sent++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const giveUp = attempts >= MAX_ATTEMPTS;
+        await db
+          .update(notificationOutbox)
+          .set({
+            status: giveUp ? 'failed' : 'pending',
+            lastError: message,
+            nextAttemptAt: new Date(Date.now() + getRetryDelayMs(attempts)),
+          })
+          .where(eq(notificationOutbox.id, entry.id));
+        if (giveUp) result.failed++;
+        console.error(`Error sending ${entry.event} email to ${entry.recipient} (attempt ${attempts} of ${MAX_ATTEMPTS}):`, message);
+      }
+    }
+  } finally {
+    processing = false;
+  }
+  return result;
+};
+
+/**
+ * Poll the outbox, and drop sent emails after 30 days and read notifications after 90
+ */
+export const startNotificationOutbox = (): void => {
+  const run = async () => {
+    try {
+      const { failed } = await processOutbox();
+      if (failed > 0) {
+        console.error(`Notification outbox: gave up on ${failed} email${failed === 1 ? '' : 's'}`);
+      }
+      await db
+        .delete(notificationOutbox)
+        .where(and(
+          eq(notificationOutbox.status, 'sent'),
+          lt(notificationOutbox.sentAt, new Date(Date.now() - SENT_RETENTION_MS))
+        ));
+      await db
+        .delete(notifications)
+        .where(lt(notifications.readAt, new Date(Date.now() - READ_RETENTION_MS)));
+    } catch (error) {
+      console.error('Error processing notification outbox:', error);
+    }
+  };
+
+  run();
+  setInterval(run, OUTBOX_INTERVAL_MS).unref();
+};
@@ -0,0 +1,266 @@
+import { formatDisplayDate } from '../utils/dates.js';
+import type { JobException, JobExceptions } from './jobExceptionsService.js';
+import type { ProductionStage } from './stageActualsService.js';
+
+/**
+ * Templates, one per notification event. Each renders the event's payload into an email
+ * (subject, HTML and plain text in the shared J11 layout) and a one-line summary for the
+ * in-app list, which uses the subject as its title.
+ */
+
+export interface RenderedNotification {
+  subject: string;
+  html: string;
+  text: string;
+  summary: string;
+}
+
+// The page an in-app notification opens: JobDetails when there's a job, else ProjectDetails
+export interface NotificationLink {
+  projectId: number | null;
+  jobId: number | null;
+}
+
+interface ProjectRef {
+  projectId: number;
+  projectName: string;
+  clientName: string | null;
+}
+
+interface JobRef extends ProjectRef {
+  jobId: number;
+  job: string; // Unit and items, e.g. "L2-01 - Kitchen"
+}
+
+export interface NotificationPayloads {
+  project_status_changed: ProjectRef & { fromStatus: string | null; toStatus: string; changedBy: string | null };
+  job_status_changed: JobRef & { fromStatus: string | null; toStatus: string; changedBy: string | null };
+  job_status_moved_back: JobRef & { fromStatus: string | null; toStatus: string; changedBy: string | null };
+  job_added: ProjectRef & { jobs: { jobId: number; job: string }[]; changedBy: string | null };
+  delivery_date_changed: JobRef & { fromDate: string | null; toDate: string | null; changedBy: string | null };
+  overdue_digest: JobExceptions;
+}
+
+export type NotificationEvent = keyof NotificationPayloads;
+
+const STAGE_LABELS: Record<ProductionStage, string> = {
+  nesting: 'Nesting',
+  machining: 'Machining',
+  assembly: 'Assembly',
+  delivery: 'Delivery',
+};
+
+const getAppUrl = () => process.env.FRONTEND_URL || 'http://localhost:5173';
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const describeProject = (ref: ProjectRef) => `${ref.projectName}${ref.clientName ? ` (${ref.clientName})` : ''}`;
+
+const describeDate = (value: string | null) => formatDisplayDate(value) || 'no date';
+
+/**
+ * The shared email layout around a template's content
+ */
+const renderLayout = (heading: string, content: string, reason: string) => `
+      <!DOCTYPE html>
+      <html>
+      <head><meta charset="utf-8"></head>
+      <body style="font-family: Arial, sans-serif; line-height: 1.5; color: #333;">
+        <h2 style="color: #FF661F;">J11 Production Manager</h2>
+        <h3 style="margin: 0 0 12px 0;">${escapeHtml(heading)}</h3>
+        ${content}
+        <p><a href="${getAppUrl()}">Open J11 Production Manager</a></p>
+        <p style="font-size: 12px; color: #6c757d;">${escapeHtml(reason)} You can change which emails you get under Notifications in your profile.</p>
+      </body>
+      </html>
+    `;
+
+const PINNED_REASON = 'You receive this because you pinned this project.';
+
+const renderChange = (
+  heading: string,
+  lines: Array<[string, string]>,
+  reason: string
+): Pick<RenderedNotification, 'html' | 'text'> => ({
+  html: renderLayout(
+    heading,
+    `<table style="border-collapse: collapse; font-size: 14px;">${lines.map(([label, value]) => `
+          <tr>
+            <td style="padding: 4px 12px 4px 0; color: #6c757d;">${escapeHtml(label)}</td>
+            <td style="padding: 4px 0;">${escapeHtml(value)}</td>
+          </tr>`).join('')}
+        </table>`,
+    reason
+  ),
+  text: [
+    `J11 Production Manager - ${heading}`,
+    '',
+    ...lines.map(([label, value]) => `${label}: ${value}`),
+    '',
+    getAppUrl(),
+  ].join('\n'),
+});
+
+const describeStages = (job: JobException) =>
+  job.overdueStages
+    .map(stage => `${STAGE_LABELS[stage.stage]} (due ${formatDisplayDate(stage.plannedDate)}, ${plural(stage.workingDaysOverdue, 'working day')} overdue)`)
+    .join(', ');
+
+const renderOverdueDigest = (exceptions: JobExceptions): RenderedNotification => {
+  const count = exceptions.jobs.length;
+  const summary = (Object.keys(STAGE_LABELS) as ProductionStage[])
+    .filter(stage => exceptions.totals[stage] > 0)
+    .map(stage => `${exceptions.totals[stage]} ${STAGE_LABELS[stage].toLowerCase()}`)
+    .join(', ');
+  const heading = `${count} job${count === 1 ? ' has' : 's have'} overdue stages as of ${formatDisplayDate(exceptions.asOf)}`;
+
+  const rows = exceptions.jobs.map(job => `
+            <tr>
+              <td style="padding: 6px 8px; border-bottom: 1px solid #e9ecef;">#${job.jobId}</td>
+              <td style="padding: 6px 8px; border-bottom: 1px solid #e9ecef;">${escapeHtml(job.projectName || '-')}${job.clientName ? ` (${escapeHtml(job.clientName)})` : ''}</td>
+              <td style="padding: 6px 8px; border-bottom: 1px solid #e9ecef;">${escapeHtml(job.unit ? `${job.unit} - ${job.items}` : job.items)}</td>
+              <td style="padding: 6px 8px; border-bottom: 1px solid #e9ecef;">${escapeHtml(job.status.displayName || '-')}</td>
+              <td style="padding: 6px 8px; border-bottom: 1px solid #e9ecef;">${escapeHtml(describeStages(job))}</td>
+            </tr>`).join('');
+
+  const content = `<p>Overdue stages: ${escapeHtml(summary)}.</p>
+        <table style="border-collapse: collapse; font-size: 13px;">
+          <thead>
+            <tr style="background-color: #f8f9fa; text-align: left;">
+              <th style="padding: 6px 8px;">Job</th>
+              <th style="padding: 6px 8px;">Project</th>
+              <th style="padding: 6px 8px;">Items</th>
+              <th style="padding: 6px 8px;">Status</th>
+              <th style="padding: 6px 8px;">Overdue</th>
+            </tr>
+          </thead>
+          <tbody>${rows}
+          </tbody>
+        </table>`;
+
+  return {
+    subject: `Overdue jobs: ${plural(count, 'job')} behind schedule`,
+    summary: `Overdue stages: ${summary}`,
+    html: renderLayout(heading, content, 'You receive this because you turned on the daily overdue jobs digest.'),
+    text: [
+      `J11 Production Manager - ${heading}: ${summary}.`,
+      '',
+      ...exceptions.jobs.map(job => `#${job.jobId} ${job.projectName || '-'} - ${job.unit ? `${job.unit} - ` : ''}${job.items}: ${describeStages(job)}`),
+      '',
+      getAppUrl(),
+    ].join('\n'),
+  };
+};
+
+const TEMPLATES: { [E in NotificationEvent]: (payload: NotificationPayloads[E]) => RenderedNotification } = {
+  project_status_changed: (payload) => ({
+    subject: `${payload.projectName}: status changed to ${payload.toStatus}`,
+    summary: `${payload.fromStatus || 'None'} → ${payload.toStatus}${payload.changedBy ? `, by ${payload.changedBy}` : ', automatically'}`,
+    ...renderChange(
+      `${payload.projectName} is now ${payload.toStatus}`,
+      [
+        ['Project', describeProject(payload)],
+        ['Status', `${payload.fromStatus || 'None'} → ${payload.toStatus}`],
+        ['Changed by', payload.changedBy || 'Automatically, from its jobs'],
+      ],
+      PINNED_REASON
+    ),
+  }),
+
+  job_status_changed: (payload) => ({
+    subject: `${payload.projectName}: ${payload.job} is now ${payload.toStatus}`,
+    summary: `Job #${payload.jobId}: ${payload.fromStatus || 'None'} → ${payload.toStatus}${payload.changedBy ? `, by ${payload.changedBy}` : ''}`,
+    ...renderChange(
+      `Job #${payload.jobId} is now ${payload.toStatus}`,
+      [
+        ['Project', describeProject(payload)],
+        ['Job', `#${payload.jobId} ${payload.job}`],
+        ['Status', `${payload.fromStatus || 'None'} → ${payload.toStatus}`],
+        ['Changed by', payload.changedBy || '-'],
+      ],
+      PINNED_REASON
+    ),
+  }),
+
+  job_status_moved_back: (payload) => ({
+    subject: `${payload.projectName}: ${payload.job} moved back to ${payload.toStatus}`,
+    summary: `Job #${payload.jobId}: ${payload.fromStatus || 'None'} → ${payload.toStatus}${payload.changedBy ? `, by ${payload.changedBy}` : ''}`,
+    ...renderChange(
+      `Job #${payload.jobId} moved back to ${payload.toStatus}`,
+      [
+        ['Project', describeProject(payload)],
+        ['Job', `#${payload.jobId} ${payload.job}`],
+        ['Status', `${payload.fromStatus || 'None'} → ${payload.toStatus}`],
+        ['Changed by', payload.changedBy || '-'],
+      ],
+      PINNED_REASON
+    ),
+  }),
+
+  job_added: (payload) => {
+    const count = payload.jobs.length;
+    const heading = count === 1
+      ? `Job #${payload.jobs[0].jobId} added to ${payload.projectName}`
+      : `${plural(count, 'job')} added to ${payload.projectName}`;
+    return {
+      subject: `${payload.projectName}: ${count === 1 ? payload.jobs[0].job : plural(count, 'job')} added`,
+      summary: `${payload.jobs.slice(0, 3).map(job => job.job).join(', ')}${count > 3 ? ` and ${count - 3} more` : ''}${payload.changedBy ? `, by ${payload.changedBy}` : ''}`,
+      ...renderChange(
+        heading,
+        [
+          ['Project', describeProject(payload)],
+          ...payload.jobs.map(({ jobId, job }): [string, string] => ['Job', `#${jobId} ${job}`]),
+          ['Added by', payload.changedBy || '-'],
+        ],
+        PINNED_REASON
+      ),
+    };
+  },
+
+  delivery_date_changed: (payload) => ({
+    subject: payload.toDate
+      ? `${payload.projectName}: delivery of ${payload.job} moved to ${describeDate(payload.toDate)}`
+      : `${payload.projectName}: delivery date of ${payload.job} cleared`,
+    summary: `Job #${payload.jobId}: ${describeDate(payload.fromDate)} → ${describeDate(payload.toDate)}${payload.changedBy ? `, by ${payload.changedBy}` : ''}`,
+    ...renderChange(
+      `Delivery date changed for job #${payload.jobId}`,
+      [
+        ['Project', describeProject(payload)],
+        ['Job', `#${payload.jobId} ${payload.job}`],
+        ['Delivery', `${describeDate(payload.fromDate)} → ${describeDate(payload.toDate)}`],
+        ['Changed by', payload.changedBy || '-'],
+      ],
+      PINNED_REASON
+    ),
+  }),
+
+  overdue_digest: renderOverdueDigest,
+};
+
+/**
+ * Render the email for an event
+ */
+export const renderNotification = <E extends NotificationEvent>(
+  event: E,
+  payload: NotificationPayloads[E]
+): RenderedNotification => TEMPLATES[event](payload);
+
+/**
+ * What an in-app notification for the event links to. A single added job opens the job;
+ * several open their project.
+ */
+export const getNotificationLink = <E extends NotificationEvent>(
+  event: E,
+  payload: NotificationPayloads[E]
+): NotificationLink => {
+  if (event === 'overdue_digest') return { projectId: null, jobId: null };
+  if (event === 'job_added') {
+    const { projectId, jobs } = payload as NotificationPayloads['job_added'];
+    return { projectId, jobId: jobs.length === 1 ? jobs[0].jobId : null };
+  }
+  const ref = payload as ProjectRef & { jobId?: number };
+  return { projectId: ref.projectId, jobId: ref.jobId ?? null };
+};
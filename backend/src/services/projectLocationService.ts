@@ -0,0 +1,442 @@
+import { db } from '../db/index.js';
+import { projects, projectBuildings, projectLevels, projectUnits, jobs, jobStatuses } from '../db/schema.js';
+import { and, asc, eq, inArray, isNull, sql } from 'drizzle-orm';
+
+/**
+ * Project locations: a project has buildings, a building has levels and a level has units.
+ * Jobs keep their free-text unit and can also link to a unit, which lets progress roll up
+ * per level and building. Unit names are unique within a project (ignoring case), so
+ * existing jobs can be linked by matching jobs.unit against them.
+ */
+
+export type LocationKind = 'buildings' | 'levels' | 'units';
+
+export const LOCATION_KINDS: LocationKind[] = ['buildings', 'levels', 'units'];
+
+// One generator request creates at most this many units; a single range at most MAX_RANGE_SIZE names
+const MAX_GENERATED_UNITS = 5000;
+const MAX_RANGE_SIZE = 500;
+const MAX_NAME_LENGTH = 100;
+
+export interface LocationProgress {
+  jobCount: number;
+  completedJobCount: number;
+}
+
+export interface UnitNode extends LocationProgress {
+  id: number;
+  name: string;
+}
+
+export interface LevelNode extends LocationProgress {
+  id: number;
+  name: string;
+  units: UnitNode[];
+}
+
+export interface BuildingNode extends LocationProgress {
+  id: number;
+  name: string;
+  levels: LevelNode[];
+}
+
+export interface ProjectLocations {
+  buildings: BuildingNode[];
+  unitCount: number;
+  // Jobs in the project that are not linked to a unit
+  unlinkedJobCount: number;
+}
+
+export interface GenerateLocationsInput {
+  buildings: string[];
+  levels: string[];
+  units: string[];
+  buildingName: string;
+  levelName: string;
+  unitName: string;
+  linkJobs: boolean;
+}
+
+export interface GenerateLocationsResult {
+  createdBuildings: number;
+  createdLevels: number;
+  createdUnits: number;
+  // Unit names that already exist elsewhere in the project
+  skippedUnits: string[];
+  linkedJobIds: number[];
+}
+
+export class LocationError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'LocationError';
+  }
+}
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Expand a list such as "1-12", "01-08", "G, 1-3, PH" or "A-C". Numeric ranges keep the
+ * start's zero padding; single letters can be ranged too. Anything else is taken as a name.
+ */
+export const parseNameRange = (spec: unknown, label: string): string[] => {
+  if (typeof spec !== 'string' || !spec.trim()) {
+    throw new LocationError(`${label} is required, e.g. "1-12" or "G, 1-3"`);
+  }
+
+  const names = spec.split(',').map(part => part.trim()).filter(Boolean).flatMap(part => {
+    const numeric = /^(\d+)\s*-\s*(\d+)$/.exec(part);
+    if (numeric) {
+      const start = parseInt(numeric[1], 10);
+      const end = parseInt(numeric[2], 10);
+      if (end < start || end - start >= MAX_RANGE_SIZE) {
+        throw new LocationError(`${label}: "${part}" must run low to high and cover at most ${MAX_RANGE_SIZE} values`);
+      }
+      const width = numeric[1].length;
+      return Array.from({ length: end - start + 1 }, (_, i) => String(start + i).padStart(width, '0'));
+    }
+    const letters = /^([A-Za-z])\s*-\s*([A-Za-z])$/.exec(part);
+    if (letters) {
+      const start = letters[1].charCodeAt(0);
+      const end = letters[2].charCodeAt(0);
+      if (end < start) {
+        throw new LocationError(`${label}: "${part}" must run low to high`);
+      }
+      return Array.from({ length: end - start + 1 }, (_, i) => String.fromCharCode(start + i));
+    }
+    return [part];
+  });
+
+  return [...new Set(names)];
+};
+
+const fillPattern = (pattern: string, values: { building: string; level: string; unit?: string }) =>
+  pattern
+    .replace(/\{building\}/g, values.building)
+    .replace(/\{level\}/g, values.level)
+    .replace(/\{unit\}/g, values.unit ?? '')
+    .trim();
+
+const readPattern = (value: unknown, fallback: string, required: string, label: string) => {
+  const pattern = typeof value === 'string' && value.trim() ? value.trim() : fallback;
+  if (!pattern.includes(required)) {
+    throw new LocationError(`${label} must include ${required}`);
+  }
+  return pattern;
+};
+
+/**
+ * Validate a generator body for POST /api/projects/:id/locations/generate
+ */
+export const parseGenerateInput = (body: Record<string, unknown>): GenerateLocationsInput => {
+  const input: GenerateLocationsInput = {
+    buildings: parseNameRange(body.buildings ?? '1', 'buildings'),
+    levels: parseNameRange(body.levels, 'levels'),
+    units: parseNameRange(body.units, 'units'),
+    buildingName: readPattern(body.buildingName, 'Building {building}', '{building}', 'buildingName'),
+    levelName: readPattern(body.levelName, 'L{level}', '{level}', 'levelName'),
+    unitName: readPattern(body.unitName, '{level}{unit}', '{unit}', 'unitName'),
+    linkJobs: body.linkJobs !== false,
+  };
+
+  const total = input.buildings.length * input.levels.length * input.units.length;
+  if (total > MAX_GENERATED_UNITS) {
+    throw new LocationError(`That would create ${total} units; generate at most ${MAX_GENERATED_UNITS} at a time`);
+  }
+  return input;
+};
+
+const loadProjectTree = async (projectId: number) => {
+  const buildings = await db
+    .select()
+    .from(projectBuildings)
+    .where(eq(projectBuildings.projectId, projectId))
+    .orderBy(asc(projectBuildings.orderIndex), asc(projectBuildings.id));
+  const buildingIds = buildings.map(building => building.id);
+  const levels = buildingIds.length === 0 ? [] : await db
+    .select()
+    .from(projectLevels)
+    .where(inArray(projectLevels.buildingId, buildingIds))
+    .orderBy(asc(projectLevels.orderIndex), asc(projectLevels.id));
+  const levelIds = levels.map(level => level.id);
+  const units = levelIds.length === 0 ? [] : await db
+    .select()
+    .from(projectUnits)
+    .where(inArray(projectUnits.levelId, levelIds))
+    .orderBy(asc(projectUnits.orderIndex), asc(projectUnits.id));
+  return { buildings, levels, units };
+};
+
+const assertProjectExists = async (projectId: number) => {
+  const [project] = await db
+    .select({ id: projects.id })
+    .from(projects)
+    .where(and(eq(projects.id, projectId), isNull(projects.deletedAt)))
+    .limit(1);
+  if (!project) {
+    throw new LocationError('Project not found', 404);
+  }
+};
+
+/**
+ * The project's buildings, levels and units, each with its linked job counts
+ */
+export const getProjectLocations = async (projectId: number): Promise<ProjectLocations> => {
+  await assertProjectExists(projectId);
+  const { buildings, levels, units } = await loadProjectTree(projectId);
+
+  const counts = await db
+    .select({
+      unitId: jobs.unitId,
+      jobCount: sql<number>`count(*)::int`,
+      completedJobCount: sql<number>`count(*) filter (where ${jobStatuses.isFinal})::int`,
+    })
+    .from(jobs)
+    .leftJoin(jobStatuses, eq(jobs.statusId, jobStatuses.id))
+    .where(and(eq(jobs.projectId, projectId), isNull(jobs.deletedAt)))
+    .groupBy(jobs.unitId);
+
+  const countsByUnit = new Map(counts.map(row => [row.unitId, row]));
+  const sum = (nodes: LocationProgress[]): LocationProgress => ({
+    jobCount: nodes.reduce((total, node) => total + node.jobCount, 0),
+    completedJobCount: nodes.reduce((total, node) => total + node.completedJobCount, 0),
+  });
+
+  const tree = buildings.map((building): BuildingNode => {
+    const levelNodes = levels.filter(level => level.buildingId === building.id).map((level): LevelNode => {
+      const unitNodes = units.filter(unit => unit.levelId === level.id).map((unit): UnitNode => ({
+        id: unit.id,
+        name: unit.name,
+        jobCount: countsByUnit.get(unit.id)?.jobCount ?? 0,
+        completedJobCount: countsByUnit.get(unit.id)?.completedJobCount ?? 0,
+      }));
+      return { id: level.id, name: level.name, units: unitNodes, ...sum(unitNodes) };
+    });
+    return { id: building.id, name: building.name, levels: levelNodes, ...sum(levelNodes) };
+  });
+
+  return {
+    buildings: tree,
+    unitCount: units.length,
+    unlinkedJobCount: countsByUnit.get(null)?.jobCount ?? 0,
+  };
+};
+
+/**
+ * Link the project's unlinked jobs to the unit whose name matches their unit text.
+ * Returns the ids of the jobs that were linked.
+ */
+export const linkJobsToUnits = async (projectId: number): Promise<number[]> => {
+  const { units } = await loadProjectTree(projectId);
+  if (units.length === 0) return [];
+
+  const unitsByName = new Map(units.map(unit => [unit.name.toLowerCase(), unit]));
+  const unlinked = await db
+    .select({ id: jobs.id, unit: jobs.unit })
+    .from(jobs)
+    .where(and(eq(jobs.projectId, projectId), isNull(jobs.unitId), isNull(jobs.deletedAt)));
+
+  const jobIdsByUnit = new Map<number, number[]>();
+  for (const job of unlinked) {
+    const unit = job.unit ? unitsByName.get(job.unit.trim().toLowerCase()) : undefined;
+    if (!unit) continue;
+    jobIdsByUnit.set(unit.id, [...(jobIdsByUnit.get(unit.id) ?? []), job.id]);
+  }
+
+  await db.transaction(async (tx) => {
+    for (const [unitId, jobIds] of jobIdsByUnit) {
+      const unit = units.find(candidate => candidate.id === unitId)!;
+      await tx
+        .update(jobs)
+        .set({ unitId, unit: unit.name, updatedAt: new Date() })
+        .where(inArray(jobs.id, jobIds));
+    }
+  });
+  return [...jobIdsByUnit.values()].flat();
+};
+
+/**
+ * Create any buildings, levels and units from the generator input that the project doesn't
+ * have yet. Existing ones are reused by name, so running the generator again only fills gaps.
+ */
+export const generateProjectLocations = async (
+  projectId: number,
+  input: GenerateLocationsInput
+): Promise<GenerateLocationsResult> => {
+  await assertProjectExists(projectId);
+
+  // Work out every name first, so a clash within the request fails before anything is written
+  const planned = input.buildings.map(building => ({
+    name: fillPattern(input.buildingName, { building, level: '' }),
+    levels: input.levels.map(level => ({
+      name: fillPattern(input.levelName, { building, level }),
+      units: input.units.map(unit => fillPattern(input.unitName, { building, level, unit })),
+    })),
+  }));
+  const allNames = planned.flatMap(building => building.levels.flatMap(level => level.units));
+  const tooLong = [...planned.map(building => building.name), ...allNames].find(name => name.length > MAX_NAME_LENGTH);
+  if (tooLong) {
+    throw new LocationError(`"${tooLong.slice(0, 20)}..." is longer than ${MAX_NAME_LENGTH} characters`);
+  }
+  const seen = new Set<string>();
+  for (const name of allNames) {
+    const key = name.toLowerCase();
+    if (seen.has(key)) {
+      throw new LocationError(
+        `The unit name pattern gives "${name}" more than once; include {level}${input.buildings.length > 1 ? ' and {building}' : ''} in unitName`
+      );
+    }
+    seen.add(key);
+  }
+
+  const result = await db.transaction(async (tx) => {
+    const existing = await loadProjectTree(projectId);
+    const counts = { createdBuildings: 0, createdLevels: 0, createdUnits: 0, skippedUnits: [] as string[] };
+
+    for (const plannedBuilding of planned) {
+      let building = existing.buildings.find(candidate => sameName(candidate.name, plannedBuilding.name));
+      if (!building) {
+        [building] = await tx
+          .insert(projectBuildings)
+          .values({ projectId, name: plannedBuilding.name, orderIndex: existing.buildings.length })
+          .returning();
+        existing.buildings.push(building);
+        counts.createdBuildings++;
+      }
+
+      for (const plannedLevel of plannedBuilding.levels) {
+        const buildingLevels = existing.levels.filter(level => level.buildingId === building!.id);
+        let level = buildingLevels.find(candidate => sameName(candidate.name, plannedLevel.name));
+        if (!level) {
+          [level] = await tx
+            .insert(projectLevels)
+            .values({ buildingId: building.id, name: plannedLevel.name, orderIndex: buildingLevels.length })
+            .returning();
+          existing.levels.push(level);
+          counts.createdLevels++;
+        }
+
+        const levelUnitCount = existing.units.filter(unit => unit.levelId === level!.id).length;
+        const newUnits = plannedLevel.units.filter(name => {
+          const clash = existing.units.find(unit => sameName(unit.name, name));
+          if (clash && clash.levelId !== level!.id) counts.skippedUnits.push(name);
+          return !clash;
+        });
+        if (newUnits.length > 0) {
+          const inserted = await tx
+            .insert(projectUnits)
+            .values(newUnits.map((name, index) => ({ levelId: level!.id, name, orderIndex: levelUnitCount + index })))
+            .returning();
+          existing.units.push(...inserted);
+          counts.createdUnits += inserted.length;
+        }
+      }
+    }
+    return counts;
+  });
+
+  const linkedJobIds = input.linkJobs ? await linkJobsToUnits(projectId) : [];
+  return { ...result, linkedJobIds };
+};
+
+const locationTable = (kind: LocationKind) =>
+  kind === 'buildings' ? projectBuildings : kind === 'levels' ? projectLevels : projectUnits;
+
+// Find a building, level or unit, checking it belongs to the project
+const findLocation = async (projectId: number, kind: LocationKind, id: number) => {
+  const { buildings, levels, units } = await loadProjectTree(projectId);
+  const pool = kind === 'buildings' ? buildings : kind === 'levels' ? levels : units;
+  const location = pool.find(candidate => candidate.id === id);
+  if (!location) {
+    throw new LocationError(`${kind === 'buildings' ? 'Building' : kind === 'levels' ? 'Level' : 'Unit'} not found`, 404);
+  }
+  return { location, buildings, levels, units };
+};
+
+/**
+ * Rename a building, level or unit. Renaming a unit also updates its linked jobs' unit text.
+ * Returns the ids of jobs whose unit text changed.
+ */
+export const renameLocation = async (projectId: number, kind: LocationKind, id: number, value: unknown): Promise<number[]> => {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw new LocationError(`name is required and must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  const { location, buildings, levels, units } = await findLocation(projectId, kind, id);
+
+  const siblings = kind === 'buildings'
+    ? buildings
+    : kind === 'levels'
+      ? levels.filter(level => level.buildingId === (location as typeof levels[number]).buildingId)
+      : units;
+  if (siblings.some(sibling => sibling.id !== id && sameName(sibling.name, name))) {
+    throw new LocationError(`"${name}" is already used ${kind === 'units' ? 'by another unit in this project' : 'here'}`, 409);
+  }
+
+  return db.transaction(async (tx) => {
+    const table = locationTable(kind);
+    await tx.update(table).set({ name }).where(eq(table.id, id));
+    if (kind !== 'units') return [];
+    const renamed = await tx
+      .update(jobs)
+      .set({ unit: name, updatedAt: new Date() })
+      .where(eq(jobs.unitId, id))
+      .returning({ id: jobs.id });
+    return renamed.map(job => job.id);
+  });
+};
+
+/**
+ * Delete a building, level or unit and everything under it. Linked jobs keep their unit text
+ * and are unlinked. Returns the ids of the jobs that were unlinked.
+ */
+export const deleteLocation = async (projectId: number, kind: LocationKind, id: number): Promise<number[]> => {
+  const { levels, units } = await findLocation(projectId, kind, id);
+  const levelIds = kind === 'buildings' ? levels.filter(level => level.buildingId === id).map(level => level.id) : [id];
+  const unitIds = kind === 'units' ? [id] : units.filter(unit => levelIds.includes(unit.levelId)).map(unit => unit.id);
+
+  const unlinked = unitIds.length === 0 ? [] : await db
+    .select({ id: jobs.id })
+    .from(jobs)
+    .where(inArray(jobs.unitId, unitIds));
+
+  const table = locationTable(kind);
+  await db.delete(table).where(eq(table.id, id));
+  return unlinked.map(job => job.id);
+};
+
+/**
+ * Check a job's unitId belongs to its project. Returns the values to store, with the unit
+ * text set to the unit's name; null unlinks the job and keeps its unit text.
+ */
+export const resolveJobUnit = async (
+  projectId: number | null,
+  unitId: unknown
+): Promise<{ unitId: number | null; unit?: string }> => {
+  if (unitId === null || unitId === '' || unitId === undefined) {
+    return { unitId: null };
+  }
+  const id = Number(unitId);
+  if (!Number.isInteger(id)) {
+    throw new LocationError('unitId must be a project unit id');
+  }
+  const [unit] = await db
+    .select({ id: projectUnits.id, name: projectUnits.name, projectId: projectBuildings.projectId })
+    .from(projectUnits)
+    .innerJoin(projectLevels, eq(projectUnits.levelId, projectLevels.id))
+    .innerJoin(projectBuildings, eq(projectLevels.buildingId, projectBuildings.id))
+    .where(eq(projectUnits.id, id))
+    .limit(1);
+  if (!unit || unit.projectId !== projectId) {
+    throw new LocationError('unitId must be a unit of the job\'s project');
+  }
+  return { unitId: unit.id, unit: unit.name };
+};
+
+/**
+ * Unit ids by lowercase name, for linking jobs created in bulk
+ */
+export const loadUnitIdsByName = async (projectId: number): Promise<Map<string, { id: number; name: string }>> => {
+  const { units } = await loadProjectTree(projectId);
+  return new Map(units.map(unit => [unit.name.toLowerCase(), { id: unit.id, name: unit.name }]));
+};
@@ -0,0 +1,313 @@
+import { db } from '../db/index.js';
+import { projectStatuses, projects, jobs, jobStatuses, type ProjectStatus } from '../db/schema.js';
+import { and, asc, eq, inArray, isNull, ne, sql } from 'drizzle-orm';
+import { projectJobsJoin } from './listConfigs.js';
+import { includesTransition, onlyTransition, withoutTransition } from '../utils/statusTransitions.js';
+import { logAuditChanges } from './auditService.js';
+import { publishChange } from './liveUpdatesService.js';
+import { notifyProjectStatusChanges } from './notificationService.js';
+
+/**
+ * Project statuses: configured in settings like job statuses. projects.status holds the
+ * status name (renames cascade through the foreign key).
+ *
+ * - Each status can list the ids of the statuses a project may move to from it, as job
+ *   statuses do; an empty list allows any.
+ * - One status can be the auto-complete status. A project moves there when every one of its
+ *   jobs is in a final job status, and back to the default status when a job reopens.
+ * - A project can't be moved to the auto-complete status by hand while it has open jobs.
+ */
+
+const HEX_COLOR = /^#[0-9A-Fa-f]{6}$/;
+
+export interface ProjectStatusInput {
+  name: string;
+  displayName: string;
+  color: string;
+  backgroundColor: string;
+  isDefault: boolean;
+  isFinal: boolean;
+  isAutoComplete: boolean;
+  allowedTransitions: number[];
+}
+
+export interface ProjectStatusWithCount extends ProjectStatus {
+  projectCount: number;
+}
+
+export class ProjectStatusError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ProjectStatusError';
+  }
+}
+
+const loadStatuses = () => db.select().from(projectStatuses).orderBy(asc(projectStatuses.orderIndex), asc(projectStatuses.id));
+
+/**
+ * Validate a status body for POST /api/project-statuses or PUT /api/project-statuses/:id
+ */
+export const parseProjectStatusInput = (body: Record<string, unknown>): ProjectStatusInput => {
+  const name = typeof body.name === 'string' ? body.name.trim().toLowerCase().replace(/\s+/g, '-') : '';
+  if (!name || name.length > 50) {
+    throw new ProjectStatusError('name is required and must be at most 50 characters');
+  }
+  const displayName = typeof body.displayName === 'string' ? body.displayName.trim() : '';
+  if (!displayName || displayName.length > 100) {
+    throw new ProjectStatusError('displayName is required and must be at most 100 characters');
+  }
+  for (const field of ['color', 'backgroundColor'] as const) {
+    if (typeof body[field] !== 'string' || !HEX_COLOR.test(body[field] as string)) {
+      throw new ProjectStatusError(`${field} must be a hex color (#RRGGBB)`);
+    }
+  }
+  const transitions = body.allowedTransitions ?? [];
+  if (!Array.isArray(transitions) || !transitions.every(id => Number.isInteger(id))) {
+    throw new ProjectStatusError('allowedTransitions must be an array of project status ids');
+  }
+  const isAutoComplete = body.isAutoComplete === true;
+
+  return {
+    name,
+    displayName,
+    color: body.color as string,
+    backgroundColor: body.backgroundColor as string,
+    isDefault: body.isDefault === true,
+    // The auto-complete status closes the project, so it is always final
+    isFinal: body.isFinal === true || isAutoComplete,
+    isAutoComplete,
+    allowedTransitions: [...new Set(transitions as number[])],
+  };
+};
+
+export const listProjectStatuses = async (): Promise<ProjectStatusWithCount[]> => {
+  const [statuses, counts] = await Promise.all([
+    loadStatuses(),
+    db
+      .select({ status: projects.status, projectCount: sql<number>`count(*)::int` })
+      .from(projects)
+      .where(isNull(projects.deletedAt))
+      .groupBy(projects.status),
+  ]);
+  return statuses.map(status => ({
+    ...status,
+    projectCount: counts.find(count => count.status === status.name)?.projectCount ?? 0,
+  }));
+};
+
+const assertInputConsistent = async (input: ProjectStatusInput, exceptId?: number) => {
+  const statuses = await loadStatuses();
+  const others = statuses.filter(status => status.id !== exceptId);
+  if (others.some(status => status.name === input.name)) {
+    throw new ProjectStatusError(`A project status named "${input.name}" already exists`, 409);
+  }
+  const unknown = input.allowedTransitions.filter(target => !others.some(status => status.id === target));
+  if (unknown.length > 0) {
+    throw new ProjectStatusError(`Unknown project status ${unknown.join(', ')} in allowedTransitions`);
+  }
+  if (exceptId !== undefined && !input.isDefault && statuses.find(status => status.id === exceptId)?.isDefault) {
+    throw new ProjectStatusError('Make another status the default before unsetting this one');
+  }
+};
+
+export const createProjectStatus = async (input: ProjectStatusInput): Promise<ProjectStatus> => {
+  await assertInputConsistent(input);
+
+  return db.transaction(async (tx) => {
+    // Only one default and one auto-complete status
+    if (input.isDefault) await tx.update(projectStatuses).set({ isDefault: false });
+    if (input.isAutoComplete) await tx.update(projectStatuses).set({ isAutoComplete: false });
+
+    const [{ maxOrder }] = await tx
+      .select({ maxOrder: sql<number>`coalesce(max(${projectStatuses.orderIndex}), -1)::int` })
+      .from(projectStatuses);
+    const [created] = await tx
+      .insert(projectStatuses)
+      .values({ ...input, orderIndex: maxOrder + 1 })
+      .returning();
+    return created;
+  });
+};
+
+export const updateProjectStatus = async (id: number, input: ProjectStatusInput): Promise<ProjectStatus> => {
+  const [existing] = await db.select().from(projectStatuses).where(eq(projectStatuses.id, id)).limit(1);
+  if (!existing) {
+    throw new ProjectStatusError('Project status not found', 404);
+  }
+  await assertInputConsistent(input, id);
+
+  return db.transaction(async (tx) => {
+    if (input.isDefault) await tx.update(projectStatuses).set({ isDefault: false }).where(ne(projectStatuses.id, id));
+    if (input.isAutoComplete) await tx.update(projectStatuses).set({ isAutoComplete: false }).where(ne(projectStatuses.id, id));
+
+    // Projects follow a rename through the foreign key
+    const [updated] = await tx
+      .update(projectStatuses)
+      .set({ ...input, allowedTransitions: input.allowedTransitions.filter(target => target !== id), updatedAt: new Date() })
+      .where(eq(projectStatuses.id, id))
+      .returning();
+    return updated;
+  });
+};
+
+export const reorderProjectStatuses = async (ids: unknown): Promise<ProjectStatus[]> => {
+  if (!Array.isArray(ids) || ids.some(id => !Number.isInteger(id))) {
+    throw new ProjectStatusError('ids must be an array of project status ids in the new order');
+  }
+  await db.transaction(async (tx) => {
+    for (const [orderIndex, id] of (ids as number[]).entries()) {
+      await tx.update(projectStatuses).set({ orderIndex, updatedAt: new Date() }).where(eq(projectStatuses.id, id));
+    }
+  });
+  return loadStatuses();
+};
+
+export const deleteProjectStatus = async (id: number): Promise<void> => {
+  const [existing] = await db.select().from(projectStatuses).where(eq(projectStatuses.id, id)).limit(1);
+  if (!existing) {
+    throw new ProjectStatusError('Project status not found', 404);
+  }
+  if (existing.isDefault) {
+    throw new ProjectStatusError('The default project status cannot be deleted');
+  }
+  // Projects in the recycle bin still reference the status
+  const [inUse] = await db.select({ id: projects.id }).from(projects).where(eq(projects.status, existing.name)).limit(1);
+  if (inUse) {
+    throw new ProjectStatusError('Cannot delete a status that projects are using');
+  }
+
+  // An emptied list would let those statuses move anywhere
+  const restricted = await db
+    .select({ displayName: projectStatuses.displayName })
+    .from(projectStatuses)
+    .where(onlyTransition(projectStatuses.allowedTransitions, id));
+  if (restricted.length > 0) {
+    throw new ProjectStatusError(
+      `${restricted.map(status => status.displayName).join(', ')} can only move to this status; change their allowed transitions first`,
+      409
+    );
+  }
+
+  await db.transaction(async (tx) => {
+    await tx
+      .update(projectStatuses)
+      .set({ allowedTransitions: withoutTransition(projectStatuses.allowedTransitions, id) })
+      .where(includesTransition(projectStatuses.allowedTransitions, id));
+    await tx.delete(projectStatuses).where(eq(projectStatuses.id, id));
+  });
+};
+
+/**
+ * The status for a new project: the one asked for if it exists, otherwise the default
+ */
+export const resolveNewProjectStatus = async (requested: unknown): Promise<string> => {
+  const statuses = await loadStatuses();
+  if (requested === undefined || requested === null || requested === '') {
+    const fallback = statuses.find(status => status.isDefault) ?? statuses[0];
+    if (!fallback) {
+      throw new ProjectStatusError('No project statuses are configured', 500);
+    }
+    return fallback.name;
+  }
+  const status = statuses.find(candidate => candidate.name === requested);
+  if (!status) {
+    throw new ProjectStatusError(`Unknown project status "${requested}"`);
+  }
+  return status.name;
+};
+
+const countOpenJobs = async (projectId: number): Promise<number> => {
+  const [{ openJobs }] = await db
+    .select({ openJobs: sql<number>`count(*)::int` })
+    .from(jobs)
+    .leftJoin(jobStatuses, eq(jobs.statusId, jobStatuses.id))
+    .where(and(eq(jobs.projectId, projectId), isNull(jobs.deletedAt), sql`not coalesce(${jobStatuses.isFinal}, false)`));
+  return openJobs;
+};
+
+/**
+ * Check a manual status change: the target must exist, be allowed from the current status,
+ * and can't be the auto-complete status while the project has open jobs.
+ */
+export const assertProjectStatusChange = async (projectId: number, from: string | null, to: string): Promise<void> => {
+  if (from === to) return;
+  const statuses = await loadStatuses();
+  const target = statuses.find(status => status.name === to);
+  if (!target) {
+    throw new ProjectStatusError(`Unknown project status "${to}"`);
+  }
+  const current = statuses.find(status => status.name === from);
+  if (current && current.allowedTransitions.length > 0 && !current.allowedTransitions.includes(target.id)) {
+    throw new ProjectStatusError(`A project can't move from ${current.displayName} to ${target.displayName}`);
+  }
+  if (target.isAutoComplete) {
+    const openJobs = await countOpenJobs(projectId);
+    if (openJobs > 0) {
+      throw new ProjectStatusError(`${openJobs} job${openJobs === 1 ? ' is' : 's are'} not finished yet`);
+    }
+  }
+};
+
+/**
+ * Move projects to the auto-complete status when all their jobs are final, and back to the
+ * default status when a completed project has open jobs again. Call after job writes with
+ * the projects they touched. Returns the ids of projects whose status changed.
+ */
+export const syncProjectStatuses = async (
+  projectIds: Array<number | null | undefined>,
+  userId?: number,
+  userEmail?: string
+): Promise<number[]> => {
+  const ids = [...new Set(projectIds.filter((id): id is number => typeof id === 'number'))];
+  if (ids.length === 0) return [];
+
+  const statuses = await loadStatuses();
+  const completeStatus = statuses.find(status => status.isAutoComplete);
+  const reopenStatus = statuses.find(status => status.isDefault);
+  if (!completeStatus) return [];
+
+  const rows = await db
+    .select({
+      id: projects.id,
+      status: projects.status,
+      jobCount: sql<number>`count(${jobs.id})::int`,
+      openJobCount: sql<number>`(count(${jobs.id}) filter (where not coalesce(${jobStatuses.isFinal}, false)))::int`,
+    })
+    .from(projects)
+    .leftJoin(jobs, projectJobsJoin)
+    .leftJoin(jobStatuses, eq(jobs.statusId, jobStatuses.id))
+    .where(and(inArray(projects.id, ids), isNull(projects.deletedAt)))
+    .groupBy(projects.id);
+
+  const changes: { projectId: number; fromStatus: string | null; toStatus: string }[] = [];
+  for (const row of rows) {
+    const current = statuses.find(status => status.name === row.status);
+    let target: string | null = null;
+    if (row.jobCount > 0 && row.openJobCount === 0 && !current?.isFinal) {
+      target = completeStatus.name;
+    } else if (row.openJobCount > 0 && row.status === completeStatus.name && reopenStatus) {
+      target = reopenStatus.name;
+    }
+    if (!target) continue;
+
+    // Only if nobody changed the status in the meantime
+    const [oldProject] = await db.select().from(projects).where(eq(projects.id, row.id));
+    const [updated] = await db
+      .update(projects)
+      .set({ status: target, updatedAt: new Date() })
+      .where(and(eq(projects.id, row.id), row.status === null ? isNull(projects.status) : eq(projects.status, row.status)))
+      .returning();
+    if (!updated) continue;
+
+    await logAuditChanges('projects', row.id, oldProject, updated, userId, userEmail);
+    changes.push({ projectId: row.id, fromStatus: row.status, toStatus: target });
+  }
+
+  const changedIds = changes.map(change => change.projectId);
+  if (changedIds.length > 0) {
+    publishChange({ entity: 'project', action: 'updated', ids: changedIds, userId });
+    // Nobody chose this status, so the user whose save triggered it hears about it too
+    await notifyProjectStatusChanges(changes);
+  }
+  return changedIds;
+};
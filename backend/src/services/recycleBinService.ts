@@ -0,0 +1,352 @@
+import { db } from '../db/index.js';
+import { jobs, projects, contacts, clients, users, pinnedProjects } from '../db/schema.js';
+import { and, eq, isNull, isNotNull, lt, or, ne, sql } from 'drizzle-orm';
+import { getSetting, setSetting } from './settingsService.js';
+import { logRecordDeletion } from './auditService.js';
+
+/**
+ * Recycle bin for jobs, projects and contacts.
+ *
+ * Deleting sets deletedAt/deletedBy instead of removing the row, and every list leaves those
+ * rows out. Deleting a project also deletes its jobs, with the same deletedAt, so restoring the
+ * project brings back exactly the jobs that went with it. Items are purged (removed for good)
+ * by hand or automatically once they are older than the configured age.
+ */
+
+export type RecycleBinType = 'job' | 'project' | 'contact';
+export const RECYCLE_BIN_TYPES: RecycleBinType[] = ['job', 'project', 'contact'];
+
+export const PURGE_AFTER_DAYS_KEY = 'recycle_bin.purge_after_days';
+export const DEFAULT_PURGE_AFTER_DAYS = 30;
+export const MAX_PURGE_AFTER_DAYS = 3650;
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+type Job = typeof jobs.$inferSelect;
+type Project = typeof projects.$inferSelect;
+type Contact = typeof contacts.$inferSelect;
+type BinRecord = Job | Project | Contact;
+
+export interface RecycleBinItem {
+  type: RecycleBinType;
+  id: number;
+  name: string;
+  detail: string | null;
+  deletedAt: Date;
+  deletedBy: number | null;
+  deletedByName: string | null;
+  // When auto-purge will remove it, null if auto-purge is off
+  purgeAt: Date | null;
+  // Jobs deleted along with a project are listed under the project, not on their own
+  jobCount?: number;
+  // A job can't be restored while its project is in the recycle bin
+  projectDeleted?: boolean;
+}
+
+export interface RecycleBinChange<T extends BinRecord = BinRecord> {
+  old: T;
+  record: T;
+}
+
+export interface RecycleBinResult {
+  change: RecycleBinChange;
+  // Jobs that went with a project
+  jobs: RecycleBinChange<Job>[];
+}
+
+export class RecycleBinError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'RecycleBinError';
+  }
+}
+
+const TABLES = { job: jobs, project: projects, contact: contacts };
+export const AUDIT_TABLE_NAMES: Record<RecycleBinType, string> = { job: 'jobs', project: 'projects', contact: 'contacts' };
+const LABELS: Record<RecycleBinType, string> = { job: 'Job', project: 'Project', contact: 'Contact' };
+
+export const isRecycleBinType = (value: string): value is RecycleBinType =>
+  (RECYCLE_BIN_TYPES as string[]).includes(value);
+
+export const getPurgeAfterDays = () => getSetting<number>(PURGE_AFTER_DAYS_KEY, DEFAULT_PURGE_AFTER_DAYS);
+
+/**
+ * Set how many days items stay in the recycle bin before auto-purge; 0 turns auto-purge off
+ */
+export const setPurgeAfterDays = async (days: unknown, userId?: number): Promise<number> => {
+  if (!Number.isInteger(days) || (days as number) < 0 || (days as number) > MAX_PURGE_AFTER_DAYS) {
+    throw new RecycleBinError(`purgeAfterDays must be a whole number of days from 0 to ${MAX_PURGE_AFTER_DAYS}`);
+  }
+  await setSetting(PURGE_AFTER_DAYS_KEY, days, userId);
+  return days as number;
+};
+
+const loadRecord = async (type: RecycleBinType, id: number): Promise<BinRecord | undefined> => {
+  const table = TABLES[type];
+  const [record] = await db.select().from(table).where(eq(table.id, id)).limit(1);
+  return record as BinRecord | undefined;
+};
+
+/**
+ * Move a job, project or contact to the recycle bin.
+ * Returns null when there is no such record, or it is already in the bin.
+ */
+export const moveToRecycleBin = async (
+  type: RecycleBinType,
+  id: number,
+  userId?: number
+): Promise<RecycleBinResult | null> => {
+  const table = TABLES[type];
+  const deleted = { deletedAt: new Date(), deletedBy: userId ?? null };
+
+  return db.transaction(async (tx) => {
+    const [old] = (await tx
+      .select()
+      .from(table)
+      .where(and(eq(table.id, id), isNull(table.deletedAt)))
+      .for('update')) as BinRecord[];
+    if (!old) return null;
+
+    const [record] = await tx.update(table).set(deleted).where(eq(table.id, id)).returning();
+
+    let jobChanges: RecycleBinChange<Job>[] = [];
+    if (type === 'project') {
+      const projectJobs = await tx
+        .select()
+        .from(jobs)
+        .where(and(eq(jobs.projectId, id), isNull(jobs.deletedAt)));
+      const updatedJobs = projectJobs.length > 0
+        ? await tx
+            .update(jobs)
+            .set(deleted)
+            .where(and(eq(jobs.projectId, id), isNull(jobs.deletedAt)))
+            .returning()
+        : [];
+      jobChanges = updatedJobs.map(job => ({ old: projectJobs.find(item => item.id === job.id)!, record: job }));
+    }
+
+    return { change: { old, record }, jobs: jobChanges };
+  });
+};
+
+/**
+ * Take an item out of the recycle bin. A project brings back the jobs deleted with it.
+ */
+export const restoreFromRecycleBin = async (type: RecycleBinType, id: number): Promise<RecycleBinResult> => {
+  const table = TABLES[type];
+  const old = await loadRecord(type, id);
+  if (!old) {
+    throw new RecycleBinError(`${LABELS[type]} not found`, 404);
+  }
+  if (!old.deletedAt) {
+    throw new RecycleBinError(`${LABELS[type]} ${id} is not in the recycle bin`, 409);
+  }
+
+  if (type === 'job' && (old as Job).projectId) {
+    const project = await loadRecord('project', (old as Job).projectId!);
+    if (project?.deletedAt) {
+      throw new RecycleBinError(`Restore project "${(project as Project).name}" first; this job belongs to it`, 409);
+    }
+  }
+
+  const restored = { deletedAt: null, deletedBy: null, updatedAt: new Date() };
+
+  return db.transaction(async (tx) => {
+    const [record] = await tx.update(table).set(restored).where(eq(table.id, id)).returning();
+
+    let jobChanges: RecycleBinChange<Job>[] = [];
+    if (type === 'project') {
+      const deletedWithProject = and(eq(jobs.projectId, id), eq(jobs.deletedAt, old.deletedAt!));
+      const projectJobs = await tx.select().from(jobs).where(deletedWithProject);
+      const updatedJobs = projectJobs.length > 0
+        ? await tx.update(jobs).set(restored).where(deletedWithProject).returning()
+        : [];
+      jobChanges = updatedJobs.map(job => ({ old: projectJobs.find(item => item.id === job.id)!, record: job }));
+    }
+
+    return { change: { old, record }, jobs: jobChanges };
+  });
+};
+
+/**
+ * Remove an item in the recycle bin for good. A project takes its jobs with it.
+ * Returns the removed rows for the audit log.
+ */
+export const purgeFromRecycleBin = async (
+  type: RecycleBinType,
+  id: number
+): Promise<{ record: BinRecord; jobs: Job[] }> => {
+  const table = TABLES[type];
+  const record = await loadRecord(type, id);
+  if (!record) {
+    throw new RecycleBinError(`${LABELS[type]} not found`, 404);
+  }
+  if (!record.deletedAt) {
+    throw new RecycleBinError(`Only items in the recycle bin can be purged; delete ${LABELS[type].toLowerCase()} ${id} first`, 409);
+  }
+
+  return db.transaction(async (tx) => {
+    let purgedJobs: Job[] = [];
+    if (type === 'project') {
+      purgedJobs = await tx.delete(jobs).where(eq(jobs.projectId, id)).returning();
+      await tx.delete(pinnedProjects).where(eq(pinnedProjects.projectId, id));
+    }
+    await tx.delete(table).where(eq(table.id, id));
+    return { record, jobs: purgedJobs };
+  });
+};
+
+const deletedByName = sql<string | null>`nullif(trim(concat_ws(' ', ${users.firstName}, ${users.lastName})), '')`;
+
+/**
+ * List everything in the recycle bin, most recently deleted first
+ */
+export const listRecycleBin = async (): Promise<{ items: RecycleBinItem[]; purgeAfterDays: number }> => {
+  const purgeAfterDays = await getPurgeAfterDays();
+  const purgeAt = (deletedAt: Date) =>
+    purgeAfterDays > 0 ? new Date(deletedAt.getTime() + purgeAfterDays * 24 * 60 * 60 * 1000) : null;
+
+  const deletedProjects = await db
+    .select({
+      id: projects.id,
+      name: projects.name,
+      clientName: clients.name,
+      deletedAt: projects.deletedAt,
+      deletedBy: projects.deletedBy,
+      deletedByName: sql<string | null>`coalesce(${deletedByName}, ${users.email})`,
+      jobCount: sql<number>`(select count(*) from ${jobs} where ${jobs.projectId} = ${projects.id} and ${jobs.deletedAt} = ${projects.deletedAt})::int`,
+    })
+    .from(projects)
+    .leftJoin(clients, eq(projects.clientId, clients.id))
+    .leftJoin(users, eq(projects.deletedBy, users.id))
+    .where(isNotNull(projects.deletedAt));
+
+  // Jobs deleted with their project are restored and purged with it
+  const deletedJobs = await db
+    .select({
+      id: jobs.id,
+      unit: jobs.unit,
+      items: jobs.items,
+      projectName: projects.name,
+      clientName: clients.name,
+      projectDeletedAt: projects.deletedAt,
+      deletedAt: jobs.deletedAt,
+      deletedBy: jobs.deletedBy,
+      deletedByName: sql<string | null>`coalesce(${deletedByName}, ${users.email})`,
+    })
+    .from(jobs)
+    .leftJoin(projects, eq(jobs.projectId, projects.id))
+    .leftJoin(clients, eq(projects.clientId, clients.id))
+    .leftJoin(users, eq(jobs.deletedBy, users.id))
+    .where(and(
+      isNotNull(jobs.deletedAt),
+      or(isNull(projects.deletedAt), ne(projects.deletedAt, jobs.deletedAt))
+    ));
+
+  const deletedContacts = await db
+    .select({
+      id: contacts.id,
+      firstName: contacts.firstName,
+      lastName: contacts.lastName,
+      clientName: clients.name,
+      deletedAt: contacts.deletedAt,
+      deletedBy: contacts.deletedBy,
+      deletedByName: sql<string | null>`coalesce(${deletedByName}, ${users.email})`,
+    })
+    .from(contacts)
+    .leftJoin(clients, eq(contacts.clientId, clients.id))
+    .leftJoin(users, eq(contacts.deletedBy, users.id))
+    .where(isNotNull(contacts.deletedAt));
+
+  const items: RecycleBinItem[] = [
+    ...deletedProjects.map(project => ({
+      type: 'project' as const,
+      id: project.id,
+      name: project.name,
+      detail: project.clientName,
+      deletedAt: project.deletedAt!,
+      deletedBy: project.deletedBy,
+      deletedByName: project.deletedByName,
+      purgeAt: purgeAt(project.deletedAt!),
+      jobCount: project.jobCount,
+    })),
+    ...deletedJobs.map(job => ({
+      type: 'job' as const,
+      id: job.id,
+      name: [job.unit, job.items].filter(Boolean).join(' - ') || `Job ${job.id}`,
+      detail: [job.projectName, job.clientName].filter(Boolean).join(' · ') || null,
+      deletedAt: job.deletedAt!,
+      deletedBy: job.deletedBy,
+      deletedByName: job.deletedByName,
+      purgeAt: purgeAt(job.deletedAt!),
+      projectDeleted: job.projectDeletedAt !== null,
+    })),
+    ...deletedContacts.map(contact => ({
+      type: 'contact' as const,
+      id: contact.id,
+      name: `${contact.firstName} ${contact.lastName}`,
+      detail: contact.clientName,
+      deletedAt: contact.deletedAt!,
+      deletedBy: contact.deletedBy,
+      deletedByName: contact.deletedByName,
+      purgeAt: purgeAt(contact.deletedAt!),
+    })),
+  ];
+
+  items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  return { items, purgeAfterDays };
+};
+
+/**
+ * Purge every item older than the configured age. Purges are audited without a user.
+ */
+export const purgeExpiredItems = async (): Promise<number> => {
+  const purgeAfterDays = await getPurgeAfterDays();
+  if (purgeAfterDays <= 0) return 0;
+
+  const cutoff = new Date(Date.now() - purgeAfterDays * 24 * 60 * 60 * 1000);
+  let purged = 0;
+
+  // Projects first, so jobs deleted with them go in the same purge
+  for (const type of ['project', 'job', 'contact'] as const) {
+    const table = TABLES[type];
+    const expired = await db
+      .select({ id: table.id })
+      .from(table)
+      .where(and(isNotNull(table.deletedAt), lt(table.deletedAt, cutoff)));
+
+    for (const { id } of expired) {
+      try {
+        const result = await purgeFromRecycleBin(type, id);
+        await logRecordDeletion(AUDIT_TABLE_NAMES[type], id, result.record);
+        for (const job of result.jobs) {
+          await logRecordDeletion('jobs', job.id, job);
+        }
+        purged += 1 + result.jobs.length;
+      } catch (error) {
+        // Already purged along with its project, or removed by hand meanwhile
+        if (!(error instanceof RecycleBinError)) throw error;
+      }
+    }
+  }
+
+  return purged;
+};
+
+/**
+ * Run auto-purge now and then every few hours while the server is up
+ */
+export const startRecycleBinPurge = (): void => {
+  const run = async () => {
+    try {
+      const purged = await purgeExpiredItems();
+      if (purged > 0) {
+        console.log(`Recycle bin: purged ${purged} expired item${purged === 1 ? '' : 's'}`);
+      }
+    } catch (error) {
+      console.error('Error purging recycle bin:', error);
+    }
+  };
+
+  run();
+  setInterval(run, PURGE_INTERVAL_MS).unref();
+};
@@ -0,0 +1,443 @@
+import { db } from '../db/index.js';
+import { jobs, projects, clients, jobStatuses, jobStatusHistory } from '../db/schema.js';
+import { and, eq, inArray, isNotNull, isNull, or, sql, desc } from 'drizzle-orm';
+import { ACTUAL_DATE_FIELD, getBusinessToday, parseIsoDate, toIsoDate, type JobDateField } from '../utils/dates.js';
+import { countWorkingDays, loadScheduleContext, loadWorkingCalendar } from './schedulingService.js';
+
+export interface ReportRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;   // YYYY-MM-DD, inclusive
+}
+
+export type ReportStage = 'nesting' | 'machining' | 'assembly' | 'delivery';
+
+// The status that marks each stage as done, and the job date it was planned for
+const STAGE_COMPLETIONS: { stage: ReportStage; status: string; dateField: JobDateField }[] = [
+  { stage: 'nesting', status: 'nesting-complete', dateField: 'nestingDate' },
+  { stage: 'machining', status: 'machining-complete', dateField: 'machiningDate' },
+  { stage: 'assembly', status: 'assembly-complete', dateField: 'assemblyDate' },
+  { stage: 'delivery', status: 'delivered', dateField: 'deliveryDate' },
+];
+
+const DELIVERED_STATUS = 'delivered';
+
+const stageForStatus = (status: string) => STAGE_COMPLETIONS.find(s => s.status === status)?.stage;
+
+// Status changes within the range. Queries below also skip initial statuses (no from
+// status): those are what a job was created or imported with, not a stage being completed.
+const changedInRange = (range: ReportRange) =>
+  sql`${jobStatusHistory.changedAt}::date BETWEEN ${range.from} AND ${range.to}`;
+
+/**
+ * Jobs that completed each stage per week (weeks start on Monday)
+ */
+export const getThroughputByWeek = async (range: ReportRange) => {
+  const weekStart = sql<string>`to_char(date_trunc('week', ${jobStatusHistory.changedAt}), 'YYYY-MM-DD')`;
+
+  const rows = await db
+    .select({
+      weekStart,
+      status: jobStatuses.name,
+      count: sql<number>`COUNT(DISTINCT ${jobStatusHistory.jobId})`.mapWith(Number),
+    })
+    .from(jobStatusHistory)
+    .innerJoin(jobStatuses, eq(jobStatusHistory.toStatusId, jobStatuses.id))
+    .where(and(
+      changedInRange(range),
+      isNotNull(jobStatusHistory.fromStatusId),
+      inArray(jobStatuses.name, STAGE_COMPLETIONS.map(s => s.status))
+    ))
+    .groupBy(weekStart, jobStatuses.name);
+
+  // Every week in the range, including weeks with no completions
+  const weeks: ({ weekStart: string } & Record<ReportStage, number>)[] = [];
+  const start = parseIsoDate(range.from)!;
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  const end = parseIsoDate(range.to)!;
+
+  for (const week = start; week <= end; week.setUTCDate(week.getUTCDate() + 7)) {
+    weeks.push({ weekStart: toIsoDate(week), nesting: 0, machining: 0, assembly: 0, delivery: 0 });
+  }
+
+  for (const row of rows) {
+    const stage = stageForStatus(row.status);
+    const week = weeks.find(w => w.weekStart === row.weekStart);
+    if (stage && week) {
+      week[stage] = row.count;
+    }
+  }
+
+  const totals = { nesting: 0, machining: 0, assembly: 0, delivery: 0 };
+  for (const week of weeks) {
+    for (const { stage } of STAGE_COMPLETIONS) {
+      totals[stage] += week[stage];
+    }
+  }
+
+  return { ...range, weeks, totals };
+};
+
+/**
+ * Jobs first marked delivered within the range, with how late they were in working days
+ */
+const getDeliveredJobs = async (range: ReportRange) => {
+  const deliveredOn = sql<string>`to_char(MIN(${jobStatusHistory.changedAt}), 'YYYY-MM-DD')`;
+
+  const [rows, calendar] = await Promise.all([
+    db
+      .select({
+        jobId: jobs.id,
+        unit: jobs.unit,
+        items: jobs.items,
+        plannedDate: jobs.deliveryDate,
+        deliveredOn,
+        projectId: projects.id,
+        projectName: projects.name,
+        clientId: clients.id,
+        clientName: clients.name,
+      })
+      .from(jobStatusHistory)
+      .innerJoin(jobStatuses, eq(jobStatusHistory.toStatusId, jobStatuses.id))
+      .innerJoin(jobs, eq(jobStatusHistory.jobId, jobs.id))
+      .leftJoin(projects, eq(jobs.projectId, projects.id))
+      .leftJoin(clients, eq(projects.clientId, clients.id))
+      .where(and(
+        eq(jobStatuses.name, DELIVERED_STATUS),
+        isNotNull(jobStatusHistory.fromStatusId),
+        isNull(jobs.deletedAt)
+      ))
+      .groupBy(jobs.id, projects.id, clients.id)
+      .having(sql`MIN(${jobStatusHistory.changedAt})::date BETWEEN ${range.from} AND ${range.to}`),
+    loadWorkingCalendar(),
+  ]);
+
+  return rows.map(row => {
+    const planned = parseIsoDate(row.plannedDate);
+    const actual = parseIsoDate(row.deliveredOn)!;
+    const daysLate = planned ? Math.max(0, countWorkingDays(planned, actual, calendar)) : null;
+    return { ...row, daysLate };
+  });
+};
+
+/**
+ * Share of jobs delivered on or before their planned delivery date
+ */
+export const getOnTimeDelivery = async (range: ReportRange) => {
+  const delivered = await getDeliveredJobs(range);
+  const withPlan = delivered.filter(job => job.daysLate !== null);
+  const late = withPlan.filter(job => job.daysLate! > 0);
+  const onTime = withPlan.length - late.length;
+
+  return {
+    ...range,
+    delivered: delivered.length,
+    onTime,
+    late: late.length,
+    unplanned: delivered.length - withPlan.length, // Delivered jobs without a planned delivery date
+    onTimeRate: withPlan.length > 0 ? Math.round((onTime / withPlan.length) * 1000) / 10 : null,
+    averageDaysLate: late.length > 0
+      ? Math.round((late.reduce((sum, job) => sum + job.daysLate!, 0) / late.length) * 10) / 10
+      : 0,
+    lateJobs: late.sort((a, b) => b.daysLate! - a.daysLate!),
+  };
+};
+
+/**
+ * Late jobs per client: delivered late within the range, plus jobs due in the
+ * range that are past their delivery date and still not delivered
+ */
+export const getLateJobsByClient = async (range: ReportRange) => {
+  const today = getBusinessToday();
+
+  const [delivered, overdue, calendar] = await Promise.all([
+    getDeliveredJobs(range),
+    db
+      .select({
+        jobId: jobs.id,
+        plannedDate: jobs.deliveryDate,
+        clientId: clients.id,
+        clientName: clients.name,
+      })
+      .from(jobs)
+      .leftJoin(jobStatuses, eq(jobs.statusId, jobStatuses.id))
+      .leftJoin(projects, eq(jobs.projectId, projects.id))
+      .leftJoin(clients, eq(projects.clientId, clients.id))
+      .where(and(
+        sql`${jobs.deliveryDate} BETWEEN ${range.from} AND ${range.to}`,
+        sql`${jobs.deliveryDate} < ${today}`,
+        sql`COALESCE(${jobStatuses.name}, '') <> ${DELIVERED_STATUS}`,
+        isNull(jobs.deletedAt)
+      )),
+    loadWorkingCalendar(),
+  ]);
+
+  const byClient = new Map<number | null, {
+    clientId: number | null;
+    clientName: string;
+    deliveredLate: number;
+    overdue: number;
+    totalDaysLate: number;
+  }>();
+
+  const getClient = (clientId: number | null, clientName: string | null) => {
+    if (!byClient.has(clientId)) {
+      byClient.set(clientId, {
+        clientId,
+        clientName: clientName || 'No client',
+        deliveredLate: 0,
+        overdue: 0,
+        totalDaysLate: 0,
+      });
+    }
+    return byClient.get(clientId)!;
+  };
+
+  for (const job of delivered) {
+    if (!job.daysLate) continue;
+    const client = getClient(job.clientId, job.clientName);
+    client.deliveredLate++;
+    client.totalDaysLate += job.daysLate;
+  }
+
+  const todayDate = parseIsoDate(today)!;
+  for (const job of overdue) {
+    const client = getClient(job.clientId, job.clientName);
+    client.overdue++;
+    client.totalDaysLate += countWorkingDays(parseIsoDate(job.plannedDate)!, todayDate, calendar);
+  }
+
+  const clientsWithLateJobs = [...byClient.values()]
+    .map(({ totalDaysLate, ...client }) => {
+      const lateJobs = client.deliveredLate + client.overdue;
+      return {
+        ...client,
+        lateJobs,
+        averageDaysLate: Math.round((totalDaysLate / lateJobs) * 10) / 10,
+      };
+    })
+    .sort((a, b) => b.lateJobs - a.lateJobs);
+
+  return { ...range, clients: clientsWithLateJobs };
+};
+
+/**
+ * Average working days actually taken between consecutive stages, compared with
+ * the configured lead times. A stage pair counts in the range when the later
+ * stage was completed within it.
+ */
+export const getAchievedLeadTimes = async (range: ReportRange) => {
+  const jobsCompletedInRange = db
+    .selectDistinct({ jobId: jobStatusHistory.jobId })
+    .from(jobStatusHistory)
+    .where(and(changedInRange(range), isNotNull(jobStatusHistory.fromStatusId)));
+
+  const [rows, context] = await Promise.all([
+    db
+      .select({
+        jobId: jobStatusHistory.jobId,
+        status: jobStatuses.name,
+        reachedOn: sql<string>`to_char(MIN(${jobStatusHistory.changedAt}), 'YYYY-MM-DD')`,
+      })
+      .from(jobStatusHistory)
+      .innerJoin(jobStatuses, eq(jobStatusHistory.toStatusId, jobStatuses.id))
+      .where(and(
+        isNotNull(jobStatusHistory.fromStatusId),
+        inArray(jobStatuses.name, STAGE_COMPLETIONS.map(s => s.status)),
+        inArray(jobStatusHistory.jobId, jobsCompletedInRange)
+      ))
+      .groupBy(jobStatusHistory.jobId, jobStatuses.name),
+    loadScheduleContext(),
+  ]);
+
+  // First date each job reached each stage
+  const reached = new Map<number, Partial<Record<ReportStage, string>>>();
+  for (const row of rows) {
+    const stage = stageForStatus(row.status);
+    if (!stage) continue;
+    reached.set(row.jobId, { ...reached.get(row.jobId), [stage]: row.reachedOn });
+  }
+
+  const transitions = STAGE_COMPLETIONS.slice(1).map((to, index) => {
+    const from = STAGE_COMPLETIONS[index];
+    const durations: number[] = [];
+
+    for (const stages of reached.values()) {
+      const fromDate = parseIsoDate(stages[from.stage]);
+      const toDate = parseIsoDate(stages[to.stage]);
+      if (!fromDate || !toDate) continue;
+      if (stages[to.stage]! < range.from || stages[to.stage]! > range.to) continue;
+      durations.push(countWorkingDays(fromDate, toDate, context.calendar));
+    }
+
+    // Configured lead times are offsets from delivery, so the planned gap is their difference
+    const fromOffset = context.offsets[from.dateField];
+    const toOffset = to.dateField === 'deliveryDate' ? 0 : context.offsets[to.dateField];
+    const plannedDays = fromOffset !== undefined && toOffset !== undefined ? toOffset - fromOffset : null;
+
+    return {
+      from: from.stage,
+      to: to.stage,
+      jobCount: durations.length,
+      averageDays: durations.length > 0
+        ? Math.round((durations.reduce((sum, days) => sum + days, 0) / durations.length) * 10) / 10
+        : null,
+      minDays: durations.length > 0 ? Math.min(...durations) : null,
+      maxDays: durations.length > 0 ? Math.max(...durations) : null,
+      plannedDays,
+    };
+  });
+
+  return { ...range, transitions };
+};
+
+/**
+ * Job counts per project: jobs due for delivery in the range, jobs delivered in
+ * the range, and overall progress
+ */
+export const getJobsPerProject = async (range: ReportRange) => {
+  const deliveredStatusIds = db
+    .select({ id: jobStatuses.id })
+    .from(jobStatuses)
+    .where(eq(jobStatuses.name, DELIVERED_STATUS));
+  const deliveredInRange = sql<number>`COUNT(*) FILTER (WHERE EXISTS (
+    SELECT 1 FROM ${jobStatusHistory}
+    WHERE ${jobStatusHistory.jobId} = ${jobs.id}
+      AND ${jobStatusHistory.toStatusId} IN ${deliveredStatusIds}
+      AND ${jobStatusHistory.fromStatusId} IS NOT NULL
+      AND ${changedInRange(range)}
+  ))`.mapWith(Number);
+  const dueInRange = sql<number>`COUNT(*) FILTER (WHERE ${jobs.deliveryDate} BETWEEN ${range.from} AND ${range.to})`.mapWith(Number);
+
+  const rows = await db
+    .select({
+      projectId: projects.id,
+      projectName: projects.name,
+      projectStatus: projects.status,
+      clientId: clients.id,
+      clientName: clients.name,
+      totalJobs: sql<number>`COUNT(*)`.mapWith(Number),
+      completedJobs: sql<number>`COUNT(*) FILTER (WHERE ${jobStatuses.isFinal})`.mapWith(Number),
+      dueInRange,
+      deliveredInRange,
+    })
+    .from(jobs)
+    .innerJoin(projects, eq(jobs.projectId, projects.id))
+    .leftJoin(clients, eq(projects.clientId, clients.id))
+    .leftJoin(jobStatuses, eq(jobs.statusId, jobStatuses.id))
+    .where(and(isNull(jobs.deletedAt), isNull(projects.deletedAt)))
+    .groupBy(projects.id, clients.id)
+    .orderBy(desc(dueInRange), projects.name);
+
+  return {
+    ...range,
+    projects: rows
+      .filter(row => row.dueInRange > 0 || row.deliveredInRange > 0)
+      .map(row => ({
+        ...row,
+        progress: row.totalJobs > 0 ? Math.round((row.completedJobs / row.totalJobs) * 100) : 0,
+      })),
+  };
+};
+
+// How many of the most late stage completions the slippage report lists
+const MAX_SLIPPED_JOBS = 20;
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Slippage per stage: working days between each job's planned and actual stage dates, for
+ * stages actually completed within the range. Positive days are late, negative early.
+ */
+export const getStageSlippage = async (range: ReportRange) => {
+  const actualInRange = (stage: typeof STAGE_COMPLETIONS[number]) =>
+    sql`${jobs[ACTUAL_DATE_FIELD[stage.dateField]]} BETWEEN ${range.from} AND ${range.to}`;
+
+  const [rows, calendar] = await Promise.all([
+    db
+      .select({
+        jobId: jobs.id,
+        unit: jobs.unit,
+        items: jobs.items,
+        nestingDate: jobs.nestingDate,
+        machiningDate: jobs.machiningDate,
+        assemblyDate: jobs.assemblyDate,
+        deliveryDate: jobs.deliveryDate,
+        nestingActualDate: jobs.nestingActualDate,
+        machiningActualDate: jobs.machiningActualDate,
+        assemblyActualDate: jobs.assemblyActualDate,
+        deliveryActualDate: jobs.deliveryActualDate,
+        projectId: projects.id,
+        projectName: projects.name,
+        clientId: clients.id,
+        clientName: clients.name,
+      })
+      .from(jobs)
+      .leftJoin(projects, eq(jobs.projectId, projects.id))
+      .leftJoin(clients, eq(projects.clientId, clients.id))
+      .where(and(isNull(jobs.deletedAt), or(...STAGE_COMPLETIONS.map(actualInRange)))),
+    loadWorkingCalendar(),
+  ]);
+
+  const slippedJobs: {
+    jobId: number;
+    unit: string | null;
+    items: string;
+    projectId: number | null;
+    projectName: string | null;
+    clientId: number | null;
+    clientName: string | null;
+    stage: ReportStage;
+    plannedDate: string;
+    actualDate: string;
+    daysLate: number;
+  }[] = [];
+
+  const stages = STAGE_COMPLETIONS.map(({ stage, dateField }) => {
+    const slips: number[] = [];
+    let unplanned = 0;
+
+    for (const row of rows) {
+      const actualDate = row[ACTUAL_DATE_FIELD[dateField]];
+      if (!actualDate || actualDate < range.from || actualDate > range.to) continue;
+
+      const plannedDate = row[dateField];
+      if (!plannedDate) {
+        unplanned++;
+        continue;
+      }
+
+      const slip = countWorkingDays(parseIsoDate(plannedDate)!, parseIsoDate(actualDate)!, calendar);
+      slips.push(slip);
+      if (slip > 0) {
+        const { jobId, unit, items, projectId, projectName, clientId, clientName } = row;
+        slippedJobs.push({ jobId, unit, items, projectId, projectName, clientId, clientName, stage, plannedDate, actualDate, daysLate: slip });
+      }
+    }
+
+    const onTime = slips.filter(days => days <= 0).length;
+    return {
+      stage,
+      completed: slips.length + unplanned,
+      unplanned, // Completed without a planned date for the stage
+      onTime,
+      late: slips.length - onTime,
+      onTimeRate: slips.length > 0 ? Math.round((onTime / slips.length) * 1000) / 10 : null,
+      averageSlip: slips.length > 0
+        ? Math.round((slips.reduce((sum, days) => sum + days, 0) / slips.length) * 10) / 10
+        : null,
+      medianSlip: median(slips),
+      maxSlip: slips.length > 0 ? Math.max(...slips) : null,
+    };
+  });
+
+  return {
+    ...range,
+    stages,
+    mostLate: slippedJobs.sort((a, b) => b.daysLate - a.daysLate).slice(0, MAX_SLIPPED_JOBS),
+  };
+};
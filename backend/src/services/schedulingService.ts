@@ -0,0 +1,277 @@
+import { db } from '../db/index.js';
+import { holidays, leadTimes, jobStatuses, jobs, type Job } from '../db/schema.js';
+import { eq, and, isNull, asc } from 'drizzle-orm';
+import type { Request } from 'express';
+import { logAuditChanges } from './auditService.js';
+import { JOB_DATE_FIELDS, type JobDateField, parseIsoDate, toIsoDate } from '../utils/dates.js';
+
+export type StageDateField = JobDateField;
+
+export const STAGE_DATE_FIELDS = JOB_DATE_FIELDS;
+
+// Map status names to the date field that status is scheduled against
+export const STATUS_TO_DATE_FIELD: Record<string, StageDateField> = {
+  'not-assigned': 'nestingDate',
+  'nesting-complete': 'nestingDate',
+  'machining-complete': 'machiningDate',
+  'assembly-complete': 'assemblyDate',
+  'delivered': 'deliveryDate',
+};
+
+export interface WorkingCalendar {
+  holidayDates: Set<string>; // YYYY-MM-DD
+}
+
+export interface ScheduleContext {
+  calendar: WorkingCalendar;
+  deliveryStatusId: number;
+  // Working-day offsets from delivery, keyed by stage date field
+  offsets: Partial<Record<StageDateField, number>>;
+}
+
+export interface ScheduleFieldChange {
+  field: StageDateField;
+  current: string | null;
+  proposed: string | null;
+}
+
+export interface JobSchedulePreview {
+  jobId: number;
+  unit: string | null;
+  items: string;
+  deliveryDate: string | null;
+  changes: ScheduleFieldChange[];
+  error?: string;
+}
+
+type SchedulableJob = Pick<typeof jobs.$inferSelect,
+  'id' | 'unit' | 'items' | 'nestingDate' | 'machiningDate' | 'assemblyDate' | 'deliveryDate'>;
+
+/**
+ * Check whether a date is a working day (not a weekend or holiday)
+ */
+export const isWorkingDay = (date: Date, calendar: WorkingCalendar): boolean => {
+  const dayOfWeek = date.getUTCDay();
+  if (dayOfWeek === 0 || dayOfWeek === 6) return false;
+  return !calendar.holidayDates.has(toIsoDate(date));
+};
+
+/**
+ * Add (or subtract, for negative values) working days, skipping weekends and holidays
+ */
+export const addWorkingDays = (date: Date, days: number, calendar: WorkingCalendar): Date => {
+  const result = new Date(date);
+  let remaining = Math.abs(days);
+  const direction = days >= 0 ? 1 : -1;
+
+  while (remaining > 0) {
+    result.setUTCDate(result.getUTCDate() + direction);
+    if (isWorkingDay(result, calendar)) {
+      remaining--;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Count working days from one date to another (negative when the end is earlier).
+ * The start date itself is not counted, matching addWorkingDays.
+ */
+export const countWorkingDays = (start: Date, end: Date, calendar: WorkingCalendar): number => {
+  const direction = end >= start ? 1 : -1;
+  const current = new Date(start);
+  let count = 0;
+
+  while (direction > 0 ? current < end : current > end) {
+    current.setUTCDate(current.getUTCDate() + direction);
+    if (isWorkingDay(current, calendar)) {
+      count += direction;
+    }
+  }
+
+  return count;
+};
+
+/**
+ * Load the holiday calendar from the holidays table
+ */
+export const loadWorkingCalendar = async (): Promise<WorkingCalendar> => {
+  const rows = await db
+    .select({ date: holidays.date })
+    .from(holidays)
+    .orderBy(asc(holidays.date));
+
+  return { holidayDates: new Set(rows.map(row => row.date)) };
+};
+
+/**
+ * Build the scheduling context: holidays plus active lead times relative to the delivery status
+ */
+export const loadScheduleContext = async (): Promise<ScheduleContext> => {
+  const [calendar, statuses, activeLeadTimes] = await Promise.all([
+    loadWorkingCalendar(),
+    db.select().from(jobStatuses).orderBy(asc(jobStatuses.orderIndex)),
+    db.select().from(leadTimes).where(eq(leadTimes.isActive, true)),
+  ]);
+
+  const deliveryStatus = statuses.find(status => status.name.toLowerCase() === 'delivered')
+    || statuses.find(status => status.isFinal);
+
+  if (!deliveryStatus) {
+    throw new Error('Could not find delivery status in job statuses');
+  }
+
+  const offsets: Partial<Record<StageDateField, number>> = {};
+
+  for (const status of statuses) {
+    if (status.id === deliveryStatus.id) continue;
+
+    const dateField = STATUS_TO_DATE_FIELD[status.name];
+    if (!dateField || dateField === 'deliveryDate') continue;
+
+    const leadTime = activeLeadTimes.find(lt =>
+      lt.fromStatusId === status.id && lt.toStatusId === deliveryStatus.id
+    );
+    if (!leadTime) continue;
+
+    const offset = leadTime.direction === 'after' ? leadTime.days : -leadTime.days;
+
+    // Several statuses can map to the same field (e.g. not-assigned and nesting-complete);
+    // the later status in the workflow wins, matching the original client-side behaviour.
+    offsets[dateField] = offset;
+  }
+
+  return { calendar, deliveryStatusId: deliveryStatus.id, offsets };
+};
+
+/**
+ * Back-schedule the stage dates from a delivery date
+ */
+export const calculateStageDates = (
+  deliveryDate: string,
+  context: ScheduleContext
+): Record<StageDateField, string | null> => {
+  const delivery = parseIsoDate(deliveryDate);
+  if (!delivery) {
+    throw new Error('Invalid delivery date format. Please use YYYY-MM-DD.');
+  }
+
+  const result: Record<StageDateField, string | null> = {
+    nestingDate: null,
+    machiningDate: null,
+    assemblyDate: null,
+    deliveryDate: toIsoDate(delivery),
+  };
+
+  for (const field of STAGE_DATE_FIELDS) {
+    const offset = context.offsets[field];
+    if (field === 'deliveryDate' || offset === undefined) continue;
+    result[field] = toIsoDate(addWorkingDays(delivery, offset, context.calendar));
+  }
+
+  return result;
+};
+
+/**
+ * Compare a job's current dates with the calculated schedule
+ */
+export const buildJobSchedulePreview = (
+  job: SchedulableJob,
+  context: ScheduleContext,
+  deliveryDateOverride?: string
+): JobSchedulePreview => {
+  const deliveryDate = deliveryDateOverride || job.deliveryDate;
+  const preview: JobSchedulePreview = {
+    jobId: job.id,
+    unit: job.unit,
+    items: job.items,
+    deliveryDate: deliveryDate || null,
+    changes: [],
+  };
+
+  if (!deliveryDate) {
+    preview.error = 'Job has no delivery date';
+    return preview;
+  }
+
+  let proposed: Record<StageDateField, string | null>;
+  try {
+    proposed = calculateStageDates(deliveryDate, context);
+  } catch (error) {
+    preview.error = error instanceof Error ? error.message : 'Failed to calculate dates';
+    return preview;
+  }
+
+  for (const field of STAGE_DATE_FIELDS) {
+    // Stages without a configured lead time keep their current date
+    if (proposed[field] === null) continue;
+    if (proposed[field] !== job[field]) {
+      preview.changes.push({ field, current: job[field], proposed: proposed[field] });
+    }
+  }
+
+  return preview;
+};
+
+/**
+ * Apply previewed schedules in one transaction, so either every job gets its dates or none
+ * does, then log the changes to the audit trail. Previews with an error or nothing to change,
+ * and jobs deleted since, are skipped.
+ */
+export const applyJobSchedules = async (
+  previews: JobSchedulePreview[],
+  userId?: number,
+  userEmail?: string,
+  req?: Request
+): Promise<{ oldJob: Job; updatedJob: Job }[]> => {
+  const applicable = previews.filter(preview => !preview.error && preview.changes.length > 0);
+  if (applicable.length === 0) return [];
+
+  const applied = await db.transaction(async (tx) => {
+    const results: { oldJob: Job; updatedJob: Job }[] = [];
+    const now = new Date();
+
+    for (const preview of applicable) {
+      const [oldJob] = await tx
+        .select()
+        .from(jobs)
+        .where(and(eq(jobs.id, preview.jobId), isNull(jobs.deletedAt)))
+        .for('update');
+      if (!oldJob) continue;
+
+      const updates: Partial<Record<StageDateField, string | null>> = {};
+      for (const change of preview.changes) {
+        updates[change.field] = change.proposed;
+      }
+
+      const [updatedJob] = await tx
+        .update(jobs)
+        .set({ ...updates, updatedAt: now })
+        .where(eq(jobs.id, preview.jobId))
+        .returning();
+      results.push({ oldJob, updatedJob });
+    }
+
+    return results;
+  });
+
+  for (const { oldJob, updatedJob } of applied) {
+    await logAuditChanges('jobs', updatedJob.id, oldJob, updatedJob, userId, userEmail, req);
+  }
+
+  return applied;
+};
+
+/**
+ * Apply a previewed schedule to a job, logging the changes to the audit trail
+ */
+export const applyJobSchedule = async (
+  preview: JobSchedulePreview,
+  userId?: number,
+  userEmail?: string,
+  req?: Request
+): Promise<Job | null> => {
+  const [applied] = await applyJobSchedules([preview], userId, userEmail, req);
+  return applied?.updatedJob ?? null;
+};
@@ -0,0 +1,29 @@
+import { db } from '../db/index.js';
+import { appSettings } from '../db/schema.js';
+import { eq } from 'drizzle-orm';
+
+/**
+ * Read an application setting, or the fallback when it has never been saved
+ */
+export const getSetting = async <T>(key: string, fallback: T): Promise<T> => {
+  const [row] = await db
+    .select({ value: appSettings.value })
+    .from(appSettings)
+    .where(eq(appSettings.key, key))
+    .limit(1);
+
+  return row ? (row.value as T) : fallback;
+};
+
+/**
+ * Save an application setting, replacing any previous value
+ */
+export const setSetting = async (key: string, value: unknown, userId?: number): Promise<void> => {
+  await db
+    .insert(appSettings)
+    .values({ key, value, updatedBy: userId ?? null })
+    .onConflictDoUpdate({
+      target: appSettings.key,
+      set: { value, updatedBy: userId ?? null, updatedAt: new Date() },
+    });
+};
@@ -0,0 +1,84 @@
+import ExcelJS from 'exceljs';
+import { formatDisplayDate, excelSerialToDate } from '../utils/dates.js';
+
+/**
+ * Read uploaded .xlsx workbooks into plain text rows for the import wizard, which handles
+ * CSV itself. Every cell comes back as the text a builder would see in Excel: dates as
+ * DD/MM/YYYY, formulas as their result and rich text flattened.
+ */
+
+export interface SpreadsheetSheet {
+  name: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export class SpreadsheetError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'SpreadsheetError';
+  }
+}
+
+// A number format that shows a date, e.g. "dd/mm/yyyy" or "d-mmm-yy", rather than a plain number
+const isDateFormat = (numFmt: string | undefined): boolean => {
+  if (!numFmt) return false;
+  const format = numFmt.replace(/"[^"]*"|\[[^\]]*\]|\\./g, '');
+  return /[dy]/i.test(format) && !/[0#?]/.test(format);
+};
+
+const cellText = (value: ExcelJS.CellValue, numFmt?: string): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatDisplayDate(value);
+  if (typeof value === 'number') {
+    return isDateFormat(numFmt) ? formatDisplayDate(excelSerialToDate(value)) : String(value);
+  }
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (typeof value === 'string') return value;
+
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('error' in value) return value.error;
+  if ('formula' in value || 'sharedFormula' in value) {
+    return cellText((value as ExcelJS.CellFormulaValue).result as ExcelJS.CellValue, numFmt);
+  }
+  if ('text' in value) return String(value.text);
+  return '';
+};
+
+/**
+ * Read every visible worksheet. The first non-empty row is taken as the headers; empty rows are dropped.
+ */
+export const parseWorkbook = async (buffer: Buffer): Promise<SpreadsheetSheet[]> => {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+  } catch {
+    throw new SpreadsheetError('The file is not a readable .xlsx workbook');
+  }
+
+  const sheets: SpreadsheetSheet[] = [];
+  workbook.eachSheet(worksheet => {
+    if (worksheet.state !== 'visible') return;
+
+    const rows: string[][] = [];
+    worksheet.eachRow({ includeEmpty: false }, row => {
+      const cells: string[] = [];
+      for (let column = 1; column <= row.cellCount; column++) {
+        const cell = row.getCell(column);
+        cells.push(cellText(cell.value, cell.numFmt).trim());
+      }
+      if (cells.some(Boolean)) rows.push(cells);
+    });
+
+    const [headers = [], ...dataRows] = rows;
+    const width = dataRows.reduce((max, row) => Math.max(max, row.length), headers.length);
+    const pad = (row: string[]) => [...row, ...Array<string>(width - row.length).fill('')];
+
+    sheets.push({ name: worksheet.name, headers: pad(headers), rows: dataRows.map(pad) });
+  });
+
+  if (sheets.length === 0) {
+    throw new SpreadsheetError('The workbook has no visible sheets');
+  }
+  return sheets;
+};
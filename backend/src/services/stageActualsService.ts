@@ -0,0 +1,111 @@
+import {
+  JOB_DATE_FIELDS,
+  JOB_ACTUAL_DATE_FIELDS,
+  ACTUAL_DATE_FIELD,
+  normalizeApiDate,
+  parseIsoDate,
+  getBusinessToday,
+  type JobDateField,
+  type JobActualDateField,
+} from '../utils/dates.js';
+import { countWorkingDays, type WorkingCalendar } from './schedulingService.js';
+import type { JobWorkflow } from './jobWorkflowService.js';
+
+/**
+ * Actual stage completion dates. Each production stage has a planned date (nestingDate, ...)
+ * and an actual date (nestingActualDate, ...) recorded when the job enters the status that
+ * marks the stage done. Supervisors can correct actual dates afterwards.
+ */
+
+export type ActualDates = Partial<Record<JobActualDateField, string | null>>;
+
+export type StageVariances = Record<JobDateField, number | null>;
+
+export type ProductionStage = 'nesting' | 'machining' | 'assembly' | 'delivery';
+
+// The status that marks each stage as done, in production order
+export const STAGE_STATUSES: { stage: ProductionStage; status: string; dateField: JobDateField }[] = [
+  { stage: 'nesting', status: 'nesting-complete', dateField: 'nestingDate' },
+  { stage: 'machining', status: 'machining-complete', dateField: 'machiningDate' },
+  { stage: 'assembly', status: 'assembly-complete', dateField: 'assemblyDate' },
+  { stage: 'delivery', status: 'delivered', dateField: 'deliveryDate' },
+];
+
+export class ActualDatesError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ActualDatesError';
+  }
+}
+
+/**
+ * Actual dates to save with a status change. Entering a stage's completed status records
+ * today against that stage unless it already has a date. Moving back clears the stages after
+ * the one moved to; moving to the default status clears them all. Other statuses leave the
+ * actual dates alone.
+ */
+export const getStatusChangeActualDates = (
+  workflow: JobWorkflow,
+  fromStatusId: number | null,
+  toStatusId: number,
+  job: ActualDates,
+  today = getBusinessToday()
+): ActualDates => {
+  const target = workflow.get(toStatusId);
+  if (fromStatusId === toStatusId || !target) return {};
+
+  // -1 for the default status, where no stage is done yet
+  const reached = STAGE_STATUSES.findIndex(stage => stage.status === target.name);
+  if (reached === -1 && !target.isDefault) return {};
+
+  const updates: ActualDates = {};
+  STAGE_STATUSES.forEach(({ dateField }, index) => {
+    const field = ACTUAL_DATE_FIELD[dateField];
+    if (index === reached && !job[field]) {
+      updates[field] = today;
+    } else if (index > reached && job[field]) {
+      updates[field] = null;
+    }
+  });
+  return updates;
+};
+
+/**
+ * Validate a PUT /api/jobs/:id/actual-dates body. Only supplied fields are returned.
+ */
+export const parseActualDatesInput = (body: Record<string, unknown>): ActualDates => {
+  const result: ActualDates = {};
+  for (const field of JOB_ACTUAL_DATE_FIELDS) {
+    const value = normalizeApiDate(body[field], field);
+    if (value !== undefined) {
+      result[field] = value;
+    }
+  }
+  if (Object.keys(result).length === 0) {
+    throw new ActualDatesError(`Nothing to change: set ${JOB_ACTUAL_DATE_FIELDS.join(', ')}`);
+  }
+  return result;
+};
+
+/**
+ * Working days each stage finished after its planned date (negative when early), or null
+ * when either date is missing
+ */
+export const getStageVariances = (
+  job: Partial<Record<JobDateField | JobActualDateField, string | null>>,
+  calendar: WorkingCalendar
+): StageVariances => {
+  const variances = {} as StageVariances;
+  for (const field of JOB_DATE_FIELDS) {
+    const planned = parseIsoDate(job[field]);
+    const actual = parseIsoDate(job[ACTUAL_DATE_FIELD[field]]);
+    variances[field] = planned && actual ? countWorkingDays(planned, actual, calendar) : null;
+  }
+  return variances;
+};
+
+export const withStageVariances = <T extends Partial<Record<JobDateField | JobActualDateField, string | null>>>(
+  rows: T[],
+  calendar: WorkingCalendar
+): (T & { stageVariances: StageVariances })[] =>
+  rows.map(row => ({ ...row, stageVariances: getStageVariances(row, calendar) }));
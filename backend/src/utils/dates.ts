@@ -0,0 +1,173 @@
+/**
+ * Date helpers for job stage dates.
+ *
+ * Stage dates are stored in `date` columns and exchanged over the API as ISO
+ * (YYYY-MM-DD) strings. DD/MM/YYYY is only used for display and is still
+ * accepted from import files, where it is what builders send us.
+ */
+
+export const JOB_DATE_FIELDS = ['nestingDate', 'machiningDate', 'assemblyDate', 'deliveryDate'] as const;
+
+export type JobDateField = typeof JOB_DATE_FIELDS[number];
+
+// The date each stage was actually completed, alongside its planned date
+export const JOB_ACTUAL_DATE_FIELDS = ['nestingActualDate', 'machiningActualDate', 'assemblyActualDate', 'deliveryActualDate'] as const;
+
+export type JobActualDateField = typeof JOB_ACTUAL_DATE_FIELDS[number];
+
+export const ACTUAL_DATE_FIELD: Record<JobDateField, JobActualDateField> = {
+  nestingDate: 'nestingActualDate',
+  machiningDate: 'machiningActualDate',
+  assemblyDate: 'assemblyActualDate',
+  deliveryDate: 'deliveryActualDate',
+};
+
+export class InvalidDateError extends Error {
+  field?: string;
+  value: unknown;
+
+  constructor(value: unknown, field?: string) {
+    super(`Invalid date${field ? ` for ${field}` : ''}: "${String(value)}". Use YYYY-MM-DD.`);
+    this.name = 'InvalidDateError';
+    this.field = field;
+    this.value = value;
+  }
+}
+
+const buildUtcDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+};
+
+/**
+ * Format a UTC date as YYYY-MM-DD
+ */
+export const toIsoDate = (date: Date): string => date.toISOString().split('T')[0];
+
+const DEFAULT_BUSINESS_TIMEZONE = 'Australia/Sydney';
+
+/**
+ * The workshop's timezone (BUSINESS_TIMEZONE, an IANA name). Days and hours are counted in it
+ * rather than on the server's clock, which is usually UTC in hosting.
+ */
+export const getBusinessTimeZone = (): string => {
+  const timeZone = process.env.BUSINESS_TIMEZONE || DEFAULT_BUSINESS_TIMEZONE;
+  try {
+    new Intl.DateTimeFormat('en-AU', { timeZone });
+    return timeZone;
+  } catch {
+    return DEFAULT_BUSINESS_TIMEZONE;
+  }
+};
+
+/**
+ * The date (YYYY-MM-DD) and hour (0-23) in the business timezone
+ */
+export const getBusinessClock = (now = new Date()): { date: string; hour: number } => {
+  const parts = new Intl.DateTimeFormat('en-AU', {
+    timeZone: getBusinessTimeZone(),
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(item => item.type === type)?.value ?? '';
+  return { date: `${part('year')}-${part('month')}-${part('day')}`, hour: parseInt(part('hour'), 10) };
+};
+
+/**
+ * Today's date in the business timezone, as YYYY-MM-DD. Actual dates, overdue stages and
+ * late-job reports all count days from this, so they agree on when a day starts.
+ */
+export const getBusinessToday = (now = new Date()): string => getBusinessClock(now).date;
+
+/**
+ * Parse a YYYY-MM-DD string (a trailing time component is ignored) into a UTC date
+ */
+export const parseIsoDate = (value: string | null | undefined): Date | null => {
+  if (!value) return null;
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:$|T)/.exec(value.trim());
+  if (!match) return null;
+  return buildUtcDate(parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10));
+};
+
+/**
+ * Parse a DD/MM/YYYY (or D/M/YYYY, D-M-YYYY, D.M.YYYY) string into a UTC date
+ */
+export const parseDisplayDate = (value: string | null | undefined): Date | null => {
+  if (!value) return null;
+  const match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(value.trim());
+  if (!match) return null;
+  return buildUtcDate(parseInt(match[3], 10), parseInt(match[2], 10), parseInt(match[1], 10));
+};
+
+/**
+ * Format an ISO date as DD/MM/YYYY for display (emails, exports)
+ */
+export const formatDisplayDate = (value: string | Date | null | undefined): string => {
+  if (!value) return '';
+  const date = value instanceof Date ? value : parseIsoDate(value);
+  if (!date) return '';
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  return `${day}/${month}/${date.getUTCFullYear()}`;
+};
+
+/**
+ * Normalise an API date value to YYYY-MM-DD.
+ * Returns undefined when the value was not supplied and null when it was cleared.
+ */
+export const normalizeApiDate = (value: unknown, field?: string): string | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  if (typeof value !== 'string') throw new InvalidDateError(value, field);
+
+  const date = parseIsoDate(value);
+  if (!date) throw new InvalidDateError(value, field);
+  return toIsoDate(date);
+};
+
+// Days between Excel's 1900 epoch (with its phantom 29/02/1900) and 1970-01-01
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+
+/**
+ * Convert an Excel serial date number to a UTC date, ignoring any time of day
+ */
+export const excelSerialToDate = (serial: number): Date =>
+  new Date(Math.floor(serial - EXCEL_EPOCH_OFFSET_DAYS) * 24 * 60 * 60 * 1000);
+
+// Five-digit serials cover 1927 to 2173, so a bare number like 45678 is read as a date
+const parseExcelSerial = (value: string): Date | null =>
+  /^\d{5}(\.\d+)?$/.test(value) ? excelSerialToDate(parseFloat(value)) : null;
+
+/**
+ * Normalise an imported date value, which may be ISO, DD/MM/YYYY or an Excel serial date.
+ * Returns null for empty values and throws for values that cannot be parsed.
+ */
+export const normalizeImportDate = (value: unknown, field?: string): string | null => {
+  if (value === undefined || value === null) return null;
+  const text = String(value).trim();
+  if (!text) return null;
+
+  const date = parseDisplayDate(text) || parseIsoDate(text) || parseExcelSerial(text);
+  if (!date) throw new InvalidDateError(value, field);
+  return toIsoDate(date);
+};
+
+/**
+ * Normalise the stage date fields present on a request body
+ */
+export const normalizeJobDates = (body: Record<string, unknown>): Partial<Record<JobDateField, string | null>> => {
+  const result: Partial<Record<JobDateField, string | null>> = {};
+  for (const field of JOB_DATE_FIELDS) {
+    const value = normalizeApiDate(body[field], field);
+    if (value !== undefined) {
+      result[field] = value;
+    }
+  }
+  return result;
+};
@@ -0,0 +1,220 @@
+import { sql, and, or, inArray, type SQL, type SQLWrapper } from 'drizzle-orm';
+import { parseIsoDate, toIsoDate } from './dates.js';
+
+/**
+ * Server-side paging, filtering and sorting for the list routes.
+ *
+ * Query parameters mirror the DataTable configuration on the frontend:
+ * - `page`, `pageSize`: paging. Without `page` the route returns a plain array as before.
+ * - `sort=field:asc,field2:desc`: multi-field sort in priority order (MultiSortConfig).
+ * - Filters by FilterConfig type:
+ *   text `key=term`, select `key=value`, multiSelect `key=a&key=b`,
+ *   dateRange `keyFrom=YYYY-MM-DD&keyTo=YYYY-MM-DD`, toggle `key=true`.
+ */
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+export type ListFilter =
+  | { type: 'text'; columns: SQLWrapper[] }
+  | {
+      type: 'select' | 'multiSelect';
+      column: SQLWrapper;
+      // Translate a query value into the stored value; undefined ignores it (e.g. "All")
+      map?: (value: string) => unknown;
+    }
+  | {
+      type: 'dateRange';
+      columns: SQLWrapper[];
+      // 'all': every non-empty date must be in range; 'any': at least one date must be
+      match: 'all' | 'any';
+    }
+  | { type: 'toggle'; condition: SQL };
+
+export interface ListSort {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface ListQueryConfig {
+  filters: Record<string, ListFilter>;
+  sortFields: Record<string, SQLWrapper>;
+  defaultSort: ListSort[];
+  // Appended to every sort so pages are stable when sorted values tie
+  tieBreaker?: SQLWrapper;
+  // Soft-delete timestamp; rows where it is set (in the recycle bin) are always left out
+  deletedColumn?: SQLWrapper;
+}
+
+export interface ListQuery {
+  paginated: boolean;
+  page: number;
+  pageSize: number;
+  sort: ListSort[];
+  where: SQL | undefined;
+  orderBy: SQL[];
+}
+
+export interface ListPage<T> {
+  data: T[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export class ListQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ListQueryError';
+  }
+}
+
+const readString = (query: Record<string, unknown>, key: string): string | undefined => {
+  const value = query[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'boolean' || typeof value === 'number') return String(value);
+  if (typeof value !== 'string') {
+    throw new ListQueryError(`${key} must be a single value`);
+  }
+  const trimmed = value.trim();
+  return trimmed === '' ? undefined : trimmed;
+};
+
+const readValues = (query: Record<string, unknown>, key: string): string[] => {
+  const value = query[key];
+  if (value === undefined || value === null) return [];
+  const values = Array.isArray(value) ? value : [value];
+  if (values.some(item => typeof item !== 'string')) {
+    throw new ListQueryError(`${key} must be a list of values`);
+  }
+  return (values as string[]).map(item => item.trim()).filter(item => item !== '');
+};
+
+const readPositiveInt = (query: Record<string, unknown>, key: string, fallback: number): number => {
+  const value = readString(query, key);
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new ListQueryError(`${key} must be a positive integer`);
+  }
+  return parsed;
+};
+
+const readDate = (query: Record<string, unknown>, key: string): string | undefined => {
+  const value = readString(query, key);
+  if (value === undefined) return undefined;
+  const date = parseIsoDate(value);
+  if (!date) {
+    throw new ListQueryError(`${key} must be a date in YYYY-MM-DD format`);
+  }
+  return toIsoDate(date);
+};
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+const buildFilterCondition = (
+  key: string,
+  filter: ListFilter,
+  query: Record<string, unknown>
+): SQL | undefined => {
+  switch (filter.type) {
+    case 'text': {
+      const term = readString(query, key);
+      if (!term) return undefined;
+      const pattern = `%${escapeLike(term)}%`;
+      return or(...filter.columns.map(column => sql`${column}::text ilike ${pattern}`));
+    }
+    case 'select':
+    case 'multiSelect': {
+      const raw = filter.type === 'select'
+        ? [readString(query, key)].filter((value): value is string => value !== undefined)
+        : readValues(query, key);
+      const values = raw
+        .map(value => (filter.map ? filter.map(value) : value))
+        .filter(value => value !== undefined);
+      if (values.length === 0) return undefined;
+      return inArray(filter.column, values);
+    }
+    case 'dateRange': {
+      const from = readDate(query, `${key}From`);
+      const to = readDate(query, `${key}To`);
+      if (!from && !to) return undefined;
+
+      if (filter.match === 'all') {
+        // least/greatest skip nulls, and are null (excluded) when every date is empty
+        const columns = sql.join(filter.columns.map(column => sql`${column}::date`), sql`, `);
+        return and(
+          from ? sql`least(${columns}) >= ${from}::date` : undefined,
+          to ? sql`greatest(${columns}) <= ${to}::date` : undefined,
+        );
+      }
+
+      return or(...filter.columns.map(column => and(
+        from ? sql`${column}::date >= ${from}::date` : undefined,
+        to ? sql`${column}::date <= ${to}::date` : undefined,
+      )));
+    }
+    case 'toggle': {
+      const value = readString(query, key);
+      return value === 'true' ? filter.condition : undefined;
+    }
+  }
+};
+
+const parseSort = (value: string | undefined, config: ListQueryConfig): ListSort[] => {
+  if (!value) return config.defaultSort;
+
+  return value.split(',').map(part => {
+    const [field, direction = 'asc'] = part.trim().split(':');
+    if (!(field in config.sortFields)) {
+      throw new ListQueryError(`Cannot sort by "${field}". Sortable fields: ${Object.keys(config.sortFields).join(', ')}`);
+    }
+    if (direction !== 'asc' && direction !== 'desc') {
+      throw new ListQueryError(`Sort direction for "${field}" must be asc or desc`);
+    }
+    return { field, direction };
+  });
+};
+
+/**
+ * Parse paging, sort and filter query parameters against a list configuration
+ */
+export const parseListQuery = (query: Record<string, unknown>, config: ListQueryConfig): ListQuery => {
+  const pageSize = readPositiveInt(query, 'pageSize', DEFAULT_PAGE_SIZE);
+  if (pageSize > MAX_PAGE_SIZE) {
+    throw new ListQueryError(`pageSize cannot be more than ${MAX_PAGE_SIZE}`);
+  }
+
+  const sort = parseSort(readString(query, 'sort'), config);
+  const conditions = Object.entries(config.filters)
+    .map(([key, filter]) => buildFilterCondition(key, filter, query))
+    .filter((condition): condition is SQL => condition !== undefined);
+  if (config.deletedColumn) {
+    conditions.push(sql`${config.deletedColumn} is null`);
+  }
+
+  return {
+    paginated: query.page !== undefined,
+    page: readPositiveInt(query, 'page', 1),
+    pageSize,
+    sort,
+    where: conditions.length > 0 ? and(...conditions) : undefined,
+    orderBy: [
+      ...sort.map(({ field, direction }) => sql`${config.sortFields[field]} ${sql.raw(direction)} nulls last`),
+      ...(config.tieBreaker ? [sql`${config.tieBreaker} asc`] : []),
+    ],
+  };
+};
+
+export const buildListPage = <T>(data: T[], total: number, query: ListQuery): ListPage<T> => ({
+  data,
+  pagination: {
+    page: query.page,
+    pageSize: query.pageSize,
+    total,
+    totalPages: Math.max(1, Math.ceil(total / query.pageSize)),
+  },
+});
@@ -0,0 +1,23 @@
+import { sql, type AnyColumn } from 'drizzle-orm';
+
+/**
+ * SQL for the allowedTransitions lists of job and project statuses: jsonb arrays of status ids,
+ * where an empty list allows any move. Deleting a status must not empty a list that only
+ * allowed the deleted one, which would lift the restriction, so callers refuse those deletes
+ * (onlyTransition) and remove the id from the other lists (withoutTransition).
+ */
+
+// Lists that include the status
+export const includesTransition = (column: AnyColumn, statusId: number) =>
+  sql`${column} @> ${JSON.stringify([statusId])}::jsonb`;
+
+// Lists that allow nothing but the status
+export const onlyTransition = (column: AnyColumn, statusId: number) =>
+  sql`${column} = ${JSON.stringify([statusId])}::jsonb`;
+
+// The list without the status
+export const withoutTransition = (column: AnyColumn, statusId: number) => sql`(
+  select coalesce(jsonb_agg(value), '[]'::jsonb)
+  from jsonb_array_elements(${column}) value
+  where value <> ${JSON.stringify(statusId)}::jsonb
+)`;
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { parseWorkbook, SpreadsheetError } from '../src/services/spreadsheetService.js';
+
+// Laid out as Excel saves it: shared strings, the built-in date format on some date cells and
+// a custom d-mmm-yy format on others, cached formula results and a hidden lookup sheet
+const builderSchedule = readFileSync(new URL('./fixtures/builder-schedule.xlsx', import.meta.url));
+
+describe('parseWorkbook', () => {
+  it('returns every visible sheet, in order', async () => {
+    const sheets = await parseWorkbook(builderSchedule);
+    assert.deepEqual(sheets.map(sheet => sheet.name), ['Schedule', 'Variations']);
+  });
+
+  it('reads the first row as headers and pads every row to the widest', async () => {
+    const [schedule] = await parseWorkbook(builderSchedule);
+    assert.deepEqual(schedule.headers, ['Unit', 'Items', 'Status', 'Nesting', 'Delivery', 'Qty', 'Notes', '']);
+    assert.equal(schedule.rows.length, 3);
+    assert.ok(schedule.rows.every(row => row.length === schedule.headers.length));
+  });
+
+  it('formats date cells as DD/MM/YYYY, including formula results and times', async () => {
+    const [schedule] = await parseWorkbook(builderSchedule);
+    assert.equal(schedule.rows[0][3], '21/01/2025'); // Built-in date format
+    assert.equal(schedule.rows[0][4], '04/02/2025'); // =D2+14
+    assert.equal(schedule.rows[1][3], '03/02/2025'); // d-mmm-yy
+    assert.equal(schedule.rows[1][4], '28/02/2025'); // Midday
+  });
+
+  it('leaves plain numbers as numbers', async () => {
+    const [schedule] = await parseWorkbook(builderSchedule);
+    assert.deepEqual(schedule.rows.map(row => row[5]), ['2', '1.5', '1']);
+  });
+
+  it('keeps commas, quotes and line breaks inside cells', async () => {
+    const [schedule] = await parseWorkbook(builderSchedule);
+    assert.equal(schedule.rows[0][1], 'Kitchen, Butlers');
+    assert.equal(schedule.rows[0][6], 'Stone by others\nConfirm splashback height');
+    assert.equal(schedule.rows[1][6], 'Client said "no handles"');
+  });
+
+  it('flattens rich text, text formulas and booleans', async () => {
+    const [schedule] = await parseWorkbook(builderSchedule);
+    assert.equal(schedule.rows[1][1], 'Vanity & Mirror');
+    assert.equal(schedule.rows[2][6], 'Bench 1x');
+    assert.equal(schedule.rows[2][7], 'TRUE');
+  });
+
+  it('drops empty rows, and takes the first non-empty row as headers', async () => {
+    const [schedule, variations] = await parseWorkbook(builderSchedule);
+    assert.deepEqual(schedule.rows.map(row => row[0]), ['L2-01', 'L2-02', 'L3-01']);
+    assert.deepEqual(variations.headers, ['Variation', 'Approved']);
+    assert.deepEqual(variations.rows, [['V-001 Extra pantry shelf', '12/02/2025']]);
+  });
+
+  it('rejects a file that is not a workbook', async () => {
+    await assert.rejects(
+      parseWorkbook(Buffer.from('Unit,Items\r\nL2-01,Kitchen\r\n')),
+      (error: unknown) => error instanceof SpreadsheetError && error.status === 400
+    );
+  });
+});
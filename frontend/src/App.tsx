@@ -168,13 +168,23 @@ const AppContent: React.FC = () => {
     setSelectedJobId(null);
   };
 
+  // A notification opens its job, or its project when it's about the whole project
+  const handleNotificationSelect = (projectId: number, jobId: number | null) => {
+    setCurrentPage('Projects');
+    setSelectedProjectId(projectId);
+    setSelectedJobId(jobId);
+    setSelectedProjectTab('jobs');
+    setSelectedClientId(null);
+    setOpenProfileEdit(false);
+  };
+
   const handleToggleSidebar = () => {
     setSidebarCollapsed(!sidebarCollapsed);
   };
 
   return (
     <div className="min-h-screen bg-light-grey">
-      <TopBar sidebarCollapsed={sidebarCollapsed} onPageChange={handlePageChange} onSettingsNavigation={handleSettingsNavigation} />
+      <TopBar sidebarCollapsed={sidebarCollapsed} onPageChange={handlePageChange} onSettingsNavigation={handleSettingsNavigation} onNotificationSelect={handleNotificationSelect} />
       <Sidebar 
         currentPage={currentPage} 
         onPageChange={handlePageChange} 
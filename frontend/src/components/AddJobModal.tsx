@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { apiRequest, API_ENDPOINTS } from '../utils/api';
+import { displayDateToIso } from '../utils/dateUtils';
 
 interface Project {
   id: number;
@@ -247,18 +248,24 @@ const AddJobModal: React.FC<AddJobModalProps> = ({ isOpen, onClose, onJobAdded,
         items: formData.items,
         status: formData.status,
         statusId: formData.statusId,
-        nestingDate: formData.nestingDate || null,
-        machiningDate: formData.machiningDate || null,
-        assemblyDate: formData.assemblyDate || null,
-        deliveryDate: formData.deliveryDate || null,
+        nestingDate: displayDateToIso(formData.nestingDate),
+        machiningDate: displayDateToIso(formData.machiningDate),
+        assemblyDate: displayDateToIso(formData.assemblyDate),
+        deliveryDate: displayDateToIso(formData.deliveryDate),
         comments: formData.comments || null
       };
 
-      await apiRequest(`/api/projects/${selectedProjectId}/jobs`, {
+      const response = await apiRequest(`/api/projects/${selectedProjectId}/jobs`, {
         method: 'POST',
         body: JSON.stringify(jobData)
       });
 
+      // e.g. a stage is over capacity and set to block
+      if (!response.success) {
+        setError(response.error || 'Failed to create job');
+        return;
+      }
+
       onJobAdded();
       onClose();
         // Reset form
@@ -0,0 +1,302 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import Icon from './Icon';
+import { formatDate } from '../utils/dateUtils';
+import { parseUnitList, type JobTemplate } from '../utils/jobTemplates';
+import CapacityWarnings, { type CapacityConflict } from './CapacityWarnings';
+
+interface TemplateJob {
+  unit: string;
+  items: string;
+  type: string | null;
+  statusId: number;
+  nestingDate: string | null;
+  machiningDate: string | null;
+  assemblyDate: string | null;
+  deliveryDate: string;
+}
+
+interface ApplyJobTemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onJobsAdded: () => void;
+  projectId: number;
+}
+
+const ApplyJobTemplateModal: React.FC<ApplyJobTemplateModalProps> = ({ isOpen, onClose, onJobsAdded, projectId }) => {
+  const { token } = useAuth();
+  const [templates, setTemplates] = useState<JobTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [unitText, setUnitText] = useState('');
+  const [deliveryDate, setDeliveryDate] = useState('');
+  const [projectUnits, setProjectUnits] = useState<string[]>([]);
+  const [previewJobs, setPreviewJobs] = useState<TemplateJob[]>([]);
+  const [capacityConflicts, setCapacityConflicts] = useState<CapacityConflict[]>([]);
+  const [capacityBlocked, setCapacityBlocked] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_URL}/api/job-templates`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load job templates');
+      }
+      setTemplates(data);
+      if (data.length > 0) setTemplateId(String(data[0].id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load job templates');
+    }
+  }, [API_URL, token]);
+
+  // Units set up on the project's Units tab, offered as a one-click unit list
+  const fetchProjectUnits = useCallback(async () => {
+    const response = await fetch(`${API_URL}/api/projects/${projectId}/locations`, {
+      headers: { 'Authorization': `Bearer ${token}` },
+    });
+    if (!response.ok) return;
+    const data: { buildings: { levels: { units: { name: string }[] }[] }[] } = await response.json();
+    setProjectUnits(data.buildings.flatMap(building => building.levels.flatMap(level => level.units.map(unit => unit.name))));
+  }, [API_URL, token, projectId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setUnitText('');
+      setDeliveryDate('');
+      setPreviewJobs([]);
+      setCapacityConflicts([]);
+      setCapacityBlocked(false);
+      setError(null);
+      fetchTemplates();
+      fetchProjectUnits();
+    }
+  }, [isOpen, fetchTemplates, fetchProjectUnits]);
+
+  const units = parseUnitList(unitText);
+  const template = templates.find(candidate => String(candidate.id) === templateId);
+
+  const requestJobs = async (dryRun: boolean) => {
+    const response = await fetch(`${API_URL}/api/projects/${projectId}/jobs/from-template`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ templateId: Number(templateId), units, deliveryDate, dryRun }),
+    });
+
+    const data = await response.json();
+    setCapacityConflicts(data.capacityConflicts || []);
+    setCapacityBlocked(response.status === 409);
+    if (response.status === 409) {
+      throw new Error('No jobs were created because they would put a stage over capacity.');
+    }
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to create jobs from template');
+    }
+    return data;
+  };
+
+  const handlePreview = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await requestJobs(true);
+      setPreviewJobs(data.jobs);
+    } catch (err) {
+      setPreviewJobs([]);
+      setError(err instanceof Error ? err.message : 'Failed to preview jobs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      setCreating(true);
+      setError(null);
+      await requestJobs(false);
+      onJobsAdded();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create jobs');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const canPreview = !!template && units.length > 0 && !!deliveryDate;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">Add Jobs from Template</h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              disabled={creating}
+            >
+              <Icon name="x" className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 overflow-y-auto space-y-4">
+          {templates.length === 0 && !error ? (
+            <p className="text-sm text-gray-600">
+              No job templates yet. Create one in Settings → Job Templates.
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600">
+                Creates one job per unit for every item in the template. Dates are back-scheduled from the target
+                delivery date, skipping weekends and holidays.
+              </p>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Template</label>
+                  <select
+                    value={templateId}
+                    onChange={(e) => {
+                      setTemplateId(e.target.value);
+                      setPreviewJobs([]);
+                    }}
+                    className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  >
+                    {templates.map(candidate => (
+                      <option key={candidate.id} value={candidate.id}>
+                        {candidate.name} ({candidate.items.length} item{candidate.items.length === 1 ? '' : 's'})
+                      </option>
+                    ))}
+                  </select>
+                  {template && (
+                    <p className="mt-1 text-xs text-gray-500">{template.items.map(item => item.items).join(', ')}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Target delivery date</label>
+                  <input
+                    type="date"
+                    value={deliveryDate}
+                    onChange={(e) => {
+                      setDeliveryDate(e.target.value);
+                      setPreviewJobs([]);
+                    }}
+                    className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="block text-sm font-medium text-gray-700">Units</label>
+                  {projectUnits.length > 0 && (
+                    <button
+                      onClick={() => {
+                        setUnitText(projectUnits.join('\n'));
+                        setPreviewJobs([]);
+                      }}
+                      className="text-xs text-orange-600 hover:text-orange-800"
+                    >
+                      Use all {projectUnits.length} project units
+                    </button>
+                  )}
+                </div>
+                <textarea
+                  value={unitText}
+                  onChange={(e) => {
+                    setUnitText(e.target.value);
+                    setPreviewJobs([]);
+                  }}
+                  rows={4}
+                  placeholder={'L1-01..L1-12\nL2-01, L2-02, PH1'}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 font-mono text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  One per line or comma separated. "L1-01..L1-12" adds a range.
+                  {units.length > 0 && template && ` ${units.length} units × ${template.items.length} items = ${units.length * template.items.length} jobs.`}
+                </p>
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  onClick={handlePreview}
+                  disabled={!canPreview || loading || creating}
+                  className="px-4 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded-md disabled:opacity-50"
+                >
+                  {loading ? 'Calculating...' : 'Preview'}
+                </button>
+              </div>
+            </>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-800">{error}</div>
+          )}
+
+          {!loading && capacityConflicts.length > 0 && (
+            <CapacityWarnings conflicts={capacityConflicts} blocked={capacityBlocked} />
+          )}
+
+          {previewJobs.length > 0 && (
+            <div className="max-h-72 overflow-y-auto border border-gray-200 rounded">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Unit</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Items</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Nesting</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Machining</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Assembly</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Delivery</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {previewJobs.map((job, index) => (
+                    <tr key={index}>
+                      <td className="px-3 py-2 text-gray-900">{job.unit}</td>
+                      <td className="px-3 py-2 text-gray-900">{job.items}</td>
+                      <td className="px-3 py-2 text-gray-600">{formatDate(job.nestingDate)}</td>
+                      <td className="px-3 py-2 text-gray-600">{formatDate(job.machiningDate)}</td>
+                      <td className="px-3 py-2 text-gray-600">{formatDate(job.assemblyDate)}</td>
+                      <td className="px-3 py-2 font-medium text-gray-900">{formatDate(job.deliveryDate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            disabled={creating}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={loading || creating || previewJobs.length === 0}
+            className="px-4 py-2 rounded-lg font-medium transition-colors bg-orange-500 text-white hover:bg-orange-600 disabled:bg-orange-300 disabled:cursor-not-allowed"
+          >
+            {creating ? 'Creating...' : `Create ${previewJobs.length} Jobs`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApplyJobTemplateModal;
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import Button from './ui/Button';
+import CapacityWarnings from './CapacityWarnings';
+import type { CapacityConflict } from './CapacityWarnings';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+interface BulkJobStatus {
+  id: number;
+  displayName: string;
+}
+
+interface BulkJobActionBarProps {
+  selectedJobIds: number[];
+  jobStatuses: BulkJobStatus[];
+  // Called after the selected jobs were saved, to reload them
+  onApplied: () => void;
+  onClearSelection: () => void;
+}
+
+/**
+ * Apply one change to every selected job: a new status, a working-day date shift,
+ * or a new type or comment. Blank fields are left unchanged.
+ */
+const BulkJobActionBar: React.FC<BulkJobActionBarProps> = ({
+  selectedJobIds,
+  jobStatuses,
+  onApplied,
+  onClearSelection,
+}) => {
+  const { token } = useAuth();
+  const [statusId, setStatusId] = useState('');
+  const [shiftDays, setShiftDays] = useState('');
+  const [type, setType] = useState('');
+  const [comments, setComments] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [capacityConflicts, setCapacityConflicts] = useState<{ conflicts: CapacityConflict[]; blocked: boolean } | null>(null);
+
+  if (selectedJobIds.length === 0 && !message && !capacityConflicts) return null;
+
+  const changes: Record<string, string | number> = {};
+  if (statusId) changes.statusId = parseInt(statusId);
+  if (shiftDays.trim() && parseInt(shiftDays) !== 0) changes.shiftWorkingDays = parseInt(shiftDays);
+  if (type.trim()) changes.type = type.trim();
+  if (comments.trim()) changes.comments = comments.trim();
+  const hasChanges = Object.keys(changes).length > 0;
+
+  const resetForm = () => {
+    setStatusId('');
+    setShiftDays('');
+    setType('');
+    setComments('');
+  };
+
+  const handleApply = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      setMessage(null);
+      setCapacityConflicts(null);
+
+      const response = await fetch(`${API_URL}/api/jobs/bulk`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ jobIds: selectedJobIds, changes }),
+      });
+
+      const data = await response.json();
+
+      if (response.status === 409 && data.capacityConflicts) {
+        setCapacityConflicts({ conflicts: data.capacityConflicts, blocked: true });
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update jobs');
+      }
+
+      if (data.capacityWarnings) {
+        setCapacityConflicts({ conflicts: data.capacityWarnings, blocked: false });
+      }
+
+      setMessage(`Updated ${data.updated} job${data.updated === 1 ? '' : 's'}`);
+      resetForm();
+      onClearSelection();
+      onApplied();
+    } catch (err) {
+      console.error('Error bulk editing jobs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update jobs');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-[#FF661F] focus:border-transparent';
+
+  return (
+    <div className="mb-4 space-y-2 print:hidden">
+      {selectedJobIds.length > 0 && (
+        <div className="bg-orange-50 border border-orange-200 rounded-lg px-4 py-3 flex flex-wrap items-center gap-3">
+          <span className="text-sm font-medium text-orange-900">
+            {selectedJobIds.length} job{selectedJobIds.length === 1 ? '' : 's'} selected
+          </span>
+
+          <select
+            value={statusId}
+            onChange={(e) => setStatusId(e.target.value)}
+            className={inputClass}
+            disabled={saving}
+            aria-label="Status"
+          >
+            <option value="">Keep status</option>
+            {jobStatuses.map(status => (
+              <option key={status.id} value={status.id}>{status.displayName}</option>
+            ))}
+          </select>
+
+          <label className="flex items-center text-sm text-gray-700">
+            <span className="mr-2">Shift dates</span>
+            <input
+              type="number"
+              step={1}
+              value={shiftDays}
+              onChange={(e) => setShiftDays(e.target.value)}
+              placeholder="0"
+              className={`${inputClass} w-20`}
+              disabled={saving}
+            />
+            <span className="ml-2 text-gray-500">working days</span>
+          </label>
+
+          <input
+            type="text"
+            value={type}
+            onChange={(e) => setType(e.target.value)}
+            placeholder="Keep type"
+            className={`${inputClass} w-32`}
+            disabled={saving}
+            aria-label="Type"
+          />
+
+          <input
+            type="text"
+            value={comments}
+            onChange={(e) => setComments(e.target.value)}
+            placeholder="Keep comments"
+            className={`${inputClass} w-48`}
+            disabled={saving}
+            aria-label="Comments"
+          />
+
+          <div className="flex items-center gap-2 ml-auto">
+            <Button variant="primary" size="sm" onClick={handleApply} loading={saving} disabled={!hasChanges || saving}>
+              Apply
+            </Button>
+            <Button variant="outline" size="sm" onClick={onClearSelection} disabled={saving}>
+              Clear selection
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-2 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-2 rounded-md text-sm flex justify-between">
+          <span>{message}</span>
+          <button onClick={() => setMessage(null)} className="ml-4 opacity-70 hover:opacity-100" aria-label="Dismiss">
+            ✕
+          </button>
+        </div>
+      )}
+
+      {capacityConflicts && (
+        <CapacityWarnings
+          conflicts={capacityConflicts.conflicts}
+          blocked={capacityConflicts.blocked}
+          onDismiss={() => setCapacityConflicts(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default BulkJobActionBar;
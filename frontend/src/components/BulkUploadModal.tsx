@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { displayDateToIso } from '../utils/dateUtils';
+import { readSpreadsheetFile, isSpreadsheetFile, excelSerialToDisplayDate, SPREADSHEET_ACCEPT, type SpreadsheetSheet } from '../utils/spreadsheet';
 
 interface JobData {
   unit: string;
@@ -24,6 +26,8 @@ interface BulkUploadModalProps {
 
 const BulkUploadModal: React.FC<BulkUploadModalProps> = ({ isOpen, onClose, onJobsAdded, projectId }) => {
   const [parsedJobs, setParsedJobs] = useState<JobData[]>([]);
+  const [sheets, setSheets] = useState<SpreadsheetSheet[]>([]);
+  const [selectedSheet, setSelectedSheet] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [uploadStep, setUploadStep] = useState<'select' | 'preview' | 'uploading'>('select');
@@ -41,61 +45,56 @@ const BulkUploadModal: React.FC<BulkUploadModalProps> = ({ isOpen, onClose, onJo
     return regex.test(dateString);
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (!selectedFile) return;
     
     // Reset previous state
     setError('');
     setParsedJobs([]);
+    setSheets([]);
     setUploadStep('select');
     
-    // Accept both CSV and TSV files, and text files that might be tab-separated
-    const validTypes = ['text/csv', 'text/tab-separated-values', 'text/plain', 'application/vnd.ms-excel'];
-    const validExtensions = ['.csv', '.tsv', '.txt'];
-    
-    const fileExtension = selectedFile.name.toLowerCase().split('.').pop();
-    const hasValidExtension = validExtensions.includes(`.${fileExtension}`);
-    const hasValidType = validTypes.includes(selectedFile.type);
-    
-    if (hasValidExtension || hasValidType || selectedFile.type === '') {
-      // Many systems don't set MIME types correctly for CSV files, so we're more lenient
-      parseCSV(selectedFile);
-    } else {
-      setError(`Please select a CSV, TSV, or text file. Selected: ${selectedFile.type || 'unknown type'}`);
+    if (!isSpreadsheetFile(selectedFile.name)) {
+      setError(`Please select a CSV, TSV, text or .xlsx file. Selected: ${selectedFile.name}`);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const fileSheets = await readSpreadsheetFile(selectedFile, token || '');
+      setSheets(fileSheets);
+      // Start on the first sheet that has data
+      parseSheet(fileSheets.find(sheet => sheet.rows.length > 0) ?? fileSheets[0]);
+    } catch (err) {
+      console.error('File parsing error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read the file. Please check the format.');
+    } finally {
+      setLoading(false);
     }
   };
 
-  const parseCSV = async (csvFile: File) => {
+  const parseSheet = (sheet: SpreadsheetSheet) => {
     try {
       setError('');
-      setLoading(true);
-      
-      const text = await csvFile.text();
-      const lines = text.split('\n').filter(line => line.trim());
-      
-      if (lines.length < 2) {
-        setError('CSV file must have at least a header row and one data row');
+      setSelectedSheet(sheet.name);
+
+      if (sheet.rows.length === 0) {
+        setError(`Sheet "${sheet.name}" must have a header row and at least one data row`);
+        setParsedJobs([]);
+        setUploadStep('select');
         return;
       }
 
-      const headers = lines[0].split('\t').map(h => h.trim().toLowerCase());
-      console.log('Detected headers:', headers);
-      
-      // Handle both tab-separated and comma-separated values
-      const delimiter = lines[0].includes('\t') ? '\t' : ',';
-      const headerRow = lines[0].split(delimiter).map(h => h.trim().toLowerCase());
-      
-      console.log('Using delimiter:', delimiter === '\t' ? 'tab' : 'comma');
+      const headerRow = sheet.headers.map(h => h.trim().toLowerCase());
       console.log('Headers:', headerRow);
 
       const jobs: JobData[] = [];
       
-      for (let i = 1; i < lines.length; i++) {
-        const values = lines[i].split(delimiter).map(v => v.trim().replace(/"/g, ''));
+      sheet.rows.forEach((values, dataRowIndex) => {
         const errors: string[] = [];
         
-        // Map your CSV format to our expected format
+        // Map your spreadsheet columns to our expected format
         const getValueByHeader = (possibleHeaders: string[]) => {
           for (const header of possibleHeaders) {
             const index = headerRow.indexOf(header);
@@ -126,6 +125,11 @@ const BulkUploadModal: React.FC<BulkUploadModalProps> = ({ isOpen, onClose, onJo
           if (/^\d{2}\/\d{2}\/\d{4}$/.test(dateStr)) {
             return dateStr;
           }
+          // Excel serial dates, from CSVs saved without date formatting
+          const serialDate = excelSerialToDisplayDate(dateStr);
+          if (serialDate) {
+            return serialDate;
+          }
           // Try to parse other common date formats
           try {
             const date = new Date(dateStr);
@@ -151,7 +155,8 @@ const BulkUploadModal: React.FC<BulkUploadModalProps> = ({ isOpen, onClose, onJo
           assemblyDate: cleanDate(getValueByHeader(['assembly', 'assembly date', 'assembly_date'])),
           deliveryDate: cleanDate(getValueByHeader(['delivery', 'delivery date', 'delivery_date'])),
           comments: getValueByHeader(['comments', 'notes', 'comment']),
-          rowIndex: i + 1,
+          // Spreadsheet row number, counting the header row
+          rowIndex: dataRowIndex + 2,
           errors: []
         };
 
@@ -181,17 +186,15 @@ const BulkUploadModal: React.FC<BulkUploadModalProps> = ({ isOpen, onClose, onJo
 
         job.errors = errors;
         jobs.push(job);
-      }
+      });
 
       console.log('Parsed jobs:', jobs.slice(0, 3)); // Log first 3 for debugging
       setParsedJobs(jobs);
       setUploadStep('preview');
       
     } catch (err) {
-      console.error('CSV parsing error:', err);
-      setError('Failed to parse CSV file. Please check the format. Make sure it uses tabs or commas as separators.');
-    } finally {
-      setLoading(false);
+      console.error('Sheet parsing error:', err);
+      setError('Failed to read the sheet. Please check the format.');
     }
   };
 
@@ -213,10 +216,10 @@ const BulkUploadModal: React.FC<BulkUploadModalProps> = ({ isOpen, onClose, onJo
         type: job.type || null,
         items: job.items,
         status: job.status || 'not-assigned',
-        nestingDate: job.nestingDate || null,
-        machiningDate: job.machiningDate || null,
-        assemblyDate: job.assemblyDate || null,
-        deliveryDate: job.deliveryDate || null,
+        nestingDate: displayDateToIso(job.nestingDate),
+        machiningDate: displayDateToIso(job.machiningDate),
+        assemblyDate: displayDateToIso(job.assemblyDate),
+        deliveryDate: displayDateToIso(job.deliveryDate),
         comments: job.comments || null
       }));
 
@@ -250,6 +253,8 @@ const BulkUploadModal: React.FC<BulkUploadModalProps> = ({ isOpen, onClose, onJo
 
   const resetModal = () => {
     setParsedJobs([]);
+    setSheets([]);
+    setSelectedSheet('');
     setError('');
     setUploadStep('select');
     setUploadResults({ success: 0, failed: 0, errors: [] });
@@ -277,6 +282,27 @@ const BulkUploadModal: React.FC<BulkUploadModalProps> = ({ isOpen, onClose, onJo
             </button>
           </div>
 
+          {/* Sheet selection, for workbooks with more than one sheet */}
+          {sheets.length > 1 && uploadStep !== 'uploading' && (
+            <div className="mb-4">
+              <label htmlFor="bulkUploadSheet" className="block text-sm font-medium text-black mb-1">
+                Sheet
+              </label>
+              <select
+                id="bulkUploadSheet"
+                value={selectedSheet}
+                onChange={(e) => parseSheet(sheets.find(sheet => sheet.name === e.target.value)!)}
+                className="w-full md:w-80 px-3 py-2 border border-light-grey rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                {sheets.map(sheet => (
+                  <option key={sheet.name} value={sheet.name}>
+                    {sheet.name} ({sheet.rows.length} rows)
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Step 1: File Selection */}
           {uploadStep === 'select' && (
             <div className="space-y-4">
@@ -284,13 +310,13 @@ const BulkUploadModal: React.FC<BulkUploadModalProps> = ({ isOpen, onClose, onJo
                 <div className="space-y-4">
                   <div className="text-4xl">📄</div>
                   <div>
-                    <h3 className="text-lg font-medium text-black mb-2">Upload CSV/TSV File</h3>
+                    <h3 className="text-lg font-medium text-black mb-2">Upload CSV, TSV or Excel File</h3>
                     <p className="text-charcoal mb-4">
-                      Upload a CSV, TSV, or tab-separated file with job data. Flexible header matching supports your Excel export format.
+                      Upload a CSV, TSV, tab-separated or .xlsx file with job data. Flexible header matching supports your Excel export format.
                     </p>
                     <input
                       type="file"
-                      accept=".csv,.tsv,.txt"
+                      accept={SPREADSHEET_ACCEPT}
                       onChange={handleFileSelect}
                       className="hidden"
                       id="csvFile"
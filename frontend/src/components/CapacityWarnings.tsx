@@ -0,0 +1,59 @@
+import React from 'react';
+import { formatDate } from '../utils/dateUtils';
+
+export interface CapacityConflict {
+  date: string;
+  stage: 'nesting' | 'machining' | 'assembly' | 'delivery';
+  load: number;
+  capacity: number;
+  enforcement: 'warn' | 'block';
+  reason: 'over_capacity' | 'non_working_day';
+}
+
+interface CapacityWarningsProps {
+  conflicts: CapacityConflict[];
+  // Blocked changes were not saved; warnings were saved anyway
+  blocked?: boolean;
+  onDismiss?: () => void;
+}
+
+const stageLabels: Record<CapacityConflict['stage'], string> = {
+  nesting: 'Nesting',
+  machining: 'Machining',
+  assembly: 'Assembly',
+  delivery: 'Delivery',
+};
+
+const CapacityWarnings: React.FC<CapacityWarningsProps> = ({ conflicts, blocked = false, onDismiss }) => {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className={`rounded-md p-3 text-sm border ${
+      blocked ? 'bg-red-50 border-red-200 text-red-800' : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+    }`}>
+      <div className="flex items-start justify-between">
+        <p className="font-medium">
+          {blocked ? 'Not saved - workshop capacity exceeded' : 'Workshop capacity exceeded'}
+        </p>
+        {onDismiss && (
+          <button onClick={onDismiss} className="ml-4 opacity-70 hover:opacity-100" aria-label="Dismiss">
+            ✕
+          </button>
+        )}
+      </div>
+      <ul className="mt-1 space-y-0.5">
+        {conflicts.map(conflict => (
+          <li key={`${conflict.stage}-${conflict.date}`}>
+            {stageLabels[conflict.stage]} on {formatDate(conflict.date)}:{' '}
+            {conflict.reason === 'non_working_day'
+              ? 'not a working day'
+              : `${conflict.load} jobs scheduled, capacity ${conflict.capacity}`}
+            {conflict.enforcement === 'block' && ' (blocking)'}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default CapacityWarnings;
@@ -20,6 +20,9 @@ function DataTable<T extends Record<string, any>>({
   onRowClick,
   onRowSelect,
   selectable = false,
+  getRowId,
+  selectedRowIds,
+  onSelectionChange,
   columnPreferences = [],
   onColumnPreferencesChange,
   resizableColumns = true,
@@ -28,6 +31,7 @@ function DataTable<T extends Record<string, any>>({
   bordered = true,
   emptyMessage = 'No data found',
   emptySubMessage = 'Try adjusting your filters or search terms',
+  serverSide = false,
   pagination
 }: TableProps<T>) {
   // Internal state for sorting and filtering if not externally controlled
@@ -36,7 +40,7 @@ function DataTable<T extends Record<string, any>>({
   );
   const [internalMultiSort, setInternalMultiSort] = useState<MultiSortConfig[]>([]);
   const [internalFilters, setInternalFilters] = useState<Record<string, any>>({});
-  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+  const [internalSelection, setInternalSelection] = useState<Set<string | number>>(new Set());
   const [showColumnManager, setShowColumnManager] = useState(false);
 
   // Use internal or external sort state
@@ -112,6 +116,11 @@ function DataTable<T extends Record<string, any>>({
   const processedData = useMemo(() => {
     let filtered = [...data];
 
+    // The API has already filtered and sorted server-driven tables
+    if (serverSide) {
+      return filtered;
+    }
+
     // Check if data contains week separators - if so, skip internal processing
     const hasWeekSeparators = data.some(item => (item as any).isWeekSeparator);
     if (hasWeekSeparators) {
@@ -124,6 +133,7 @@ function DataTable<T extends Record<string, any>>({
       
       // Skip filters handled by parent component's custom logic
       if (key === 'search' || key === 'dateFrom' || key === 'dateTo' || key === 'showWeekSeparators' || key === 'hideCompleted' || key === 'client' || key === 'project') return;
+      if (filters.some(filter => filter.type === 'dateRange' && (key === `${filter.key}From` || key === `${filter.key}To`))) return;
       
       filtered = filtered.filter((item) => {
         const itemValue = item[key];
@@ -191,7 +201,7 @@ function DataTable<T extends Record<string, any>>({
     }
 
     return filtered;
-  }, [data, currentFilters, currentSort, currentMultiSort]);
+  }, [data, currentFilters, currentSort, currentMultiSort, serverSide, filters]);
 
   // Get visible columns based on preferences
   const visibleColumns = useMemo(() => {
@@ -205,22 +215,44 @@ function DataTable<T extends Record<string, any>>({
       .filter(Boolean) as TableColumn<T>[];
   }, [columns, columnPreferences]);
 
+  // Selection is keyed by row id so it survives sorting, filtering and reloads
+  const getRowKey = (row: T, index: number): string | number =>
+    getRowId ? getRowId(row) : (row.id ?? index);
+  const selectedKeys = selectedRowIds ? new Set(selectedRowIds) : internalSelection;
+  const pageKeys = processedData
+    .map((row, index) => (row.isWeekSeparator ? null : getRowKey(row, index)))
+    .filter((key): key is string | number => key !== null);
+  const allPageSelected = pageKeys.length > 0 && pageKeys.every(key => selectedKeys.has(key));
+
+  const updateSelection = (newSelected: Set<string | number>) => {
+    if (!selectedRowIds) {
+      setInternalSelection(newSelected);
+    }
+    onSelectionChange?.(Array.from(newSelected));
+    if (onRowSelect) {
+      onRowSelect(processedData.filter((row, index) => !row.isWeekSeparator && newSelected.has(getRowKey(row, index))));
+    }
+  };
+
   // Handle row selection
-  const handleRowSelect = (_row: T, index: number) => {
-    const newSelected = new Set(selectedRows);
+  const handleRowSelect = (row: T, index: number) => {
+    const newSelected = new Set(selectedKeys);
+    const key = getRowKey(row, index);
     
-    if (newSelected.has(index)) {
-      newSelected.delete(index);
+    if (newSelected.has(key)) {
+      newSelected.delete(key);
     } else {
-      newSelected.add(index);
+      newSelected.add(key);
     }
     
-    setSelectedRows(newSelected);
-    
-    if (onRowSelect) {
-      const selectedData = Array.from(newSelected).map(idx => processedData[idx]);
-      onRowSelect(selectedData);
-    }
+    updateSelection(newSelected);
+  };
+
+  // Select or clear every row on the current page, keeping selections on other pages
+  const handleSelectPage = (checked: boolean) => {
+    const newSelected = new Set(selectedKeys);
+    pageKeys.forEach(key => (checked ? newSelected.add(key) : newSelected.delete(key)));
+    updateSelection(newSelected);
   };
 
   // Render sort icon
@@ -319,6 +351,47 @@ function DataTable<T extends Record<string, any>>({
                   }}
                 />
               )}
+              {filter.type === 'dateRange' && (
+                <div className="flex items-center space-x-2">
+                  {(['From', 'To'] as const).map(bound => (
+                    <input
+                      key={bound}
+                      type="date"
+                      aria-label={`${filter.label} ${bound.toLowerCase()}`}
+                      value={currentFilters[`${filter.key}${bound}`] || ''}
+                      onChange={(e) => handleFilterChange(`${filter.key}${bound}`, e.target.value)}
+                      className="w-full min-w-0 px-2 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-200 focus:border-orange-500"
+                    />
+                  ))}
+                </div>
+              )}
+              {filter.type === 'multiSelect' && (
+                <div className="max-h-28 overflow-y-auto px-3 py-2 border border-gray-300 rounded-md bg-white space-y-1">
+                  {filter.options?.map((option) => {
+                    const selected: string[] = currentFilters[filter.key] || [];
+                    return (
+                      <label key={option.value} className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={selected.includes(option.value)}
+                          onChange={(e) => handleFilterChange(
+                            filter.key,
+                            e.target.checked
+                              ? [...selected, option.value]
+                              : selected.filter(value => value !== option.value)
+                          )}
+                          className="rounded border-gray-300"
+                          style={{ accentColor: '#FF661F' }}
+                        />
+                        <span className="truncate">{option.label}</span>
+                      </label>
+                    );
+                  })}
+                  {(!filter.options || filter.options.length === 0) && (
+                    <p className="text-sm text-gray-400">No options</p>
+                  )}
+                </div>
+              )}
               {filter.type === 'checkbox' && (
                 <label className="flex items-center space-x-2">
                   <input
@@ -353,8 +426,8 @@ function DataTable<T extends Record<string, any>>({
     );
   };
 
-  // Loading state
-  if (loading) {
+  // Loading state (server-driven tables keep their filters mounted while a page loads)
+  if (loading && !serverSide) {
     return (
       <div className="bg-white border border-gray-200 rounded-lg p-8">
         <div className="text-center">
@@ -384,7 +457,9 @@ function DataTable<T extends Record<string, any>>({
       {/* Table Controls */}
       <div className="mb-4 flex justify-between items-center">
         <div className="text-sm text-gray-500">
-          Showing {processedData.length} of {data.length} items
+          {serverSide && pagination
+            ? `Showing ${processedData.length} of ${pagination.total} items`
+            : `Showing ${processedData.length} of ${data.length} items`}
         </div>
         <div className="flex space-x-2">
           {onColumnPreferencesChange && (
@@ -399,7 +474,7 @@ function DataTable<T extends Record<string, any>>({
       </div>
 
       {/* Table */}
-      <div className={`bg-white rounded-lg overflow-hidden ${bordered ? 'border border-gray-200' : ''}`}>
+      <div className={`bg-white rounded-lg overflow-hidden transition-opacity ${bordered ? 'border border-gray-200' : ''} ${loading ? 'opacity-60' : ''}`}>
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
@@ -408,14 +483,8 @@ function DataTable<T extends Record<string, any>>({
                   <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     <input
                       type="checkbox"
-                      checked={selectedRows.size === processedData.length && processedData.length > 0}
-                      onChange={(e) => {
-                        if (e.target.checked) {
-                          setSelectedRows(new Set(processedData.map((_, index) => index)));
-                        } else {
-                          setSelectedRows(new Set());
-                        }
-                      }}
+                      checked={allPageSelected}
+                      onChange={(e) => handleSelectPage(e.target.checked)}
                       className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                     />
                   </th>
@@ -495,7 +564,7 @@ function DataTable<T extends Record<string, any>>({
                   className={`
                     ${striped && index % 2 === 1 ? 'bg-gray-50' : 'bg-white'}
                     ${onRowClick ? 'cursor-pointer hover:bg-blue-50' : 'hover:bg-gray-50'}
-                    ${selectedRows.has(index) ? 'bg-blue-100' : ''}
+                    ${selectedKeys.has(getRowKey(row, index)) ? 'bg-blue-100' : ''}
                   `}
                   onClick={() => onRowClick?.(row)}
                 >
@@ -503,7 +572,8 @@ function DataTable<T extends Record<string, any>>({
                     <td className="px-3 py-4" style={{ width: '40px', minWidth: '40px' }}>
                       <input
                         type="checkbox"
-                        checked={selectedRows.has(index)}
+                        checked={selectedKeys.has(getRowKey(row, index))}
+                        onClick={(e) => e.stopPropagation()}
                         onChange={(e) => {
                           e.stopPropagation();
                           handleRowSelect(row, index);
@@ -536,8 +606,15 @@ function DataTable<T extends Record<string, any>>({
           </table>
         </div>
 
+        {processedData.length === 0 && loading && (
+          <div className="text-center py-12">
+            <LoadingSpinner size="md" color="primary" className="mx-auto" />
+            <p className="text-gray-500 mt-2">Loading...</p>
+          </div>
+        )}
+
         {/* Empty State */}
-        {processedData.length === 0 && (
+        {processedData.length === 0 && !loading && (
           <div className="text-center py-12">
             <p className="text-gray-500 text-lg">{emptyMessage}</p>
             {emptySubMessage && (
@@ -551,10 +628,26 @@ function DataTable<T extends Record<string, any>>({
       {pagination && (
         <div className="mt-4 flex items-center justify-between">
           <div className="text-sm text-gray-500">
-            Showing {((pagination.page - 1) * pagination.pageSize) + 1} to{' '}
-            {Math.min(pagination.page * pagination.pageSize, pagination.total)} of {pagination.total} results
+            {pagination.total === 0
+              ? 'No results'
+              : <>
+                  Showing {((pagination.page - 1) * pagination.pageSize) + 1} to{' '}
+                  {Math.min(pagination.page * pagination.pageSize, pagination.total)} of {pagination.total} results
+                </>}
           </div>
           <div className="flex items-center space-x-2">
+            {pagination.pageSizeOptions && (
+              <select
+                value={pagination.pageSize}
+                onChange={(e) => pagination.onPageSizeChange(Number(e.target.value))}
+                aria-label="Rows per page"
+                className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-200 focus:border-orange-500"
+              >
+                {pagination.pageSizeOptions.map(size => (
+                  <option key={size} value={size}>{size} per page</option>
+                ))}
+              </select>
+            )}
             <button
               onClick={() => pagination.onPageChange(pagination.page - 1)}
               disabled={pagination.page <= 1}
@@ -563,7 +656,7 @@ function DataTable<T extends Record<string, any>>({
               Previous
             </button>
             <span className="text-sm text-gray-500">
-              Page {pagination.page} of {Math.ceil(pagination.total / pagination.pageSize)}
+              Page {pagination.page} of {Math.max(1, Math.ceil(pagination.total / pagination.pageSize))}
             </span>
             <button
               onClick={() => pagination.onPageChange(pagination.page + 1)}
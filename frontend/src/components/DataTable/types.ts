@@ -15,6 +15,7 @@ export interface TableColumn<T = any> {
 export interface FilterConfig {
   type: 'text' | 'select' | 'date' | 'dateRange' | 'checkbox' | 'multiSelect' | 'toggle';
   label: string;
+  // dateRange filters store their bounds under `${key}From` and `${key}To`
   key: string;
   options?: { value: string; label: string }[];
   placeholder?: string;
@@ -54,6 +55,10 @@ export interface TableProps<T> {
   onRowClick?: (row: T) => void;
   onRowSelect?: (selectedRows: T[]) => void;
   selectable?: boolean;
+  // Identify rows for selection (defaults to row.id); pass selectedRowIds to control the selection
+  getRowId?: (row: T) => string | number;
+  selectedRowIds?: Array<string | number>;
+  onSelectionChange?: (selectedIds: Array<string | number>) => void;
   
   // Column management
   columnPreferences?: any[];
@@ -69,6 +74,10 @@ export interface TableProps<T> {
   emptyMessage?: string;
   emptySubMessage?: string;
   
+  // Server-driven mode: data is already filtered, sorted and paged by the API,
+  // so the table only reports filter/sort/page changes
+  serverSide?: boolean;
+
   // Pagination
   pagination?: {
     page: number;
@@ -76,6 +85,7 @@ export interface TableProps<T> {
     total: number;
     onPageChange: (page: number) => void;
     onPageSizeChange: (pageSize: number) => void;
+    pageSizeOptions?: number[];
   };
 }
 
@@ -1,4 +1,5 @@
 import type { CSSProperties } from 'react';
+import { formatDate, isValidDate } from '../../utils/dateUtils';
 
 // Status to color mapping for jobs and projects
 export const statusColorMap: Record<string, string> = {
@@ -116,14 +117,10 @@ export const formatCellValue = (columnKey: string, value: any): string => {
   
   // Date formatting
   if (columnKey.toLowerCase().includes('date')) {
-    try {
-      const date = new Date(value);
-      if (!isNaN(date.getTime())) {
-        return date.toLocaleDateString();
-      }
-    } catch {
-      return value.toString();
+    if (isValidDate(value)) {
+      return formatDate(value);
     }
+    return value.toString();
   }
   
   // Currency formatting
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import Icon from './Icon';
+import Button from './ui/Button';
+import { formatDateTime } from '../utils/dateUtils';
+import type { EditConflict, ConflictChoice } from '../utils/editConflict';
+
+// Empty and missing values count as the same
+const normalize = (value: unknown) =>
+  value === undefined || value === null || value === '' ? null : String(value);
+
+interface EditConflictModalProps {
+  conflict: EditConflict;
+  recordLabel: string;
+  // Values when the form was opened, to tell whose change each difference is
+  base: Record<string, unknown>;
+  // Fields to show; differences in other fields are left to the caller
+  fieldLabels: Record<string, string>;
+  formatValue?: (field: string, value: unknown) => string;
+  saving?: boolean;
+  onMerge: (choices: Record<string, ConflictChoice>) => void;
+  onDiscardMine: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Merge a save that conflicted with someone else's edit. Fields only they changed take their
+ * value, fields only you changed keep yours, and fields you both changed must be picked.
+ * Render with key={conflict.etag} so the choices reset for each new conflict.
+ */
+const EditConflictModal: React.FC<EditConflictModalProps> = ({
+  conflict,
+  recordLabel,
+  base,
+  fieldLabels,
+  formatValue = (_field, value) => (normalize(value) === null ? '(empty)' : String(value)),
+  saving = false,
+  onMerge,
+  onDiscardMine,
+  onClose,
+}) => {
+  const rows = conflict.conflicts
+    .filter(item => item.field in fieldLabels)
+    .map(item => {
+      const theirsChanged = normalize(item.current) !== normalize(base[item.field]);
+      const mineChanged = normalize(item.submitted) !== normalize(base[item.field]);
+      return { ...item, bothChanged: theirsChanged && mineChanged, theirsChanged };
+    });
+
+  const [choices, setChoices] = useState<Record<string, ConflictChoice | undefined>>(() =>
+    Object.fromEntries(rows.map(row => [
+      row.field,
+      row.bothChanged ? undefined : row.theirsChanged ? 'theirs' : 'mine',
+    ]))
+  );
+
+  const unresolved = rows.filter(row => !choices[row.field]).length;
+
+  const renderOption = (field: string, choice: ConflictChoice, value: unknown, detail: string) => (
+    <label
+      className={`flex-1 block p-3 rounded-lg border cursor-pointer transition-colors ${
+        choices[field] === choice ? 'border-orange-500 bg-orange-50' : 'border-gray-200 hover:bg-gray-50'
+      }`}
+    >
+      <div className="flex items-center mb-1">
+        <input
+          type="radio"
+          name={`conflict-${field}`}
+          checked={choices[field] === choice}
+          onChange={() => setChoices(prev => ({ ...prev, [field]: choice }))}
+          className="mr-2 text-orange-600 focus:ring-[#FF661F]"
+          disabled={saving}
+        />
+        <span className="text-xs font-medium text-gray-500 uppercase">{detail}</span>
+      </div>
+      <div className="text-sm text-gray-900 whitespace-pre-wrap break-words">{formatValue(field, value)}</div>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">This {recordLabel} was changed by someone else</h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              disabled={saving}
+            >
+              <Icon name="x" className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 overflow-y-auto">
+          <p className="text-sm text-gray-600 mb-4">
+            Your changes have not been saved. Choose which value to keep for each field, then save the merged {recordLabel}.
+          </p>
+
+          {rows.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              The other changes don't affect the fields you edited. Save again to apply your changes on top of them.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {rows.map(row => (
+                <div key={row.field}>
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm font-medium text-gray-900">{fieldLabels[row.field]}</span>
+                    {row.bothChanged && !choices[row.field] && (
+                      <span className="text-xs font-medium text-red-600">Choose a value</span>
+                    )}
+                  </div>
+                  <div className="flex flex-col sm:flex-row gap-3">
+                    {renderOption(
+                      row.field,
+                      'theirs',
+                      row.current,
+                      row.changedBy
+                        ? `Theirs - ${row.changedBy}${row.changedAt ? `, ${formatDateTime(row.changedAt)}` : ''}`
+                        : 'Theirs (saved)'
+                    )}
+                    {renderOption(row.field, 'mine', row.submitted, 'Yours')}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-between">
+          <Button variant="outline" onClick={onDiscardMine} disabled={saving}>
+            Discard my changes
+          </Button>
+          <div className="flex space-x-3">
+            <Button variant="secondary" onClick={onClose} disabled={saving}>
+              Keep editing
+            </Button>
+            <Button
+              variant="primary"
+              loading={saving}
+              disabled={unresolved > 0 || saving}
+              onClick={() => onMerge(choices as Record<string, ConflictChoice>)}
+            >
+              Save merged {recordLabel}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditConflictModal;
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import type { Holiday } from '../../hooks/useHolidays';
+import type { ScheduleJob, StageDateField } from './types';
+import {
+  STAGE_FIELDS,
+  STAGE_LABELS,
+  daysBetween,
+  formatDayLabel,
+  getDateRange,
+  isWeekend,
+  startOfWeek,
+  todayIso,
+} from './utils';
+
+interface CalendarViewProps<T extends ScheduleJob> {
+  jobs: T[];
+  month: string; // First day of the month shown, YYYY-MM-DD
+  holidaysByDate: Map<string, Holiday>;
+  savingJobId: number | null;
+  onMove: (job: T, field: StageDateField, days: number) => void;
+  onJobClick?: (job: T) => void;
+}
+
+interface CalendarEntry<T> {
+  job: T;
+  field: StageDateField;
+  date: string;
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+function CalendarView<T extends ScheduleJob>({
+  jobs,
+  month,
+  holidaysByDate,
+  savingJobId,
+  onMove,
+  onJobClick,
+}: CalendarViewProps<T>) {
+  const [dragged, setDragged] = useState<CalendarEntry<T> | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  // Always show six full weeks starting on the Monday before the 1st
+  const days = getDateRange(startOfWeek(month), 42);
+  const today = todayIso();
+
+  const entriesByDate = new Map<string, CalendarEntry<T>[]>();
+  for (const job of jobs) {
+    for (const field of STAGE_FIELDS) {
+      const date = job[field];
+      if (!date) continue;
+      if (!entriesByDate.has(date)) {
+        entriesByDate.set(date, []);
+      }
+      entriesByDate.get(date)!.push({ job, field, date });
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent, date: string) => {
+    e.preventDefault();
+    setDropTarget(null);
+    if (!dragged) return;
+
+    const movedDays = daysBetween(dragged.date, date);
+    if (movedDays !== 0) {
+      onMove(dragged.job, dragged.field, movedDays);
+    }
+    setDragged(null);
+  };
+
+  const getCellClass = (date: string) => {
+    if (date === dropTarget) return 'bg-orange-50 ring-2 ring-inset ring-orange-300';
+    if (holidaysByDate.has(date)) return 'bg-red-50';
+    if (isWeekend(date)) return 'bg-gray-50';
+    return 'bg-white';
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden">
+      <div className="grid grid-cols-7 bg-gray-50 border-b border-gray-200">
+        {WEEKDAYS.map(day => (
+          <div key={day} className="px-2 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider">
+            {day}
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7">
+        {days.map(date => {
+          const holiday = holidaysByDate.get(date);
+          const entries = entriesByDate.get(date) || [];
+          const inMonth = date.slice(0, 7) === month.slice(0, 7);
+
+          return (
+            <div
+              key={date}
+              onDragOver={(e) => {
+                if (!dragged) return;
+                e.preventDefault();
+                setDropTarget(date);
+              }}
+              onDragLeave={() => setDropTarget(current => current === date ? null : current)}
+              onDrop={(e) => handleDrop(e, date)}
+              className={`min-h-28 border-b border-r border-gray-100 p-1 ${getCellClass(date)}`}
+            >
+              <div className="flex items-start justify-between mb-1">
+                <span className={`text-xs ${
+                  date === today
+                    ? 'bg-orange-500 text-white rounded-full px-1.5 font-bold'
+                    : inMonth ? 'text-gray-700 font-medium' : 'text-gray-400'
+                }`}>
+                  {date.endsWith('-01') ? formatDayLabel(date, { day: 'numeric', month: 'short' }) : Number(date.slice(8, 10))}
+                </span>
+                {holiday && (
+                  <span className="text-[10px] text-red-700 truncate ml-1" title={holiday.name}>
+                    {holiday.name}
+                  </span>
+                )}
+              </div>
+              <div className="space-y-0.5 max-h-24 overflow-y-auto">
+                {entries.map(entry => (
+                  <button
+                    key={`${entry.job.id}-${entry.field}`}
+                    draggable={savingJobId === null}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      e.dataTransfer.setData('text/plain', `${entry.job.id}:${entry.field}`);
+                      setDragged(entry);
+                    }}
+                    onDragEnd={() => {
+                      setDragged(null);
+                      setDropTarget(null);
+                    }}
+                    onClick={() => onJobClick?.(entry.job)}
+                    className={`block w-full text-left text-[11px] leading-tight px-1 py-0.5 rounded border truncate cursor-grab ${
+                      savingJobId === entry.job.id ? 'opacity-50' : ''
+                    }`}
+                    style={{
+                      backgroundColor: entry.job.statusInfo?.backgroundColor || '#f3f4f6',
+                      color: entry.job.statusInfo?.color || '#374151',
+                      borderColor: entry.job.statusInfo?.color || '#d1d5db',
+                    }}
+                    title={`${entry.job.projectName ? `${entry.job.projectName} - ` : ''}${entry.job.unit || ''} ${entry.job.items}\n${STAGE_LABELS[entry.field]}${entry.job.statusInfo ? ` · ${entry.job.statusInfo.displayName}` : ''}`}
+                  >
+                    <span className="font-semibold">{STAGE_LABELS[entry.field][0]}</span>{' '}
+                    {entry.job.unit || entry.job.items}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default CalendarView;
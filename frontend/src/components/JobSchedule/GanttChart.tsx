@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import type { Holiday } from '../../hooks/useHolidays';
+import type { ScheduleJob, ScheduleGroup, StageDateField } from './types';
+import {
+  STAGE_FIELDS,
+  STAGE_LABELS,
+  daysBetween,
+  formatDayLabel,
+  getJobLabel,
+  getJobSpan,
+  isWeekend,
+  shiftJobDates,
+  todayIso,
+} from './utils';
+import { formatDate } from '../../utils/dateUtils';
+
+const DAY_WIDTH = 28;
+const LABEL_WIDTH = 240;
+
+interface GanttChartProps<T extends ScheduleJob> {
+  groups: ScheduleGroup<T>[];
+  days: string[];
+  holidaysByDate: Map<string, Holiday>;
+  savingJobId: number | null;
+  onMove: (job: T, field: StageDateField | 'all', days: number) => void;
+  onJobClick?: (job: T) => void;
+}
+
+interface DragState {
+  jobId: number;
+  field: StageDateField | 'all';
+  startX: number;
+  days: number;
+}
+
+function GanttChart<T extends ScheduleJob>({
+  groups,
+  days,
+  holidaysByDate,
+  savingJobId,
+  onMove,
+  onJobClick,
+}: GanttChartProps<T>) {
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const rangeStart = days[0];
+  const today = todayIso();
+  const todayOffset = daysBetween(rangeStart, today);
+
+  const getDayClass = (date: string) => {
+    if (holidaysByDate.has(date)) return 'bg-red-50';
+    if (isWeekend(date)) return 'bg-gray-100';
+    return '';
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, job: T, field: StageDateField | 'all') => {
+    if (e.button !== 0 || savingJobId !== null) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ jobId: job.id, field, startX: e.clientX, days: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const movedDays = Math.round((e.clientX - drag.startX) / DAY_WIDTH);
+    if (movedDays !== drag.days) {
+      setDrag({ ...drag, days: movedDays });
+    }
+  };
+
+  const handlePointerUp = (job: T) => {
+    if (!drag) return;
+    const { field, days: movedDays } = drag;
+    setDrag(null);
+
+    if (movedDays === 0) {
+      // A click rather than a drag opens the job
+      onJobClick?.(job);
+      return;
+    }
+
+    onMove(job, field, movedDays);
+  };
+
+  // Show the dragged job at its proposed dates while the pointer is down
+  const getDisplayedJob = (job: T): T =>
+    drag && drag.jobId === job.id && drag.days !== 0
+      ? { ...job, ...shiftJobDates(job, drag.field, drag.days) }
+      : job;
+
+  const dragHandlers = (job: T, field: StageDateField | 'all') => ({
+    onPointerDown: (e: React.PointerEvent) => handlePointerDown(e, job, field),
+    onPointerMove: handlePointerMove,
+    onPointerUp: () => handlePointerUp(job),
+    onPointerCancel: () => setDrag(null),
+  });
+
+  const renderJobRow = (job: T) => {
+    const displayed = getDisplayedJob(job);
+    const span = getJobSpan(displayed);
+    const isDragging = drag?.jobId === job.id;
+    const background = job.statusInfo?.backgroundColor || '#e5e7eb';
+    const color = job.statusInfo?.color || '#374151';
+
+    return (
+      <div key={job.id} className="relative flex border-b border-gray-100 h-9">
+        <button
+          onClick={() => onJobClick?.(job)}
+          className="sticky left-0 z-10 bg-white border-r border-gray-200 px-3 text-left text-sm text-gray-900 hover:underline truncate flex-shrink-0"
+          style={{ width: LABEL_WIDTH }}
+          title={getJobLabel(job)}
+        >
+          {getJobLabel(job)}
+        </button>
+        <div className="relative flex-shrink-0 overflow-hidden" style={{ width: days.length * DAY_WIDTH }}>
+          {span && (
+            <div
+              {...dragHandlers(job, 'all')}
+              className={`absolute top-2 h-5 rounded border select-none touch-none ${
+                isDragging ? 'cursor-grabbing shadow-md' : 'cursor-grab'
+              } ${savingJobId === job.id ? 'opacity-50' : ''}`}
+              style={{
+                left: daysBetween(rangeStart, span.start) * DAY_WIDTH,
+                width: (daysBetween(span.start, span.end) + 1) * DAY_WIDTH,
+                backgroundColor: background,
+                borderColor: color,
+              }}
+              title={`${getJobLabel(job)} - ${job.statusInfo?.displayName || 'No status'}\n${
+                STAGE_FIELDS.filter(field => displayed[field])
+                  .map(field => `${STAGE_LABELS[field]}: ${formatDate(displayed[field])}`)
+                  .join('\n')
+              }`}
+            />
+          )}
+          {STAGE_FIELDS.map(field => {
+            const date = displayed[field];
+            if (!date) return null;
+            return (
+              <div
+                key={field}
+                {...dragHandlers(job, field)}
+                className="absolute top-2.5 h-4 w-4 rounded-full border border-white text-[9px] leading-4 text-center font-bold select-none touch-none cursor-ew-resize"
+                style={{
+                  left: daysBetween(rangeStart, date) * DAY_WIDTH + (DAY_WIDTH - 16) / 2,
+                  backgroundColor: color,
+                  color: background,
+                }}
+                title={`Drag to move ${STAGE_LABELS[field].toLowerCase()} (${formatDate(date)})`}
+              >
+                {STAGE_LABELS[field][0]}
+              </div>
+            );
+          })}
+          {isDragging && drag.days !== 0 && span && (
+            <div
+              className="absolute -top-0.5 text-[10px] font-medium text-gray-700 bg-white/90 px-1 rounded pointer-events-none"
+              style={{ left: daysBetween(rangeStart, span.end) * DAY_WIDTH + DAY_WIDTH + 4 }}
+            >
+              {drag.days > 0 ? `+${drag.days}` : drag.days}d
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="overflow-x-auto border border-gray-200 rounded-lg bg-white">
+      <div className="relative" style={{ width: LABEL_WIDTH + days.length * DAY_WIDTH }}>
+        {/* Header */}
+        <div className="flex border-b border-gray-200 bg-gray-50">
+          <div
+            className="sticky left-0 z-20 bg-gray-50 border-r border-gray-200 px-3 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider flex-shrink-0"
+            style={{ width: LABEL_WIDTH }}
+          >
+            Job
+          </div>
+          {days.map((date, index) => (
+            <div
+              key={date}
+              className={`flex-shrink-0 text-center text-[10px] leading-tight py-1 border-l border-gray-100 ${getDayClass(date)} ${
+                date === today ? 'text-orange-600 font-bold' : 'text-gray-500'
+              }`}
+              style={{ width: DAY_WIDTH }}
+              title={holidaysByDate.get(date)?.name}
+            >
+              <div className="h-3 font-medium text-gray-700">
+                {(index === 0 || date.endsWith('-01')) && formatDayLabel(date, { month: 'short' })}
+              </div>
+              <div>{formatDayLabel(date, { weekday: 'narrow' })}</div>
+              <div>{Number(date.slice(8, 10))}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="relative">
+          {/* Weekend and holiday shading */}
+          <div className="absolute inset-y-0 pointer-events-none flex" style={{ left: LABEL_WIDTH }}>
+            {days.map(date => (
+              <div key={date} className={`h-full flex-shrink-0 ${getDayClass(date)}`} style={{ width: DAY_WIDTH }} />
+            ))}
+          </div>
+          {todayOffset >= 0 && todayOffset < days.length && (
+            <div
+              className="absolute inset-y-0 w-0.5 bg-orange-400 pointer-events-none"
+              style={{ left: LABEL_WIDTH + todayOffset * DAY_WIDTH + DAY_WIDTH / 2 }}
+            />
+          )}
+
+          {groups.map(group => (
+            <div key={group.key} className="relative">
+              {group.label && (
+                <div className="relative flex border-b border-gray-200 bg-gray-50/90">
+                  <div
+                    className="sticky left-0 z-10 px-3 py-1.5 text-sm font-semibold text-gray-700"
+                    style={{ width: LABEL_WIDTH }}
+                  >
+                    {group.label} <span className="font-normal text-gray-500">({group.jobs.length})</span>
+                  </div>
+                </div>
+              )}
+              {group.jobs.map(renderJobRow)}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default GanttChart;
@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useHolidays } from '../../hooks/useHolidays';
+import CapacityWarnings from '../CapacityWarnings';
+import type { CapacityConflict } from '../CapacityWarnings';
+import GanttChart from './GanttChart';
+import CalendarView from './CalendarView';
+import type { ScheduleJob, ScheduleGroupBy, ScheduleViewProps, StageDateField } from './types';
+import {
+  STAGE_FIELDS,
+  addDays,
+  addMonths,
+  formatDayLabel,
+  getDateRange,
+  getJobSpan,
+  groupJobs,
+  shiftJobDates,
+  startOfMonth,
+  startOfWeek,
+  todayIso,
+} from './utils';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+const RANGE_OPTIONS = [
+  { weeks: 4, label: '4 weeks' },
+  { weeks: 8, label: '8 weeks' },
+  { weeks: 13, label: '3 months' },
+  { weeks: 26, label: '6 months' },
+];
+
+interface JobScheduleViewProps<T extends ScheduleJob> extends ScheduleViewProps<T> {
+  mode: 'gantt' | 'calendar';
+}
+
+function JobScheduleView<T extends ScheduleJob>({
+  jobs,
+  mode,
+  onJobClick,
+  onJobUpdated,
+  groupable = true,
+}: JobScheduleViewProps<T>) {
+  const { token } = useAuth();
+  const { holidaysByDate } = useHolidays();
+
+  // Gantt starts the week before this one so recent work stays visible
+  const [ganttStart, setGanttStart] = useState(() => addDays(startOfWeek(todayIso()), -7));
+  const [ganttWeeks, setGanttWeeks] = useState(8);
+  const [month, setMonth] = useState(() => startOfMonth(todayIso()));
+  const [groupBy, setGroupBy] = useState<ScheduleGroupBy>(groupable ? 'project' : 'none');
+
+  const [savingJobId, setSavingJobId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [capacityConflicts, setCapacityConflicts] = useState<{ conflicts: CapacityConflict[]; blocked: boolean } | null>(null);
+
+  const scheduledJobs = jobs.filter(job => getJobSpan(job));
+  const unscheduledCount = jobs.length - scheduledJobs.length;
+
+  // Move dates through the normal job update so capacity checks and audit logging apply
+  const handleMove = async (job: T, field: StageDateField | 'all', days: number) => {
+    const changes = shiftJobDates(job, field, days);
+    if (Object.keys(changes).length === 0) return;
+
+    try {
+      setSavingJobId(job.id);
+      setError(null);
+      setCapacityConflicts(null);
+
+      const response = await fetch(`${API_URL}/api/jobs/${job.id}`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await response.json();
+
+      if (response.status === 409 && data.capacityConflicts) {
+        setCapacityConflicts({ conflicts: data.capacityConflicts, blocked: true });
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update job dates');
+      }
+
+      if (data.capacityWarnings) {
+        setCapacityConflicts({ conflicts: data.capacityWarnings, blocked: false });
+      }
+
+      const savedDates = Object.fromEntries(STAGE_FIELDS.map(stageField => [stageField, data[stageField]]));
+      onJobUpdated?.({ ...job, ...savedDates });
+    } catch (err) {
+      console.error('Error moving job dates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update job dates');
+    } finally {
+      setSavingJobId(null);
+    }
+  };
+
+  const ganttDays = getDateRange(ganttStart, ganttWeeks * 7);
+
+  const navigate = (direction: -1 | 1) => {
+    if (mode === 'gantt') {
+      setGanttStart(start => addDays(start, direction * 7 * Math.max(1, Math.floor(ganttWeeks / 2))));
+    } else {
+      setMonth(current => addMonths(current, direction));
+    }
+  };
+
+  const goToToday = () => {
+    setGanttStart(addDays(startOfWeek(todayIso()), -7));
+    setMonth(startOfMonth(todayIso()));
+  };
+
+  const rangeLabel = mode === 'gantt'
+    ? `${formatDayLabel(ganttDays[0], { day: 'numeric', month: 'short' })} - ${formatDayLabel(ganttDays[ganttDays.length - 1], { day: 'numeric', month: 'short', year: 'numeric' })}`
+    : formatDayLabel(month, { month: 'long', year: 'numeric' });
+
+  return (
+    <div className="space-y-3">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3 print:hidden">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => navigate(-1)}
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+            aria-label="Previous"
+          >
+            ◀
+          </button>
+          <button
+            onClick={goToToday}
+            className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => navigate(1)}
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+            aria-label="Next"
+          >
+            ▶
+          </button>
+          <span className="ml-2 text-sm font-medium text-gray-900">{rangeLabel}</span>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          {mode === 'gantt' && groupable && (
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <span>Group by</span>
+              <select
+                value={groupBy}
+                onChange={(e) => setGroupBy(e.target.value as ScheduleGroupBy)}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-orange-500 focus:border-orange-500"
+              >
+                <option value="project">Project</option>
+                <option value="client">Client</option>
+                <option value="none">None</option>
+              </select>
+            </label>
+          )}
+          {mode === 'gantt' && (
+            <select
+              value={ganttWeeks}
+              onChange={(e) => setGanttWeeks(parseInt(e.target.value))}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-orange-500 focus:border-orange-500"
+            >
+              {RANGE_OPTIONS.map(option => (
+                <option key={option.weeks} value={option.weeks}>{option.label}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-2 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      {capacityConflicts && (
+        <CapacityWarnings
+          conflicts={capacityConflicts.conflicts}
+          blocked={capacityConflicts.blocked}
+          onDismiss={() => setCapacityConflicts(null)}
+        />
+      )}
+
+      {mode === 'gantt' ? (
+        <GanttChart
+          groups={groupJobs(scheduledJobs, groupBy)}
+          days={ganttDays}
+          holidaysByDate={holidaysByDate}
+          savingJobId={savingJobId}
+          onMove={handleMove}
+          onJobClick={onJobClick}
+        />
+      ) : (
+        <CalendarView
+          jobs={scheduledJobs}
+          month={month}
+          holidaysByDate={holidaysByDate}
+          savingJobId={savingJobId}
+          onMove={handleMove}
+          onJobClick={onJobClick}
+        />
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-500 print:hidden">
+        <span>
+          {mode === 'gantt'
+            ? '💡 Drag a bar to move all of a job\'s dates, or drag a stage marker (N, M, A, D) to move just that date.'
+            : '💡 Drag a stage onto another day to move it.'}
+        </span>
+        <span className="flex items-center"><span className="inline-block w-3 h-3 bg-gray-100 border border-gray-200 mr-1" />Weekend</span>
+        <span className="flex items-center"><span className="inline-block w-3 h-3 bg-red-50 border border-red-200 mr-1" />Holiday</span>
+        {unscheduledCount > 0 && (
+          <span>{unscheduledCount} job{unscheduledCount === 1 ? '' : 's'} without dates not shown</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default JobScheduleView;
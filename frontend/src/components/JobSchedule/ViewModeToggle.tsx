@@ -0,0 +1,35 @@
+import React from 'react';
+
+export type JobViewMode = 'table' | 'gantt' | 'calendar';
+
+interface ViewModeToggleProps {
+  value: JobViewMode;
+  onChange: (mode: JobViewMode) => void;
+}
+
+const modes: { id: JobViewMode; label: string; icon: string }[] = [
+  { id: 'table', label: 'Table', icon: '📋' },
+  { id: 'gantt', label: 'Gantt', icon: '📊' },
+  { id: 'calendar', label: 'Calendar', icon: '📅' },
+];
+
+const ViewModeToggle: React.FC<ViewModeToggleProps> = ({ value, onChange }) => (
+  <div className="inline-flex rounded-md border border-gray-300 overflow-hidden print:hidden">
+    {modes.map(mode => (
+      <button
+        key={mode.id}
+        onClick={() => onChange(mode.id)}
+        className={`px-3 py-1 text-sm font-medium border-r border-gray-300 last:border-r-0 ${
+          value === mode.id
+            ? 'bg-orange-500 text-white'
+            : 'bg-white text-gray-700 hover:bg-gray-50'
+        }`}
+      >
+        <span className="mr-1">{mode.icon}</span>
+        {mode.label}
+      </button>
+    ))}
+  </div>
+);
+
+export default ViewModeToggle;
@@ -0,0 +1,4 @@
+export { default as JobScheduleView } from './JobScheduleView';
+export { default as ViewModeToggle } from './ViewModeToggle';
+export type { JobViewMode } from './ViewModeToggle';
+export * from './types';
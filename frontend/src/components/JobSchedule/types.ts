@@ -0,0 +1,40 @@
+// Job Schedule (Gantt / calendar) Types
+export type StageDateField = 'nestingDate' | 'machiningDate' | 'assemblyDate' | 'deliveryDate';
+
+export interface ScheduleJob {
+  id: number;
+  projectId: number;
+  unit?: string | null;
+  type?: string | null;
+  items: string;
+  nestingDate?: string | null;   // YYYY-MM-DD
+  machiningDate?: string | null;
+  assemblyDate?: string | null;
+  deliveryDate?: string | null;
+  projectName?: string;
+  clientName?: string;
+  statusInfo?: {
+    displayName: string;
+    color: string;
+    backgroundColor: string;
+  } | null;
+}
+
+export type ScheduleGroupBy = 'project' | 'client' | 'none';
+
+export type ScheduleDateChanges = Partial<Record<StageDateField, string>>;
+
+export interface ScheduleGroup<T extends ScheduleJob = ScheduleJob> {
+  key: string;
+  label: string;
+  jobs: T[];
+}
+
+export interface ScheduleViewProps<T extends ScheduleJob> {
+  jobs: T[];
+  onJobClick?: (job: T) => void;
+  // Called with the saved job after its dates were moved
+  onJobUpdated?: (job: T) => void;
+  // Hide the group selector when every job belongs to the same project
+  groupable?: boolean;
+}
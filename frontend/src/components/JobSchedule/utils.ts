@@ -0,0 +1,95 @@
+// Date helpers for the schedule views. Dates are YYYY-MM-DD strings and the
+// arithmetic is done in UTC so daylight saving never shifts a day.
+import { formatDateForInput } from '../../utils/dateUtils';
+import type { ScheduleJob, ScheduleGroup, ScheduleGroupBy, StageDateField, ScheduleDateChanges } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const STAGE_FIELDS: StageDateField[] = ['nestingDate', 'machiningDate', 'assemblyDate', 'deliveryDate'];
+
+export const STAGE_LABELS: Record<StageDateField, string> = {
+  nestingDate: 'Nesting',
+  machiningDate: 'Machining',
+  assemblyDate: 'Assembly',
+  deliveryDate: 'Delivery',
+};
+
+const toUtc = (date: string) =>
+  Date.UTC(Number(date.slice(0, 4)), Number(date.slice(5, 7)) - 1, Number(date.slice(8, 10)));
+
+export const todayIso = () => formatDateForInput(new Date());
+
+export const addDays = (date: string, days: number) =>
+  new Date(toUtc(date) + days * DAY_MS).toISOString().slice(0, 10);
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round((toUtc(to) - toUtc(from)) / DAY_MS);
+
+export const getDayOfWeek = (date: string) => new Date(toUtc(date)).getUTCDay();
+
+export const isWeekend = (date: string) => {
+  const day = getDayOfWeek(date);
+  return day === 0 || day === 6;
+};
+
+// Monday of the week containing the date
+export const startOfWeek = (date: string) => addDays(date, -((getDayOfWeek(date) + 6) % 7));
+
+export const startOfMonth = (date: string) => `${date.slice(0, 7)}-01`;
+
+export const addMonths = (date: string, months: number) => {
+  const d = new Date(toUtc(startOfMonth(date)));
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d.toISOString().slice(0, 10);
+};
+
+export const getDateRange = (start: string, days: number) =>
+  Array.from({ length: days }, (_, i) => addDays(start, i));
+
+export const formatDayLabel = (date: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(toUtc(date)).toLocaleDateString('en-AU', { ...options, timeZone: 'UTC' });
+
+/**
+ * First and last stage date of a job, or null if it has no dates
+ */
+export const getJobSpan = (job: ScheduleJob) => {
+  const dates = STAGE_FIELDS.map(field => job[field]).filter((date): date is string => !!date).sort();
+  if (dates.length === 0) return null;
+  return { start: dates[0], end: dates[dates.length - 1] };
+};
+
+/**
+ * Move one stage date, or every stage date when field is 'all'
+ */
+export const shiftJobDates = (job: ScheduleJob, field: StageDateField | 'all', days: number): ScheduleDateChanges => {
+  const changes: ScheduleDateChanges = {};
+  for (const stageField of STAGE_FIELDS) {
+    const date = job[stageField];
+    if (date && (field === 'all' || field === stageField)) {
+      changes[stageField] = addDays(date, days);
+    }
+  }
+  return changes;
+};
+
+/**
+ * Group jobs by project or client, keeping groups in name order
+ */
+export const groupJobs = <T extends ScheduleJob>(jobs: T[], groupBy: ScheduleGroupBy): ScheduleGroup<T>[] => {
+  if (groupBy === 'none') {
+    return [{ key: 'all', label: '', jobs }];
+  }
+
+  const groups = new Map<string, ScheduleGroup<T>>();
+  for (const job of jobs) {
+    const label = (groupBy === 'project' ? job.projectName : job.clientName) || 'Unassigned';
+    if (!groups.has(label)) {
+      groups.set(label, { key: label, label, jobs: [] });
+    }
+    groups.get(label)!.jobs.push(job);
+  }
+
+  return [...groups.values()].sort((a, b) => a.label.localeCompare(b.label));
+};
+
+export const getJobLabel = (job: ScheduleJob) => job.unit ? `${job.unit} · ${job.items}` : job.items;
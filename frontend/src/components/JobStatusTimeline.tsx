@@ -0,0 +1,158 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { formatDate, formatDateTime, parseAustralianDate } from '../utils/dateUtils';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+interface StatusHistoryEntry {
+  id: number;
+  jobId: number;
+  source: string;
+  changedAt: string;
+  changedBy: number | null;
+  changedByEmail: string | null;
+  changedByFirstName: string | null;
+  changedByLastName: string | null;
+  fromStatus: { id: number; name: string; displayName: string } | null;
+  toStatus: {
+    id: number;
+    name: string;
+    displayName: string;
+    color: string;
+    backgroundColor: string;
+  };
+}
+
+type PlannedDates = Partial<Record<'nestingDate' | 'machiningDate' | 'assemblyDate' | 'deliveryDate', string | null>>;
+
+interface JobStatusTimelineProps {
+  jobId: number;
+  plannedDates: PlannedDates;
+  refreshKey?: number;
+}
+
+// The planned date each status is expected to be reached by
+const statusPlannedDateField: Record<string, keyof PlannedDates> = {
+  'nesting-complete': 'nestingDate',
+  'machining-complete': 'machiningDate',
+  'assembly-complete': 'assemblyDate',
+  'delivered': 'deliveryDate',
+};
+
+const sourceLabels: Record<string, string> = {
+  manual: 'Updated',
+  create: 'Created',
+  bulk_upload: 'Bulk upload',
+  bulk_edit: 'Bulk edit',
+  revert: 'Reverted',
+  import: 'Imported',
+  template: 'Created from template',
+};
+
+const JobStatusTimeline: React.FC<JobStatusTimelineProps> = ({ jobId, plannedDates, refreshKey = 0 }) => {
+  const { token } = useAuth();
+  const [history, setHistory] = useState<StatusHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`${API_URL}/api/jobs/${jobId}/history`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch status history');
+      }
+
+      setHistory(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch status history');
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId, token]);
+
+  // refreshKey changes when the job is saved, so the history picks up the new entry
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory, refreshKey]);
+
+  const getChangedBy = (entry: StatusHistoryEntry) => {
+    const name = [entry.changedByFirstName, entry.changedByLastName].filter(Boolean).join(' ');
+    return name || entry.changedByEmail || 'System';
+  };
+
+  // Compare when the status was reached with the planned stage date
+  const getPlannedComparison = (entry: StatusHistoryEntry) => {
+    const field = statusPlannedDateField[entry.toStatus.name];
+    const planned = field ? parseAustralianDate(plannedDates[field]) : null;
+    if (!field || !planned) return null;
+
+    const reached = new Date(entry.changedAt);
+    reached.setHours(0, 0, 0, 0);
+    const diffDays = Math.round((reached.getTime() - planned.getTime()) / (1000 * 60 * 60 * 24));
+
+    if (diffDays > 0) {
+      return { text: `${diffDays} day${diffDays === 1 ? '' : 's'} late`, className: 'text-red-600' };
+    }
+    if (diffDays < 0) {
+      return { text: `${-diffDays} day${diffDays === -1 ? '' : 's'} early`, className: 'text-green-600' };
+    }
+    return { text: 'On time', className: 'text-green-600' };
+  };
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Loading status history...</div>;
+  }
+
+  if (error) {
+    return <div className="text-sm text-red-600">{error}</div>;
+  }
+
+  if (history.length === 0) {
+    return <div className="text-sm text-gray-500">No status changes recorded yet.</div>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-1">
+      {history.map(entry => {
+        const field = statusPlannedDateField[entry.toStatus.name];
+        const comparison = getPlannedComparison(entry);
+
+        return (
+          <li key={entry.id} className="mb-4 ml-4">
+            <div
+              className="absolute w-3 h-3 rounded-full -left-1.5 mt-1.5 border border-white"
+              style={{ backgroundColor: entry.toStatus.color }}
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              <span
+                className="px-2 py-0.5 rounded text-xs font-medium"
+                style={{ backgroundColor: entry.toStatus.backgroundColor, color: entry.toStatus.color }}
+              >
+                {entry.toStatus.displayName}
+              </span>
+              <span className="text-sm text-gray-900">{formatDateTime(entry.changedAt)}</span>
+              {comparison && (
+                <span className={`text-xs font-medium ${comparison.className}`}>{comparison.text}</span>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {sourceLabels[entry.source] || entry.source} by {getChangedBy(entry)}
+              {entry.fromStatus && ` from ${entry.fromStatus.displayName}`}
+              {field && plannedDates[field] && ` · planned ${formatDate(plannedDates[field])}`}
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default JobStatusTimeline;
@@ -0,0 +1,19 @@
+import React from 'react';
+
+interface LiveIndicatorProps {
+  connected: boolean;
+  className?: string;
+}
+
+// Shows whether the screen is receiving live job and project updates
+const LiveIndicator: React.FC<LiveIndicatorProps> = ({ connected, className = '' }) => (
+  <span
+    className={`inline-flex items-center text-xs print:hidden ${connected ? 'text-green-700' : 'text-gray-500'} ${className}`}
+    title={connected ? 'Updates from other users appear automatically' : 'Reconnecting to live updates...'}
+  >
+    <span className={`w-2 h-2 rounded-full mr-1.5 ${connected ? 'bg-green-500 animate-pulse' : 'bg-gray-400'}`} />
+    {connected ? 'Live' : 'Offline'}
+  </span>
+);
+
+export default LiveIndicator;
@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLiveUpdates } from '../hooks/useLiveUpdates';
+import { apiRequest, API_ENDPOINTS } from '../utils/api';
+import { formatDateTime, getRelativeTime } from '../utils/dateUtils';
+
+interface InAppNotification {
+  id: number;
+  event: string;
+  title: string;
+  body: string | null;
+  projectId: number | null;
+  jobId: number | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+interface NotificationList {
+  unreadCount: number;
+  notifications: InAppNotification[];
+}
+
+interface NotificationBellProps {
+  // Open the notification's job, or its project when there's no job
+  onSelect?: (projectId: number, jobId: number | null) => void;
+}
+
+// Notifications are written by other users' changes, so poll as well as refreshing on live updates
+const POLL_INTERVAL_MS = 60000;
+
+/**
+ * The bell in the top bar: the current user's unread count and a dropdown of their newest
+ * in-app notifications, from GET /api/notifications.
+ */
+const NotificationBell: React.FC<NotificationBellProps> = ({ onSelect }) => {
+  const { token } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [list, setList] = useState<NotificationList>({ unreadCount: 0, notifications: [] });
+
+  const fetchNotifications = useCallback(async () => {
+    if (!token) return;
+    try {
+      const response = await apiRequest<NotificationList>(API_ENDPOINTS.notifications, {}, token);
+      if (response.success && response.data) {
+        setList(response.data);
+      }
+    } catch (err) {
+      console.error('Error fetching notifications:', err);
+    }
+  }, [token]);
+
+  const markRead = useCallback(async (body: { ids: number[] } | { all: true }) => {
+    if (!token) return;
+    try {
+      const response = await apiRequest<{ updated: number; unreadCount: number }>(
+        API_ENDPOINTS.notifications,
+        { method: 'PATCH', body: JSON.stringify(body) },
+        token
+      );
+      if (response.success) {
+        fetchNotifications();
+      }
+    } catch (err) {
+      console.error('Error updating notifications:', err);
+    }
+  }, [token, fetchNotifications]);
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchNotifications]);
+
+  useLiveUpdates(() => {
+    fetchNotifications();
+  });
+
+  // Close when clicking outside
+  useEffect(() => {
+    const handleClickOutside = () => {
+      setOpen(false);
+    };
+
+    if (open) {
+      document.addEventListener('click', handleClickOutside);
+      return () => document.removeEventListener('click', handleClickOutside);
+    }
+  }, [open]);
+
+  const handleToggle = () => {
+    if (!open) fetchNotifications();
+    setOpen(!open);
+  };
+
+  const handleSelect = (notification: InAppNotification) => {
+    if (!notification.readAt) {
+      markRead({ ids: [notification.id] });
+    }
+    if (notification.projectId !== null && onSelect) {
+      setOpen(false);
+      onSelect(notification.projectId, notification.jobId);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          handleToggle();
+        }}
+        className="relative p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+        title="Notifications"
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M14.857 17.082a23.848 23.848 0 005.454-1.31A8.967 8.967 0 0118 9.75v-.7V9A6 6 0 006 9v.75a8.967 8.967 0 01-2.312 6.022c1.733.64 3.56 1.085 5.455 1.31m5.714 0a24.255 24.255 0 01-5.714 0m5.714 0a3 3 0 11-5.714 0" />
+        </svg>
+        {list.unreadCount > 0 && (
+          <span className="absolute top-0 right-0 min-w-[18px] h-[18px] px-1 rounded-full bg-primary text-white text-xs font-medium flex items-center justify-center">
+            {list.unreadCount > 99 ? '99+' : list.unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div
+          className="absolute right-0 mt-2 w-96 bg-white rounded-lg shadow-lg border border-gray-200 z-50"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-700">Notifications</span>
+            {list.unreadCount > 0 && (
+              <button
+                onClick={() => markRead({ all: true })}
+                className="text-xs text-primary hover:underline"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {list.notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">No notifications yet.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {list.notifications.map(notification => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleSelect(notification)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 transition-colors ${
+                      notification.readAt ? '' : 'bg-orange-50'
+                    }`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <span className={`text-sm text-gray-900 ${notification.readAt ? '' : 'font-medium'}`}>
+                        {notification.title}
+                      </span>
+                      {!notification.readAt && <span className="mt-1.5 w-2 h-2 shrink-0 rounded-full bg-primary" />}
+                    </div>
+                    {notification.body && <p className="text-xs text-gray-600 mt-0.5">{notification.body}</p>}
+                    <p className="text-xs text-gray-400 mt-1" title={formatDateTime(notification.createdAt)}>
+                      {getRelativeTime(notification.createdAt)}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,151 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { API_BASE_URL, API_ENDPOINTS, createAuthHeaders } from '../utils/api';
+import { formatDate } from '../utils/dateUtils';
+
+type Stage = 'nesting' | 'machining' | 'assembly' | 'delivery';
+
+interface JobException {
+  jobId: number;
+  unit: string | null;
+  items: string;
+  projectName: string | null;
+  clientName: string | null;
+  status: { displayName: string | null };
+  overdueStages: { stage: Stage; plannedDate: string; workingDaysOverdue: number }[];
+  workingDaysOverdue: number;
+}
+
+interface JobExceptions {
+  asOf: string;
+  jobs: JobException[];
+  totals: Record<Stage, number>;
+}
+
+interface OverdueStagesPanelProps {
+  token: string | null;
+  // Bump to reload, e.g. on a live update
+  refreshKey?: number;
+}
+
+const STAGE_LABELS: Record<Stage, string> = {
+  nesting: 'Nesting',
+  machining: 'Machining',
+  assembly: 'Assembly',
+  delivery: 'Delivery',
+};
+
+// Rows shown before "show all"
+const COLLAPSED_ROWS = 10;
+
+/**
+ * Jobs whose planned stage dates have passed without the job reaching the stage, from
+ * GET /api/jobs/exceptions. Hidden for users who can't view jobs.
+ */
+const OverdueStagesPanel: React.FC<OverdueStagesPanelProps> = ({ token, refreshKey = 0 }) => {
+  const [exceptions, setExceptions] = useState<JobExceptions | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  const fetchExceptions = useCallback(async () => {
+    if (!token) return;
+    try {
+      const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.jobExceptions}`, {
+        headers: createAuthHeaders(token),
+      });
+      if (!response.ok) {
+        setExceptions(null);
+        return;
+      }
+      setExceptions(await response.json());
+    } catch (err) {
+      console.error('Error fetching overdue jobs:', err);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchExceptions();
+  }, [fetchExceptions, refreshKey]);
+
+  if (!exceptions) return null;
+
+  const rows = showAll ? exceptions.jobs : exceptions.jobs.slice(0, COLLAPSED_ROWS);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-light-grey mt-8">
+      <div className="border-b border-light-grey p-4 flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-black">Overdue Stages</h3>
+          <p className="text-sm text-charcoal">
+            Planned dates passed without the job reaching the stage, in working days as of {formatDate(exceptions.asOf)}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(STAGE_LABELS) as Stage[]).map(stage => (
+            <span
+              key={stage}
+              className={`px-2 py-1 rounded-full text-xs font-medium ${
+                exceptions.totals[stage] > 0 ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-600'
+              }`}
+            >
+              {STAGE_LABELS[stage]}: {exceptions.totals[stage]}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {exceptions.jobs.length === 0 ? (
+        <div className="text-center py-8 text-charcoal">
+          <p>No overdue stages. Every job is on schedule.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto p-4">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-light-grey">
+                <th className="text-left py-3 px-4 font-medium text-charcoal">Job ID</th>
+                <th className="text-left py-3 px-4 font-medium text-charcoal">Items</th>
+                <th className="text-left py-3 px-4 font-medium text-charcoal">Project</th>
+                <th className="text-left py-3 px-4 font-medium text-charcoal">Status</th>
+                <th className="text-left py-3 px-4 font-medium text-charcoal">Overdue</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(job => (
+                <tr key={job.jobId} className="border-b border-light-grey hover:bg-light-grey">
+                  <td className="py-3 px-4 text-sm font-medium text-black">#{job.jobId}</td>
+                  <td className="py-3 px-4 text-sm text-black">{job.unit ? `${job.unit} - ${job.items}` : job.items}</td>
+                  <td className="py-3 px-4 text-sm text-charcoal">
+                    {job.projectName || '-'}{job.clientName ? ` (${job.clientName})` : ''}
+                  </td>
+                  <td className="py-3 px-4 text-sm text-charcoal">{job.status.displayName || '-'}</td>
+                  <td className="py-3 px-4 text-sm">
+                    <div className="flex flex-wrap gap-1">
+                      {job.overdueStages.map(stage => (
+                        <span
+                          key={stage.stage}
+                          className="px-2 py-0.5 rounded bg-red-100 text-red-800 text-xs font-medium"
+                          title={`Planned ${formatDate(stage.plannedDate)}`}
+                        >
+                          {STAGE_LABELS[stage.stage]} +{stage.workingDaysOverdue}d
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {exceptions.jobs.length > COLLAPSED_ROWS && (
+            <button
+              onClick={() => setShowAll(!showAll)}
+              className="mt-3 text-sm text-primary hover:underline"
+            >
+              {showAll ? 'Show fewer' : `Show all ${exceptions.jobs.length} jobs`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OverdueStagesPanel;
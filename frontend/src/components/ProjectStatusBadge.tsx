@@ -0,0 +1,35 @@
+import React from 'react';
+import type { ProjectStatus } from '../hooks/useProjectStatuses';
+
+interface ProjectStatusBadgeProps {
+  status: string | null | undefined;
+  statusByName: Map<string, ProjectStatus>;
+  size?: 'sm' | 'md';
+}
+
+/**
+ * A project status in its configured colours. Unknown statuses show their raw name in grey.
+ */
+const ProjectStatusBadge: React.FC<ProjectStatusBadgeProps> = ({ status, statusByName, size = 'sm' }) => {
+  const config = status ? statusByName.get(status) : undefined;
+  const sizeClasses = size === 'md' ? 'px-3 py-1 text-sm' : 'px-2 py-1 text-xs';
+
+  if (!config) {
+    return (
+      <span className={`inline-flex font-semibold rounded-full bg-gray-100 text-gray-800 ${sizeClasses}`}>
+        {status || '-'}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={`inline-flex font-semibold rounded-full ${sizeClasses}`}
+      style={{ color: config.color, backgroundColor: config.backgroundColor }}
+    >
+      {config.displayName}
+    </span>
+  );
+};
+
+export default ProjectStatusBadge;
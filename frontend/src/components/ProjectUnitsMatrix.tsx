@@ -0,0 +1,370 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { apiRequest } from '../utils/api';
+import ConfirmationModal from './ConfirmationModal';
+
+interface LocationProgress {
+  jobCount: number;
+  completedJobCount: number;
+}
+
+interface UnitNode extends LocationProgress {
+  id: number;
+  name: string;
+}
+
+interface LevelNode extends LocationProgress {
+  id: number;
+  name: string;
+  units: UnitNode[];
+}
+
+interface BuildingNode extends LocationProgress {
+  id: number;
+  name: string;
+  levels: LevelNode[];
+}
+
+interface ProjectLocations {
+  buildings: BuildingNode[];
+  unitCount: number;
+  unlinkedJobCount: number;
+}
+
+interface GenerateResult {
+  createdBuildings: number;
+  createdLevels: number;
+  createdUnits: number;
+  skippedUnits: string[];
+  linkedJobIds: number[];
+  locations: ProjectLocations;
+}
+
+interface MatrixJob {
+  id: number;
+  unitId?: number | null;
+  items: string;
+  statusInfo?: {
+    displayName: string;
+    color: string;
+    backgroundColor: string;
+  } | null;
+}
+
+interface ProjectUnitsMatrixProps {
+  projectId: number;
+  jobs: MatrixJob[];
+  onJobSelect?: (jobId: number) => void;
+}
+
+const ProgressLabel: React.FC<{ progress: LocationProgress }> = ({ progress }) => (
+  <span className="text-xs text-gray-500">
+    {progress.completedJobCount}/{progress.jobCount} done
+    {progress.jobCount > 0 && ` (${Math.round((progress.completedJobCount / progress.jobCount) * 100)}%)`}
+  </span>
+);
+
+const ProjectUnitsMatrix: React.FC<ProjectUnitsMatrixProps> = ({ projectId, jobs, onJobSelect }) => {
+  const { token } = useAuth();
+  const [locations, setLocations] = useState<ProjectLocations | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [showGenerator, setShowGenerator] = useState(false);
+  const [generator, setGenerator] = useState({
+    buildings: '1',
+    buildingName: 'Building {building}',
+    levels: '',
+    levelName: 'L{level}',
+    units: '',
+    unitName: '{level}{unit}',
+  });
+  const [working, setWorking] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<{ kind: 'buildings' | 'levels'; id: number; name: string } | null>(null);
+
+  const fetchLocations = useCallback(async () => {
+    const response = await apiRequest<ProjectLocations>(`/api/projects/${projectId}/locations`, {}, token || '');
+    if (response.success && response.data) {
+      setLocations(response.data);
+      setError(null);
+    } else {
+      setError(response.error || 'Failed to load units');
+    }
+    setLoading(false);
+  }, [projectId, token]);
+
+  // Job counts change with the jobs, so reload alongside them
+  useEffect(() => {
+    fetchLocations();
+  }, [fetchLocations, jobs]);
+
+  // One column per item, in the order items first appear
+  const itemColumns = useMemo(() => {
+    const linked = jobs.filter(job => job.unitId).sort((a, b) => a.id - b.id);
+    return [...new Set(linked.map(job => job.items))];
+  }, [jobs]);
+
+  const jobsByCell = useMemo(() => {
+    const cells = new Map<string, MatrixJob[]>();
+    for (const job of jobs) {
+      if (!job.unitId) continue;
+      const key = `${job.unitId}:${job.items}`;
+      cells.set(key, [...(cells.get(key) ?? []), job]);
+    }
+    return cells;
+  }, [jobs]);
+
+  const handleGenerate = async () => {
+    setWorking(true);
+    setError(null);
+    setMessage(null);
+    const response = await apiRequest<GenerateResult>(`/api/projects/${projectId}/locations/generate`, {
+      method: 'POST',
+      body: JSON.stringify(generator),
+    }, token || '');
+
+    if (response.success && response.data) {
+      const { createdUnits, createdLevels, skippedUnits, linkedJobIds } = response.data;
+      setLocations(response.data.locations);
+      setMessage(
+        `Added ${createdUnits} unit${createdUnits === 1 ? '' : 's'} on ${createdLevels} new level${createdLevels === 1 ? '' : 's'}` +
+        (linkedJobIds.length > 0 ? `, linked ${linkedJobIds.length} existing jobs` : '') +
+        (skippedUnits.length > 0 ? `. Skipped ${skippedUnits.length} names already used on another level: ${skippedUnits.slice(0, 5).join(', ')}` : '')
+      );
+      setShowGenerator(false);
+    } else {
+      setError(response.error || 'Failed to generate units');
+    }
+    setWorking(false);
+  };
+
+  const handleLinkJobs = async () => {
+    setWorking(true);
+    setError(null);
+    setMessage(null);
+    const response = await apiRequest<{ linked: number; locations: ProjectLocations }>(
+      `/api/projects/${projectId}/locations/link-jobs`,
+      { method: 'POST' },
+      token || ''
+    );
+    if (response.success && response.data) {
+      setLocations(response.data.locations);
+      setMessage(response.data.linked > 0
+        ? `Linked ${response.data.linked} jobs to their units`
+        : 'No unlinked jobs name one of these units');
+    } else {
+      setError(response.error || 'Failed to link jobs');
+    }
+    setWorking(false);
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    setWorking(true);
+    setError(null);
+    setMessage(null);
+    const response = await apiRequest<ProjectLocations>(
+      `/api/projects/${projectId}/locations/${deleteTarget.kind}/${deleteTarget.id}`,
+      { method: 'DELETE' },
+      token || ''
+    );
+    if (response.success && response.data) {
+      setLocations(response.data);
+      setMessage(`Deleted ${deleteTarget.name}`);
+      setDeleteTarget(null);
+    } else {
+      setError(response.error || 'Failed to delete');
+    }
+    setWorking(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="animate-pulse space-y-3">
+        <div className="h-12 bg-gray-200 rounded"></div>
+        <div className="h-12 bg-gray-200 rounded"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-sm text-gray-600">
+          {locations && locations.unitCount > 0
+            ? `${locations.unitCount} units in ${locations.buildings.length} building${locations.buildings.length === 1 ? '' : 's'}`
+            : 'Set up the project\'s buildings, levels and units to track progress per unit.'}
+          {locations && locations.unlinkedJobCount > 0 && ` · ${locations.unlinkedJobCount} jobs not linked to a unit`}
+        </div>
+        <div className="flex items-center space-x-2">
+          {locations && locations.unitCount > 0 && locations.unlinkedJobCount > 0 && (
+            <button
+              onClick={handleLinkJobs}
+              disabled={working}
+              className="px-3 py-1 rounded-md border border-gray-300 bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Link jobs by unit name
+            </button>
+          )}
+          <button
+            onClick={() => setShowGenerator(!showGenerator)}
+            className="px-3 py-1 rounded-md bg-orange-500 hover:bg-orange-600 text-sm font-medium text-white"
+          >
+            {showGenerator ? 'Close' : '+ Generate Units'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-lg">{error}</div>
+      )}
+      {message && (
+        <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg">{message}</div>
+      )}
+
+      {showGenerator && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Ranges can be numbers ("1-12", "01-08"), letters ("A-C") or names ("G, 1-3, PH"). Names use {'{building}'},
+            {' {level}'} and {'{unit}'}: levels 1-12 with units 01-08 and "{'{level}{unit}'}" gives 101 to 1208.
+            Existing buildings, levels and units are kept, and jobs whose unit matches a new unit are linked to it.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {([
+              ['buildings', 'Buildings', '1', 'buildingName', 'Building name'],
+              ['levels', 'Levels', '1-12', 'levelName', 'Level name'],
+              ['units', 'Units per level', '01-08', 'unitName', 'Unit name'],
+            ] as const).map(([rangeKey, rangeLabel, placeholder, nameKey, nameLabel]) => (
+              <div key={rangeKey} className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {rangeLabel}
+                  <input
+                    type="text"
+                    value={generator[rangeKey]}
+                    onChange={(e) => setGenerator({ ...generator, [rangeKey]: e.target.value })}
+                    placeholder={placeholder}
+                    className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 font-normal focus:outline-none focus:ring-1 focus:ring-orange-500"
+                  />
+                </label>
+                <label className="block text-xs text-gray-600">
+                  {nameLabel}
+                  <input
+                    type="text"
+                    value={generator[nameKey]}
+                    onChange={(e) => setGenerator({ ...generator, [nameKey]: e.target.value })}
+                    className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1 font-mono text-sm focus:outline-none focus:ring-1 focus:ring-orange-500"
+                  />
+                </label>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <button
+              onClick={handleGenerate}
+              disabled={working || !generator.levels.trim() || !generator.units.trim()}
+              className="px-4 py-2 bg-orange-500 hover:bg-orange-600 text-white rounded-md disabled:opacity-50"
+            >
+              {working ? 'Generating...' : 'Generate'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {locations && locations.buildings.length === 0 && !showGenerator && (
+        <div className="text-center py-12 bg-gray-50 rounded-lg border border-gray-200">
+          <div className="text-gray-400 text-4xl mb-4">🏢</div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No Units Yet</h3>
+          <p className="text-gray-600">Generate buildings, levels and units from ranges like "Levels 1-12, units 01-08".</p>
+        </div>
+      )}
+
+      {locations?.buildings.map(building => (
+        <div key={building.id} className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <div className="px-6 py-3 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+            <div>
+              <span className="text-lg font-medium text-gray-900 mr-3">{building.name}</span>
+              <ProgressLabel progress={building} />
+            </div>
+            <button
+              onClick={() => setDeleteTarget({ kind: 'buildings', id: building.id, name: building.name })}
+              className="text-sm text-red-600 hover:text-red-800"
+            >
+              Delete
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Unit</th>
+                  {itemColumns.map(items => (
+                    <th key={items} className="px-2 py-2 text-left font-medium text-gray-500 whitespace-nowrap">{items}</th>
+                  ))}
+                </tr>
+              </thead>
+              {building.levels.map(level => (
+                <tbody key={level.id} className="divide-y divide-gray-100">
+                  <tr className="bg-gray-50">
+                    <td colSpan={itemColumns.length + 1} className="px-4 py-1">
+                      <span className="font-medium text-gray-700 mr-3">{level.name}</span>
+                      <ProgressLabel progress={level} />
+                      <button
+                        onClick={() => setDeleteTarget({ kind: 'levels', id: level.id, name: level.name })}
+                        className="ml-3 text-xs text-red-600 hover:text-red-800"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                  {level.units.map(unit => (
+                    <tr key={unit.id}>
+                      <td className="px-4 py-1 font-medium text-gray-900 whitespace-nowrap">{unit.name}</td>
+                      {itemColumns.map(items => {
+                        const cellJobs = jobsByCell.get(`${unit.id}:${items}`) ?? [];
+                        const [job] = cellJobs;
+                        return (
+                          <td key={items} className="px-2 py-1">
+                            {job ? (
+                              <button
+                                onClick={() => onJobSelect?.(job.id)}
+                                title={cellJobs.map(cellJob => cellJob.statusInfo?.displayName ?? 'Unknown').join(', ')}
+                                className="w-full rounded px-2 py-1 text-xs font-medium text-left whitespace-nowrap"
+                                style={{
+                                  backgroundColor: job.statusInfo?.backgroundColor ?? '#f3f4f6',
+                                  color: job.statusInfo?.color ?? '#374151',
+                                }}
+                              >
+                                {job.statusInfo?.displayName ?? 'Unknown'}
+                                {cellJobs.length > 1 && ` +${cellJobs.length - 1}`}
+                              </button>
+                            ) : (
+                              <span className="block text-center text-gray-300">–</span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              ))}
+            </table>
+          </div>
+        </div>
+      ))}
+
+      <ConfirmationModal
+        isOpen={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={handleDelete}
+        title={deleteTarget?.kind === 'buildings' ? 'Delete Building' : 'Delete Level'}
+        description={deleteTarget ? `Delete ${deleteTarget.name} and all of its ${deleteTarget.kind === 'buildings' ? 'levels and units' : 'units'}?` : ''}
+        confirmText="Jobs are kept with their unit text and are no longer linked."
+        confirmButtonText="Delete"
+        isDestructive
+        isLoading={working}
+      />
+    </div>
+  );
+};
+
+export default ProjectUnitsMatrix;
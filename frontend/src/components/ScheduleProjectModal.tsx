@@ -0,0 +1,229 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import Icon from './Icon';
+import { formatDate } from '../utils/dateUtils';
+import CapacityWarnings, { type CapacityConflict } from './CapacityWarnings';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+interface ScheduleFieldChange {
+  field: 'nestingDate' | 'machiningDate' | 'assemblyDate' | 'deliveryDate';
+  current: string | null;
+  proposed: string | null;
+}
+
+interface JobSchedulePreview {
+  jobId: number;
+  unit: string | null;
+  items: string;
+  deliveryDate: string | null;
+  changes: ScheduleFieldChange[];
+  error?: string;
+}
+
+interface ScheduleProjectModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onScheduled: () => void;
+  projectId: number;
+}
+
+const fieldLabels: Record<ScheduleFieldChange['field'], string> = {
+  nestingDate: 'Nesting',
+  machiningDate: 'Machining',
+  assemblyDate: 'Assembly',
+  deliveryDate: 'Delivery',
+};
+
+const ScheduleProjectModal: React.FC<ScheduleProjectModalProps> = ({ isOpen, onClose, onScheduled, projectId }) => {
+  const { token } = useAuth();
+  const [deliveryDate, setDeliveryDate] = useState('');
+  const [previews, setPreviews] = useState<JobSchedulePreview[]>([]);
+  const [capacityConflicts, setCapacityConflicts] = useState<CapacityConflict[]>([]);
+  const [capacityBlocked, setCapacityBlocked] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The delivery date is passed in so opening the modal can preview without a stale one
+  const requestSchedule = useCallback(async (apply: boolean, deliveryDate: string) => {
+    const response = await fetch(`${API_URL}/api/projects/${projectId}/schedule`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ deliveryDate: deliveryDate || undefined, apply }),
+    });
+
+    const data = await response.json();
+    setCapacityConflicts(data.capacityConflicts || []);
+    setCapacityBlocked(response.status === 409);
+    if (response.status === 409) {
+      throw new Error('The schedule was not applied because it would put a stage over capacity.');
+    }
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to schedule project');
+    }
+    return data;
+  }, [projectId, token]);
+
+  const loadPreview = useCallback(async (deliveryDate: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await requestSchedule(false, deliveryDate);
+      setPreviews(data.previews);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load schedule preview');
+    } finally {
+      setLoading(false);
+    }
+  }, [requestSchedule]);
+
+  const handleApply = async () => {
+    try {
+      setApplying(true);
+      setError(null);
+      await requestSchedule(true, deliveryDate);
+      onScheduled();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply schedule');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      setDeliveryDate('');
+      loadPreview('');
+    }
+  }, [isOpen, loadPreview]);
+
+  if (!isOpen) return null;
+
+  const changedJobs = previews.filter(p => !p.error && p.changes.length > 0);
+  const skippedJobs = previews.filter(p => p.error);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">Schedule Project Jobs</h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              disabled={applying}
+            >
+              <Icon name="x" className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 overflow-y-auto">
+          <p className="text-sm text-gray-600">
+            Stage dates are back-scheduled from each job's delivery date using the configured lead times,
+            skipping weekends and holidays. Review the changes below before applying them.
+          </p>
+
+          <div className="flex items-end space-x-3 my-4">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Delivery date for all jobs (optional)
+              </label>
+              <input
+                type="date"
+                value={deliveryDate}
+                onChange={(e) => setDeliveryDate(e.target.value)}
+                title="Leave blank to use each job's delivery date"
+                className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+            <button
+              onClick={() => loadPreview(deliveryDate)}
+              disabled={loading || applying}
+              className="px-4 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded-md disabled:opacity-50"
+            >
+              {loading ? 'Calculating...' : 'Preview'}
+            </button>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-4 text-sm text-red-800">{error}</div>
+          )}
+
+          {!loading && capacityConflicts.length > 0 && (
+            <div className="mb-4">
+              <CapacityWarnings conflicts={capacityConflicts} blocked={capacityBlocked} />
+            </div>
+          )}
+
+          {!loading && (
+            <>
+              <p className="text-sm text-gray-700 mb-2">
+                {changedJobs.length} of {previews.length} jobs will change
+                {skippedJobs.length > 0 && `, ${skippedJobs.length} skipped`}
+              </p>
+
+              {changedJobs.length > 0 && (
+                <table className="min-w-full divide-y divide-gray-200 text-sm mb-4">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Job</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Stage</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Current</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Proposed</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {changedJobs.flatMap(preview =>
+                      preview.changes.map((change, index) => (
+                        <tr key={`${preview.jobId}-${change.field}`}>
+                          <td className="px-3 py-2 text-gray-900">
+                            {index === 0 ? `#${preview.jobId} ${preview.unit || ''} ${preview.items}` : ''}
+                          </td>
+                          <td className="px-3 py-2 text-gray-700">{fieldLabels[change.field]}</td>
+                          <td className="px-3 py-2 text-gray-500">{formatDate(change.current)}</td>
+                          <td className="px-3 py-2 font-medium text-green-700">{formatDate(change.proposed)}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              )}
+
+              {skippedJobs.length > 0 && (
+                <div className="text-xs text-gray-500 space-y-1">
+                  {skippedJobs.map(preview => (
+                    <div key={preview.jobId}>#{preview.jobId} {preview.items}: {preview.error}</div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            disabled={applying}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={loading || applying || changedJobs.length === 0}
+            className="px-4 py-2 rounded-lg font-medium transition-colors bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed"
+          >
+            {applying ? 'Applying...' : `Apply to ${changedJobs.length} Jobs`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleProjectModal;
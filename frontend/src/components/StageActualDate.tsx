@@ -0,0 +1,48 @@
+import React from 'react';
+import { formatDate } from '../utils/dateUtils';
+
+interface StageActualDateProps {
+  actual: string | null | undefined;
+  variance: number | null | undefined;
+}
+
+/**
+ * Working-day variance against the planned date: red when late, green when on time or early
+ */
+export const StageVarianceBadge: React.FC<{ variance: number | null | undefined }> = ({ variance }) => {
+  if (variance === null || variance === undefined) return null;
+
+  const label = variance > 0 ? `+${variance}d` : variance < 0 ? `${variance}d` : 'On time';
+  const title = variance > 0
+    ? `${variance} working day${variance === 1 ? '' : 's'} late`
+    : variance < 0
+      ? `${-variance} working day${variance === -1 ? '' : 's'} early`
+      : 'Completed on the planned date';
+
+  return (
+    <span
+      className={`inline-flex px-1.5 py-0.5 text-xs font-semibold rounded ${
+        variance > 0 ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+      }`}
+      title={title}
+    >
+      {label}
+    </span>
+  );
+};
+
+/**
+ * The date a stage was actually completed, with its variance from the plan
+ */
+const StageActualDate: React.FC<StageActualDateProps> = ({ actual, variance }) => {
+  if (!actual) return <span className="text-gray-400">-</span>;
+
+  return (
+    <span className="inline-flex items-center gap-1 whitespace-nowrap">
+      {formatDate(actual)}
+      <StageVarianceBadge variance={variance} />
+    </span>
+  );
+};
+
+export default StageActualDate;
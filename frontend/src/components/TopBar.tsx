@@ -1,14 +1,16 @@
 import React, { useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import Icon from './Icon';
+import NotificationBell from './NotificationBell';
 
 interface TopBarProps {
   sidebarCollapsed: boolean;
   onPageChange: (page: string) => void;
   onSettingsNavigation?: (tab: 'holidays' | 'job-status' | 'lead-times' | 'import' | 'company' | 'system' | 'users' | 'archived-clients', openProfile?: boolean) => void;
+  onNotificationSelect?: (projectId: number, jobId: number | null) => void;
 }
 
-const TopBar: React.FC<TopBarProps> = ({ sidebarCollapsed, onPageChange, onSettingsNavigation }) => {
+const TopBar: React.FC<TopBarProps> = ({ sidebarCollapsed, onPageChange, onSettingsNavigation, onNotificationSelect }) => {
   const { user, logout } = useAuth();
   const [userMenuOpen, setUserMenuOpen] = useState(false);
 
@@ -45,12 +47,7 @@ const TopBar: React.FC<TopBarProps> = ({ sidebarCollapsed, onPageChange, onSetti
          }}>
       {/* Right side - Notifications and User Menu */}
       <div className="flex items-center space-x-4">
-        {/* Bell/Alerts Icon */}
-        <button className="relative p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors">
-          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
-            <path strokeLinecap="round" strokeLinejoin="round" d="M14.857 17.082a23.848 23.848 0 005.454-1.31A8.967 8.967 0 0118 9.75v-.7V9A6 6 0 006 9v.75a8.967 8.967 0 01-2.312 6.022c1.733.64 3.56 1.085 5.455 1.31m5.714 0a24.255 24.255 0 01-5.714 0m5.714 0a3 3 0 11-5.714 0" />
-          </svg>
-        </button>
+        <NotificationBell onSelect={onNotificationSelect} />
 
         {/* User Menu */}
         <div className="relative">
@@ -0,0 +1,296 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { formatDateForInput } from '../../utils/dateUtils';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+type Stage = 'nesting' | 'machining' | 'assembly' | 'delivery';
+
+export interface StageCapacity {
+  stage: Stage;
+  unitsPerDay: number;         // Jobs per working day, 0 = unlimited
+  enforcement: 'warn' | 'block';
+  isActive: boolean;
+}
+
+interface StageDayLoad {
+  load: number;
+  capacity: number | null;     // null = unlimited
+  overCapacity: boolean;
+}
+
+interface CapacityDay {
+  date: string;
+  isWorkingDay: boolean;
+  stages: Record<Stage, StageDayLoad>;
+}
+
+const stageLabels: Record<Stage, string> = {
+  nesting: 'Nesting',
+  machining: 'Machining',
+  assembly: 'Assembly',
+  delivery: 'Delivery',
+};
+
+const FORECAST_DAYS = 14;
+
+const CapacityManagement: React.FC = () => {
+  const [settings, setSettings] = useState<StageCapacity[]>([]);
+  const [days, setDays] = useState<CapacityDay[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const { token } = useAuth();
+
+  const loadCapacity = useCallback(async () => {
+    const from = new Date();
+    const to = new Date();
+    to.setDate(from.getDate() + FORECAST_DAYS - 1);
+
+    const response = await fetch(
+      `${API_URL}/api/capacity?from=${formatDateForInput(from)}&to=${formatDateForInput(to)}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error('Failed to load capacity');
+    }
+
+    const data = await response.json();
+    setSettings(data.settings);
+    setDays(data.days);
+  }, [token]);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      await loadCapacity();
+    } catch (err) {
+      console.error('Error loading capacity:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load capacity');
+    } finally {
+      setLoading(false);
+    }
+  }, [loadCapacity]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const updateSetting = async (stage: Stage, updates: Partial<StageCapacity>) => {
+    try {
+      // Optimistic update
+      setSettings(prev => prev.map(s => s.stage === stage ? { ...s, ...updates } : s));
+
+      const response = await fetch(`${API_URL}/api/capacity/settings/${stage}`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(updates),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to save capacity');
+      }
+
+      setMessage({ type: 'success', text: 'Capacity updated successfully!' });
+      setTimeout(() => setMessage(null), 3000);
+
+      // Refresh the forecast against the new capacity
+      await loadCapacity();
+    } catch (err) {
+      console.error('Error updating capacity:', err);
+      setMessage({ type: 'error', text: 'Failed to update capacity' });
+      setTimeout(() => setMessage(null), 3000);
+
+      // Revert optimistic update on error
+      loadData();
+    }
+  };
+
+  const getCellClass = (day: CapacityDay, load: StageDayLoad) => {
+    if (load.overCapacity) return 'bg-red-100 text-red-800 font-semibold';
+    if (!day.isWorkingDay) return 'bg-gray-100 text-gray-400';
+    if (load.capacity !== null && load.load === load.capacity) return 'bg-yellow-50 text-yellow-800';
+    return 'text-gray-700';
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-orange-600"></div>
+        <span className="ml-2 text-gray-600">Loading capacity...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+        <p className="font-medium">Error loading capacity</p>
+        <p className="text-sm">{error}</p>
+        <button
+          onClick={loadData}
+          className="mt-2 bg-red-600 text-white px-3 py-1 rounded text-sm hover:bg-red-700"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">Workshop Capacity</h2>
+        <p className="text-gray-600 mt-1">
+          Set how many jobs each stage can handle per working day. Weekends and holidays have no capacity.
+          Job edits and scheduling warn when a day is over capacity, or are blocked if the stage is set to block.
+        </p>
+      </div>
+
+      {/* Message */}
+      {message && (
+        <div className={`p-4 rounded-md ${
+          message.type === 'success'
+            ? 'bg-green-50 border border-green-200 text-green-800'
+            : 'bg-red-50 border border-red-200 text-red-800'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {/* Capacity Settings Table */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="bg-gray-50 px-6 py-3 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Stage Capacity</h3>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Stage
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Jobs per Day
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  When Exceeded
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Active
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {settings.map((setting) => (
+                <tr key={setting.stage} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {stageLabels[setting.stage]}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <input
+                      type="number"
+                      min="0"
+                      max="999"
+                      value={setting.unitsPerDay}
+                      onChange={(e) => updateSetting(setting.stage, { unitsPerDay: parseInt(e.target.value) || 0 })}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-orange-500 focus:border-orange-500"
+                    />
+                    {setting.unitsPerDay === 0 && (
+                      <span className="ml-2 text-xs text-gray-500">Unlimited</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <select
+                      value={setting.enforcement}
+                      onChange={(e) => updateSetting(setting.stage, { enforcement: e.target.value as 'warn' | 'block' })}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-orange-500 focus:border-orange-500"
+                    >
+                      <option value="warn">Warn</option>
+                      <option value="block">Block</option>
+                    </select>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <label className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={setting.isActive}
+                        onChange={(e) => updateSetting(setting.stage, { isActive: e.target.checked })}
+                        className="h-4 w-4 text-orange-600 focus:ring-orange-500 border-gray-300 rounded"
+                      />
+                      <span className="ml-2 text-sm text-gray-700">Active</span>
+                    </label>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Load Forecast */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="bg-gray-50 px-6 py-3 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Next {FORECAST_DAYS} Days</h3>
+          <p className="text-xs text-gray-500">Jobs scheduled / capacity for each stage</p>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Stage
+                </th>
+                {days.map(day => {
+                  const date = new Date(`${day.date}T00:00:00`);
+                  return (
+                    <th
+                      key={day.date}
+                      className={`px-2 py-2 text-center text-xs font-medium ${day.isWorkingDay ? 'text-gray-500' : 'text-gray-400 bg-gray-100'}`}
+                    >
+                      <div>{date.toLocaleDateString('en-AU', { weekday: 'short' })}</div>
+                      <div>{date.toLocaleDateString('en-AU', { day: '2-digit', month: '2-digit' })}</div>
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {settings.map(setting => (
+                <tr key={setting.stage}>
+                  <td className="px-3 py-2 whitespace-nowrap font-medium text-gray-900">
+                    {stageLabels[setting.stage]}
+                  </td>
+                  {days.map(day => {
+                    const load = day.stages[setting.stage];
+                    return (
+                      <td key={day.date} className={`px-2 py-2 text-center whitespace-nowrap ${getCellClass(day, load)}`}>
+                        {load.capacity === null ? load.load : `${load.load}/${load.capacity}`}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CapacityManagement;
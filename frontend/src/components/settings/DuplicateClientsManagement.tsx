@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { apiRequest } from '../../utils/api';
+import ConfirmationModal from '../ConfirmationModal';
+
+interface DuplicateClient {
+  id: number;
+  name: string;
+  company: string | null;
+  email: string | null;
+  abn: string | null;
+  archived: boolean | null;
+}
+
+interface DuplicatePair {
+  clients: [DuplicateClient, DuplicateClient];
+  score: number;
+  reasons: string[];
+}
+
+interface MergeResult {
+  message: string;
+  movedProjects: number;
+  movedContacts: number;
+}
+
+const THRESHOLD_OPTIONS = [
+  { value: '0.6', label: 'Loose (60%)' },
+  { value: '0.7', label: 'Normal (70%)' },
+  { value: '0.8', label: 'Strict (80%)' },
+  { value: '0.9', label: 'Very strict (90%)' },
+];
+
+const ClientSummary: React.FC<{ client: DuplicateClient }> = ({ client }) => (
+  <div>
+    <div className="text-sm font-medium text-gray-900">
+      {client.name}
+      {client.archived && <span className="ml-2 text-xs text-gray-500">(archived)</span>}
+    </div>
+    {client.company && <div className="text-sm text-gray-500">{client.company}</div>}
+    {client.email && <div className="text-xs text-gray-500">{client.email}</div>}
+    {client.abn && <div className="text-xs text-gray-500">ABN {client.abn}</div>}
+  </div>
+);
+
+const DuplicateClientsManagement: React.FC = () => {
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [threshold, setThreshold] = useState('0.7');
+  const [includeArchived, setIncludeArchived] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [mergeModal, setMergeModal] = useState<{ keep: DuplicateClient; merge: DuplicateClient } | null>(null);
+  const [mergeLoading, setMergeLoading] = useState(false);
+  const { token } = useAuth();
+
+  const fetchDuplicates = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ threshold });
+      if (includeArchived) params.set('includeArchived', 'true');
+      const response = await apiRequest<{ pairs: DuplicatePair[] }>(`/api/clients/duplicates?${params}`, {}, token || '');
+
+      if (response.success && response.data) {
+        setPairs(response.data.pairs);
+        setError(null);
+      } else {
+        setError(response.error || 'Failed to find duplicate clients');
+      }
+    } catch {
+      setError('Failed to find duplicate clients');
+    } finally {
+      setLoading(false);
+    }
+  }, [token, threshold, includeArchived]);
+
+  const handleMerge = async () => {
+    if (!mergeModal) return;
+    setMergeLoading(true);
+    setError(null);
+    setMessage(null);
+
+    const response = await apiRequest<MergeResult>('/api/clients/merge', {
+      method: 'POST',
+      body: JSON.stringify({ survivorId: mergeModal.keep.id, mergeIds: [mergeModal.merge.id] })
+    }, token || '');
+
+    if (response.success && response.data) {
+      const { movedProjects, movedContacts } = response.data;
+      setMessage(`${response.data.message}: moved ${movedProjects} project${movedProjects === 1 ? '' : 's'} and ${movedContacts} contact${movedContacts === 1 ? '' : 's'}`);
+      setMergeModal(null);
+      await fetchDuplicates();
+    } else {
+      setError(response.error || 'Failed to merge clients');
+    }
+    setMergeLoading(false);
+  };
+
+  useEffect(() => {
+    fetchDuplicates();
+  }, [fetchDuplicates]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">Duplicate Clients</h2>
+        <p className="text-gray-600 mt-1">
+          Clients that look like the same business, compared by ABN, email and name, ignoring suffixes like Pty Ltd.
+          Merging moves the duplicate's projects and contacts to the client you keep, adds its notes, and archives it.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Match strength
+          <select
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+            className="rounded-md border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500 sm:text-sm"
+          >
+            {THRESHOLD_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={includeArchived}
+            onChange={(e) => setIncludeArchived(e.target.checked)}
+            className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+          />
+          Include archived clients
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg">
+          {message}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-12 bg-gray-200 rounded"></div>
+          <div className="h-12 bg-gray-200 rounded"></div>
+        </div>
+      ) : pairs.length === 0 ? (
+        <div className="text-center py-12 bg-gray-50 rounded-lg border border-gray-200">
+          <div className="text-gray-400 text-4xl mb-4">✅</div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No Duplicates Found</h3>
+          <p className="text-gray-600">No clients look alike at this match strength.</p>
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">Possible Duplicates ({pairs.length})</h3>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Client</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Looks Like</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Match</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {pairs.map(({ clients: [first, second], score, reasons }) => (
+                  <tr key={`${first.id}-${second.id}`} className="hover:bg-gray-50 align-top">
+                    <td className="px-6 py-4"><ClientSummary client={first} /></td>
+                    <td className="px-6 py-4"><ClientSummary client={second} /></td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{Math.round(score * 100)}%</div>
+                      <div className="text-xs text-gray-500">{reasons.join(', ')}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm space-y-1">
+                      <button
+                        onClick={() => setMergeModal({ keep: first, merge: second })}
+                        className="block text-orange-600 hover:text-orange-800"
+                      >
+                        Keep {first.name}
+                      </button>
+                      <button
+                        onClick={() => setMergeModal({ keep: second, merge: first })}
+                        className="block text-orange-600 hover:text-orange-800"
+                      >
+                        Keep {second.name}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <ConfirmationModal
+        isOpen={!!mergeModal}
+        onClose={() => setMergeModal(null)}
+        onConfirm={handleMerge}
+        title="Merge Clients"
+        description={mergeModal
+          ? `Merge "${mergeModal.merge.name}" into "${mergeModal.keep.name}"? Its projects and contacts move to ${mergeModal.keep.name}, its notes are added, and it is archived.`
+          : ''}
+        confirmText="Every change is recorded in the audit log."
+        confirmButtonText="Merge Clients"
+        isLoading={mergeLoading}
+      />
+    </div>
+  );
+};
+
+export default DuplicateClientsManagement;
@@ -1,5 +1,7 @@
 import React, { useState, useCallback } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { readSpreadsheetFile, isSpreadsheetFile, SPREADSHEET_ACCEPT, type SpreadsheetSheet } from '../../utils/spreadsheet';
+import ImportTemplatePanel from './ImportTemplatePanel';
 
 interface ImportManagementProps {
   // Add any props if needed
@@ -21,6 +23,37 @@ interface CsvData {
   preview: string[][];
 }
 
+// An existing client a new one looks like, from the server's duplicate check
+interface ClientMatch {
+  id: number;
+  name: string;
+  archived: boolean;
+  score: number;
+  reasons: string[];
+}
+
+interface ImportRowError {
+  row: number;
+  field?: string;
+  message: string;
+}
+
+// Response from POST /api/import/:type, with or without dryRun
+interface ImportReport {
+  dryRun: boolean;
+  success: number;
+  failed: number;
+  errors: string[];
+  rowErrors: ImportRowError[];
+  clientsCreated: number;
+  projectsCreated: number;
+  clientsToConfirm: number;
+  details: {
+    clients: Array<{ name: string; id: number | null; created: boolean; possibleMatches: ClientMatch[] }>;
+    projects: Array<{ name: string; id: number | null; clientName: string; created: boolean }>;
+  };
+}
+
 // Database field mappings for each import type
 const DATABASE_FIELDS = {
   clients: [
@@ -60,12 +93,21 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
   const [importType, setImportType] = useState<'clients' | 'projects' | 'jobs' | null>(null);
   const [file, setFile] = useState<File | null>(null);
   const [csvData, setCsvData] = useState<CsvData | null>(null);
+  // Every sheet in the uploaded file; delimited files have one
+  const [sheets, setSheets] = useState<SpreadsheetSheet[]>([]);
+  const [selectedSheetName, setSelectedSheetName] = useState('');
   const [isDragOver, setIsDragOver] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [columnMapping, setColumnMapping] = useState<{[csvColumn: string]: string}>({});
+  // Saved mapping template in use; its value transforms apply on import
+  const [selectedTemplateId, setSelectedTemplateId] = useState<number | null>(null);
+  // For each client flagged as a likely duplicate: the existing client id to use, or 'new'
+  const [clientMatches, setClientMatches] = useState<Record<string, number | 'new'>>({});
   const [isImporting, setIsImporting] = useState(false);
-  const [importResults, setImportResults] = useState<any>(null);
+  const [importResults, setImportResults] = useState<ImportReport | null>(null);
+  const [dryRunReport, setDryRunReport] = useState<ImportReport | null>(null);
+  const [isCheckingImport, setIsCheckingImport] = useState(false);
   // Add pagination state at component level to avoid hooks rule violation
   const [previewCurrentPage, setPreviewCurrentPage] = useState(1);
   const [showAllPreviewRows, setShowAllPreviewRows] = useState(false);
@@ -83,8 +125,8 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
     },
     {
       id: 2,
-      title: 'Upload CSV File',
-      description: 'Upload your CSV file containing the data',
+      title: 'Upload File',
+      description: 'Upload your CSV or Excel file containing the data',
       completed: !!(file && csvData),
       active: currentStep === 2,
     },
@@ -118,11 +160,25 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
     },
   ];
 
+  // Use one sheet of the uploaded file as the data to map and import
+  const selectSheet = (sheet: SpreadsheetSheet) => {
+    setSelectedSheetName(sheet.name);
+    if (sheet.headers.length === 0) {
+      setError(`Sheet "${sheet.name}" is empty`);
+      setCsvData(null);
+      return;
+    }
+    setError(null);
+    setCsvData({ headers: sheet.headers, rows: sheet.rows, preview: sheet.rows.slice(0, 5) });
+    setColumnMapping({});
+    setSelectedTemplateId(null);
+    setClientMatches({});
+  };
+
   const handleFileUpload = async (uploadedFile: File) => {
     // Check file extension instead of MIME type (more reliable for CSV files)
-    const fileName = uploadedFile.name.toLowerCase();
-    if (!uploadedFile || !fileName.endsWith('.csv')) {
-      setError('Please upload a valid CSV file');
+    if (!uploadedFile || !isSpreadsheetFile(uploadedFile.name)) {
+      setError('Please upload a CSV, TSV, text or .xlsx file');
       return;
     }
 
@@ -134,43 +190,23 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
     setError(null);
     setIsProcessing(true);
     setFile(uploadedFile);
+    setSheets([]);
+    setCsvData(null);
 
     try {
-      const text = await uploadedFile.text();
       console.log('File uploaded:', uploadedFile.name, 'Size:', uploadedFile.size);
-      console.log('File content preview:', text.substring(0, 200));
-      const parsed = parseCSV(text);
-      console.log('Parsed CSV data:', parsed);
-      setCsvData(parsed);
+      const fileSheets = await readSpreadsheetFile(uploadedFile, token || '');
+      setSheets(fileSheets);
+      // Start on the first sheet that has data
+      selectSheet(fileSheets.find(sheet => sheet.rows.length > 0) ?? fileSheets[0]);
     } catch (err) {
-      setError('Failed to parse CSV file. Please check the format.');
-      console.error('CSV parsing error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read the file. Please check the format.');
+      console.error('File parsing error:', err);
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const parseCSV = (text: string): CsvData => {
-    const lines = text.split('\n').filter(line => line.trim());
-    if (lines.length === 0) {
-      throw new Error('CSV file is empty');
-    }
-
-    const headers = lines[0].split(',').map(header => header.trim().replace(/"/g, ''));
-    const rows = lines.slice(1).map(line => 
-      line.split(',').map(cell => cell.trim().replace(/"/g, ''))
-    );
-
-    // Create preview (first 5 rows)
-    const preview = rows.slice(0, 5);
-
-    return {
-      headers,
-      rows,
-      preview
-    };
-  };
-
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(true);
@@ -186,12 +222,12 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
     setIsDragOver(false);
     
     const files = Array.from(e.dataTransfer.files);
-    const csvFile = files.find(file => file.name.toLowerCase().endsWith('.csv'));
+    const spreadsheetFile = files.find(file => isSpreadsheetFile(file.name));
     
-    if (csvFile) {
-      handleFileUpload(csvFile);
+    if (spreadsheetFile) {
+      handleFileUpload(spreadsheetFile);
     } else {
-      setError('Please drop a valid CSV file');
+      setError('Please drop a CSV, TSV, text or .xlsx file');
     }
   }, []);
 
@@ -261,7 +297,14 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
           ].map((type) => (
             <div
               key={type.id}
-              onClick={() => setImportType(type.id as ImportType)}
+              onClick={() => {
+                if (type.id !== importType) {
+                  setColumnMapping({});
+                  setSelectedTemplateId(null);
+                  setClientMatches({});
+                }
+                setImportType(type.id as ImportType);
+              }}
               className={`p-4 border rounded-lg cursor-pointer transition-all ${
                 importType === type.id
                   ? 'border-orange-500 bg-orange-50 ring-2 ring-orange-200'
@@ -293,10 +336,10 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
     <div className="space-y-6">
       <div>
         <h3 className="text-lg font-medium text-gray-900 mb-4">
-          Upload CSV File
+          Upload File
         </h3>
         <p className="text-gray-600 mb-6">
-          Upload a CSV file containing your {importType || 'selected'} data. The first row should contain column headers.
+          Upload a CSV or Excel (.xlsx) file containing your {importType || 'selected'} data. The first row should contain column headers.
         </p>
 
         <div 
@@ -313,7 +356,7 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
             {isProcessing ? (
               <div className="flex flex-col items-center">
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
-                <p className="mt-4 text-sm text-gray-600">Processing CSV file...</p>
+                <p className="mt-4 text-sm text-gray-600">Processing file...</p>
               </div>
             ) : (
               <>
@@ -323,25 +366,45 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
                 <div className="mt-4">
                   <label htmlFor="file-upload" className="cursor-pointer">
                     <span className="mt-2 block text-sm font-medium text-gray-900">
-                      {file ? file.name : 'Drop your CSV file here, or click to browse'}
+                      {file ? file.name : 'Drop your CSV or Excel file here, or click to browse'}
                     </span>
                     <input
                       id="file-upload"
                       name="file-upload"
                       type="file"
-                      accept=".csv"
+                      accept={SPREADSHEET_ACCEPT}
                       className="sr-only"
                       onChange={handleFileInputChange}
                     />
                   </label>
-                  <p className="mt-2 text-sm text-gray-500">CSV files only, up to 10MB</p>
+                  <p className="mt-2 text-sm text-gray-500">CSV, TSV or .xlsx files, up to 10MB</p>
                 </div>
               </>
             )}
           </div>
         </div>
 
-        {file && (
+        {sheets.length > 1 && (
+          <div className="mt-4">
+            <label htmlFor="import-sheet" className="block text-sm font-medium text-gray-700 mb-1">
+              Sheet to import
+            </label>
+            <select
+              id="import-sheet"
+              value={selectedSheetName}
+              onChange={(e) => selectSheet(sheets.find(sheet => sheet.name === e.target.value)!)}
+              className="w-full md:w-80 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              {sheets.map(sheet => (
+                <option key={sheet.name} value={sheet.name}>
+                  {sheet.name} ({sheet.rows.length} rows)
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {file && csvData && (
           <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-lg">
             <div className="flex items-center">
               <svg className="h-5 w-5 text-green-400" fill="currentColor" viewBox="0 0 20 20">
@@ -469,6 +532,18 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
           </p>
         </div>
 
+        <ImportTemplatePanel
+          key={`${validImportType}:${file?.name}:${selectedSheetName}`}
+          importType={validImportType}
+          headers={csvData.headers}
+          columnMapping={columnMapping}
+          selectedTemplateId={selectedTemplateId}
+          onApply={(mapping, templateId) => {
+            setColumnMapping(mapping);
+            setSelectedTemplateId(templateId);
+          }}
+        />
+
         {/* Column Mapping Table */}
         <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
           <table className="min-w-full divide-y divide-gray-300">
@@ -853,7 +928,60 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
       );
     }
 
-    // Perform the import
+    // Rows keyed by database field, as the import API expects
+    const buildImportData = () => {
+      if (!csvData || !importType) return [];
+
+      // Create mapped data for import
+      const mappedData = csvData.rows.map((row) => {
+        const mappedRow: Record<string, string> = {};
+        csvData.headers.forEach((header, headerIndex) => {
+          const dbField = columnMapping[header];
+          if (dbField) {
+            mappedRow[dbField] = row[headerIndex] || '';
+          }
+        });
+        return mappedRow;
+      });
+
+      // Send ALL rows - the server reports every row it can't import
+      console.log(`Importing ${mappedData.length} rows`);
+      return mappedData;
+    };
+
+    const postImport = (dryRun: boolean) =>
+      fetch(`${API_URL}/api/import/${importType}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ data: buildImportData(), dryRun, templateId: selectedTemplateId, clientMatches }),
+      });
+
+    // Check every row and see what would be created, without importing anything
+    const handleDryRun = async () => {
+      if (!csvData || !importType) return;
+
+      setIsCheckingImport(true);
+      setError(null);
+
+      try {
+        const response = await postImport(true);
+        const report = await response.json();
+        if (!response.ok) {
+          throw new Error(report.error || `HTTP ${response.status}`);
+        }
+        setDryRunReport(report);
+      } catch (error) {
+        console.error('Import check error:', error);
+        setError(error instanceof Error ? error.message : 'Import check failed');
+      } finally {
+        setIsCheckingImport(false);
+      }
+    };
+
+    // Perform the import. It runs in one transaction, so a failure imports nothing.
     const handleImport = async () => {
       if (!csvData || !importType) return;
 
@@ -861,48 +989,20 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
       setError(null);
 
       try {
-        // Create mapped data for import
-        const mappedData = csvData.rows.map((row) => {
-          const mappedRow: any = {};
-          csvData.headers.forEach((header, headerIndex) => {
-            const dbField = columnMapping[header];
-            if (dbField) {
-              mappedRow[dbField] = row[headerIndex] || '';
-            }
-          });
-          return mappedRow;
-        });
-
-        // Import ALL data - don't filter out rows with missing required fields
-        const validImportType = importType as 'clients' | 'projects' | 'jobs';
-        const requiredFields = DATABASE_FIELDS[validImportType].filter(field => field.required);
-        
-        // Count how many rows have validation issues for logging
-        const validRows = mappedData.filter(row => {
-          return requiredFields.every(field => row[field.value] && row[field.value].toString().trim() !== '');
-        }).length;
-        
-        const validData = mappedData; // Import ALL rows, including those with errors
-
-        console.log(`Importing ALL ${validData.length} rows (${validRows} valid, ${mappedData.length - validRows} with errors that can be fixed later)`);
-
-        // Make API call
-        const response = await fetch(`${API_URL}/api/import/${importType}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
-          },
-          body: JSON.stringify({ data: validData }),
-        });
+        const response = await postImport(false);
 
         if (!response.ok) {
           const errorData = await response.json();
+          // Rows with errors, or clients to confirm, come back as a report, like a dry run
+          if (errorData.rowErrors) {
+            setDryRunReport(errorData);
+          }
           throw new Error(errorData.error || `HTTP ${response.status}`);
         }
 
         const results = await response.json();
         setImportResults(results);
+        setDryRunReport(null);
         
         console.log('Import completed:', results);
         
@@ -917,6 +1017,11 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
       }
     };
 
+    // New clients that look like existing ones; each needs a choice before importing
+    const flaggedClients = dryRunReport?.details.clients.filter(client => client.possibleMatches.length > 0) ?? [];
+    const undecidedClients = flaggedClients.filter(client => clientMatches[client.name] === undefined).length;
+    const importBlocked = isImporting || (dryRunReport?.failed ?? 0) > 0 || undecidedClients > 0;
+
     return (
       <div className="space-y-6">
         <div>
@@ -924,7 +1029,7 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
             Import Data
           </h3>
           <p className="text-gray-600 mb-6">
-            Ready to import your {importType} data. Click the button below to start the import process.
+            Ready to import your {importType} data. Check the rows first to see what will be created and any rows that need fixing. The import runs as a whole: if any row fails, nothing is imported.
           </p>
         </div>
 
@@ -970,13 +1075,138 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
           </div>
         )}
 
-        {/* Import Button */}
-        <div className="flex justify-center">
+        {/* Dry Run Report */}
+        {dryRunReport && (
+          <div className={`border rounded-lg p-6 ${dryRunReport.failed > 0 ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'}`}>
+            <h4 className={`font-medium mb-4 ${dryRunReport.failed > 0 ? 'text-red-800' : 'text-green-800'}`}>
+              {dryRunReport.failed > 0
+                ? `${dryRunReport.failed} row${dryRunReport.failed === 1 ? '' : 's'} need fixing before importing`
+                : undecidedClients > 0
+                  ? 'Every row is valid; choose what to do with the flagged clients below'
+                  : 'Every row is ready to import'}
+            </h4>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <div className="text-2xl font-bold text-gray-900">{dryRunReport.success}</div>
+                <div className="text-gray-600 capitalize">{importType} to import</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-orange-600">{dryRunReport.clientsCreated}</div>
+                <div className="text-gray-600">
+                  New clients ({dryRunReport.details.clients.length - dryRunReport.clientsCreated} matched)
+                </div>
+              </div>
+              {importType !== 'clients' && (
+                <div>
+                  <div className="text-2xl font-bold text-purple-600">{dryRunReport.projectsCreated}</div>
+                  <div className="text-gray-600">
+                    New projects ({dryRunReport.details.projects.length - dryRunReport.projectsCreated} matched)
+                  </div>
+                </div>
+              )}
+              <div>
+                <div className="text-2xl font-bold text-red-600">{dryRunReport.failed}</div>
+                <div className="text-gray-600">Rows with errors</div>
+              </div>
+            </div>
+
+            {dryRunReport.clientsCreated + dryRunReport.projectsCreated > 0 && (
+              <div className="mt-4 text-sm text-gray-700 space-y-1">
+                {dryRunReport.details.clients.filter(client => client.created).length > 0 && (
+                  <p>
+                    <span className="font-medium">Clients to create:</span>{' '}
+                    {dryRunReport.details.clients.filter(client => client.created).map(client => client.name).join(', ')}
+                  </p>
+                )}
+                {dryRunReport.details.projects.filter(project => project.created).length > 0 && (
+                  <p>
+                    <span className="font-medium">Projects to create:</span>{' '}
+                    {dryRunReport.details.projects
+                      .filter(project => project.created)
+                      .map(project => `${project.name} (${project.clientName})`)
+                      .join(', ')}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {flaggedClients.length > 0 && (
+              <div className="mt-4 bg-amber-50 border border-amber-200 rounded p-4">
+                <h5 className="text-sm font-medium text-amber-800">Possible duplicate clients</h5>
+                <p className="text-sm text-amber-700 mt-1 mb-3">
+                  These clients aren't in the system under the same name, but look like existing clients.
+                  Choose whether to use the existing client or create a new one.
+                </p>
+                <div className="space-y-2">
+                  {flaggedClients.map(client => (
+                    <div key={client.name} className="flex flex-wrap items-center gap-3 text-sm">
+                      <span className="font-medium text-gray-900 min-w-[12rem]">{client.name}</span>
+                      <select
+                        value={clientMatches[client.name] ?? ''}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          setClientMatches(prev => {
+                            const next = { ...prev };
+                            if (value === '') delete next[client.name];
+                            else next[client.name] = value === 'new' ? 'new' : Number(value);
+                            return next;
+                          });
+                        }}
+                        className="rounded-md border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500 sm:text-sm"
+                      >
+                        <option value="">-- Choose --</option>
+                        {client.possibleMatches.map(match => (
+                          <option key={match.id} value={match.id}>
+                            Use {match.name}{match.archived ? ' (archived)' : ''} – {Math.round(match.score * 100)}%: {match.reasons.join(', ')}
+                          </option>
+                        ))}
+                        <option value="new">Create as a new client</option>
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {dryRunReport.rowErrors.length > 0 && (
+              <div className="mt-4 max-h-64 overflow-y-auto border border-red-200 rounded bg-white">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-red-50 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-red-800">Row</th>
+                      <th className="px-3 py-2 text-left font-medium text-red-800">Field</th>
+                      <th className="px-3 py-2 text-left font-medium text-red-800">Problem</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-red-100">
+                    {dryRunReport.rowErrors.map((rowError, index) => (
+                      <tr key={index}>
+                        <td className="px-3 py-2 text-gray-900">{rowError.row}</td>
+                        <td className="px-3 py-2 text-gray-700">{rowError.field || '—'}</td>
+                        <td className="px-3 py-2 text-red-700">{rowError.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Import Buttons */}
+        <div className="flex justify-center space-x-4">
+          <button
+            onClick={handleDryRun}
+            disabled={isImporting || isCheckingImport}
+            className="px-6 py-4 rounded-lg font-medium text-lg border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 disabled:opacity-50 transition-colors"
+          >
+            {isCheckingImport ? 'Checking...' : '🔍 Check Rows'}
+          </button>
           <button
             onClick={handleImport}
-            disabled={isImporting}
+            disabled={importBlocked}
             className={`px-8 py-4 rounded-lg font-medium text-lg transition-all ${
-              isImporting
+              importBlocked
                 ? 'bg-gray-300 cursor-not-allowed text-gray-500'
                 : 'bg-green-600 hover:bg-green-700 text-white shadow-lg hover:shadow-xl transform hover:-translate-y-1'
             }`}
@@ -995,7 +1225,10 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
         {/* Navigation */}
         <div className="flex justify-between">
           <button
-            onClick={() => setCurrentStep(4)}
+            onClick={() => {
+              setDryRunReport(null);
+              setCurrentStep(4);
+            }}
             disabled={isImporting}
             className="bg-gray-200 hover:bg-gray-300 disabled:opacity-50 text-gray-700 px-4 py-2 rounded-lg font-medium transition-colors"
           >
@@ -1036,19 +1269,19 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
         <div className="bg-green-50 border border-green-200 rounded-lg p-6">
           <h4 className="font-medium text-green-800 mb-4">Import Results</h4>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-            {importResults.created && (
+            {importResults.success > 0 && (
               <div className="text-center">
-                <div className="text-2xl font-bold text-green-600">{importResults.created}</div>
+                <div className="text-2xl font-bold text-green-600">{importResults.success}</div>
                 <div className="text-sm text-green-700">Created</div>
               </div>
             )}
-            {importResults.clientsCreated && (
+            {importResults.clientsCreated > 0 && (
               <div className="text-center">
                 <div className="text-2xl font-bold text-orange-600">{importResults.clientsCreated}</div>
                 <div className="text-sm text-orange-700">Clients Created</div>
               </div>
             )}
-            {importResults.projectsCreated && (
+            {importResults.projectsCreated > 0 && (
               <div className="text-center">
                 <div className="text-2xl font-bold text-purple-600">{importResults.projectsCreated}</div>
                 <div className="text-sm text-purple-700">Projects Created</div>
@@ -1078,14 +1311,14 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
         )}
 
         {/* Smart Import Details */}
-        {(importResults.clientsCreated || importResults.projectsCreated) && (
+        {importResults.clientsCreated + importResults.projectsCreated > 0 && (
           <div className="bg-orange-50 border border-orange-200 rounded-lg p-6">
             <h4 className="font-medium text-orange-800 mb-4">✨ Smart Import Summary</h4>
             <div className="text-sm text-orange-700 space-y-2">
-              {importResults.clientsCreated && (
+              {importResults.clientsCreated > 0 && (
                 <p>• Created {importResults.clientsCreated} new clients that didn't exist</p>
               )}
-              {importResults.projectsCreated && (
+              {importResults.projectsCreated > 0 && (
                 <p>• Created {importResults.projectsCreated} new projects that didn't exist</p>
               )}
               <p>• All data has been properly linked and organized in your system</p>
@@ -1102,9 +1335,13 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
               setImportType(null);
               setFile(null);
               setCsvData(null);
+              setSheets([]);
               setColumnMapping({});
+              setSelectedTemplateId(null);
+              setClientMatches({});
               setError(null);
               setImportResults(null);
+              setDryRunReport(null);
               // Reset pagination state
               setPreviewCurrentPage(1);
               setShowAllPreviewRows(false);
@@ -1133,7 +1370,7 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
       <div>
         <h2 className="text-2xl font-bold text-black">Import Data</h2>
         <p className="text-charcoal mt-1">
-          Import clients, projects, or jobs from CSV files
+          Import clients, projects, or jobs from CSV or Excel files
         </p>
       </div>
 
@@ -1149,8 +1386,8 @@ const ImportManagement: React.FC<ImportManagementProps> = () => {
       <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
         <h4 className="font-medium text-orange-800 mb-2">Import Guidelines</h4>
         <ul className="text-sm text-orange-700 space-y-1">
-          <li>• CSV files should have headers in the first row</li>
-          <li>• Dates should be in DD/MM/YYYY format</li>
+          <li>• CSV and Excel files should have headers in the first row; for workbooks, pick the sheet after uploading</li>
+          <li>• Dates should be in DD/MM/YYYY or YYYY-MM-DD format</li>
           <li>• For jobs import, ensure projects and clients exist first</li>
           <li>• Use "All Data" to import everything from a single organized file</li>
         </ul>
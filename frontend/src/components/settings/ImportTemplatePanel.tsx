@@ -0,0 +1,351 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { API_BASE_URL } from '../../utils/api';
+import ConfirmationModal from '../ConfirmationModal';
+
+type ImportType = 'clients' | 'projects' | 'jobs';
+
+type DateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'DD/MM/YY' | 'YYYY-MM-DD';
+
+interface ImportValueTransforms {
+  statusAliases?: Record<string, string>;
+  dateFormat?: DateFormat;
+}
+
+interface ImportTemplate {
+  id: number;
+  name: string;
+  importType: ImportType;
+  columnMapping: Record<string, string>;
+  transforms: ImportValueTransforms;
+}
+
+// From POST /api/import/templates/detect: the template's mapping keyed by this file's headers
+interface ImportTemplateMatch extends ImportTemplate {
+  score: number;
+  mapping: Record<string, string>;
+}
+
+interface ImportTemplatePanelProps {
+  importType: ImportType;
+  headers: string[];
+  columnMapping: Record<string, string>;
+  selectedTemplateId: number | null;
+  onApply: (mapping: Record<string, string>, templateId: number | null) => void;
+}
+
+// A template is applied on its own only when most of its columns are in the file
+const AUTO_APPLY_SCORE = 0.6;
+
+const DATE_FORMAT_OPTIONS: Array<{ value: DateFormat | ''; label: string }> = [
+  { value: '', label: 'Default (DD/MM/YYYY or YYYY-MM-DD)' },
+  { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY' },
+  { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY (US)' },
+  { value: 'DD/MM/YY', label: 'DD/MM/YY' },
+  { value: 'YYYY-MM-DD', label: 'YYYY-MM-DD' },
+];
+
+// Status aliases are edited one per line, as "Source text = status"
+const aliasesToText = (aliases: Record<string, string> = {}) =>
+  Object.entries(aliases).map(([source, status]) => `${source} = ${status}`).join('\n');
+
+const textToAliases = (text: string): Record<string, string> => {
+  const aliases: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf('=');
+    if (separator === -1) continue;
+    const source = line.slice(0, separator).trim();
+    const status = line.slice(separator + 1).trim();
+    if (source && status) aliases[source] = status;
+  }
+  return aliases;
+};
+
+const ImportTemplatePanel: React.FC<ImportTemplatePanelProps> = ({
+  importType,
+  headers,
+  columnMapping,
+  selectedTemplateId,
+  onApply,
+}) => {
+  const [templates, setTemplates] = useState<ImportTemplate[]>([]);
+  const [matches, setMatches] = useState<ImportTemplateMatch[]>([]);
+  const [name, setName] = useState('');
+  const [dateFormat, setDateFormat] = useState<DateFormat | ''>('');
+  const [aliasText, setAliasText] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<ImportTemplate | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const { token } = useAuth();
+
+  const request = useCallback(async (path: string, options: RequestInit = {}) => {
+    const response = await fetch(`${API_BASE_URL}/api/import/templates${path}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP ${response.status}`);
+    }
+    return data;
+  }, [token]);
+
+  const loadTemplates = useCallback(async () => {
+    const [all, detected]: [ImportTemplate[], ImportTemplateMatch[]] = await Promise.all([
+      request(`?importType=${importType}`),
+      request('/detect', { method: 'POST', body: JSON.stringify({ importType, headers }) }),
+    ]);
+    setTemplates(all);
+    setMatches(detected);
+    return detected;
+  }, [request, importType, headers]);
+
+  // Pick the best-matching template for a fresh file; a mapping the user has started is left alone
+  const detectTemplate = useCallback(async () => {
+    try {
+      const detected = await loadTemplates();
+      const best = detected[0];
+      if (best && best.score >= AUTO_APPLY_SCORE && Object.keys(columnMapping).length === 0) {
+        onApply(best.mapping, best.id);
+        setMessage(`Applied template "${best.name}" (${Math.round(best.score * 100)}% of its columns found)`);
+      }
+    } catch (err) {
+      console.error('Error loading import templates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load import templates');
+    }
+    // Detection runs once per file and import type, not on every mapping change
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loadTemplates]);
+
+  useEffect(() => {
+    detectTemplate();
+  }, [detectTemplate]);
+
+  const selectedTemplate = templates.find(template => template.id === selectedTemplateId) ?? null;
+
+  const openForm = (template: ImportTemplate | null) => {
+    setName(template?.name ?? '');
+    setDateFormat(template?.transforms.dateFormat ?? '');
+    setAliasText(aliasesToText(template?.transforms.statusAliases));
+    setShowForm(true);
+    setError(null);
+    setMessage(null);
+  };
+
+  const handleSelect = (value: string) => {
+    setMessage(null);
+    if (!value) {
+      onApply(columnMapping, null);
+      return;
+    }
+    const id = Number(value);
+    const match = matches.find(candidate => candidate.id === id);
+    const template = templates.find(candidate => candidate.id === id);
+    if (!match) {
+      setError(`None of the columns in template "${template?.name}" are in this file`);
+      return;
+    }
+    setError(null);
+    onApply(match.mapping, id);
+    setMessage(`Applied template "${match.name}"`);
+  };
+
+  // Save the current mapping as a new template, or over the selected one
+  const handleSave = async (update: boolean) => {
+    if (!name.trim()) {
+      setError('Template name is required');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const transforms: ImportValueTransforms = {};
+      if (dateFormat) transforms.dateFormat = dateFormat;
+      if (importType === 'jobs') transforms.statusAliases = textToAliases(aliasText);
+
+      const saved: ImportTemplate = await request(update && selectedTemplate ? `/${selectedTemplate.id}` : '', {
+        method: update && selectedTemplate ? 'PUT' : 'POST',
+        body: JSON.stringify({ name: name.trim(), importType, columnMapping, transforms }),
+      });
+      await loadTemplates();
+      onApply(columnMapping, saved.id);
+      setShowForm(false);
+      setMessage(`Template "${saved.name}" saved`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    setDeleting(true);
+    setError(null);
+
+    try {
+      await request(`/${deleteTarget.id}`, { method: 'DELETE' });
+      await loadTemplates();
+      onApply(columnMapping, null);
+      setMessage(`Template "${deleteTarget.name}" deleted`);
+      setDeleteTarget(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete template');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const scoreOf = (id: number) => matches.find(match => match.id === id)?.score ?? 0;
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <label htmlFor="import-template" className="text-sm font-medium text-gray-700">
+          Mapping template
+        </label>
+        <select
+          id="import-template"
+          value={selectedTemplateId ?? ''}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="rounded-md border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500 sm:text-sm"
+        >
+          <option value="">-- No template --</option>
+          {templates.map(template => (
+            <option key={template.id} value={template.id}>
+              {template.name} ({Math.round(scoreOf(template.id) * 100)}% match)
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => openForm(null)}
+          disabled={Object.keys(columnMapping).length === 0}
+          className="text-sm text-orange-600 hover:text-orange-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+        >
+          Save as template
+        </button>
+        {selectedTemplate && (
+          <>
+            <button
+              type="button"
+              onClick={() => openForm(selectedTemplate)}
+              className="text-sm text-orange-600 hover:text-orange-800"
+            >
+              Edit template
+            </button>
+            <button
+              type="button"
+              onClick={() => setDeleteTarget(selectedTemplate)}
+              className="text-sm text-red-600 hover:text-red-800"
+            >
+              Delete template
+            </button>
+          </>
+        )}
+      </div>
+
+      {message && <p className="text-sm text-green-700">{message}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {showForm && (
+        <div className="border-t border-gray-200 pt-3 space-y-3">
+          <p className="text-xs text-gray-500">
+            The template saves the current column mapping. Files from the same source are matched to it by their headers.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="import-template-name" className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                id="import-template-name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Smith Homes schedule"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="import-template-date-format" className="block text-sm font-medium text-gray-700">Date format</label>
+              <select
+                id="import-template-date-format"
+                value={dateFormat}
+                onChange={(e) => setDateFormat(e.target.value as DateFormat | '')}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500 sm:text-sm"
+              >
+                {DATE_FORMAT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {importType === 'jobs' && (
+            <div>
+              <label htmlFor="import-template-aliases" className="block text-sm font-medium text-gray-700">
+                Status aliases
+              </label>
+              <textarea
+                id="import-template-aliases"
+                value={aliasText}
+                onChange={(e) => setAliasText(e.target.value)}
+                rows={3}
+                placeholder={'Cut = nesting-complete\nBuilt = Assembly Complete'}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500 sm:text-sm font-mono"
+              />
+              <p className="mt-1 text-xs text-gray-500">One per line: the source's status text, then a job status name or display name.</p>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => handleSave(false)}
+              disabled={saving}
+              className="bg-orange-600 hover:bg-orange-700 disabled:bg-gray-400 text-white px-3 py-1.5 rounded-md text-sm font-medium"
+            >
+              {saving ? 'Saving...' : 'Save new template'}
+            </button>
+            {selectedTemplate && (
+              <button
+                type="button"
+                onClick={() => handleSave(true)}
+                disabled={saving}
+                className="bg-white border border-orange-600 text-orange-700 hover:bg-orange-50 disabled:opacity-50 px-3 py-1.5 rounded-md text-sm font-medium"
+              >
+                Update "{selectedTemplate.name}"
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-3 py-1.5 rounded-md text-sm text-gray-700 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <ConfirmationModal
+        isOpen={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={handleDelete}
+        title="Delete Mapping Template"
+        description={`Delete the template "${deleteTarget?.name}"? Imports already made with it are not affected.`}
+        confirmText="The template will be removed for everyone."
+        confirmButtonText="Delete Template"
+        isDestructive
+        isLoading={deleting}
+      />
+    </div>
+  );
+};
+
+export default ImportTemplatePanel;
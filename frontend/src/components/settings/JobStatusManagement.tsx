@@ -13,6 +13,9 @@ export interface JobStatus {
   isDefault: boolean;
   isFinal: boolean;
   targetColumns?: ColumnTarget[];
+  // Status ids a job can move to from this one; empty allows any
+  allowedTransitions?: number[];
+  entryRequirements?: EntryRequirements;
 }
 
 interface ColumnTarget {
@@ -20,6 +23,22 @@ interface ColumnTarget {
   color: string;
 }
 
+interface EntryRequirements {
+  requiredFields?: string[];
+  commentOnBackward?: boolean;
+}
+
+// Job fields a status can require before a job enters it
+const REQUIREMENT_FIELDS = [
+  { value: 'nestingDate', label: 'Nesting date' },
+  { value: 'machiningDate', label: 'Machining date' },
+  { value: 'assemblyDate', label: 'Assembly date' },
+  { value: 'deliveryDate', label: 'Delivery date' },
+  { value: 'unit', label: 'Unit' },
+  { value: 'type', label: 'Type' },
+  { value: 'comments', label: 'Comments' },
+];
+
 interface JobStatusManagementProps {
   // Add any props if needed
 }
@@ -37,7 +56,12 @@ const JobStatusManagement: React.FC<JobStatusManagementProps> = () => {
     color: '#ffffff', // Default to white text
     backgroundColor: '#1976d2', // Default background
     targetColumns: [] as ColumnTarget[], // Column targeting with colors
+    requiredFields: [] as string[],
+    commentOnBackward: false,
   });
+  // Allowed transitions being edited in the matrix, by status id
+  const [transitionDraft, setTransitionDraft] = useState<Record<number, number[]>>({});
+  const [savingTransitions, setSavingTransitions] = useState(false);
 
   const { token } = useAuth();
 
@@ -76,9 +100,10 @@ const JobStatusManagement: React.FC<JobStatusManagementProps> = () => {
       });
       if (!response.ok) throw new Error('Failed to fetch statuses');
       
-      const statusList = await response.json();
+      const statusList: JobStatus[] = await response.json();
       setStatuses(statusList);
       loadColorHistory(statusList);
+      setTransitionDraft(Object.fromEntries(statusList.map(status => [status.id, status.allowedTransitions || []])));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch statuses');
     } finally {
@@ -88,7 +113,7 @@ const JobStatusManagement: React.FC<JobStatusManagementProps> = () => {
 
   const handleAddStatus = () => {
     setIsAddMode(true);
-    setFormData({ displayName: '', color: '#ffffff', backgroundColor: '#1976d2', targetColumns: [] });
+    setFormData({ displayName: '', color: '#ffffff', backgroundColor: '#1976d2', targetColumns: [], requiredFields: [], commentOnBackward: false });
     setCustomColor('#1976d2');
   };
 
@@ -98,7 +123,9 @@ const JobStatusManagement: React.FC<JobStatusManagementProps> = () => {
       displayName: status.displayName, 
       color: status.color, 
       backgroundColor: status.backgroundColor,
-      targetColumns: status.targetColumns || []
+      targetColumns: status.targetColumns || [],
+      requiredFields: status.entryRequirements?.requiredFields || [],
+      commentOnBackward: status.entryRequirements?.commentOnBackward || false,
     });
     setCustomColor(status.backgroundColor);
   };
@@ -122,10 +149,17 @@ const JobStatusManagement: React.FC<JobStatusManagementProps> = () => {
           color: formData.color,
           backgroundColor: formData.backgroundColor,
           targetColumns: formData.targetColumns,
+          entryRequirements: {
+            requiredFields: formData.requiredFields,
+            commentOnBackward: formData.commentOnBackward,
+          },
         }),
       });
 
-      if (!response.ok) throw new Error('Failed to save status');
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to save status');
+      }
       
       await fetchStatuses();
       handleCancelEdit();
@@ -162,7 +196,7 @@ const JobStatusManagement: React.FC<JobStatusManagementProps> = () => {
   const handleCancelEdit = () => {
     setIsAddMode(false);
     setEditingStatus(null);
-    setFormData({ displayName: '', color: '#ffffff', backgroundColor: '#1976d2', targetColumns: [] });
+    setFormData({ displayName: '', color: '#ffffff', backgroundColor: '#1976d2', targetColumns: [], requiredFields: [], commentOnBackward: false });
   };
 
   const moveStatus = async (fromIndex: number, toIndex: number) => {
@@ -199,6 +233,54 @@ const JobStatusManagement: React.FC<JobStatusManagementProps> = () => {
     }
   };
 
+  const toggleTransition = (fromId: number, toId: number) => {
+    const current = transitionDraft[fromId] || [];
+    setTransitionDraft({
+      ...transitionDraft,
+      [fromId]: current.includes(toId) ? current.filter(id => id !== toId) : [...current, toId],
+    });
+  };
+
+  const sameTransitions = (a: number[] = [], b: number[] = []) =>
+    a.length === b.length && a.every(id => b.includes(id));
+
+  const changedTransitions = statuses.filter(status => !sameTransitions(status.allowedTransitions, transitionDraft[status.id]));
+
+  // Save each status whose row of the matrix changed
+  const handleSaveTransitions = async () => {
+    try {
+      setSavingTransitions(true);
+      for (const status of changedTransitions) {
+        const response = await fetch(`${API_URL}/api/job-statuses/${status.id}`, {
+          method: 'PUT',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ allowedTransitions: transitionDraft[status.id] || [] }),
+        });
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          throw new Error(data.error || `Failed to save transitions for ${status.displayName}`);
+        }
+      }
+      await fetchStatuses();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save transitions');
+    } finally {
+      setSavingTransitions(false);
+    }
+  };
+
+  const toggleRequiredField = (field: string) => {
+    setFormData({
+      ...formData,
+      requiredFields: formData.requiredFields.includes(field)
+        ? formData.requiredFields.filter(item => item !== field)
+        : [...formData.requiredFields, field],
+    });
+  };
+
   const handleColorChange = (color: string) => {
     setFormData({ ...formData, backgroundColor: color });
     setCustomColor(color);
@@ -470,6 +552,36 @@ const JobStatusManagement: React.FC<JobStatusManagementProps> = () => {
             </div>
           </div>
 
+          {/* Entry Requirements */}
+          <div className="mt-6">
+            <label className="block text-sm font-medium text-black mb-2">
+              Entry Requirements
+            </label>
+            <p className="text-sm text-gray-600 mb-3">
+              A job can only move to this status once these fields are filled in.
+            </p>
+            <div className="flex flex-wrap gap-4 mb-3">
+              {REQUIREMENT_FIELDS.map(field => (
+                <label key={field.value} className="flex items-center gap-2 text-sm text-black">
+                  <input
+                    type="checkbox"
+                    checked={formData.requiredFields.includes(field.value)}
+                    onChange={() => toggleRequiredField(field.value)}
+                  />
+                  {field.label}
+                </label>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-black">
+              <input
+                type="checkbox"
+                checked={formData.commentOnBackward}
+                onChange={(e) => setFormData({ ...formData, commentOnBackward: e.target.checked })}
+              />
+              Require a comment when a job moves back to this status from a later one
+            </label>
+          </div>
+
           {/* Preview */}
           <div className="mt-6">
             <label className="block text-sm font-medium text-black mb-2">
@@ -544,6 +656,13 @@ const JobStatusManagement: React.FC<JobStatusManagementProps> = () => {
                     Final
                   </span>
                 )}
+                {(status.entryRequirements?.requiredFields?.length || 0) > 0 && (
+                  <span className="px-2 py-1 text-xs bg-blue-50 text-blue-700 rounded border">
+                    Needs {status.entryRequirements!.requiredFields!
+                      .map(field => REQUIREMENT_FIELDS.find(item => item.value === field)?.label.toLowerCase() ?? field)
+                      .join(', ')}
+                  </span>
+                )}
               </div>
 
               {/* Internal Name & Order */}
@@ -603,6 +722,73 @@ const JobStatusManagement: React.FC<JobStatusManagementProps> = () => {
         ))}
       </div>
 
+      {/* Transition Matrix */}
+      {statuses.length > 1 && (
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="flex justify-between items-center mb-3">
+            <div>
+              <h3 className="text-lg font-medium text-black">Allowed Transitions</h3>
+              <p className="text-sm text-gray-600">
+                Tick the statuses a job can move to from each status. A row with nothing ticked allows any move.
+              </p>
+            </div>
+            <button
+              onClick={handleSaveTransitions}
+              disabled={savingTransitions || changedTransitions.length === 0}
+              className="bg-orange-600 hover:bg-orange-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {savingTransitions ? 'Saving...' : 'Save Transitions'}
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">From \ To</th>
+                  {statuses.map(status => (
+                    <th key={status.id} className="px-3 py-2 text-center text-xs font-medium text-gray-500">
+                      {status.displayName}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {statuses.map(from => {
+                  const allowed = transitionDraft[from.id] || [];
+                  return (
+                    <tr key={from.id}>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <span
+                          className="px-2 py-1 rounded-full text-xs font-medium"
+                          style={{ color: from.color, backgroundColor: from.backgroundColor }}
+                        >
+                          {from.displayName}
+                        </span>
+                        {allowed.length === 0 && <span className="ml-2 text-xs text-gray-400">any</span>}
+                      </td>
+                      {statuses.map(to => (
+                        <td key={to.id} className="px-3 py-2 text-center">
+                          {to.id === from.id ? (
+                            <span className="text-gray-300">—</span>
+                          ) : (
+                            <input
+                              type="checkbox"
+                              checked={allowed.includes(to.id)}
+                              onChange={() => toggleTransition(from.id, to.id)}
+                              aria-label={`${from.displayName} to ${to.displayName}`}
+                            />
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Loading State */}
       {loading && statuses.length === 0 && (
         <div className="flex justify-center items-center py-8">
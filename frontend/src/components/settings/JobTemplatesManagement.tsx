@@ -0,0 +1,370 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { apiRequest } from '../../utils/api';
+import ConfirmationModal from '../ConfirmationModal';
+import type { JobTemplate, JobTemplateItem } from '../../utils/jobTemplates';
+import type { JobStatus } from './JobStatusManagement';
+
+interface TemplateForm {
+  id: number | null;
+  name: string;
+  description: string;
+  items: JobTemplateItem[];
+}
+
+const emptyItem = (): JobTemplateItem => ({
+  items: '',
+  type: null,
+  statusId: null,
+  deliveryOffset: 0,
+  nestingOffset: null,
+  machiningOffset: null,
+  assemblyOffset: null,
+});
+
+const OFFSET_FIELDS: { key: 'deliveryOffset' | 'nestingOffset' | 'machiningOffset' | 'assemblyOffset'; label: string }[] = [
+  { key: 'deliveryOffset', label: 'Delivery' },
+  { key: 'nestingOffset', label: 'Nesting' },
+  { key: 'machiningOffset', label: 'Machining' },
+  { key: 'assemblyOffset', label: 'Assembly' },
+];
+
+const JobTemplatesManagement: React.FC = () => {
+  const [templates, setTemplates] = useState<JobTemplate[]>([]);
+  const [statuses, setStatuses] = useState<JobStatus[]>([]);
+  const [form, setForm] = useState<TemplateForm | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [deleteModal, setDeleteModal] = useState<JobTemplate | null>(null);
+  const [deleteLoading, setDeleteLoading] = useState(false);
+  const { token } = useAuth();
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [templateResponse, statusResponse] = await Promise.all([
+        apiRequest<JobTemplate[]>('/api/job-templates', {}, token || ''),
+        apiRequest<JobStatus[]>('/api/job-statuses', {}, token || ''),
+      ]);
+
+      if (templateResponse.success && templateResponse.data) {
+        setTemplates(templateResponse.data);
+        setError(null);
+      } else {
+        setError(templateResponse.error || 'Failed to load job templates');
+      }
+      if (statusResponse.success && statusResponse.data) {
+        setStatuses(statusResponse.data);
+      }
+    } catch {
+      setError('Failed to load job templates');
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const updateItem = (index: number, changes: Partial<JobTemplateItem>) => {
+    if (!form) return;
+    setForm({ ...form, items: form.items.map((item, i) => (i === index ? { ...item, ...changes } : item)) });
+  };
+
+  const moveItem = (index: number, direction: -1 | 1) => {
+    if (!form) return;
+    const target = index + direction;
+    if (target < 0 || target >= form.items.length) return;
+    const items = [...form.items];
+    [items[index], items[target]] = [items[target], items[index]];
+    setForm({ ...form, items });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    const response = await apiRequest<JobTemplate>(form.id ? `/api/job-templates/${form.id}` : '/api/job-templates', {
+      method: form.id ? 'PUT' : 'POST',
+      body: JSON.stringify({ name: form.name, description: form.description, items: form.items })
+    }, token || '');
+
+    if (response.success && response.data) {
+      setMessage(`Saved template "${response.data.name}"`);
+      setForm(null);
+      await fetchTemplates();
+    } else {
+      setError(response.error || 'Failed to save job template');
+    }
+    setSaving(false);
+  };
+
+  const handleDelete = async () => {
+    if (!deleteModal) return;
+    setDeleteLoading(true);
+    setError(null);
+    setMessage(null);
+
+    const response = await apiRequest(`/api/job-templates/${deleteModal.id}`, { method: 'DELETE' }, token || '');
+    if (response.success) {
+      setMessage(`Deleted template "${deleteModal.name}"`);
+      setDeleteModal(null);
+      await fetchTemplates();
+    } else {
+      setError(response.error || 'Failed to delete job template');
+    }
+    setDeleteLoading(false);
+  };
+
+  const statusName = (statusId: number | null) =>
+    statuses.find(status => status.id === statusId)?.displayName ?? 'Not Assigned';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Job Templates</h2>
+          <p className="text-gray-600 mt-1">
+            Sets of jobs that repeat for every unit, such as kitchen, vanities and laundry for each apartment.
+            Apply a template from a project to create its jobs for a list of units, dated back from a target delivery date.
+          </p>
+        </div>
+        {!form && (
+          <button
+            onClick={() => setForm({ id: null, name: '', description: '', items: [emptyItem()] })}
+            className="px-4 py-2 bg-orange-500 hover:bg-orange-600 text-white rounded-md whitespace-nowrap"
+          >
+            + New Template
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg">
+          {message}
+        </div>
+      )}
+
+      {form && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+          <h3 className="text-lg font-medium text-gray-900">{form.id ? 'Edit Template' : 'New Template'}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-orange-500"
+                placeholder="e.g. 2 Bed Apartment"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-orange-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm text-gray-600 mb-2">
+              Offsets are working days. Delivery is counted back from the target delivery date; nesting, machining and
+              assembly are counted back from the item's delivery. Leave a stage blank to use the lead times in settings.
+            </p>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-2 py-2 text-left font-medium text-gray-500">Items</th>
+                    <th className="px-2 py-2 text-left font-medium text-gray-500">Type</th>
+                    <th className="px-2 py-2 text-left font-medium text-gray-500">Status</th>
+                    {OFFSET_FIELDS.map(field => (
+                      <th key={field.key} className="px-2 py-2 text-left font-medium text-gray-500">{field.label}</th>
+                    ))}
+                    <th className="px-2 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {form.items.map((item, index) => (
+                    <tr key={index}>
+                      <td className="px-2 py-2">
+                        <input
+                          type="text"
+                          value={item.items}
+                          onChange={(e) => updateItem(index, { items: e.target.value })}
+                          className="w-40 border border-gray-300 rounded px-2 py-1"
+                          placeholder="Kitchen"
+                        />
+                      </td>
+                      <td className="px-2 py-2">
+                        <input
+                          type="text"
+                          value={item.type ?? ''}
+                          onChange={(e) => updateItem(index, { type: e.target.value || null })}
+                          className="w-28 border border-gray-300 rounded px-2 py-1"
+                        />
+                      </td>
+                      <td className="px-2 py-2">
+                        <select
+                          value={item.statusId ?? ''}
+                          onChange={(e) => updateItem(index, { statusId: e.target.value ? Number(e.target.value) : null })}
+                          className="border border-gray-300 rounded px-2 py-1"
+                        >
+                          <option value="">Default</option>
+                          {statuses.map(status => (
+                            <option key={status.id} value={status.id}>{status.displayName}</option>
+                          ))}
+                        </select>
+                      </td>
+                      {OFFSET_FIELDS.map(field => (
+                        <td key={field.key} className="px-2 py-2">
+                          <input
+                            type="number"
+                            min={0}
+                            max={365}
+                            value={item[field.key] ?? ''}
+                            onChange={(e) => updateItem(index, {
+                              [field.key]: e.target.value === '' ? (field.key === 'deliveryOffset' ? 0 : null) : Number(e.target.value)
+                            })}
+                            className="w-16 border border-gray-300 rounded px-2 py-1"
+                            placeholder={field.key === 'deliveryOffset' ? '0' : 'auto'}
+                          />
+                        </td>
+                      ))}
+                      <td className="px-2 py-2 whitespace-nowrap text-gray-500">
+                        <button onClick={() => moveItem(index, -1)} disabled={index === 0} className="px-1 hover:text-gray-800 disabled:opacity-30">↑</button>
+                        <button onClick={() => moveItem(index, 1)} disabled={index === form.items.length - 1} className="px-1 hover:text-gray-800 disabled:opacity-30">↓</button>
+                        <button
+                          onClick={() => setForm({ ...form, items: form.items.filter((_, i) => i !== index) })}
+                          disabled={form.items.length === 1}
+                          className="px-1 text-red-600 hover:text-red-800 disabled:opacity-30"
+                        >
+                          ✕
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <button
+              onClick={() => setForm({ ...form, items: [...form.items, emptyItem()] })}
+              className="mt-2 text-sm text-orange-600 hover:text-orange-800"
+            >
+              + Add item
+            </button>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setForm(null)}
+              disabled={saving}
+              className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.name.trim() || form.items.some(item => !item.items.trim())}
+              className="px-4 py-2 bg-orange-500 hover:bg-orange-600 text-white rounded-md disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Template'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-12 bg-gray-200 rounded"></div>
+          <div className="h-12 bg-gray-200 rounded"></div>
+        </div>
+      ) : templates.length === 0 ? (
+        !form && (
+          <div className="text-center py-12 bg-gray-50 rounded-lg border border-gray-200">
+            <div className="text-gray-400 text-4xl mb-4">📋</div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No Job Templates</h3>
+            <p className="text-gray-600">Create a template to add the same jobs to many units at once.</p>
+          </div>
+        )
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Template</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Items</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {templates.map(template => (
+                <tr key={template.id} className="hover:bg-gray-50 align-top">
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{template.name}</div>
+                    {template.description && <div className="text-sm text-gray-500">{template.description}</div>}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">
+                    {template.items.map(item => (
+                      <div key={item.id}>
+                        {item.items}
+                        <span className="text-xs text-gray-500">
+                          {' '}· {statusName(item.statusId)}
+                          {item.deliveryOffset > 0 && ` · delivered ${item.deliveryOffset} days early`}
+                        </span>
+                      </div>
+                    ))}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm space-x-3">
+                    <button
+                      onClick={() => setForm({
+                        id: template.id,
+                        name: template.name,
+                        description: template.description ?? '',
+                        items: template.items,
+                      })}
+                      className="text-orange-600 hover:text-orange-800"
+                    >
+                      Edit
+                    </button>
+                    <button onClick={() => setDeleteModal(template)} className="text-red-600 hover:text-red-800">
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <ConfirmationModal
+        isOpen={!!deleteModal}
+        onClose={() => setDeleteModal(null)}
+        onConfirm={handleDelete}
+        title="Delete Job Template"
+        description={deleteModal ? `Delete the job template "${deleteModal.name}"?` : ''}
+        confirmText="Jobs already created from this template are not affected."
+        confirmButtonText="Delete Template"
+        isDestructive
+        isLoading={deleteLoading}
+      />
+    </div>
+  );
+};
+
+export default JobTemplatesManagement;
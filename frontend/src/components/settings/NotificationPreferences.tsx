@@ -0,0 +1,119 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { apiRequest, API_ENDPOINTS } from '../../utils/api';
+
+interface NotificationPreference {
+  event: string;
+  label: string;
+  description: string;
+  email: boolean;
+  inApp: boolean;
+}
+
+type Channel = 'email' | 'inApp';
+
+const CHANNELS: { channel: Channel; label: string }[] = [
+  { channel: 'email', label: 'Email' },
+  { channel: 'inApp', label: 'In app' },
+];
+
+/**
+ * The current user's notifications, by email and in the app's bell. Each change is saved straight away.
+ */
+const NotificationPreferences: React.FC = () => {
+  const [preferences, setPreferences] = useState<NotificationPreference[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingEvent, setSavingEvent] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { token } = useAuth();
+
+  const fetchPreferences = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await apiRequest<NotificationPreference[]>(API_ENDPOINTS.notificationPreferences, {}, token || '');
+      if (response.success && response.data) {
+        setPreferences(response.data);
+      } else {
+        setError(response.error || 'Failed to load notifications');
+      }
+    } catch {
+      setError('Failed to load notifications');
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [fetchPreferences]);
+
+  const toggle = async (preference: NotificationPreference, channel: Channel) => {
+    setSavingEvent(preference.event);
+    setError(null);
+    try {
+      const response = await apiRequest<NotificationPreference[]>(
+        API_ENDPOINTS.notificationPreferences,
+        {
+          method: 'PUT',
+          body: JSON.stringify({ [preference.event]: { [channel]: !preference[channel] } }),
+        },
+        token || ''
+      );
+      if (response.success && response.data) {
+        setPreferences(response.data);
+      } else {
+        setError(response.error || 'Failed to save notifications');
+      }
+    } catch {
+      setError('Failed to save notifications');
+    } finally {
+      setSavingEvent(null);
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-1">Notifications</h4>
+      <p className="text-xs text-gray-500 mb-3">Project and job notifications are about projects you've pinned. Changes are saved straight away.</p>
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : (
+        <table className="w-full">
+          <thead>
+            <tr>
+              <th />
+              {CHANNELS.map(({ channel, label }) => (
+                <th key={channel} className="px-2 pb-1 text-xs font-medium text-gray-500 text-center">{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {preferences.map(preference => (
+              <tr key={preference.event}>
+                <td className="py-1 text-sm text-gray-700">
+                  {preference.label}
+                  <span className="block text-xs text-gray-500">{preference.description}</span>
+                </td>
+                {CHANNELS.map(({ channel, label }) => (
+                  <td key={channel} className="px-2 py-1 text-center align-top">
+                    <input
+                      type="checkbox"
+                      aria-label={`${preference.label}: ${label}`}
+                      checked={preference[channel]}
+                      disabled={savingEvent !== null}
+                      onChange={() => toggle(preference, channel)}
+                      className="mt-1 rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default NotificationPreferences;
@@ -0,0 +1,503 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import type { ProjectStatus } from '../../hooks/useProjectStatuses';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+interface ProjectStatusForm {
+  displayName: string;
+  color: string;
+  backgroundColor: string;
+  isDefault: boolean;
+  isFinal: boolean;
+  isAutoComplete: boolean;
+  allowedTransitions: number[];
+}
+
+const EMPTY_FORM: ProjectStatusForm = {
+  displayName: '',
+  color: '#ffffff',
+  backgroundColor: '#1976d2',
+  isDefault: false,
+  isFinal: false,
+  isAutoComplete: false,
+  allowedTransitions: [],
+};
+
+// Common background colors for quick selection
+const COMMON_COLORS = [
+  '#1976d2', '#dc2626', '#ea580c', '#d97706', '#65a30d',
+  '#059669', '#0891b2', '#7c3aed', '#c2410c', '#be185d'
+];
+
+const ProjectStatusManagement: React.FC = () => {
+  const [statuses, setStatuses] = useState<ProjectStatus[]>([]);
+  const [editingStatus, setEditingStatus] = useState<ProjectStatus | null>(null);
+  const [isAddMode, setIsAddMode] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState<ProjectStatusForm>(EMPTY_FORM);
+
+  const { token } = useAuth();
+
+  // Internal name from the display name, as for job statuses
+  const generateInternalName = (displayName: string): string => {
+    return displayName
+      .toLowerCase()
+      .replace(/[^a-z0-9\s-]/g, '')
+      .replace(/\s+/g, '-')
+      .replace(/-+/g, '-')
+      .trim();
+  };
+
+  // Surface the API's own message, e.g. why a status can't be deleted
+  const readError = async (response: Response, fallback: string) => {
+    const data = await response.json().catch(() => ({}));
+    return data.error || fallback;
+  };
+
+  const fetchStatuses = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`${API_URL}/api/project-statuses`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      if (!response.ok) throw new Error(await readError(response, 'Failed to fetch project statuses'));
+
+      setStatuses(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch project statuses');
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchStatuses();
+  }, [fetchStatuses]);
+
+  const handleAddStatus = () => {
+    setIsAddMode(true);
+    setEditingStatus(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleEditStatus = (status: ProjectStatus) => {
+    setEditingStatus(status);
+    setFormData({
+      displayName: status.displayName,
+      color: status.color,
+      backgroundColor: status.backgroundColor,
+      isDefault: status.isDefault,
+      isFinal: status.isFinal,
+      isAutoComplete: status.isAutoComplete,
+      allowedTransitions: status.allowedTransitions || [],
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setIsAddMode(false);
+    setEditingStatus(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleSaveStatus = async () => {
+    try {
+      setLoading(true);
+      const url = isAddMode
+        ? `${API_URL}/api/project-statuses`
+        : `${API_URL}/api/project-statuses/${editingStatus?.id}`;
+
+      const response = await fetch(url, {
+        method: isAddMode ? 'POST' : 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          ...formData,
+          name: generateInternalName(formData.displayName),
+        }),
+      });
+
+      if (!response.ok) throw new Error(await readError(response, 'Failed to save project status'));
+
+      await fetchStatuses();
+      handleCancelEdit();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save project status');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteStatus = async (status: ProjectStatus) => {
+    if (!confirm(`Are you sure you want to delete the "${status.displayName}" status?`)) return;
+
+    try {
+      setLoading(true);
+      const response = await fetch(`${API_URL}/api/project-statuses/${status.id}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+
+      if (!response.ok) throw new Error(await readError(response, 'Failed to delete project status'));
+
+      await fetchStatuses();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete project status');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const moveStatus = async (fromIndex: number, toIndex: number) => {
+    const newStatuses = [...statuses];
+    const [movedStatus] = newStatuses.splice(fromIndex, 1);
+    newStatuses.splice(toIndex, 0, movedStatus);
+
+    // Update local state immediately
+    setStatuses(newStatuses);
+
+    try {
+      const response = await fetch(`${API_URL}/api/project-statuses/reorder`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ ids: newStatuses.map(status => status.id) }),
+      });
+
+      if (!response.ok) throw new Error(await readError(response, 'Failed to reorder project statuses'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reorder project statuses');
+      // Revert on error
+      fetchStatuses();
+    }
+  };
+
+  const toggleTransition = (id: number) => {
+    const allowedTransitions = formData.allowedTransitions.includes(id)
+      ? formData.allowedTransitions.filter(target => target !== id)
+      : [...formData.allowedTransitions, id];
+    setFormData({ ...formData, allowedTransitions });
+  };
+
+  const displayNameOf = (id: number) => statuses.find(status => status.id === id)?.displayName ?? `#${id}`;
+  const transitionTargets = statuses.filter(status => status.id !== editingStatus?.id);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-black">Manage Project Statuses</h2>
+          <p className="text-charcoal mt-1">
+            Set the project lifecycle: colours, order, which statuses a project can move to, and where it goes once every job is finished
+          </p>
+        </div>
+        <button
+          onClick={handleAddStatus}
+          className="bg-orange-600 hover:bg-orange-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+        >
+          Add Status
+        </button>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+          <div className="flex justify-between items-center">
+            <p className="text-red-600 text-sm">{error}</p>
+            <button
+              onClick={() => setError(null)}
+              className="text-red-400 hover:text-red-600"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Add/Edit Form */}
+      {(isAddMode || editingStatus) && (
+        <div className="bg-gray-50 rounded-lg p-6 mb-6 border border-gray-200">
+          <h3 className="text-lg font-medium text-black mb-4">
+            {isAddMode ? 'Add New Status' : 'Edit Status'}
+          </h3>
+
+          {/* Status Name */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-black mb-2">
+              Status Name
+            </label>
+            <input
+              type="text"
+              value={formData.displayName}
+              onChange={(e) => setFormData({ ...formData, displayName: e.target.value })}
+              disabled={loading}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+              placeholder="e.g., On Hold"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Internal name will be auto-generated: {formData.displayName ? generateInternalName(formData.displayName) : 'on-hold'}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Background Color Selection */}
+            <div>
+              <label className="block text-sm font-medium text-black mb-3">
+                Background Color
+              </label>
+              <div className="flex items-center gap-3 mb-4">
+                <input
+                  type="color"
+                  value={formData.backgroundColor}
+                  onChange={(e) => setFormData({ ...formData, backgroundColor: e.target.value })}
+                  className="w-12 h-10 border border-gray-300 rounded cursor-pointer"
+                />
+                <input
+                  type="text"
+                  value={formData.backgroundColor}
+                  onChange={(e) => setFormData({ ...formData, backgroundColor: e.target.value })}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+                  placeholder="#1976d2"
+                  pattern="^#[0-9A-Fa-f]{6}$"
+                />
+              </div>
+              <div className="flex gap-2 flex-wrap">
+                {COMMON_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => setFormData({ ...formData, backgroundColor: color })}
+                    className={`w-8 h-8 rounded-md border-2 transition-all ${
+                      formData.backgroundColor === color ? 'border-black scale-110' : 'border-gray-300 hover:border-gray-400'
+                    }`}
+                    style={{ backgroundColor: color }}
+                    title={color}
+                  />
+                ))}
+              </div>
+            </div>
+
+            {/* Text Color Selection */}
+            <div>
+              <label className="block text-sm font-medium text-black mb-3">
+                Text Color
+              </label>
+              <div className="flex gap-4">
+                {[['#ffffff', 'White'], ['#000000', 'Black']].map(([color, label]) => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => setFormData({ ...formData, color })}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-lg border-2 transition-all ${
+                      formData.color === color ? 'border-black bg-gray-100' : 'border-gray-300 hover:border-gray-400'
+                    }`}
+                  >
+                    <div className="w-6 h-6 border border-gray-300 rounded" style={{ backgroundColor: color }}></div>
+                    <span>{label}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Flags */}
+          <div className="mt-6 space-y-2">
+            <label className="flex items-center gap-2 text-sm text-black">
+              <input
+                type="checkbox"
+                checked={formData.isDefault}
+                onChange={(e) => setFormData({ ...formData, isDefault: e.target.checked })}
+              />
+              Default — new projects start here, and completed projects reopen here when a job regresses
+            </label>
+            <label className="flex items-center gap-2 text-sm text-black">
+              <input
+                type="checkbox"
+                checked={formData.isFinal || formData.isAutoComplete}
+                disabled={formData.isAutoComplete}
+                onChange={(e) => setFormData({ ...formData, isFinal: e.target.checked })}
+              />
+              Final — the project is closed
+            </label>
+            <label className="flex items-center gap-2 text-sm text-black">
+              <input
+                type="checkbox"
+                checked={formData.isAutoComplete}
+                onChange={(e) => setFormData({ ...formData, isAutoComplete: e.target.checked })}
+              />
+              Auto-complete — projects move here automatically once every job reaches a final job status
+            </label>
+          </div>
+
+          {/* Allowed Transitions */}
+          <div className="mt-6">
+            <label className="block text-sm font-medium text-black mb-2">
+              Can Move To
+            </label>
+            <p className="text-sm text-gray-600 mb-3">
+              Leave all unticked to allow any status.
+            </p>
+            <div className="flex flex-wrap gap-3">
+              {transitionTargets.map(status => (
+                <label key={status.id} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={formData.allowedTransitions.includes(status.id)}
+                    onChange={() => toggleTransition(status.id)}
+                  />
+                  <span
+                    className="px-2 py-0.5 rounded-full text-xs font-medium"
+                    style={{ color: status.color, backgroundColor: status.backgroundColor }}
+                  >
+                    {status.displayName}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="mt-6">
+            <label className="block text-sm font-medium text-black mb-2">
+              Preview
+            </label>
+            <span
+              className="px-4 py-2 rounded-full text-sm font-medium"
+              style={{ color: formData.color, backgroundColor: formData.backgroundColor }}
+            >
+              {formData.displayName || 'Status Name'}
+            </span>
+          </div>
+
+          {/* Form Actions */}
+          <div className="flex gap-2 mt-6">
+            <button
+              onClick={handleSaveStatus}
+              disabled={loading || !formData.displayName.trim()}
+              className="bg-orange-600 hover:bg-orange-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              onClick={handleCancelEdit}
+              disabled={loading}
+              className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Status List */}
+      <div className="space-y-2">
+        {statuses.map((status, index) => (
+          <div
+            key={status.id}
+            className="flex items-center justify-between p-4 bg-white border border-gray-200 rounded-lg hover:shadow-sm transition-shadow"
+          >
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <span
+                  className="px-3 py-1 rounded-full text-sm font-medium"
+                  style={{ color: status.color, backgroundColor: status.backgroundColor }}
+                >
+                  {status.displayName}
+                </span>
+                {status.isDefault && (
+                  <span className="px-2 py-1 text-xs bg-gray-100 text-gray-600 rounded border">
+                    Default
+                  </span>
+                )}
+                {status.isFinal && (
+                  <span className="px-2 py-1 text-xs bg-green-100 text-green-600 rounded border">
+                    Final
+                  </span>
+                )}
+                {status.isAutoComplete && (
+                  <span className="px-2 py-1 text-xs bg-blue-100 text-blue-600 rounded border">
+                    Auto-complete
+                  </span>
+                )}
+              </div>
+
+              <div className="text-sm text-gray-500">
+                <span className="font-mono text-xs bg-gray-100 px-2 py-1 rounded mr-2">
+                  {status.name}
+                </span>
+                {status.projectCount} project{status.projectCount === 1 ? '' : 's'}
+                <span className="ml-2">
+                  → {status.allowedTransitions.length > 0
+                    ? status.allowedTransitions.map(displayNameOf).join(', ')
+                    : 'any status'}
+                </span>
+              </div>
+            </div>
+
+            {/* Actions */}
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleEditStatus(status)}
+                disabled={loading || isAddMode || !!editingStatus}
+                className="p-2 text-gray-600 hover:text-orange-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Edit"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                </svg>
+              </button>
+              <button
+                onClick={() => handleDeleteStatus(status)}
+                disabled={loading || status.isDefault || status.projectCount > 0 || isAddMode || !!editingStatus}
+                className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title={status.projectCount > 0 ? 'In use by projects' : 'Delete'}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+              {index > 0 && (
+                <button
+                  onClick={() => moveStatus(index, index - 1)}
+                  disabled={loading}
+                  className="p-2 text-gray-600 hover:text-orange-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                  </svg>
+                </button>
+              )}
+              {index < statuses.length - 1 && (
+                <button
+                  onClick={() => moveStatus(index, index + 1)}
+                  disabled={loading}
+                  className="p-2 text-gray-600 hover:text-orange-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                  </svg>
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Loading State */}
+      {loading && statuses.length === 0 && (
+        <div className="flex justify-center items-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-600"></div>
+          <span className="ml-2 text-gray-600">Loading statuses...</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectStatusManagement;
@@ -0,0 +1,273 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { apiRequest } from '../../utils/api';
+import { formatDate, formatDateTime } from '../../utils/dateUtils';
+import ConfirmationModal from '../ConfirmationModal';
+
+type RecycleBinType = 'job' | 'project' | 'contact';
+
+interface RecycleBinItem {
+  type: RecycleBinType;
+  id: number;
+  name: string;
+  detail: string | null;
+  deletedAt: string;
+  deletedBy: number | null;
+  deletedByName: string | null;
+  purgeAt: string | null;
+  jobCount?: number;
+  projectDeleted?: boolean;
+}
+
+const typeLabels: Record<RecycleBinType, string> = {
+  job: 'Job',
+  project: 'Project',
+  contact: 'Contact',
+};
+
+const RecycleBinManagement: React.FC = () => {
+  const [items, setItems] = useState<RecycleBinItem[]>([]);
+  const [purgeAfterDays, setPurgeAfterDays] = useState('30');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [actionModal, setActionModal] = useState<{ action: 'restore' | 'purge'; item: RecycleBinItem } | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+  const { token } = useAuth();
+
+  const fetchRecycleBin = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await apiRequest<{ items: RecycleBinItem[]; purgeAfterDays: number }>('/api/recycle-bin', {}, token || '');
+
+      if (response.success && response.data) {
+        setItems(response.data.items);
+        setPurgeAfterDays(String(response.data.purgeAfterDays));
+      } else {
+        setError(response.error || 'Failed to load recycle bin');
+      }
+    } catch {
+      setError('Failed to load recycle bin');
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  const saveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingSettings(true);
+    setError(null);
+    setMessage(null);
+
+    const response = await apiRequest('/api/recycle-bin/settings', {
+      method: 'PUT',
+      body: JSON.stringify({ purgeAfterDays: Number(purgeAfterDays) })
+    }, token || '');
+
+    if (response.success) {
+      setMessage('Auto-purge setting saved');
+      await fetchRecycleBin(); // Purge dates depend on the setting
+    } else {
+      setError(response.error || 'Failed to save auto-purge setting');
+    }
+    setSavingSettings(false);
+  };
+
+  // Restore or purge the item in the open confirmation modal
+  const handleAction = async () => {
+    if (!actionModal) return;
+    const { action, item } = actionModal;
+
+    setActionLoading(true);
+    setError(null);
+    setMessage(null);
+
+    const response = action === 'restore'
+      ? await apiRequest(`/api/recycle-bin/${item.type}/${item.id}/restore`, { method: 'POST' }, token || '')
+      : await apiRequest(`/api/recycle-bin/${item.type}/${item.id}`, { method: 'DELETE' }, token || '');
+
+    if (response.success) {
+      setMessage(`${typeLabels[item.type]} "${item.name}" ${action === 'restore' ? 'restored' : 'deleted forever'}`);
+      await fetchRecycleBin(); // Refresh list
+    } else {
+      setError(response.error || `Failed to ${action === 'restore' ? 'restore' : 'delete'} ${item.type}`);
+    }
+    setActionModal(null);
+    setActionLoading(false);
+  };
+
+  useEffect(() => {
+    fetchRecycleBin();
+  }, [fetchRecycleBin]);
+
+  const getModalDescription = () => {
+    if (!actionModal) return '';
+    const { action, item } = actionModal;
+    const withJobs = item.type === 'project' && item.jobCount
+      ? ` along with its ${item.jobCount} job${item.jobCount === 1 ? '' : 's'}`
+      : '';
+
+    return action === 'restore'
+      ? `Restore ${item.type} "${item.name}"${withJobs}? It will show in the main views again.`
+      : `Permanently delete ${item.type} "${item.name}"${withJobs}? This action cannot be undone.`;
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        <h2 className="text-xl font-semibold text-gray-900">Recycle Bin</h2>
+        <div className="animate-pulse space-y-3">
+          <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+          <div className="h-12 bg-gray-200 rounded"></div>
+          <div className="h-12 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">Recycle Bin</h2>
+        <p className="text-gray-600 mt-1">
+          Deleted jobs, projects and contacts stay here until they are restored or purged. Deleting a project also deletes its jobs, and restoring it brings them back.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg">
+          {message}
+        </div>
+      )}
+
+      <form onSubmit={saveSettings} className="flex flex-wrap items-end gap-3">
+        <div>
+          <label htmlFor="purgeAfterDays" className="block text-sm font-medium text-gray-700 mb-1">
+            Purge items automatically after (days)
+          </label>
+          <input
+            id="purgeAfterDays"
+            type="number"
+            min={0}
+            max={3650}
+            step={1}
+            value={purgeAfterDays}
+            onChange={(e) => setPurgeAfterDays(e.target.value)}
+            className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={savingSettings}
+          className="px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50 transition-colors"
+        >
+          {savingSettings ? 'Saving...' : 'Save'}
+        </button>
+        <p className="text-sm text-gray-500 w-full">Set to 0 to keep items until they are purged by hand.</p>
+      </form>
+
+      {items.length === 0 ? (
+        <div className="text-center py-12 bg-gray-50 rounded-lg border border-gray-200">
+          <div className="text-gray-400 text-4xl mb-4">🗑️</div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Recycle Bin is Empty</h3>
+          <p className="text-gray-600">
+            Deleted jobs, projects and contacts will appear here.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">
+              Deleted Items ({items.length})
+            </h3>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Item
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Details
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Deleted
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Purges On
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {items.map((item) => (
+                  <tr key={`${item.type}-${item.id}`} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{item.name}</div>
+                      <div className="text-sm text-gray-500">
+                        {typeLabels[item.type]}
+                        {item.type === 'project' && ` · ${item.jobCount || 0} job${item.jobCount === 1 ? '' : 's'}`}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {item.detail || <span className="text-gray-400">—</span>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      <div>{formatDateTime(item.deletedAt)}</div>
+                      <div>by {item.deletedByName || 'System'}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {item.purgeAt ? formatDate(item.purgeAt) : 'Never'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-4">
+                      <button
+                        onClick={() => setActionModal({ action: 'restore', item })}
+                        disabled={item.projectDeleted}
+                        title={item.projectDeleted ? 'Restore the project this job belongs to first' : undefined}
+                        className="text-orange-600 hover:text-orange-900 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+                      >
+                        Restore
+                      </button>
+                      <button
+                        onClick={() => setActionModal({ action: 'purge', item })}
+                        className="text-red-600 hover:text-red-900 transition-colors"
+                      >
+                        Delete Forever
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Restore / Purge Confirmation Modal */}
+      <ConfirmationModal
+        isOpen={actionModal !== null}
+        onClose={() => setActionModal(null)}
+        onConfirm={handleAction}
+        title={actionModal?.action === 'purge' ? `Delete ${typeLabels[actionModal.item.type]} Forever` : `Restore ${actionModal ? typeLabels[actionModal.item.type] : ''}`}
+        description={getModalDescription()}
+        confirmText=""
+        confirmButtonText={actionModal?.action === 'purge' ? 'Delete Forever' : 'Restore'}
+        isDestructive={actionModal?.action === 'purge'}
+        isLoading={actionLoading}
+      />
+    </div>
+  );
+};
+
+export default RecycleBinManagement;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { API_BASE_URL } from '../../utils/api';
+import NotificationPreferences from './NotificationPreferences';
 
 interface User {
   id: number;
@@ -783,6 +784,10 @@ const UserManagement: React.FC<UserManagementProps> = ({ openProfileEdit = false
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                   />
                 </div>
+
+                <div className="md:col-span-2 border-t border-gray-200 pt-4">
+                  <NotificationPreferences />
+                </div>
               </div>
 
               <div className="mt-6 flex justify-end space-x-3">
@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react';
+import { apiRequest, API_ENDPOINTS } from '../utils/api';
+import { useAuth } from '../contexts/AuthContext';
+
+export interface Holiday {
+  id: number;
+  name: string;
+  date: string; // YYYY-MM-DD
+  isPublic: boolean;
+  isCustom: boolean;
+}
+
+export interface UseHolidaysReturn {
+  holidays: Holiday[];
+  holidaysByDate: Map<string, Holiday>;
+  loading: boolean;
+  error: string | null;
+}
+
+export function useHolidays(): UseHolidaysReturn {
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { token } = useAuth();
+
+  useEffect(() => {
+    const loadHolidays = async () => {
+      setLoading(true);
+      setError(null);
+
+      const response = await apiRequest<Holiday[]>(API_ENDPOINTS.holidays, {}, token || '');
+      if (response.success && response.data) {
+        setHolidays(response.data);
+      } else {
+        console.error('Error loading holidays:', response.error);
+        setError(response.error || 'Failed to load holidays');
+      }
+
+      setLoading(false);
+    };
+
+    if (token) {
+      loadHolidays();
+    }
+  }, [token]);
+
+  const holidaysByDate = new Map(holidays.map(holiday => [holiday.date, holiday]));
+
+  return { holidays, holidaysByDate, loading, error };
+}
@@ -0,0 +1,198 @@
+import { useState, useEffect, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+// Coalesce bursts of changes (e.g. an import) into one refresh
+const NOTIFY_DELAY_MS = 500;
+const RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+export type LiveEntity = 'job' | 'project';
+
+export interface LiveChange {
+  entity: LiveEntity;
+  action: 'created' | 'updated' | 'deleted' | 'imported';
+  ids: number[];
+  projectIds?: number[];
+  statusChanged?: boolean;
+  userId?: number;
+  at: string;
+}
+
+interface LiveUpdatesFilter {
+  entities?: LiveEntity[];
+  // Only job changes in this project, and changes to the project itself
+  projectId?: number;
+}
+
+type Subscriber = {
+  onChange: (change: LiveChange) => void;
+  onConnectionChange: (connected: boolean, reconnected: boolean) => void;
+};
+
+/**
+ * One event stream per browser tab, shared by every mounted screen.
+ * The stream is read with fetch rather than EventSource so the token goes in the Authorization header.
+ */
+const subscribers = new Set<Subscriber>();
+let stream: { token: string; controller: AbortController } | null = null;
+let connected = false;
+
+const setConnected = (value: boolean, reconnected = false) => {
+  connected = value;
+  subscribers.forEach(subscriber => subscriber.onConnectionChange(value, reconnected));
+};
+
+// Dispatch each complete "event: change" block in the buffer and return the unparsed remainder
+const dispatchEvents = (buffer: string) => {
+  const blocks = buffer.split(/\r?\n\r?\n/);
+  const remainder = blocks.pop() || '';
+
+  blocks.forEach(block => {
+    let event = 'message';
+    const data: string[] = [];
+    block.split(/\r?\n/).forEach(line => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+    });
+    if (event !== 'change' || data.length === 0) return;
+
+    try {
+      const change = JSON.parse(data.join('\n')) as LiveChange;
+      subscribers.forEach(subscriber => subscriber.onChange(change));
+    } catch (err) {
+      console.error('Error parsing live update:', err);
+    }
+  });
+
+  return remainder;
+};
+
+const openStream = async (token: string, controller: AbortController) => {
+  let retryDelay = RETRY_DELAY_MS;
+  let hasConnected = false;
+
+  while (!controller.signal.aborted) {
+    try {
+      const response = await fetch(`${API_URL}/api/events`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Accept': 'text/event-stream',
+        },
+        signal: controller.signal,
+      });
+
+      // An expired token will not start working again; wait for the next login
+      if (response.status === 401 || response.status === 403) break;
+      if (!response.ok || !response.body) throw new Error(`Live updates unavailable (${response.status})`);
+
+      setConnected(true, hasConnected);
+      hasConnected = true;
+      retryDelay = RETRY_DELAY_MS;
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer = dispatchEvents(buffer + decoder.decode(value, { stream: true }));
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Live updates connection lost:', err);
+    }
+
+    setConnected(false);
+    await new Promise(resolve => setTimeout(resolve, retryDelay));
+    retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+  }
+
+  // Only report the disconnect if this stream has not been replaced by a newer one
+  if (stream?.controller === controller) {
+    stream = null;
+    setConnected(false);
+  }
+};
+
+const addSubscriber = (token: string, subscriber: Subscriber) => {
+  subscribers.add(subscriber);
+
+  if (stream?.token !== token) {
+    stream?.controller.abort();
+    const controller = new AbortController();
+    stream = { token, controller };
+    openStream(token, controller);
+  }
+
+  return () => {
+    subscribers.delete(subscriber);
+    if (subscribers.size === 0 && stream) {
+      stream.controller.abort();
+      stream = null;
+      connected = false;
+    }
+  };
+};
+
+const matchesFilter = (change: LiveChange, filter: LiveUpdatesFilter) => {
+  if (filter.entities && !filter.entities.includes(change.entity)) return false;
+  if (filter.projectId === undefined) return true;
+  return change.entity === 'project'
+    ? change.ids.includes(filter.projectId)
+    : (change.projectIds || []).includes(filter.projectId);
+};
+
+/**
+ * Call onChanges when jobs or projects are changed by anyone, so a screen can refresh in place.
+ * Changes arriving close together are passed in one call. After the stream reconnects the
+ * callback gets an empty list, since changes may have been missed while disconnected.
+ */
+export const useLiveUpdates = (
+  onChanges: (changes: LiveChange[]) => void,
+  filter: LiveUpdatesFilter = {}
+) => {
+  const { token } = useAuth();
+  const [isConnected, setIsConnected] = useState(connected);
+  const onChangesRef = useRef(onChanges);
+  const filterRef = useRef(filter);
+
+  useEffect(() => {
+    onChangesRef.current = onChanges;
+    filterRef.current = filter;
+  });
+
+  useEffect(() => {
+    if (!token) return;
+
+    let pending: LiveChange[] = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const notify = () => {
+      timer = undefined;
+      const changes = pending;
+      pending = [];
+      onChangesRef.current(changes);
+    };
+
+    const unsubscribe = addSubscriber(token, {
+      onChange: change => {
+        if (!matchesFilter(change, filterRef.current)) return;
+        pending.push(change);
+        if (!timer) timer = setTimeout(notify, NOTIFY_DELAY_MS);
+      },
+      onConnectionChange: (value, reconnected) => {
+        setIsConnected(value);
+        if (reconnected) onChangesRef.current([]);
+      },
+    });
+    setIsConnected(connected);
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [token]);
+
+  return { connected: isConnected };
+};
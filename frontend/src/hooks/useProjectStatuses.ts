@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiRequest, API_ENDPOINTS } from '../utils/api';
+import { useAuth } from '../contexts/AuthContext';
+
+export interface ProjectStatus {
+  id: number;
+  name: string;
+  displayName: string;
+  color: string;
+  backgroundColor: string;
+  orderIndex: number;
+  isDefault: boolean;
+  isFinal: boolean;
+  isAutoComplete: boolean;
+  // Ids of the statuses a project may move to from this one; empty allows any
+  allowedTransitions: number[];
+  projectCount: number;
+}
+
+export interface UseProjectStatusesReturn {
+  statuses: ProjectStatus[];
+  statusByName: Map<string, ProjectStatus>;
+  loading: boolean;
+  error: string | null;
+  reload: () => Promise<void>;
+}
+
+export function useProjectStatuses(): UseProjectStatusesReturn {
+  const [statuses, setStatuses] = useState<ProjectStatus[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { token } = useAuth();
+
+  const reload = useCallback(async () => {
+    if (!token) return;
+    setError(null);
+
+    const response = await apiRequest<ProjectStatus[]>(API_ENDPOINTS.projectStatuses, {}, token);
+    if (response.success && response.data) {
+      setStatuses(response.data);
+    } else {
+      console.error('Error loading project statuses:', response.error);
+      setError(response.error || 'Failed to load project statuses');
+    }
+
+    setLoading(false);
+  }, [token]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const statusByName = new Map(statuses.map(status => [status.name, status]));
+
+  return { statuses, statusByName, loading, error, reload };
+}
@@ -0,0 +1,157 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { apiRequest } from '../utils/api';
+import type { SortConfig, MultiSortConfig } from '../components/DataTable';
+
+export const PAGE_SIZE_OPTIONS = [25, 50, 100, 200];
+// The most rows the list routes return in one page
+export const MAX_PAGE_SIZE = 500;
+
+const FILTER_DEBOUNCE_MS = 300;
+
+interface ListPage<T> {
+  data: T[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+interface UseServerTableOptions {
+  filters: Record<string, unknown>;
+  sort?: SortConfig;
+  multiSort?: MultiSortConfig[];
+  initialPageSize?: number;
+  // Load one page of up to MAX_PAGE_SIZE rows, e.g. for the Gantt and calendar views
+  fetchAll?: boolean;
+  // Filter keys that only affect how the page displays rows and are not sent to the API
+  clientOnlyFilters?: string[];
+}
+
+/**
+ * Build the list query string: filters, sort (field:direction, in priority order) and paging
+ */
+export const buildListQueryString = (
+  filters: Record<string, unknown>,
+  sort: SortConfig | undefined,
+  multiSort: MultiSortConfig[] | undefined,
+  page: number,
+  pageSize: number,
+  clientOnlyFilters: string[] = []
+) => {
+  const params = new URLSearchParams();
+
+  Object.entries(filters).forEach(([key, value]) => {
+    if (clientOnlyFilters.includes(key)) return;
+    if (Array.isArray(value)) {
+      value.forEach(item => params.append(key, String(item)));
+    } else if (value === true) {
+      params.append(key, 'true');
+    } else if (typeof value === 'string' && value.trim() !== '') {
+      params.append(key, value.trim());
+    }
+  });
+
+  const sorts = multiSort && multiSort.length > 0
+    ? [...multiSort].sort((a, b) => a.priority - b.priority)
+    : sort?.field ? [sort] : [];
+  if (sorts.length > 0) {
+    params.append('sort', sorts.map(s => `${s.field}:${s.direction}`).join(','));
+  }
+
+  params.append('page', String(page));
+  params.append('pageSize', String(pageSize));
+  return params.toString();
+};
+
+/**
+ * Load a server-paged list (jobs, projects, clients) for a DataTable in server-driven mode.
+ * Text filters are debounced, and any filter or sort change goes back to the first page.
+ */
+export function useServerTable<T>(endpoint: string, options: UseServerTableOptions) {
+  const { filters, sort, multiSort, initialPageSize = 50, fetchAll = false, clientOnlyFilters } = options;
+  const { token } = useAuth();
+
+  const [rows, setRows] = useState<T[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(initialPageSize);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [debouncedFilters, setDebouncedFilters] = useState(filters);
+  const requestId = useRef(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedFilters(filters), FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filters]);
+
+  const queryString = buildListQueryString(
+    debouncedFilters,
+    sort,
+    multiSort,
+    fetchAll ? 1 : page,
+    fetchAll ? MAX_PAGE_SIZE : pageSize,
+    clientOnlyFilters
+  );
+
+  // Changing filters or sort starts again from the first page
+  const filterKey = buildListQueryString(debouncedFilters, sort, multiSort, 1, 1, clientOnlyFilters);
+  useEffect(() => {
+    setPage(1);
+  }, [filterKey]);
+
+  const load = useCallback(async () => {
+    if (!token) return;
+    const currentRequest = ++requestId.current;
+
+    setLoading(true);
+    const response = await apiRequest(`${endpoint}?${queryString}`, {}, token);
+
+    // Ignore responses that arrive after a newer request was made
+    if (currentRequest !== requestId.current) return;
+
+    if (response.success && response.data) {
+      const result = response.data as ListPage<T>;
+      setRows(result.data);
+      setTotal(result.pagination.total);
+      setError(null);
+
+      // Step back if the current page no longer exists (e.g. after deleting the last row)
+      if (result.pagination.page > result.pagination.totalPages) {
+        setPage(result.pagination.totalPages);
+      }
+    } else {
+      setError(response.error || 'Failed to load data');
+    }
+    setLoading(false);
+  }, [endpoint, queryString, token]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const changePageSize = useCallback((size: number) => {
+    setPageSize(size);
+    setPage(1);
+  }, []);
+
+  return {
+    rows,
+    setRows,
+    total,
+    loading,
+    error,
+    reload: load,
+    pagination: {
+      page,
+      pageSize,
+      total,
+      onPageChange: setPage,
+      onPageSizeChange: changePageSize,
+      pageSizeOptions: PAGE_SIZE_OPTIONS,
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import { useState, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import type { SortConfig } from '../components/DataTable';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+export type ExportTableName = 'jobs' | 'project-jobs' | 'projects' | 'clients';
+export type ExportFormat = 'pdf' | 'xlsx';
+
+interface ExportOptions {
+  filters?: Record<string, unknown>;
+  sort?: SortConfig;
+  projectId?: number;
+  title?: string;
+}
+
+// Pull the server-chosen file name out of Content-Disposition
+const getFilename = (response: Response, fallback: string) => {
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const match = /filename="?([^";]+)"?/.exec(disposition);
+  return match ? match[1] : fallback;
+};
+
+/**
+ * Download a server-rendered PDF or XLSX of a table view.
+ * The backend applies the user's saved column preferences, so only filters and sort are sent.
+ */
+export const useTableExport = (table: ExportTableName) => {
+  const { token } = useAuth();
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const exportTable = useCallback(async (format: ExportFormat, options: ExportOptions = {}) => {
+    setExporting(format);
+    setExportError(null);
+
+    try {
+      const response = await fetch(`${API_URL}/api/exports`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          table,
+          format,
+          filters: options.filters,
+          sort: options.sort?.field ? options.sort : undefined,
+          projectId: options.projectId,
+          title: options.title,
+        }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to create export');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getFilename(response, `${table}.${format}`);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to create export';
+      setExportError(message);
+      console.error('Error exporting table:', err);
+    } finally {
+      setExporting(null);
+    }
+  }, [table, token]);
+
+  return { exportTable, exporting, exportError };
+};
@@ -1,4 +1,5 @@
 import { useCallback } from 'react';
+import { formatDate, isValidDate } from '../utils/dateUtils';
 
 interface UseTableShareOptions {
   title: string;
@@ -313,14 +314,7 @@ export const useTableShare = ({ title, subtitle }: UseTableShareOptions) => {
                           
                           // Format dates using original logic
                           if (value !== null && value !== undefined) {
-                            try {
-                              const date = new Date(value);
-                              if (!isNaN(date.getTime())) {
-                                value = date.toLocaleDateString();
-                              }
-                            } catch {
-                              value = value.toString();
-                            }
+                            value = isValidDate(value) ? formatDate(value) : value.toString();
                           } else {
                             value = '-';
                           }
@@ -349,6 +343,9 @@ export const useTableShare = ({ title, subtitle }: UseTableShareOptions) => {
                               }
                             }
                           }
+                        } else if (['nestingActualDate', 'machiningActualDate', 'assemblyActualDate', 'deliveryActualDate'].includes(col.key)) {
+                          cellClass = 'date-cell';
+                          value = row[col.key] && isValidDate(row[col.key]) ? formatDate(row[col.key]) : '-';
                         }
                         
                         const styleAttr = cellStyle ? ` style="${cellStyle}"` : '';
@@ -2,8 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { formatDate } from '../utils/dateUtils';
 import { apiRequest } from '../utils/api';
+import { useProjectStatuses, type ProjectStatus } from '../hooks/useProjectStatuses';
 import AddProjectModal from '../components/AddProjectModal';
 import ConfirmationModal from '../components/ConfirmationModal';
+import ProjectStatusBadge from '../components/ProjectStatusBadge';
 
 interface Contact {
   id?: number;
@@ -64,6 +66,7 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ clientId, onBack }) => {
   const [archiveLoading, setArchiveLoading] = useState(false);
   const [deleteLoading, setDeleteLoading] = useState(false);
   const { token } = useAuth();
+  const { statuses: projectStatuses, statusByName } = useProjectStatuses();
 
   const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
@@ -245,12 +248,13 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ clientId, onBack }) => {
 
       {/* Tab Content */}
       {activeTab === 'overview' && (
-        <OverviewTab client={client} />
+        <OverviewTab client={client} projectStatuses={projectStatuses} statusByName={statusByName} />
       )}
 
       {activeTab === 'projects' && (
         <ProjectsTab 
           client={client} 
+          statusByName={statusByName}
           onAddProject={() => setShowAddProjectModal(true)}
         />
       )}
@@ -307,7 +311,11 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ clientId, onBack }) => {
 };
 
 // Overview Tab Component
-const OverviewTab: React.FC<{ client: Client }> = ({ client }) => (
+const OverviewTab: React.FC<{
+  client: Client;
+  projectStatuses: ProjectStatus[];
+  statusByName: Map<string, ProjectStatus>;
+}> = ({ client, projectStatuses, statusByName }) => (
   <div className="space-y-6">
     {/* Key Stats */}
     <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -317,9 +325,9 @@ const OverviewTab: React.FC<{ client: Client }> = ({ client }) => (
       </div>
       
       <div className="bg-white rounded-lg shadow-sm border border-light-grey p-4">
-        <h3 className="text-sm font-medium text-charcoal mb-2">Active Projects</h3>
+        <h3 className="text-sm font-medium text-charcoal mb-2">Open Projects</h3>
         <p className="text-3xl font-bold text-black">
-          {client.projects?.filter(p => p.status === 'active').length || 0}
+          {client.projects?.filter(p => !statusByName.get(p.status)?.isFinal).length || 0}
         </p>
       </div>
       <div className="bg-white rounded-lg shadow-sm border border-light-grey p-6">
@@ -330,6 +338,28 @@ const OverviewTab: React.FC<{ client: Client }> = ({ client }) => (
       </div>
     </div>
 
+    {/* Projects by Status */}
+    {(client.projects?.length ?? 0) > 0 && (
+      <div className="bg-white rounded-lg shadow-sm border border-light-grey p-4">
+        <h3 className="text-sm font-medium text-charcoal mb-3">Projects by Status</h3>
+        <div className="flex flex-wrap gap-2">
+          {projectStatuses.map(status => {
+            const statusCount = client.projects?.filter(p => p.status === status.name).length || 0;
+            return statusCount > 0 && (
+              <span
+                key={status.id}
+                className="inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-semibold"
+                style={{ color: status.color, backgroundColor: status.backgroundColor }}
+              >
+                {status.displayName}
+                <span className="font-mono">{statusCount}</span>
+              </span>
+            );
+          })}
+        </div>
+      </div>
+    )}
+
     {/* Quick Info */}
     <div className="bg-white rounded-lg shadow-sm border border-light-grey p-6">
       <h3 className="text-lg font-medium text-black mb-4">Company Information</h3>
@@ -366,7 +396,11 @@ const OverviewTab: React.FC<{ client: Client }> = ({ client }) => (
 );
 
 // Projects Tab Component
-const ProjectsTab: React.FC<{ client: Client; onAddProject: () => void }> = ({ client, onAddProject }) => {
+const ProjectsTab: React.FC<{
+  client: Client;
+  statusByName: Map<string, ProjectStatus>;
+  onAddProject: () => void;
+}> = ({ client, statusByName, onAddProject }) => {
   const projects = client.projects || [];
   
   return (
@@ -407,14 +441,7 @@ const ProjectsTab: React.FC<{ client: Client; onAddProject: () => void }> = ({ c
                     <p className="text-charcoal text-sm mb-3">{project.description}</p>
                   )}
                   <div className="flex items-center space-x-4">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                      project.status === 'active' ? 'bg-green-100 text-green-800' :
-                      project.status === 'completed' ? 'bg-blue-100 text-blue-800' :
-                      project.status === 'on-hold' ? 'bg-yellow-100 text-yellow-800' :
-                      'bg-gray-100 text-gray-800'
-                    }`}>
-                      {project.status.charAt(0).toUpperCase() + project.status.slice(1)}
-                    </span>
+                    <ProjectStatusBadge status={project.status} statusByName={statusByName} />
                     <span className="text-sm text-charcoal">
                       Created: {formatDate(project.createdAt)}
                     </span>
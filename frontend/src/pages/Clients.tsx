@@ -1,7 +1,10 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useColumnPreferences } from '../hooks/useColumnPreferences';
 import { useTableShare } from '../hooks/useTableShare';
+import { useTableExport } from '../hooks/useTableExport';
+import { useServerTable } from '../hooks/useServerTable';
+import { API_ENDPOINTS } from '../utils/api';
 import { DataTable } from '../components/DataTable';
 import type { TableColumn, FilterConfig, SortConfig, MultiSortConfig } from '../components/DataTable';
 import Button from '../components/ui/Button';
@@ -31,8 +34,6 @@ interface ClientsProps {
 
 const Clients: React.FC<ClientsProps> = ({ onClientSelect }) => {
   const [showAddModal, setShowAddModal] = useState(false);
-  const [clients, setClients] = useState<Client[]>([]);
-  const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { token } = useAuth();
 
@@ -45,6 +46,15 @@ const Clients: React.FC<ClientsProps> = ({ onClientSelect }) => {
   const [sort, setSort] = useState<SortConfig>({ field: 'name', direction: 'asc' });
   const [multiSort, setMultiSort] = useState<MultiSortConfig[]>([]);
 
+  // Clients are filtered, sorted and paged by the API
+  const {
+    rows: clients,
+    loading,
+    error: clientsError,
+    reload: reloadClients,
+    pagination,
+  } = useServerTable<Client>(API_ENDPOINTS.clients, { filters, sort, multiSort });
+
   // Column preferences
   const { preferences, updatePreferences } = useColumnPreferences('clients');
 
@@ -65,6 +75,7 @@ const Clients: React.FC<ClientsProps> = ({ onClientSelect }) => {
     title: 'J11 Production Manager - Clients Report',
     subtitle: getActiveFiltersDescription()
   });
+  const { exportTable, exporting, exportError } = useTableExport('clients');
 
   // Custom renderers for table cells
   const createClientClickableCell = (value: any, row: Client, className?: string) => {
@@ -198,34 +209,6 @@ const Clients: React.FC<ClientsProps> = ({ onClientSelect }) => {
     }
   ];
 
-  // Load data function using callback pattern like Jobs and Projects
-  const loadData = useCallback(async () => {
-    if (!token) return;
-    
-    try {
-      setLoading(true);
-      const response = await fetch(`${API_URL}/api/clients`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch clients');
-      }
-
-      const data = await response.json();
-      setClients(data);
-      setError(null);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
-      console.error('Error fetching clients:', err);
-    } finally {
-      setLoading(false);
-    }
-  }, [token, API_URL]);
-
   // Add new client
   const addClient = async (clientData: { 
     name: string; 
@@ -251,7 +234,7 @@ const Clients: React.FC<ClientsProps> = ({ onClientSelect }) => {
       }
 
       // Refresh the clients list
-      loadData();
+      reloadClients();
       setShowAddModal(false);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
@@ -259,13 +242,6 @@ const Clients: React.FC<ClientsProps> = ({ onClientSelect }) => {
     }
   };
 
-  // Load data on component mount and when token changes
-  useEffect(() => {
-    if (token) {
-      loadData();
-    }
-  }, [loadData, token]);
-
   return (
     <ProtectedRoute>
       <PageHeader
@@ -292,6 +268,22 @@ const Clients: React.FC<ClientsProps> = ({ onClientSelect }) => {
             >
               🖨️ Print
             </Button>
+            <Button 
+              variant="secondary" 
+              loading={exporting === 'pdf'}
+              disabled={exporting !== null}
+              onClick={() => exportTable('pdf', { filters, sort })}
+            >
+              📄 PDF
+            </Button>
+            <Button 
+              variant="secondary" 
+              loading={exporting === 'xlsx'}
+              disabled={exporting !== null}
+              onClick={() => exportTable('xlsx', { filters, sort })}
+            >
+              📊 Excel
+            </Button>
             <Button 
               variant="primary"
               onClick={() => setShowAddModal(true)}
@@ -307,6 +299,15 @@ const Clients: React.FC<ClientsProps> = ({ onClientSelect }) => {
           {getActiveFiltersDescription()} • Generated: {new Date().toLocaleString()}
         </div>
 
+        {exportError && (
+          <ErrorDisplay 
+            type="error" 
+            title="Export failed"
+            message={exportError}
+            className="mb-4"
+          />
+        )}
+
         {error && (
           <ErrorDisplay 
             type="error" 
@@ -345,7 +346,9 @@ const Clients: React.FC<ClientsProps> = ({ onClientSelect }) => {
           data={clients}
           columns={columns}
           loading={loading}
-          error={error}
+          error={clientsError}
+          serverSide
+          pagination={pagination}
           filters={filterConfigs}
           currentFilters={filters}
           onFiltersChange={setFilters}
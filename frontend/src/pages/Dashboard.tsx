@@ -1,5 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { formatDate } from '../utils/dateUtils';
+import { useLiveUpdates } from '../hooks/useLiveUpdates';
+import LiveIndicator from '../components/LiveIndicator';
+import OverdueStagesPanel from '../components/OverdueStagesPanel';
 
 interface AnalyticsData {
   period: string;
@@ -40,6 +44,7 @@ const Dashboard: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'nested' | 'machined' | 'assembled' | 'delivered'>('nested');
   const [timePeriod, setTimePeriod] = useState<'day' | 'work-week' | 'month' | 'year'>('day');
+  const [liveUpdateCount, setLiveUpdateCount] = useState(0);
 
   const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
@@ -48,9 +53,10 @@ const Dashboard: React.FC = () => {
     fetchAnalytics();
   }, [timePeriod]);
 
-  const fetchAnalytics = async () => {
+  // Live refreshes are silent so the factory-floor screen doesn't flash the loading state
+  const fetchAnalytics = async (silent = false) => {
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       const response = await fetch(`${API_URL}/api/analytics/analytics?period=${timePeriod === 'work-week' ? 'week' : timePeriod}`, {
         headers: {
           'Authorization': `Bearer ${token}`,
@@ -64,6 +70,7 @@ const Dashboard: React.FC = () => {
 
       const data = await response.json();
       setAnalyticsData(data);
+      setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch analytics');
     } finally {
@@ -71,6 +78,11 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  const { connected: liveConnected } = useLiveUpdates(() => {
+    fetchAnalytics(true);
+    setLiveUpdateCount(count => count + 1);
+  });
+
   const getTimePeriodLabel = () => {
     switch (timePeriod) {
       case 'day': return 'Today';
@@ -125,7 +137,10 @@ const Dashboard: React.FC = () => {
   return (
     <div className="p-6">
       <div className="mb-6">
-        <h1 className="text-3xl font-bold text-black">Dashboard</h1>
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-black">Dashboard</h1>
+          <LiveIndicator connected={liveConnected} />
+        </div>
         <p className="text-charcoal mt-2">Production analytics for {getTimePeriodLabel().toLowerCase()}</p>
       </div>
 
@@ -245,7 +260,7 @@ const Dashboard: React.FC = () => {
                       <td className="py-3 px-4 text-sm text-black">{item.items}</td>
                       <td className="py-3 px-4 text-sm text-charcoal">{item.projectName}</td>
                       <td className="py-3 px-4 text-sm text-charcoal">{item.clientName}</td>
-                      <td className="py-3 px-4 text-sm text-charcoal">{item.date || '-'}</td>
+                      <td className="py-3 px-4 text-sm text-charcoal">{formatDate(item.date)}</td>
                     </tr>
                   ))}
                 </tbody>
@@ -254,6 +269,8 @@ const Dashboard: React.FC = () => {
           )}
         </div>
       </div>
+
+      <OverdueStagesPanel token={token} refreshKey={liveUpdateCount} />
     </div>
   );
 };
@@ -3,7 +3,14 @@ import { useAuth } from '../contexts/AuthContext';
 
 import ConfirmationModal from '../components/ConfirmationModal';
 import PageHeader from '../components/PageHeader';
-import { calculateJobDates, type LeadTime, type JobStatus } from '../utils/dateCalculations';
+import JobStatusTimeline from '../components/JobStatusTimeline';
+import CapacityWarnings, { type CapacityConflict } from '../components/CapacityWarnings';
+import EditConflictModal from '../components/EditConflictModal';
+import { isEditConflict, type EditConflict, type ConflictChoice } from '../utils/editConflict';
+import { type JobStatus } from '../utils/dateCalculations';
+import { formatDate, isoToDisplayDate, displayDateToIso } from '../utils/dateUtils';
+import { StageVarianceBadge } from '../components/StageActualDate';
+import { STAGE_ACTUALS, type StageActualField, type StageVariances } from '../utils/stageActuals';
 
 interface Job {
   id: number;
@@ -15,6 +22,11 @@ interface Job {
   machiningDate?: string;
   assemblyDate?: string;
   deliveryDate?: string;
+  nestingActualDate?: string | null;
+  machiningActualDate?: string | null;
+  assemblyActualDate?: string | null;
+  deliveryActualDate?: string | null;
+  stageVariances?: StageVariances;
   status: 'not-assigned' | 'nesting-complete' | 'machining-complete' | 'assembly-complete' | 'delivered';
   statusId?: number;
   comments?: string;
@@ -30,6 +42,45 @@ interface JobDetailsProps {
   onBack: () => void;
 }
 
+
+const DATE_FIELDS = ['nestingDate', 'machiningDate', 'assemblyDate', 'deliveryDate'] as const;
+
+// The edit form works in DD/MM/YYYY, the API in YYYY-MM-DD
+const toEditForm = (job: Job): Partial<Job> => {
+  const form: Partial<Job> = { ...job };
+  for (const field of DATE_FIELDS) {
+    form[field] = isoToDisplayDate(job[field]);
+  }
+  return form;
+};
+
+const toApiJob = (form: Partial<Job>) => {
+  const body: Record<string, unknown> = { ...form };
+  for (const field of DATE_FIELDS) {
+    body[field] = displayDateToIso(form[field]);
+  }
+  return body;
+};
+
+// Fields shown when merging a save that conflicted with someone else's edit
+const CONFLICT_FIELD_LABELS: Record<string, string> = {
+  unit: 'Unit',
+  type: 'Type',
+  items: 'Items',
+  status: 'Status',
+  nestingDate: 'Nesting Date',
+  machiningDate: 'Machining Date',
+  assemblyDate: 'Assembly Date',
+  deliveryDate: 'Delivery Date',
+  comments: 'Comments',
+};
+
+interface PendingConflict {
+  conflict: EditConflict<Job>;
+  body: Record<string, unknown>;
+  base: Job;
+}
+
 const JobDetails: React.FC<JobDetailsProps> = ({ jobId, onBack }) => {
   const { token } = useAuth();
   const [job, setJob] = useState<Job | null>(null);
@@ -43,8 +94,15 @@ const JobDetails: React.FC<JobDetailsProps> = ({ jobId, onBack }) => {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [calculating, setCalculating] = useState(false);
-  const [leadTimes, setLeadTimes] = useState<LeadTime[]>([]);
   const [jobStatuses, setJobStatuses] = useState<JobStatus[]>([]);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [capacityConflicts, setCapacityConflicts] = useState<{ conflicts: CapacityConflict[]; blocked: boolean } | null>(null);
+  // Version of the loaded job, sent as If-Match so saves don't overwrite someone else's edit
+  const [etag, setEtag] = useState<string | null>(null);
+  const [editConflict, setEditConflict] = useState<PendingConflict | null>(null);
+  // Actual stage dates being corrected, in YYYY-MM-DD for the date inputs
+  const [actualsForm, setActualsForm] = useState<Partial<Record<StageActualField, string>> | null>(null);
+  const [actualsError, setActualsError] = useState<string | null>(null);
 
   const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
@@ -79,56 +137,149 @@ const JobDetails: React.FC<JobDetailsProps> = ({ jobId, onBack }) => {
     
     try {
       setSaving(true);
-      const response = await fetch(`${API_URL}/api/jobs/${jobId}`, {
+      await submitJob({ status: nextStatus.name, statusId: nextStatus.id }, job, etag);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update job status');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Save job fields. Returns the updated job, or null when the save was stopped by a conflict.
+  const submitJob = async (body: Record<string, unknown>, base: Job, version: string | null) => {
+    const response = await fetch(`${API_URL}/api/jobs/${jobId}`, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        ...(version ? { 'If-Match': version } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (response.status === 409) {
+      const data = await response.json();
+      if (isEditConflict(data)) {
+        // Someone else saved first - let the user merge instead of overwriting
+        setEditConflict({ conflict: data as EditConflict<Job>, body, base });
+      } else {
+        // Over capacity on a stage set to block - keep the form open so the dates can be changed
+        setCapacityConflicts({ conflicts: data.capacityConflicts || [], blocked: true });
+      }
+      return null;
+    }
+
+    if (!response.ok) {
+      // e.g. a status move the workflow doesn't allow
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to update job');
+    }
+
+    setEtag(response.headers.get('ETag'));
+    const { capacityWarnings, ...updatedJob } = await response.json();
+    setCapacityConflicts(capacityWarnings ? { conflicts: capacityWarnings, blocked: false } : null);
+    setJob(updatedJob);
+    setHistoryVersion(version => version + 1);
+    return updatedJob as Job;
+  };
+
+  // Resubmit with the chosen values against the version that caused the conflict
+  const handleMergeConflict = async (choices: Record<string, ConflictChoice>) => {
+    if (!editConflict) return;
+    const { conflict, body } = editConflict;
+
+    const merged = { ...body };
+    for (const item of conflict.conflicts) {
+      if (choices[item.field] === 'theirs') {
+        merged[item.field] = item.current;
+      }
+    }
+    // The status id always follows the chosen status
+    if (choices.status === 'theirs' || !('status' in choices)) {
+      merged.statusId = conflict.current.statusId;
+    }
+
+    try {
+      setSaving(true);
+      setEditConflict(null);
+      const updatedJob = await submitJob(merged, conflict.current, conflict.etag);
+      if (updatedJob) {
+        setEditForm(toEditForm(updatedJob));
+        setIsEditing(false);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update job');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEditActuals = () => {
+    if (!job) return;
+    const form: Partial<Record<StageActualField, string>> = {};
+    for (const { actualField } of STAGE_ACTUALS) {
+      form[actualField] = job[actualField] || '';
+    }
+    setActualsError(null);
+    setActualsForm(form);
+  };
+
+  // Save corrected actual dates (needs the change job dates permission)
+  const handleSaveActuals = async () => {
+    if (!job || !actualsForm) return;
+
+    const body: Record<string, string | null> = {};
+    for (const { actualField } of STAGE_ACTUALS) {
+      body[actualField] = actualsForm[actualField] || null;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch(`${API_URL}/api/jobs/${jobId}/actual-dates`, {
         method: 'PUT',
         headers: {
           'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ 
-          ...job, 
-          status: nextStatus.name,
-          statusId: nextStatus.id
-        }),
+        body: JSON.stringify(body),
       });
 
+      const data = await response.json().catch(() => ({}));
       if (!response.ok) {
-        throw new Error('Failed to update job status');
+        throw new Error(data.error || 'Failed to update actual dates');
       }
 
-      const updatedJob = await response.json();
-      setJob(updatedJob);
+      setEtag(response.headers.get('ETag'));
+      setJob(prev => prev ? { ...prev, ...data } : data);
+      setActualsForm(null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update job status');
+      setActualsError(err instanceof Error ? err.message : 'Failed to update actual dates');
     } finally {
       setSaving(false);
     }
   };
 
-  useEffect(() => {
+  const handleDiscardConflict = () => {
+    setEditConflict(null);
+    setIsEditing(false);
     fetchJob();
-    fetchLeadTimes();
-    fetchJobStatuses();
-  }, [jobId]);
-
-  // Helper function to parse DD/MM/YYYY format dates
-  const parseDate = (dateString: string): Date | null => {
-    if (!dateString) return null;
-    const parts = dateString.split('/');
-    if (parts.length !== 3) return null;
-    const day = parseInt(parts[0], 10);
-    const month = parseInt(parts[1], 10) - 1; // Month is 0-indexed in JavaScript
-    const year = parseInt(parts[2], 10);
-    return new Date(year, month, day);
   };
 
-  // Helper function to format date for display
-  const formatDate = (dateString: string): string => {
-    if (!dateString) return '-';
-    const date = parseDate(dateString);
-    return date && !isNaN(date.getTime()) ? date.toLocaleDateString() : '-';
+  const formatConflictValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') return '(empty)';
+    if ((DATE_FIELDS as readonly string[]).includes(field)) return isoToDisplayDate(String(value));
+    if (field === 'status') {
+      const status = jobStatuses.find(s => s.name === value);
+      return status ? status.displayName : getStatusLabel(String(value));
+    }
+    return String(value);
   };
 
+  useEffect(() => {
+    fetchJob();
+    fetchJobStatuses();
+  }, [jobId]);
+
   // Fetch job details
   const fetchJob = async () => {
     try {
@@ -145,8 +296,9 @@ const JobDetails: React.FC<JobDetailsProps> = ({ jobId, onBack }) => {
       }
 
       const data = await response.json();
+      setEtag(response.headers.get('ETag'));
       setJob(data);
-      setEditForm(data);
+      setEditForm(toEditForm(data));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch job');
     } finally {
@@ -154,27 +306,6 @@ const JobDetails: React.FC<JobDetailsProps> = ({ jobId, onBack }) => {
     }
   };
 
-  // Fetch lead times
-  const fetchLeadTimes = async () => {
-    try {
-      const response = await fetch(`${API_URL}/api/lead-times`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch lead times');
-      }
-
-      const data = await response.json();
-      setLeadTimes(data);
-    } catch (err) {
-      console.error('Error fetching lead times:', err);
-    }
-  };
-
   // Fetch job statuses
   const fetchJobStatuses = async () => {
     try {
@@ -196,7 +327,7 @@ const JobDetails: React.FC<JobDetailsProps> = ({ jobId, onBack }) => {
     }
   };
 
-  // Calculate dates based on delivery date and lead times
+  // Calculate dates on the server from the delivery date, lead times and holidays
   const handleCalculateDates = async () => {
     if (!editForm.deliveryDate) {
       alert('Please enter a delivery date first');
@@ -205,26 +336,38 @@ const JobDetails: React.FC<JobDetailsProps> = ({ jobId, onBack }) => {
 
     try {
       setCalculating(true);
-      
-      // Ensure we have lead times and job statuses
-      if (leadTimes.length === 0) {
-        await fetchLeadTimes();
+
+      const response = await fetch(`${API_URL}/api/jobs/${jobId}/schedule`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ deliveryDate: displayDateToIso(editForm.deliveryDate) }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to calculate dates');
       }
-      if (jobStatuses.length === 0) {
-        await fetchJobStatuses();
+
+      // Preview only - the dates are saved with the rest of the form
+      const calculatedDates: Partial<Job> = {};
+      for (const change of data.preview.changes as { field: keyof Job; proposed: string | null }[]) {
+        (calculatedDates as Record<string, string>)[change.field] = isoToDisplayDate(change.proposed);
       }
 
-      const calculatedDates = calculateJobDates(editForm.deliveryDate, leadTimes, jobStatuses);
-      
-      // Update the edit form with calculated dates
       setEditForm(prev => ({
         ...prev,
         ...calculatedDates
       }));
 
+      const conflicts: CapacityConflict[] = data.capacityConflicts || [];
+      setCapacityConflicts(conflicts.length > 0 ? { conflicts, blocked: false } : null);
+
     } catch (err) {
       console.error('Error calculating dates:', err);
-      alert('Failed to calculate dates. Please try again.');
+      alert(err instanceof Error ? err.message : 'Failed to calculate dates. Please try again.');
     } finally {
       setCalculating(false);
     }
@@ -237,22 +380,11 @@ const JobDetails: React.FC<JobDetailsProps> = ({ jobId, onBack }) => {
 
     try {
       setSaving(true);
-      const response = await fetch(`${API_URL}/api/jobs/${jobId}`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(editForm),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to update job');
+      const updatedJob = await submitJob(toApiJob(editForm), job, etag);
+      if (updatedJob) {
+        setEditForm(toEditForm(updatedJob));
+        setIsEditing(false);
       }
-
-      const updatedJob = await response.json();
-      setJob(updatedJob);
-      setIsEditing(false);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update job');
     } finally {
@@ -402,6 +534,16 @@ const JobDetails: React.FC<JobDetailsProps> = ({ jobId, onBack }) => {
       />
       
       <div className="p-6">
+        {capacityConflicts && (
+          <div className="mb-4">
+            <CapacityWarnings
+              conflicts={capacityConflicts.conflicts}
+              blocked={capacityConflicts.blocked}
+              onDismiss={() => setCapacityConflicts(null)}
+            />
+          </div>
+        )}
+
         {isEditing ? (
         /* Edit Form */
         <form onSubmit={handleSave} className="space-y-6">
@@ -495,11 +637,7 @@ const JobDetails: React.FC<JobDetailsProps> = ({ jobId, onBack }) => {
                     type="date"
                     onChange={(e) => {
                       if (e.target.value) {
-                        const date = new Date(e.target.value);
-                        const day = String(date.getDate()).padStart(2, '0');
-                        const month = String(date.getMonth() + 1).padStart(2, '0');
-                        const year = date.getFullYear();
-                        setEditForm({ ...editForm, nestingDate: `${day}/${month}/${year}` });
+                        setEditForm({ ...editForm, nestingDate: isoToDisplayDate(e.target.value) });
                       }
                     }}
                     className="absolute right-1 top-1 w-8 h-8 opacity-0 cursor-pointer"
@@ -532,11 +670,7 @@ const JobDetails: React.FC<JobDetailsProps> = ({ jobId, onBack }) => {
                     type="date"
                     onChange={(e) => {
                       if (e.target.value) {
-                        const date = new Date(e.target.value);
-                        const day = String(date.getDate()).padStart(2, '0');
-                        const month = String(date.getMonth() + 1).padStart(2, '0');
-                        const year = date.getFullYear();
-                        setEditForm({ ...editForm, machiningDate: `${day}/${month}/${year}` });
+                        setEditForm({ ...editForm, machiningDate: isoToDisplayDate(e.target.value) });
                       }
                     }}
                     className="absolute right-1 top-1 w-8 h-8 opacity-0 cursor-pointer"
@@ -569,11 +703,7 @@ const JobDetails: React.FC<JobDetailsProps> = ({ jobId, onBack }) => {
                     type="date"
                     onChange={(e) => {
                       if (e.target.value) {
-                        const date = new Date(e.target.value);
-                        const day = String(date.getDate()).padStart(2, '0');
-                        const month = String(date.getMonth() + 1).padStart(2, '0');
-                        const year = date.getFullYear();
-                        setEditForm({ ...editForm, assemblyDate: `${day}/${month}/${year}` });
+                        setEditForm({ ...editForm, assemblyDate: isoToDisplayDate(e.target.value) });
                       }
                     }}
                     className="absolute right-1 top-1 w-8 h-8 opacity-0 cursor-pointer"
@@ -606,11 +736,7 @@ const JobDetails: React.FC<JobDetailsProps> = ({ jobId, onBack }) => {
                     type="date"
                     onChange={(e) => {
                       if (e.target.value) {
-                        const date = new Date(e.target.value);
-                        const day = String(date.getDate()).padStart(2, '0');
-                        const month = String(date.getMonth() + 1).padStart(2, '0');
-                        const year = date.getFullYear();
-                        setEditForm({ ...editForm, deliveryDate: `${day}/${month}/${year}` });
+                        setEditForm({ ...editForm, deliveryDate: isoToDisplayDate(e.target.value) });
                       }
                     }}
                     className="absolute right-1 top-1 w-8 h-8 opacity-0 cursor-pointer"
@@ -637,7 +763,7 @@ const JobDetails: React.FC<JobDetailsProps> = ({ jobId, onBack }) => {
                 {calculating ? 'Calculating...' : 'Calculate Dates'}
               </button>
               <p className="text-xs text-gray-500 mt-1">
-                This will calculate all production dates based on your delivery date and configured lead times
+                This will calculate all production dates based on your delivery date, configured lead times and holidays
               </p>
             </div>
 
@@ -659,7 +785,7 @@ const JobDetails: React.FC<JobDetailsProps> = ({ jobId, onBack }) => {
                 type="button"
                 onClick={() => {
                   setIsEditing(false);
-                  setEditForm(job);
+                  setEditForm(toEditForm(job));
                 }}
                 className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
               >
@@ -719,25 +845,82 @@ const JobDetails: React.FC<JobDetailsProps> = ({ jobId, onBack }) => {
 
           {/* Date Information */}
           <div className="bg-white shadow rounded-lg p-6">
-            <h2 className="text-lg font-medium text-gray-900 mb-4">Schedule</h2>
-            
-            {/* All dates in one row */}
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700">Nesting Date</label>
-                <p className="text-sm text-gray-900 mt-1">{formatDate(job.nestingDate || '')}</p>
-              </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               <div>
-                <label className="block text-sm font-medium text-gray-700">Machining Date</label>
-                <p className="text-sm text-gray-900 mt-1">{formatDate(job.machiningDate || '')}</p>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700">Assembly Date</label>
-                <p className="text-sm text-gray-900 mt-1">{formatDate(job.assemblyDate || '')}</p>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-medium text-gray-900">Schedule</h2>
+                  {actualsForm ? (
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => setActualsForm(null)}
+                        disabled={saving}
+                        className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={handleSaveActuals}
+                        disabled={saving}
+                        className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {saving ? 'Saving...' : 'Save Actual Dates'}
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={handleEditActuals}
+                      className="text-sm text-blue-600 hover:text-blue-800"
+                      title="Correct the dates recorded when each stage was completed"
+                    >
+                      Edit actual dates
+                    </button>
+                  )}
+                </div>
+                {actualsError && (
+                  <div className="mb-3 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-700">{actualsError}</div>
+                )}
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="pb-2 font-medium">Stage</th>
+                      <th className="pb-2 font-medium">Planned</th>
+                      <th className="pb-2 font-medium">Actual</th>
+                      <th className="pb-2 font-medium">Variance</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {STAGE_ACTUALS.map(({ stage, plannedField, actualField }) => (
+                      <tr key={stage}>
+                        <td className="py-2 font-medium text-gray-700">{stage}</td>
+                        <td className="py-2 text-gray-900">{formatDate(job[plannedField])}</td>
+                        <td className="py-2 text-gray-900">
+                          {actualsForm ? (
+                            <input
+                              type="date"
+                              value={actualsForm[actualField] || ''}
+                              onChange={(e) => setActualsForm({ ...actualsForm, [actualField]: e.target.value })}
+                              className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                            />
+                          ) : (
+                            job[actualField] ? formatDate(job[actualField]) : <span className="text-gray-400">-</span>
+                          )}
+                        </td>
+                        <td className="py-2">
+                          <StageVarianceBadge variance={job.stageVariances?.[plannedField]} />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="mt-2 text-xs text-gray-500">
+                  Actual dates are recorded when the job reaches each stage's completed status. Variance is in working days.
+                </p>
               </div>
+
+              {/* Status history timeline */}
               <div>
-                <label className="block text-sm font-medium text-gray-700">Delivery Date</label>
-                <p className="text-sm text-gray-900 mt-1">{formatDate(job.deliveryDate || '')}</p>
+                <h2 className="text-lg font-medium text-gray-900 mb-4">Status History</h2>
+                <JobStatusTimeline jobId={job.id} plannedDates={job} refreshKey={historyVersion} />
               </div>
             </div>
           </div>
@@ -766,14 +949,29 @@ const JobDetails: React.FC<JobDetailsProps> = ({ jobId, onBack }) => {
       )}
       </div>
 
+      {editConflict && (
+        <EditConflictModal
+          key={editConflict.conflict.etag}
+          conflict={editConflict.conflict}
+          recordLabel="job"
+          base={editConflict.base as unknown as Record<string, unknown>}
+          fieldLabels={CONFLICT_FIELD_LABELS}
+          formatValue={formatConflictValue}
+          saving={saving}
+          onMerge={handleMergeConflict}
+          onDiscardMine={handleDiscardConflict}
+          onClose={() => setEditConflict(null)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       <ConfirmationModal
         isOpen={showDeleteModal}
         onClose={() => setShowDeleteModal(false)}
         onConfirm={handleDelete}
         title="Delete Job"
-        description={`Are you sure you want to delete job #${job?.id} - ${job?.items}? This action cannot be undone.`}
-        confirmText="This will permanently delete the job and all its data."
+        description={`Are you sure you want to delete job #${job?.id} - ${job?.items}? It will be moved to the recycle bin, where an admin can restore it.`}
+        confirmText="The job will be hidden from all lists and schedules."
         confirmButtonText="Delete Job"
         isDestructive={true}
         isLoading={deleting}
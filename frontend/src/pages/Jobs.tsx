@@ -2,15 +2,25 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useColumnPreferences } from '../hooks/useColumnPreferences';
 import { useTableShare } from '../hooks/useTableShare';
+import { useTableExport } from '../hooks/useTableExport';
+import { useServerTable } from '../hooks/useServerTable';
+import { useLiveUpdates } from '../hooks/useLiveUpdates';
 import { DataTable } from '../components/DataTable';
 import type { TableColumn, FilterConfig, SortConfig, MultiSortConfig } from '../components/DataTable';
 import { createStatusRenderer, createDateRenderer } from '../components/DataTable/utils';
 import { apiRequest, API_ENDPOINTS } from '../utils/api';
+import { parseAustralianDate, DISPLAY_SETTINGS_EVENT } from '../utils/dateUtils';
 import Button from '../components/ui/Button';
 import ErrorDisplay from '../components/ErrorDisplay';
 import ProtectedRoute from '../components/ProtectedRoute';
 import AddJobModal from '../components/AddJobModal';
 import PageHeader from '../components/PageHeader';
+import LiveIndicator from '../components/LiveIndicator';
+import BulkJobActionBar from '../components/BulkJobActionBar';
+import { JobScheduleView, ViewModeToggle } from '../components/JobSchedule';
+import type { JobViewMode } from '../components/JobSchedule';
+import StageActualDate from '../components/StageActualDate';
+import { STAGE_ACTUALS, type StageVariances } from '../utils/stageActuals';
 
 interface Job {
   id: number;
@@ -22,6 +32,11 @@ interface Job {
   machiningDate: string | null;
   assemblyDate: string | null;
   deliveryDate: string | null;
+  nestingActualDate: string | null;
+  machiningActualDate: string | null;
+  assemblyActualDate: string | null;
+  deliveryActualDate: string | null;
+  stageVariances?: StageVariances;
   status: string;
   statusId: number;
   comments: string | null;
@@ -83,13 +98,14 @@ interface JobsProps {
 
 function Jobs({ onProjectSelect, onJobSelect, onClientSelect }: JobsProps) {
   const { token } = useAuth();
-  const [jobs, setJobs] = useState<Job[]>([]);
   const [clients, setClients] = useState<Client[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
   const [jobStatuses, setJobStatuses] = useState<JobStatus[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showAddJobModal, setShowAddJobModal] = useState(false);
+  const [viewMode, setViewMode] = useState<JobViewMode>('table');
+  const [selectedJobIds, setSelectedJobIds] = useState<number[]>([]);
   
   // Filters state
   const [filters, setFilters] = useState<Record<string, any>>({
@@ -106,6 +122,23 @@ function Jobs({ onProjectSelect, onJobSelect, onClientSelect }: JobsProps) {
   // Sorting state
   const [sort, setSort] = useState<SortConfig>({ field: 'id', direction: 'desc' });
   const [multiSort, setMultiSort] = useState<MultiSortConfig[]>([]);
+
+  // Jobs are filtered, sorted and paged by the API; the schedule views load one large page
+  const {
+    rows: jobs,
+    setRows: setJobs,
+    total: totalJobs,
+    loading: jobsLoading,
+    error: jobsError,
+    reload: reloadJobs,
+    pagination,
+  } = useServerTable<Job>(API_ENDPOINTS.jobs, {
+    filters,
+    sort,
+    multiSort,
+    fetchAll: viewMode !== 'table',
+    clientOnlyFilters: ['showWeekSeparators'],
+  });
   
   // Display settings from localStorage (reactive)
   const [displaySettings, setDisplaySettings] = useState(() => {
@@ -126,15 +159,13 @@ function Jobs({ onProjectSelect, onJobSelect, onClientSelect }: JobsProps) {
       }
     };
 
-    // Listen for storage events (changes from other tabs)
+    // Storage events cover other tabs; Settings dispatches DISPLAY_SETTINGS_EVENT in this tab
     window.addEventListener('storage', handleStorageChange);
-    
-    // Also check periodically for changes made in the same tab
-    const interval = setInterval(handleStorageChange, 1000);
+    window.addEventListener(DISPLAY_SETTINGS_EVENT, handleStorageChange);
 
     return () => {
       window.removeEventListener('storage', handleStorageChange);
-      clearInterval(interval);
+      window.removeEventListener(DISPLAY_SETTINGS_EVENT, handleStorageChange);
     };
   }, []);
   
@@ -179,6 +210,7 @@ function Jobs({ onProjectSelect, onJobSelect, onClientSelect }: JobsProps) {
     title: 'J11 Production Manager - Jobs Report',
     subtitle: getActiveFiltersDescription()
   });
+  const { exportTable, exporting, exportError } = useTableExport('jobs');
 
   // Helper function to create clickable cell for job navigation
   const createJobClickableCell = (value: any, row: Job, className?: string) => {
@@ -428,6 +460,15 @@ function Jobs({ onProjectSelect, onJobSelect, onClientSelect }: JobsProps) {
       },
       cellStyle: (row: Job) => getDateCellStyle('deliveryDate', row)
     },
+    ...STAGE_ACTUALS.map(({ stage, plannedField, actualField }) => ({
+      key: actualField,
+      label: `${stage} Actual`,
+      sortable: true,
+      width: 130,
+      render: (value: string | null, row: Job) => (
+        <StageActualDate actual={value} variance={row.stageVariances?.[plannedField]} />
+      )
+    })),
     {
       key: 'comments',
       label: 'Comments',
@@ -486,14 +527,9 @@ function Jobs({ onProjectSelect, onJobSelect, onClientSelect }: JobsProps) {
       ]
     },
     {
-      key: 'dateFrom',
-      label: 'Date From',
-      type: 'date'
-    },
-    {
-      key: 'dateTo',
-      label: 'Date To', 
-      type: 'date'
+      key: 'date',
+      label: 'Stage Dates',
+      type: 'dateRange'
     },
     {
       key: 'showWeekSeparators',
@@ -563,32 +599,17 @@ function Jobs({ onProjectSelect, onJobSelect, onClientSelect }: JobsProps) {
     return {};
   };
 
-  // Load data function
+  // Load the lookup lists used by the filters
   const loadData = useCallback(async () => {
       try {
         setLoading(true);
         
-        const [jobsResponse, clientsResponse, projectsResponse, statusesResponse] = await Promise.all([
-          apiRequest(API_ENDPOINTS.jobs, {}, token || ''),
+        const [clientsResponse, projectsResponse, statusesResponse] = await Promise.all([
           apiRequest(API_ENDPOINTS.clients, {}, token || ''),
           apiRequest(API_ENDPOINTS.projects, {}, token || ''),
           apiRequest(API_ENDPOINTS.jobStatuses, {}, token || '')
         ]);
 
-        // Debug specific job date fields for comparison
-        if (jobsResponse.data && jobsResponse.data.length > 0) {
-          const firstJob = jobsResponse.data[0];
-          console.log('Jobs page - First job date fields:', {
-            nestingDate: firstJob.nestingDate,
-            machiningDate: firstJob.machiningDate,
-            assemblyDate: firstJob.assemblyDate,
-            deliveryDate: firstJob.deliveryDate,
-            nestingDateType: typeof firstJob.nestingDate,
-            machiningDateType: typeof firstJob.machiningDate
-          });
-        }
-
-        setJobs(jobsResponse.data);
         setClients(clientsResponse.data);
         setProjects(projectsResponse.data);
         setJobStatuses(statusesResponse.data);
@@ -608,6 +629,14 @@ function Jobs({ onProjectSelect, onJobSelect, onClientSelect }: JobsProps) {
     }
   }, [loadData, token]);
 
+  // Refresh in place when anyone changes a job or project
+  const { connected: liveConnected } = useLiveUpdates(changes => {
+    reloadJobs();
+    if (changes.length === 0 || changes.some(change => change.entity === 'project')) {
+      loadData();
+    }
+  });
+
   // Handle status click to cycle through statuses
   const handleStatusClick = async (e: React.MouseEvent, job: Job) => {
     e.stopPropagation(); // Prevent row click
@@ -657,7 +686,7 @@ function Jobs({ onProjectSelect, onJobSelect, onClientSelect }: JobsProps) {
       
     } catch (err) {
       console.error('Error updating job status:', err);
-      setError('Failed to update job status');
+      setError(err instanceof Error ? err.message : 'Failed to update job status');
     }
   };
 
@@ -667,82 +696,9 @@ function Jobs({ onProjectSelect, onJobSelect, onClientSelect }: JobsProps) {
     onProjectSelect(job.projectId);
   };
 
-  // Apply filters to jobs data
+  // Jobs arrive filtered and sorted from the API; week separators are added here
   const filteredJobs = React.useMemo(() => {
-    let filtered = jobs;
-
-    // Text search - searches across ID, Unit, Type, Items, Comments, Client, and Project columns
-    if (filters.search) {
-      const searchTerm = filters.search.toLowerCase();
-      filtered = filtered.filter(job =>
-        job.id?.toString().toLowerCase().includes(searchTerm) ||
-        job.unit?.toLowerCase().includes(searchTerm) ||
-        job.type?.toLowerCase().includes(searchTerm) ||
-        job.items?.toLowerCase().includes(searchTerm) ||
-        job.comments?.toLowerCase().includes(searchTerm) ||
-        job.clientName?.toLowerCase().includes(searchTerm) ||
-        job.projectName?.toLowerCase().includes(searchTerm)
-      );
-    }
-
-    // Status filter
-    if (filters.status) {
-      filtered = filtered.filter(job => job.status === filters.status);
-    }
-
-    // Client filter
-    if (filters.client) {
-      filtered = filtered.filter(job => {
-        // Handle null/undefined clientName cases and trim whitespace
-        const jobClientName = (job.clientName || '').trim();
-        const filterClientName = (filters.client || '').trim();
-        return jobClientName === filterClientName;
-      });
-    }
-
-    // Project filter
-    if (filters.project) {
-      filtered = filtered.filter(job => {
-        // Handle null/undefined projectName cases and trim whitespace
-        const jobProjectName = (job.projectName || '').trim();
-        const filterProjectName = (filters.project || '').trim();
-        return jobProjectName === filterProjectName;
-      });
-    }
-
-    // Date range filter (using any date column)
-    if (filters.dateFrom || filters.dateTo) {
-      filtered = filtered.filter(job => {
-        const dates = [
-          job.nestingDate,
-          job.machiningDate,
-          job.assemblyDate,
-          job.deliveryDate
-        ].filter(Boolean).map(date => new Date(date!));
-
-        if (dates.length === 0) return false;
-
-        const minDate = new Date(Math.min(...dates.map(d => d.getTime())));
-        const maxDate = new Date(Math.max(...dates.map(d => d.getTime())));
-
-        if (filters.dateFrom && minDate < new Date(filters.dateFrom)) return false;
-        if (filters.dateTo && maxDate > new Date(filters.dateTo)) return false;
-
-        return true;
-      });
-    }
-
-    // Hide completed filter - only hide "delivered" jobs
-    if (filters.hideCompleted) {
-      filtered = filtered.filter(job => {
-        const isDelivered = 
-          job.status?.toLowerCase() === 'delivered' ||
-          job.statusInfo?.name?.toLowerCase() === 'delivered' ||
-          job.statusInfo?.displayName?.toLowerCase() === 'delivered';
-        
-        return !isDelivered;
-      });
-    }
+    const filtered = jobs;
 
     // Add week separators if enabled
     if (filters.showWeekSeparators) {
@@ -769,17 +725,8 @@ function Jobs({ onProjectSelect, onJobSelect, onClientSelect }: JobsProps) {
             break;
         }
         
-        // Parse DD/MM/YYYY format correctly
-        if (!dateToUse) return null;
-        
-        const parts = dateToUse.split('/');
-        if (parts.length === 3) {
-          // Convert DD/MM/YYYY to MM/DD/YYYY for JavaScript Date constructor
-          const [day, month, year] = parts;
-          return new Date(`${month}/${day}/${year}`);
-        }
-        
-        return new Date(dateToUse);
+        // Dates come from the API as YYYY-MM-DD; parse them as local calendar dates
+        return parseAustralianDate(dateToUse);
       };
 
       // Helper function to get week start date based on settings
@@ -878,6 +825,22 @@ function Jobs({ onProjectSelect, onJobSelect, onClientSelect }: JobsProps) {
             >
               🖨️ Print
             </Button>
+            <Button 
+              variant="secondary" 
+              loading={exporting === 'pdf'}
+              disabled={exporting !== null}
+              onClick={() => exportTable('pdf', { filters, sort })}
+            >
+              📄 PDF
+            </Button>
+            <Button 
+              variant="secondary" 
+              loading={exporting === 'xlsx'}
+              disabled={exporting !== null}
+              onClick={() => exportTable('xlsx', { filters, sort })}
+            >
+              📊 Excel
+            </Button>
             <Button 
               variant="primary"
               onClick={() => setShowAddJobModal(true)}
@@ -893,6 +856,15 @@ function Jobs({ onProjectSelect, onJobSelect, onClientSelect }: JobsProps) {
           {getActiveFiltersDescription()} • Generated: {new Date().toLocaleString()}
         </div>
 
+        {exportError && (
+          <ErrorDisplay 
+            type="error" 
+            title="Export failed"
+            message={exportError}
+            className="mb-4"
+          />
+        )}
+
         {error && (
           <ErrorDisplay 
             type="error" 
@@ -921,32 +893,64 @@ function Jobs({ onProjectSelect, onJobSelect, onClientSelect }: JobsProps) {
           </div>
         )}
         
-        <div className="mb-2 print:hidden">
+        <div className="mb-2 flex items-center justify-between print:hidden">
           <div className="text-xs text-gray-500">
-            💡 Tip: Click column headers to sort. Hold Ctrl/Cmd + click to add multiple sorts.
+            {viewMode === 'table'
+              ? '💡 Tip: Click column headers to sort. Hold Ctrl/Cmd + click to add multiple sorts.'
+              : `Showing ${jobs.length} of ${totalJobs} jobs matching the table filters. Switch to Table to change the filters.`}
+          </div>
+          <div className="flex items-center space-x-3">
+            <LiveIndicator connected={liveConnected} />
+            <ViewModeToggle value={viewMode} onChange={setViewMode} />
           </div>
         </div>
 
-        <DataTable
-          data={filteredJobs as any}
-          columns={columns}
-          loading={loading}
-          error={error}
-          filters={filterConfigs}
-          currentFilters={filters}
-          onFiltersChange={setFilters}
-          defaultSort={sort}
-          onSortChange={setSort}
-          multiSort={multiSort}
-          onMultiSortChange={setMultiSort}
-          onRowClick={handleRowClick}
-          columnPreferences={preferences}
-          onColumnPreferencesChange={updatePreferences}
-          resizableColumns={true}
-          className="mb-8"
-          emptyMessage="No jobs found"
-          emptySubMessage="Try adjusting your filters or create a new job"
-        />
+        {viewMode !== 'table' ? (
+          <div className="mb-8">
+            <JobScheduleView
+              mode={viewMode}
+              jobs={filteredJobs.filter((item): item is Job => 'id' in item)}
+              onJobClick={handleRowClick}
+              onJobUpdated={(updatedJob) => {
+                setJobs(prevJobs => prevJobs.map(j => j.id === updatedJob.id ? updatedJob : j));
+              }}
+            />
+          </div>
+        ) : (
+          <>
+          <BulkJobActionBar
+            selectedJobIds={selectedJobIds}
+            jobStatuses={jobStatuses}
+            onApplied={reloadJobs}
+            onClearSelection={() => setSelectedJobIds([])}
+          />
+          <DataTable
+            data={filteredJobs as any}
+            columns={columns}
+            loading={loading || jobsLoading}
+            error={jobsError}
+            serverSide
+            pagination={pagination}
+            filters={filterConfigs}
+            currentFilters={filters}
+            onFiltersChange={setFilters}
+            defaultSort={sort}
+            onSortChange={setSort}
+            multiSort={multiSort}
+            onMultiSortChange={setMultiSort}
+            onRowClick={handleRowClick}
+            selectable
+            selectedRowIds={selectedJobIds}
+            onSelectionChange={(ids) => setSelectedJobIds(ids as number[])}
+            columnPreferences={preferences}
+            onColumnPreferencesChange={updatePreferences}
+            resizableColumns={true}
+            className="mb-8"
+            emptyMessage="No jobs found"
+            emptySubMessage="Try adjusting your filters or create a new job"
+          />
+          </>
+        )}
       </div>
 
       {/* Add Job Modal */}
@@ -955,7 +959,7 @@ function Jobs({ onProjectSelect, onJobSelect, onClientSelect }: JobsProps) {
         onClose={() => setShowAddJobModal(false)}
         onJobAdded={() => {
           setShowAddJobModal(false);
-          loadData(); // Reload jobs after adding a new one
+          reloadJobs(); // Reload jobs after adding a new one
         }}
         projects={projects}
       />
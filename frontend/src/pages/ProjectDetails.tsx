@@ -1,13 +1,27 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useColumnPreferences } from '../hooks/useColumnPreferences';
+import { useTableExport } from '../hooks/useTableExport';
+import { useLiveUpdates } from '../hooks/useLiveUpdates';
+import { useProjectStatuses } from '../hooks/useProjectStatuses';
 
 import { formatDate as formatDateUtil, parseAustralianDate } from '../utils/dateUtils';
 import { apiRequest } from '../utils/api';
 import AddJobModal from '../components/AddJobModal';
 import BulkUploadModal from '../components/BulkUploadModal';
+import ScheduleProjectModal from '../components/ScheduleProjectModal';
+import ApplyJobTemplateModal from '../components/ApplyJobTemplateModal';
+import ProjectUnitsMatrix from '../components/ProjectUnitsMatrix';
+import EditConflictModal from '../components/EditConflictModal';
+import ProjectStatusBadge from '../components/ProjectStatusBadge';
+import StageActualDate from '../components/StageActualDate';
+import { isEditConflict, type EditConflict, type ConflictChoice } from '../utils/editConflict';
+import { STAGE_ACTUALS, type StageVariances } from '../utils/stageActuals';
 import PageHeader from '../components/PageHeader';
 import { DataTable } from '../components/DataTable';
+import BulkJobActionBar from '../components/BulkJobActionBar';
+import { JobScheduleView, ViewModeToggle } from '../components/JobSchedule';
+import type { JobViewMode } from '../components/JobSchedule';
 import type { TableColumn, FilterConfig } from '../components/DataTable';
 
 interface ColumnTarget {
@@ -24,12 +38,18 @@ interface Job {
   id: number;
   projectId: number;
   unit?: string;
+  unitId?: number | null;
   type?: string;
   items: string;
   nestingDate?: string | null;
   machiningDate?: string | null;
   assemblyDate?: string | null;
   deliveryDate?: string | null;
+  nestingActualDate?: string | null;
+  machiningActualDate?: string | null;
+  assemblyActualDate?: string | null;
+  deliveryActualDate?: string | null;
+  stageVariances?: StageVariances;
   status: 'not-assigned' | 'nesting-complete' | 'machining-complete' | 'assembly-complete' | 'delivered';
   statusId?: number;
   comments?: string;
@@ -86,6 +106,13 @@ interface ColumnTarget {
   color: string;
 }
 
+// Fields shown when merging a save that conflicted with someone else's edit
+const CONFLICT_FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  status: 'Status',
+  description: 'Description',
+};
+
 interface ProjectDetailsProps {
   projectId: number;
   onBack: () => void;
@@ -97,17 +124,26 @@ const ProjectDetails: React.FC<ProjectDetailsProps> = ({ projectId, onBack, onJo
   const [project, setProject] = useState<Project | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { statuses: projectStatuses, statusByName, reload: reloadProjectStatuses } = useProjectStatuses();
 
 
   const [isEditing, setIsEditing] = useState(false);
   const [editForm, setEditForm] = useState<Project | null>(null);
+  // The version the edit form started from: sent as If-Match, and the base for merging conflicts
+  const [editVersion, setEditVersion] = useState<{ etag: string | null; base: Project } | null>(null);
+  const [editConflict, setEditConflict] = useState<{ conflict: EditConflict<Project>; body: Record<string, unknown> } | null>(null);
+  const [savingProject, setSavingProject] = useState(false);
   const [isPinning, setIsPinning] = useState(false);
   const [showAddJobModal, setShowAddJobModal] = useState(false);
   const [showBulkUploadModal, setShowBulkUploadModal] = useState(false);
-  const [activeTab, setActiveTab] = useState<'jobs' | 'info'>(initialTab);
+  const [showScheduleModal, setShowScheduleModal] = useState(false);
+  const [showTemplateModal, setShowTemplateModal] = useState(false);
+  const [activeTab, setActiveTab] = useState<'jobs' | 'units' | 'info'>(initialTab);
+  const [viewMode, setViewMode] = useState<JobViewMode>('table');
   
   // Column preferences for project jobs table
   const { preferences, updatePreferences } = useColumnPreferences('project-jobs');
+  const { exportTable, exporting, exportError } = useTableExport('project-jobs');
   
   // Filters state for jobs table
   const [filters, setFilters] = useState<Record<string, any>>({
@@ -174,6 +210,7 @@ const ProjectDetails: React.FC<ProjectDetailsProps> = ({ projectId, onBack, onJo
     await updatePreferences(constrainedPreferences);
   };
   const [jobStatuses, setJobStatuses] = useState<JobStatus[]>([]);
+  const [selectedJobIds, setSelectedJobIds] = useState<number[]>([]);
   const { token } = useAuth();
 
   const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
@@ -226,12 +263,12 @@ const ProjectDetails: React.FC<ProjectDetailsProps> = ({ projectId, onBack, onJo
     (window as any).debugJobStatus = debugJobStatus;
   }
 
-  // Fetch project details
-  const fetchProject = async () => {
+  // Fetch project details. A silent refresh (live updates) keeps the page on screen.
+  const fetchProject = async (silent = false) => {
     if (!token) return;
     
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       const [projectResponse, pinnedResponse] = await Promise.all([
         fetch(`${API_URL}/api/projects/${projectId}`, {
           headers: {
@@ -261,7 +298,11 @@ const ProjectDetails: React.FC<ProjectDetailsProps> = ({ projectId, onBack, onJo
       }
 
       setProject({ ...projectData, isPinned });
-      setEditForm({ ...projectData, isPinned });
+      // Don't overwrite an edit in progress
+      if (!silent || !isEditing) {
+        setEditForm({ ...projectData, isPinned });
+        setEditVersion({ etag: projectResponse.headers.get('ETag'), base: projectData });
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch project');
     } finally {
@@ -269,38 +310,84 @@ const ProjectDetails: React.FC<ProjectDetailsProps> = ({ projectId, onBack, onJo
     }
   };
 
+  // Save project fields against a version. Returns false when someone else saved first.
+  const submitProject = async (body: Record<string, unknown>, etag: string | null) => {
+    const response = await fetch(`${API_URL}/api/projects/${projectId}`, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        ...(etag ? { 'If-Match': etag } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (response.status === 409) {
+      const data = await response.json();
+      if (isEditConflict(data)) {
+        setEditConflict({ conflict: data as EditConflict<Project>, body });
+        return false;
+      }
+    }
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to update project');
+    }
+
+    setIsEditing(false);
+    await fetchProject(); // Refresh the data
+    setError(null);
+    return true;
+  };
+
   // Update project
   const updateProject = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!editForm) return;
 
     try {
-      const response = await fetch(`${API_URL}/api/projects/${projectId}`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: editForm.name,
-          description: editForm.description || null,
-          status: editForm.status,
-          clientId: editForm.clientId || null,
-        }),
-      });
+      await submitProject({
+        name: editForm.name,
+        description: editForm.description || null,
+        status: editForm.status,
+      }, editVersion?.etag ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update project');
+    }
+  };
 
-      if (!response.ok) {
-        throw new Error('Failed to update project');
+  // Resubmit with the chosen values against the version that caused the conflict
+  const handleMergeConflict = async (choices: Record<string, ConflictChoice>) => {
+    if (!editConflict) return;
+    const { conflict, body } = editConflict;
+
+    const merged = { ...body };
+    for (const item of conflict.conflicts) {
+      if (choices[item.field] === 'theirs') {
+        merged[item.field] = item.current;
       }
+    }
 
-      await fetchProject(); // Refresh the data
-      setIsEditing(false);
-      setError(null);
+    try {
+      setSavingProject(true);
+      setEditConflict(null);
+      // Merge against their version from here on, in case the save conflicts again
+      setEditVersion({ etag: conflict.etag, base: conflict.current });
+      await submitProject(merged, conflict.etag);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update project');
+    } finally {
+      setSavingProject(false);
     }
   };
 
+  const handleDiscardConflict = () => {
+    setEditConflict(null);
+    setIsEditing(false);
+    fetchProject();
+  };
+
   const handleEditChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     if (!editForm) return;
     
@@ -354,20 +441,13 @@ const ProjectDetails: React.FC<ProjectDetailsProps> = ({ projectId, onBack, onJo
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status.toLowerCase()) {
-      case 'active':
-        return 'bg-green-100 text-green-800';
-      case 'completed':
-        return 'bg-blue-100 text-blue-800';
-      case 'on-hold':
-        return 'bg-yellow-100 text-yellow-800';
-      case 'cancelled':
-        return 'bg-red-100 text-red-800';
-      default:
-        return 'bg-light-grey text-charcoal';
-    }
-  };
+  // The current status and the ones it may move to (all of them when it lists none)
+  const currentStatus = project ? statusByName.get(project.status) : undefined;
+  const selectableStatuses = !currentStatus || currentStatus.allowedTransitions.length === 0
+    ? projectStatuses
+    : projectStatuses.filter(status =>
+        status.name === currentStatus.name || currentStatus.allowedTransitions.includes(status.id)
+      );
 
   const getProgressColor = (progress: number) => {
     if (progress >= 80) return 'bg-green-500';
@@ -382,6 +462,13 @@ const ProjectDetails: React.FC<ProjectDetailsProps> = ({ projectId, onBack, onJo
     }
   }, [projectId, token]);
 
+  // Refresh when this project or its jobs are changed elsewhere
+  useLiveUpdates(() => {
+    fetchProject(true);
+    // Job changes can complete or reopen the project
+    reloadProjectStatuses();
+  }, { projectId });
+
   // Fetch job statuses for status cycling
   useEffect(() => {
     if (token) {
@@ -599,6 +686,16 @@ const ProjectDetails: React.FC<ProjectDetailsProps> = ({ projectId, onBack, onJo
         );
       }
     },
+    ...STAGE_ACTUALS.map(({ stage, plannedField, actualField }) => ({
+      key: actualField,
+      label: `${stage} Actual`,
+      sortable: true,
+      render: (value: string | null, row: Job) => (
+        <div className="text-sm px-2 py-1">
+          <StageActualDate actual={value} variance={row.stageVariances?.[plannedField]} />
+        </div>
+      )
+    })),
     {
       key: 'status',
       label: 'Status',
@@ -738,16 +835,9 @@ const ProjectDetails: React.FC<ProjectDetailsProps> = ({ projectId, onBack, onJo
       });
     }
     
-    // Hide delivered filter - only hide "delivered" jobs
+    // Hide completed filter - hide jobs in a final status, as the server does
     if (filters.hideCompleted) {
-      filtered = filtered.filter(job => {
-        const isDelivered = 
-          job.status?.toLowerCase() === 'delivered' ||
-          job.statusInfo?.name?.toLowerCase() === 'delivered' ||
-          job.statusInfo?.displayName?.toLowerCase() === 'delivered';
-        
-        return !isDelivered; // Return jobs that are NOT delivered
-      });
+      filtered = filtered.filter(job => !job.statusInfo?.isFinal);
     }
 
     // Add week separators if enabled
@@ -929,6 +1019,20 @@ const ProjectDetails: React.FC<ProjectDetailsProps> = ({ projectId, onBack, onJo
                 </button>
               </div>
             )}
+            <button
+              onClick={() => setShowScheduleModal(true)}
+              className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center space-x-2"
+            >
+              <span>📅</span>
+              <span>Schedule Jobs</span>
+            </button>
+            <button
+              onClick={() => setShowTemplateModal(true)}
+              className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center space-x-2"
+            >
+              <span>🧩</span>
+              <span>From Template</span>
+            </button>
             <button
               onClick={() => setShowBulkUploadModal(true)}
               className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center space-x-2"
@@ -950,9 +1054,7 @@ const ProjectDetails: React.FC<ProjectDetailsProps> = ({ projectId, onBack, onJo
       <div className="px-6">
         {/* Status and Progress */}
         <div className="mb-6 flex items-center space-x-4">
-          <span className={`inline-flex px-3 py-1 text-sm font-semibold rounded-full ${getStatusColor(project.status)}`}>
-            {project.status}
-          </span>
+          <ProjectStatusBadge status={project.status} statusByName={statusByName} size="md" />
           <div className="flex items-center space-x-2">
             <div className="w-32 bg-gray-200 rounded-full h-3">
               <div
@@ -980,6 +1082,16 @@ const ProjectDetails: React.FC<ProjectDetailsProps> = ({ projectId, onBack, onJo
           >
             Jobs ({project.jobCount})
           </button>
+          <button
+            onClick={() => setActiveTab('units')}
+            className={`py-2 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'units'
+                ? 'border-orange-500 text-orange-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            Units
+          </button>
           <button
             onClick={() => setActiveTab('info')}
             className={`py-2 px-1 border-b-2 font-medium text-sm ${
@@ -1025,10 +1137,11 @@ const ProjectDetails: React.FC<ProjectDetailsProps> = ({ projectId, onBack, onJo
                       onChange={handleEditChange}
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                     >
-                      <option value="active">Active</option>
-                      <option value="completed">Completed</option>
-                      <option value="on-hold">On Hold</option>
-                      <option value="cancelled">Cancelled</option>
+                      {selectableStatuses.map(status => (
+                        <option key={status.id} value={status.name}>
+                          {status.displayName}
+                        </option>
+                      ))}
                     </select>
                   </div>
                 </div>
@@ -1097,33 +1210,118 @@ const ProjectDetails: React.FC<ProjectDetailsProps> = ({ projectId, onBack, onJo
         </>
       )}
 
+      {/* Units Tab */}
+      {activeTab === 'units' && (
+        <ProjectUnitsMatrix
+          projectId={project.id}
+          jobs={project.jobs || []}
+          onJobSelect={onJobSelect}
+        />
+      )}
+
       {/* Jobs Tab */}
       {activeTab === 'jobs' && (
         <div className="space-y-6">
-          
-          <DataTable
-            data={processedJobs}
-            columns={columns}
-            onRowClick={(item) => {
-              // Only handle clicks on actual jobs, not week separators
-              if ('id' in item) {
-                onJobSelect?.(item.id);
-              }
-            }}
-            loading={false}
-            emptyMessage="No jobs found for this project"
-            filters={filterConfigs}
-            currentFilters={filters}
-            onFiltersChange={setFilters}
-            columnPreferences={preferences}
-            onColumnPreferencesChange={handleColumnPreferencesChange}
-            resizableColumns={true}
-            defaultSort={{ field: 'id', direction: 'asc' }}
-          />
+          <div className="flex items-center justify-end space-x-2 print:hidden">
+            {exportError && (
+              <span className="text-sm text-red-600">{exportError}</span>
+            )}
+            {(['pdf', 'xlsx'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => exportTable(format, {
+                  filters,
+                  sort: { field: 'id', direction: 'asc' },
+                  projectId,
+                  title: `${project.name} - Jobs`,
+                })}
+                disabled={exporting !== null}
+                className="px-3 py-1 rounded-md border border-gray-300 bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {exporting === format ? 'Exporting...' : format === 'pdf' ? '📄 PDF' : '📊 Excel'}
+              </button>
+            ))}
+            <ViewModeToggle value={viewMode} onChange={setViewMode} />
+          </div>
+
+          {viewMode !== 'table' ? (
+            <JobScheduleView
+              mode={viewMode}
+              jobs={processedJobs
+                .filter((item): item is Job => 'id' in item)
+                .map(job => ({ ...job, projectName: project.name, clientName: project.client?.name }))}
+              groupable={false}
+              onJobClick={(job) => onJobSelect?.(job.id)}
+              onJobUpdated={(updatedJob) => {
+                setProject(prev => prev ? {
+                  ...prev,
+                  jobs: prev.jobs?.map(job => job.id === updatedJob.id
+                    ? {
+                        ...job,
+                        nestingDate: updatedJob.nestingDate,
+                        machiningDate: updatedJob.machiningDate,
+                        assemblyDate: updatedJob.assemblyDate,
+                        deliveryDate: updatedJob.deliveryDate,
+                      }
+                    : job),
+                } : prev);
+              }}
+            />
+          ) : (
+            <>
+            <BulkJobActionBar
+              selectedJobIds={selectedJobIds}
+              jobStatuses={jobStatuses}
+              onApplied={() => fetchProject(true)}
+              onClearSelection={() => setSelectedJobIds([])}
+            />
+            <DataTable
+              data={processedJobs}
+              columns={columns}
+              onRowClick={(item) => {
+                // Only handle clicks on actual jobs, not week separators
+                if ('id' in item) {
+                  onJobSelect?.(item.id);
+                }
+              }}
+              selectable
+              selectedRowIds={selectedJobIds}
+              onSelectionChange={(ids) => setSelectedJobIds(ids as number[])}
+              loading={false}
+              emptyMessage="No jobs found for this project"
+              filters={filterConfigs}
+              currentFilters={filters}
+              onFiltersChange={setFilters}
+              columnPreferences={preferences}
+              onColumnPreferencesChange={handleColumnPreferencesChange}
+              resizableColumns={true}
+              defaultSort={{ field: 'id', direction: 'asc' }}
+            />
+            </>
+          )}
         </div>
       )}
       </div>
 
+      {editConflict && editVersion && (
+        <EditConflictModal
+          key={editConflict.conflict.etag}
+          conflict={editConflict.conflict}
+          recordLabel="project"
+          base={editVersion.base as unknown as Record<string, unknown>}
+          fieldLabels={CONFLICT_FIELD_LABELS}
+          formatValue={(field, value) => {
+            if (value === null || value === undefined || value === '') return '(empty)';
+            if (field === 'status') return statusByName.get(String(value))?.displayName || String(value);
+            return String(value);
+          }}
+          saving={savingProject}
+          onMerge={handleMergeConflict}
+          onDiscardMine={handleDiscardConflict}
+          onClose={() => setEditConflict(null)}
+        />
+      )}
+
       {/* Add Job Modal */}
       {project && (
         <AddJobModal
@@ -1149,6 +1347,32 @@ const ProjectDetails: React.FC<ProjectDetailsProps> = ({ projectId, onBack, onJo
           projectId={project.id}
         />
       )}
+
+      {/* Job Template Modal */}
+      {project && (
+        <ApplyJobTemplateModal
+          isOpen={showTemplateModal}
+          onClose={() => setShowTemplateModal(false)}
+          onJobsAdded={() => {
+            setShowTemplateModal(false);
+            fetchProject(); // Refresh project data to show new jobs
+          }}
+          projectId={project.id}
+        />
+      )}
+
+      {/* Schedule Jobs Modal */}
+      {project && (
+        <ScheduleProjectModal
+          isOpen={showScheduleModal}
+          onClose={() => setShowScheduleModal(false)}
+          onScheduled={() => {
+            setShowScheduleModal(false);
+            fetchProject(); // Refresh project data to show the new dates
+          }}
+          projectId={project.id}
+        />
+      )}
     </div>
   );
 };
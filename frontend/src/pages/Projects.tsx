@@ -2,6 +2,10 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useColumnPreferences } from '../hooks/useColumnPreferences';
 import { useTableShare } from '../hooks/useTableShare';
+import { useTableExport } from '../hooks/useTableExport';
+import { useServerTable } from '../hooks/useServerTable';
+import { useLiveUpdates } from '../hooks/useLiveUpdates';
+import { useProjectStatuses } from '../hooks/useProjectStatuses';
 import { DataTable } from '../components/DataTable';
 import type { TableColumn, FilterConfig, SortConfig, MultiSortConfig } from '../components/DataTable';
 import { createDateRenderer } from '../components/DataTable/utils';
@@ -12,6 +16,7 @@ import ProtectedRoute from '../components/ProtectedRoute';
 import AddProjectModal from '../components/AddProjectModal';
 import ConfirmationModal from '../components/ConfirmationModal';
 import PageHeader from '../components/PageHeader';
+import ProjectStatusBadge from '../components/ProjectStatusBadge';
 
 interface Project {
   id: number;
@@ -37,7 +42,6 @@ interface ProjectsProps {
 
 const Projects: React.FC<ProjectsProps> = ({ onProjectSelect }) => {
   const { token } = useAuth();
-  const [projects, setProjects] = useState<Project[]>([]);
   const [clients, setClients] = useState<{id: number; name: string}[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -56,6 +60,18 @@ const Projects: React.FC<ProjectsProps> = ({ onProjectSelect }) => {
   const [sort, setSort] = useState<SortConfig>({ field: 'name', direction: 'asc' });
   const [multiSort, setMultiSort] = useState<MultiSortConfig[]>([]);
 
+  // Projects are filtered, sorted and paged by the API
+  const {
+    rows: projects,
+    loading: projectsLoading,
+    error: projectsError,
+    reload: reloadProjects,
+    pagination,
+  } = useServerTable<Project>(API_ENDPOINTS.projects, { filters, sort, multiSort });
+
+  // Configured project statuses, with the number of projects in each
+  const { statuses: projectStatuses, statusByName, reload: reloadStatuses } = useProjectStatuses();
+
   // Deletion modal state
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [projectToDelete, setProjectToDelete] = useState<Project | null>(null);
@@ -67,7 +83,7 @@ const Projects: React.FC<ProjectsProps> = ({ onProjectSelect }) => {
   const getActiveFiltersDescription = () => {
     const activeFilters = [];
     if (filters.search) activeFilters.push(`Search: "${filters.search}"`);
-    if (filters.status) activeFilters.push(`Status: ${filters.status}`);
+    if (filters.status) activeFilters.push(`Status: ${statusByName.get(filters.status)?.displayName ?? filters.status}`);
     if (filters.client) activeFilters.push(`Client: ${filters.client}`);
     if (filters.dateFrom || filters.dateTo) {
       let dateRange = 'Date: ';
@@ -89,18 +105,15 @@ const Projects: React.FC<ProjectsProps> = ({ onProjectSelect }) => {
     title: 'J11 Production Manager - Projects Report',
     subtitle: getActiveFiltersDescription()
   });
+  const { exportTable, exporting, exportError } = useTableExport('projects');
 
-  // Load data function
+  // Load the clients used by the client filter
   const loadData = useCallback(async () => {
     try {
       setLoading(true);
       
-      const [projectsResponse, clientsResponse] = await Promise.all([
-        apiRequest(API_ENDPOINTS.projects, {}, token || ''),
-        apiRequest(API_ENDPOINTS.clients, {}, token || '')
-      ]);
+      const clientsResponse = await apiRequest(API_ENDPOINTS.clients, {}, token || '');
 
-      setProjects(projectsResponse.data);
       setClients(clientsResponse.data);
       
     } catch (err) {
@@ -120,7 +133,7 @@ const Projects: React.FC<ProjectsProps> = ({ onProjectSelect }) => {
       }, token);
 
       if (response.success) {
-        setProjects(prev => prev.filter(p => p.id !== projectToDelete.id));
+        reloadProjects();
         setShowDeleteModal(false);
         setProjectToDelete(null);
       } else {
@@ -137,7 +150,15 @@ const Projects: React.FC<ProjectsProps> = ({ onProjectSelect }) => {
     if (token) {
       loadData();
     }
-  }, [loadData, token]);  // Helper function to create clickable cell for project navigation
+  }, [loadData, token]);
+
+  // Job changes move project progress, job counts and automatic statuses, so refresh on either
+  useLiveUpdates(() => {
+    reloadProjects();
+    reloadStatuses();
+  });
+
+  // Helper function to create clickable cell for project navigation
   const createProjectClickableCell = (value: any, row: Project, className?: string) => {
     const handleProjectClick = (e: React.MouseEvent) => {
       e.stopPropagation();
@@ -186,28 +207,7 @@ const Projects: React.FC<ProjectsProps> = ({ onProjectSelect }) => {
       label: 'Status',
       sortable: true,
       width: 120,
-      render: (value: string, _row: Project) => {
-        const getStatusColor = (status: string) => {
-          switch (status.toLowerCase()) {
-            case 'active':
-              return 'bg-green-100 text-green-800';
-            case 'completed':
-              return 'bg-blue-100 text-blue-800';
-            case 'on-hold':
-              return 'bg-yellow-100 text-yellow-800';
-            case 'cancelled':
-              return 'bg-red-100 text-red-800';
-            default:
-              return 'bg-gray-100 text-gray-800';
-          }
-        };
-        
-        return (
-          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(value)}`}>
-            {value}
-          </span>
-        );
-      }
+      render: (value: string) => <ProjectStatusBadge status={value} statusByName={statusByName} />
     },
     {
       key: 'progress',
@@ -275,12 +275,10 @@ const Projects: React.FC<ProjectsProps> = ({ onProjectSelect }) => {
       key: 'status',
       label: 'Status',
       type: 'select',
-      options: [
-        { value: 'Active', label: 'Active' },
-        { value: 'Completed', label: 'Completed' },
-        { value: 'On-Hold', label: 'On-Hold' },
-        { value: 'Cancelled', label: 'Cancelled' }
-      ]
+      options: projectStatuses.map(status => ({
+        value: status.name,
+        label: status.displayName
+      }))
     },
     {
       key: 'client',
@@ -294,14 +292,9 @@ const Projects: React.FC<ProjectsProps> = ({ onProjectSelect }) => {
       ]
     },
     {
-      key: 'dateFrom',
-      label: 'Date From',
-      type: 'date'
-    },
-    {
-      key: 'dateTo',
-      label: 'Date To', 
-      type: 'date'
+      key: 'date',
+      label: 'Created',
+      type: 'dateRange'
     }
   ];
 
@@ -310,49 +303,6 @@ const Projects: React.FC<ProjectsProps> = ({ onProjectSelect }) => {
     onProjectSelect(project.id);
   };
 
-  // Apply filters to projects data
-  const filteredProjects = React.useMemo(() => {
-    let filtered = projects;
-
-    // Text search - searches across Project Name, Description, and Client columns
-    if (filters.search) {
-      const searchTerm = filters.search.toLowerCase();
-      filtered = filtered.filter(project =>
-        project.name?.toLowerCase().includes(searchTerm) ||
-        project.description?.toLowerCase().includes(searchTerm) ||
-        project.client?.name?.toLowerCase().includes(searchTerm) ||
-        project.client?.company?.toLowerCase().includes(searchTerm)
-      );
-    }
-
-    // Status filter
-    if (filters.status) {
-      filtered = filtered.filter(project => project.status === filters.status);
-    }
-
-    // Client filter
-    if (filters.client) {
-      filtered = filtered.filter(project => {
-        const projectClientName = (project.client?.name || '').trim();
-        const filterClientName = (filters.client || '').trim();
-        return projectClientName === filterClientName;
-      });
-    }
-
-    // Date range filter (using created date)
-    if (filters.dateFrom || filters.dateTo) {
-      filtered = filtered.filter(project => {
-        const projectDate = new Date(project.createdAt);
-
-        if (filters.dateFrom && projectDate < new Date(filters.dateFrom)) return false;
-        if (filters.dateTo && projectDate > new Date(filters.dateTo)) return false;
-
-        return true;
-      });
-    }
-
-    return filtered;
-  }, [projects, filters]);
 
   if (loading) {
     return (
@@ -389,7 +339,7 @@ const Projects: React.FC<ProjectsProps> = ({ onProjectSelect }) => {
                   const pref = preferences.find(p => p.columnName === col.key);
                   return pref ? pref.isVisible : true; // Show by default if no preference
                 });
-                openShareView(filteredProjects, columns, visibleColumns);
+                openShareView(projects, columns, visibleColumns);
               }}
             >
               📤 Share
@@ -400,6 +350,22 @@ const Projects: React.FC<ProjectsProps> = ({ onProjectSelect }) => {
             >
               🖨️ Print
             </Button>
+            <Button 
+              variant="secondary" 
+              loading={exporting === 'pdf'}
+              disabled={exporting !== null}
+              onClick={() => exportTable('pdf', { filters, sort })}
+            >
+              📄 PDF
+            </Button>
+            <Button 
+              variant="secondary" 
+              loading={exporting === 'xlsx'}
+              disabled={exporting !== null}
+              onClick={() => exportTable('xlsx', { filters, sort })}
+            >
+              📊 Excel
+            </Button>
             <Button 
               variant="primary"
               onClick={() => setShowAddModal(true)}
@@ -416,6 +382,15 @@ const Projects: React.FC<ProjectsProps> = ({ onProjectSelect }) => {
           {getActiveFiltersDescription()} • Generated: {new Date().toLocaleString()}
         </div>
 
+        {exportError && (
+          <ErrorDisplay 
+            type="error" 
+            title="Export failed"
+            message={exportError}
+            className="mb-4"
+          />
+        )}
+
         {error && (
           <ErrorDisplay 
             type="error" 
@@ -444,6 +419,29 @@ const Projects: React.FC<ProjectsProps> = ({ onProjectSelect }) => {
           </div>
         )}
         
+        {projectStatuses.length > 0 && (
+          <div className="mb-3 flex flex-wrap items-center gap-2 print:hidden">
+            {projectStatuses.map(status => {
+              const selected = filters.status === status.name;
+              return (
+                <button
+                  key={status.id}
+                  type="button"
+                  onClick={() => setFilters({ ...filters, status: selected ? '' : status.name })}
+                  className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-semibold border-2 transition-all ${
+                    selected ? 'border-black' : 'border-transparent hover:border-gray-300'
+                  }`}
+                  style={{ color: status.color, backgroundColor: status.backgroundColor }}
+                  title={selected ? 'Show all statuses' : `Show ${status.displayName} projects`}
+                >
+                  {status.displayName}
+                  <span className="font-mono">{status.projectCount}</span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
         <div className="mb-2 print:hidden">
           <div className="text-xs text-gray-500">
             💡 Tip: Click column headers to sort. Hold Ctrl/Cmd + click to add multiple sorts.
@@ -451,10 +449,12 @@ const Projects: React.FC<ProjectsProps> = ({ onProjectSelect }) => {
         </div>
 
         <DataTable
-          data={filteredProjects}
+          data={projects}
           columns={columns}
-          loading={loading}
-          error={error}
+          loading={projectsLoading}
+          error={projectsError}
+          serverSide
+          pagination={pagination}
           filters={filterConfigs}
           currentFilters={filters}
           onFiltersChange={setFilters}
@@ -478,7 +478,7 @@ const Projects: React.FC<ProjectsProps> = ({ onProjectSelect }) => {
         onClose={() => setShowAddModal(false)}
         onProjectAdded={async () => {
           setShowAddModal(false);
-          await loadData(); // Reload projects after adding a new one
+          await reloadProjects(); // Reload projects after adding a new one
         }}
       />
 
@@ -488,7 +488,7 @@ const Projects: React.FC<ProjectsProps> = ({ onProjectSelect }) => {
         onClose={() => setShowDeleteModal(false)}
         onConfirm={deleteProject}
         title="Delete Project"
-        description={`Are you sure you want to delete "${projectToDelete?.name}"? This action cannot be undone.`}
+        description={`Are you sure you want to delete "${projectToDelete?.name}"? The project and its jobs will be moved to the recycle bin, where an admin can restore them.`}
         confirmText="Delete"
         confirmButtonText="Delete"
         isDestructive={true}
@@ -1,70 +1,621 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { formatDate, formatDateForInput } from '../utils/dateUtils';
 import Button from '../components/ui/Button';
 
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+type Stage = 'nesting' | 'machining' | 'assembly' | 'delivery';
+
+interface ThroughputReport {
+  weeks: ({ weekStart: string } & Record<Stage, number>)[];
+  totals: Record<Stage, number>;
+}
+
+interface LateJob {
+  jobId: number;
+  unit: string | null;
+  items: string;
+  plannedDate: string;
+  deliveredOn: string;
+  projectName: string | null;
+  clientName: string | null;
+  daysLate: number;
+}
+
+interface OnTimeReport {
+  delivered: number;
+  onTime: number;
+  late: number;
+  unplanned: number;
+  onTimeRate: number | null;
+  averageDaysLate: number;
+  lateJobs: LateJob[];
+}
+
+interface LateByClientReport {
+  clients: {
+    clientId: number | null;
+    clientName: string;
+    deliveredLate: number;
+    overdue: number;
+    lateJobs: number;
+    averageDaysLate: number;
+  }[];
+}
+
+interface LeadTimesReport {
+  transitions: {
+    from: Stage;
+    to: Stage;
+    jobCount: number;
+    averageDays: number | null;
+    minDays: number | null;
+    maxDays: number | null;
+    plannedDays: number | null;
+  }[];
+}
+
+interface JobsPerProjectReport {
+  projects: {
+    projectId: number;
+    projectName: string;
+    projectStatus: string;
+    clientName: string | null;
+    totalJobs: number;
+    completedJobs: number;
+    dueInRange: number;
+    deliveredInRange: number;
+    progress: number;
+  }[];
+}
+
+interface StageSlippageReport {
+  stages: {
+    stage: Stage;
+    completed: number;
+    unplanned: number;
+    onTime: number;
+    late: number;
+    onTimeRate: number | null;
+    averageSlip: number | null;
+    medianSlip: number | null;
+    maxSlip: number | null;
+  }[];
+  mostLate: {
+    jobId: number;
+    unit: string | null;
+    items: string;
+    projectName: string | null;
+    clientName: string | null;
+    stage: Stage;
+    plannedDate: string;
+    actualDate: string;
+    daysLate: number;
+  }[];
+}
+
+interface ReportData {
+  throughput: ThroughputReport;
+  onTime: OnTimeReport;
+  lateByClient: LateByClientReport;
+  leadTimes: LeadTimesReport;
+  jobsPerProject: JobsPerProjectReport;
+  stageSlippage: StageSlippageReport;
+}
+
+const stageLabels: Record<Stage, string> = {
+  nesting: 'Nesting',
+  machining: 'Machining',
+  assembly: 'Assembly',
+  delivery: 'Delivery',
+};
+
+const stageColors: Record<Stage, string> = {
+  nesting: 'bg-purple-500',
+  machining: 'bg-blue-500',
+  assembly: 'bg-green-500',
+  delivery: 'bg-orange-500',
+};
+
+const stages: Stage[] = ['nesting', 'machining', 'assembly', 'delivery'];
+
+const reportTypes = ['Overview', 'Throughput', 'Delivery', 'Slippage', 'Lead Times', 'Projects'];
+const timePeriods = ['This Week', 'This Month', 'Last Month', 'This Quarter', 'This Year'];
+
+/**
+ * Date range (YYYY-MM-DD, inclusive) for a period option
+ */
+const getPeriodRange = (period: string): { from: string; to: string } => {
+  const now = new Date();
+  let start: Date;
+  let end: Date;
+
+  switch (period) {
+    case 'This Week':
+      start = new Date(now.getFullYear(), now.getMonth(), now.getDate() - ((now.getDay() + 6) % 7));
+      end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 6);
+      break;
+    case 'Last Month':
+      start = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+      end = new Date(now.getFullYear(), now.getMonth(), 0);
+      break;
+    case 'This Quarter': {
+      const quarter = Math.floor(now.getMonth() / 3);
+      start = new Date(now.getFullYear(), quarter * 3, 1);
+      end = new Date(now.getFullYear(), quarter * 3 + 3, 0);
+      break;
+    }
+    case 'This Year':
+      start = new Date(now.getFullYear(), 0, 1);
+      end = new Date(now.getFullYear(), 11, 31);
+      break;
+    default: // This Month
+      start = new Date(now.getFullYear(), now.getMonth(), 1);
+      end = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+      break;
+  }
+
+  return { from: formatDateForInput(start), to: formatDateForInput(end) };
+};
+
 const Reports: React.FC = () => {
+  const { token } = useAuth();
   const [selectedPeriod, setSelectedPeriod] = useState('This Month');
   const [selectedReport, setSelectedReport] = useState('Overview');
+  const [reportData, setReportData] = useState<ReportData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const range = getPeriodRange(selectedPeriod);
+
+  const fetchReports = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const fetchReport = async (name: string) => {
+        const response = await fetch(`${API_URL}/api/analytics/${name}?from=${range.from}&to=${range.to}`, {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+        });
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch reports');
+        }
+
+        return response.json();
+      };
+
+      const [throughput, onTime, lateByClient, leadTimes, jobsPerProject, stageSlippage] = await Promise.all([
+        fetchReport('throughput'),
+        fetchReport('on-time'),
+        fetchReport('late-by-client'),
+        fetchReport('lead-times'),
+        fetchReport('jobs-per-project'),
+        fetchReport('stage-slippage'),
+      ]);
+
+      setReportData({ throughput, onTime, lateByClient, leadTimes, jobsPerProject, stageSlippage });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch reports');
+    } finally {
+      setLoading(false);
+    }
+  }, [range.from, range.to, token]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const getJobLabel = (job: { unit: string | null; items: string }) =>
+    job.unit ? `${job.unit} - ${job.items}` : job.items;
+
+  const renderStatCard = (label: string, value: React.ReactNode, detail: string, borderClass: string) => (
+    <div className={`bg-white p-6 rounded-lg shadow-md border-l-4 ${borderClass}`}>
+      <p className="text-sm font-medium text-gray-600">{label}</p>
+      <p className="text-3xl font-bold text-gray-900">{value}</p>
+      <p className="text-xs text-gray-500 mt-2">{detail}</p>
+    </div>
+  );
+
+  const renderOverview = (data: ReportData) => {
+    const lateClients = data.lateByClient.clients;
+    const totalLate = lateClients.reduce((sum, client) => sum + client.lateJobs, 0);
+    const maxStageTotal = Math.max(1, ...stages.map(stage => data.throughput.totals[stage]));
+
+    return (
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          {renderStatCard('Jobs Delivered', data.onTime.delivered, `${data.onTime.unplanned} without a planned date`, 'border-orange-500')}
+          {renderStatCard(
+            'On-Time Delivery',
+            data.onTime.onTimeRate === null ? '-' : `${data.onTime.onTimeRate}%`,
+            `${data.onTime.onTime} on time, ${data.onTime.late} late`,
+            'border-green-500'
+          )}
+          {renderStatCard('Average Days Late', data.onTime.averageDaysLate, 'Working days, late deliveries only', 'border-red-500')}
+          {renderStatCard('Late & Overdue Jobs', totalLate, `Across ${lateClients.length} client${lateClients.length === 1 ? '' : 's'}`, 'border-blue-500')}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-white p-6 rounded-lg shadow-md">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Stages Completed</h3>
+            <div className="space-y-4">
+              {stages.map(stage => (
+                <div key={stage}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="font-medium text-gray-900">{stageLabels[stage]}</span>
+                    <span className="text-gray-600">{data.throughput.totals[stage]} jobs</span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className={`${stageColors[stage]} h-2 rounded-full`}
+                      style={{ width: `${(data.throughput.totals[stage] / maxStageTotal) * 100}%` }}
+                    ></div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-white p-6 rounded-lg shadow-md">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Clients With Late Jobs</h3>
+            {lateClients.length === 0 ? (
+              <p className="text-sm text-gray-500">No late or overdue jobs in this period.</p>
+            ) : (
+              <div className="space-y-3">
+                {lateClients.slice(0, 5).map(client => (
+                  <div key={client.clientId ?? 'none'} className="flex justify-between items-center border-b border-gray-100 pb-2 last:border-b-0">
+                    <span className="text-sm font-medium text-gray-900">{client.clientName}</span>
+                    <span className="text-sm text-red-600">
+                      {client.lateJobs} late · avg {client.averageDaysLate} days
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderThroughput = (data: ReportData) => {
+    const maxWeek = Math.max(1, ...data.throughput.weeks.flatMap(week => stages.map(stage => week[stage])));
+
+    return (
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Throughput per Week</h3>
+          <p className="text-sm text-gray-500">Jobs reaching each stage's complete status, by week starting Monday</p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Week</th>
+                {stages.map(stage => (
+                  <th key={stage} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {stageLabels[stage]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {data.throughput.weeks.map(week => (
+                <tr key={week.weekStart}>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{formatDate(week.weekStart)}</td>
+                  {stages.map(stage => (
+                    <td key={stage} className="px-6 py-3 whitespace-nowrap">
+                      <div className="flex items-center space-x-2">
+                        <div className="w-24 bg-gray-100 rounded h-2">
+                          <div className={`${stageColors[stage]} h-2 rounded`} style={{ width: `${(week[stage] / maxWeek) * 100}%` }}></div>
+                        </div>
+                        <span className="text-sm text-gray-700">{week[stage]}</span>
+                      </div>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-gray-50">
+              <tr>
+                <td className="px-6 py-3 text-sm font-semibold text-gray-900">Total</td>
+                {stages.map(stage => (
+                  <td key={stage} className="px-6 py-3 text-sm font-semibold text-gray-900">{data.throughput.totals[stage]}</td>
+                ))}
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </div>
+    );
+  };
+
+  const renderDelivery = (data: ReportData) => (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {renderStatCard(
+          'On-Time Delivery',
+          data.onTime.onTimeRate === null ? '-' : `${data.onTime.onTimeRate}%`,
+          `${data.onTime.onTime} of ${data.onTime.onTime + data.onTime.late} jobs with a planned date`,
+          'border-green-500'
+        )}
+        {renderStatCard('Delivered Late', data.onTime.late, `Average ${data.onTime.averageDaysLate} working days late`, 'border-red-500')}
+        {renderStatCard('Delivered Without a Plan', data.onTime.unplanned, 'No planned delivery date', 'border-gray-400')}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Late Jobs by Client</h3>
+          <p className="text-sm text-gray-500">Delivered late in this period, or due in this period and still not delivered</p>
+        </div>
+        {data.lateByClient.clients.length === 0 ? (
+          <p className="px-6 py-4 text-sm text-gray-500">No late or overdue jobs in this period.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Client</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Delivered Late</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Overdue</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Avg Days Late</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {data.lateByClient.clients.map(client => (
+                <tr key={client.clientId ?? 'none'}>
+                  <td className="px-6 py-3 text-sm font-medium text-gray-900">{client.clientName}</td>
+                  <td className="px-6 py-3 text-sm text-gray-700">{client.deliveredLate}</td>
+                  <td className="px-6 py-3 text-sm text-gray-700">{client.overdue}</td>
+                  <td className="px-6 py-3 text-sm text-red-600">{client.averageDaysLate}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {data.onTime.lateJobs.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">Late Deliveries</h3>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Job</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Project</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Planned</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Delivered</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Days Late</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {data.onTime.lateJobs.slice(0, 25).map(job => (
+                <tr key={job.jobId}>
+                  <td className="px-6 py-3 text-sm text-gray-900">#{job.jobId} {getJobLabel(job)}</td>
+                  <td className="px-6 py-3 text-sm text-gray-700">{job.projectName || '-'}{job.clientName ? ` (${job.clientName})` : ''}</td>
+                  <td className="px-6 py-3 text-sm text-gray-700">{formatDate(job.plannedDate)}</td>
+                  <td className="px-6 py-3 text-sm text-gray-700">{formatDate(job.deliveredOn)}</td>
+                  <td className="px-6 py-3 text-sm text-red-600">{job.daysLate}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
 
-  const reportTypes = ['Overview', 'Projects', 'Clients', 'Revenue', 'Time Tracking'];
-  const timePeriods = ['This Week', 'This Month', 'Last Month', 'This Quarter', 'This Year'];
-
-  // Mock data for charts and metrics
-  const overviewStats = {
-    totalProjects: 15,
-    activeProjects: 8,
-    completedProjects: 7,
-    totalClients: 12,
-    totalRevenue: 125000,
-    hoursWorked: 480
+  const formatSlip = (days: number | null) => {
+    if (days === null) return '-';
+    return days > 0 ? `+${days} days` : `${days} days`;
   };
 
-  const recentActivity = [
-    { date: '2025-07-20', action: 'Project "Brand Identity" completed', type: 'success' },
-    { date: '2025-07-19', action: 'New client "TechCorp" added', type: 'info' },
-    { date: '2025-07-18', action: 'Invoice #1234 sent to ABC Corp', type: 'neutral' },
-    { date: '2025-07-17', action: 'Project "Website Redesign" started', type: 'info' },
-    { date: '2025-07-16', action: 'Payment received from XYZ Industries', type: 'success' },
-  ];
-
-  const projectPerformance = [
-    { name: 'Brand Identity Design', completion: 100, onTime: true, budget: 95 },
-    { name: 'Website Redesign', completion: 75, onTime: true, budget: 80 },
-    { name: 'Marketing Campaign', completion: 100, onTime: false, budget: 110 },
-    { name: 'Mobile App Design', completion: 45, onTime: true, budget: 70 },
-  ];
+  const renderSlippage = (data: ReportData) => (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Stage Slippage</h3>
+          <p className="text-sm text-gray-500">
+            Working days between the planned and actual date of each stage completed in this period. Positive is late, negative early.
+          </p>
+        </div>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stage</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Completed</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">On Time</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Average</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Median</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Worst</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {data.stageSlippage.stages.map(stage => (
+              <tr key={stage.stage}>
+                <td className="px-6 py-3 text-sm font-medium text-gray-900">{stageLabels[stage.stage]}</td>
+                <td className="px-6 py-3 text-sm text-gray-700">
+                  {stage.completed}
+                  {stage.unplanned > 0 && <span className="text-xs text-gray-500"> ({stage.unplanned} unplanned)</span>}
+                </td>
+                <td className="px-6 py-3 text-sm text-gray-700">
+                  {stage.onTimeRate === null ? '-' : `${stage.onTimeRate}%`}
+                </td>
+                <td className={`px-6 py-3 text-sm font-medium ${stage.averageSlip !== null && stage.averageSlip > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                  {formatSlip(stage.averageSlip)}
+                </td>
+                <td className="px-6 py-3 text-sm text-gray-700">{formatSlip(stage.medianSlip)}</td>
+                <td className="px-6 py-3 text-sm text-gray-700">{formatSlip(stage.maxSlip)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {data.stageSlippage.mostLate.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">Most Late Stages</h3>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Job</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Project</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stage</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Planned</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actual</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Days Late</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {data.stageSlippage.mostLate.map(job => (
+                <tr key={`${job.jobId}-${job.stage}`}>
+                  <td className="px-6 py-3 text-sm text-gray-900">#{job.jobId} {getJobLabel(job)}</td>
+                  <td className="px-6 py-3 text-sm text-gray-700">{job.projectName || '-'}{job.clientName ? ` (${job.clientName})` : ''}</td>
+                  <td className="px-6 py-3 text-sm text-gray-700">{stageLabels[job.stage]}</td>
+                  <td className="px-6 py-3 text-sm text-gray-700">{formatDate(job.plannedDate)}</td>
+                  <td className="px-6 py-3 text-sm text-gray-700">{formatDate(job.actualDate)}</td>
+                  <td className="px-6 py-3 text-sm text-red-600">{job.daysLate}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderLeadTimes = (data: ReportData) => (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-900">Lead Times Achieved</h3>
+        <p className="text-sm text-gray-500">
+          Working days between stages being completed, for jobs that finished the later stage in this period, compared with the configured lead times
+        </p>
+      </div>
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stages</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Jobs</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Average</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Range</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Planned</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {data.leadTimes.transitions.map(transition => {
+            const overPlan = transition.averageDays !== null && transition.plannedDays !== null
+              && transition.averageDays > transition.plannedDays;
+
+            return (
+              <tr key={`${transition.from}-${transition.to}`}>
+                <td className="px-6 py-3 text-sm font-medium text-gray-900">
+                  {stageLabels[transition.from]} → {stageLabels[transition.to]}
+                </td>
+                <td className="px-6 py-3 text-sm text-gray-700">{transition.jobCount}</td>
+                <td className={`px-6 py-3 text-sm font-medium ${overPlan ? 'text-red-600' : 'text-gray-900'}`}>
+                  {transition.averageDays === null ? '-' : `${transition.averageDays} days`}
+                </td>
+                <td className="px-6 py-3 text-sm text-gray-700">
+                  {transition.minDays === null ? '-' : `${transition.minDays} - ${transition.maxDays} days`}
+                </td>
+                <td className="px-6 py-3 text-sm text-gray-700">
+                  {transition.plannedDays === null ? 'Not configured' : `${transition.plannedDays} days`}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  const renderProjects = (data: ReportData) => (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-900">Jobs per Project</h3>
+        <p className="text-sm text-gray-500">Projects with jobs due or delivered in this period</p>
+      </div>
+      {data.jobsPerProject.projects.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-gray-500">No project activity in this period.</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Project</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Client</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Delivered</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Overall Progress</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {data.jobsPerProject.projects.map(project => (
+              <tr key={project.projectId}>
+                <td className="px-6 py-3 text-sm font-medium text-gray-900">{project.projectName}</td>
+                <td className="px-6 py-3 text-sm text-gray-700">{project.clientName || '-'}</td>
+                <td className="px-6 py-3 text-sm text-gray-700">{project.dueInRange}</td>
+                <td className="px-6 py-3 text-sm text-gray-700">{project.deliveredInRange}</td>
+                <td className="px-6 py-3">
+                  <div className="flex items-center space-x-2">
+                    <div className="w-32 bg-gray-200 rounded-full h-2">
+                      <div className="bg-orange-500 h-2 rounded-full" style={{ width: `${project.progress}%` }}></div>
+                    </div>
+                    <span className="text-xs text-gray-600">
+                      {project.completedJobs}/{project.totalJobs}
+                    </span>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
 
   return (
     <div className="p-6">
       <div className="flex justify-between items-center mb-6">
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Reports</h1>
-          <p className="text-gray-600 mt-2">Analytics and insights for your business</p>
+          <p className="text-gray-600 mt-2">
+            Production performance from {formatDate(range.from)} to {formatDate(range.to)}
+          </p>
         </div>
-        <div className="flex space-x-3">
+        <div className="flex space-x-3 print:hidden">
           <select
             value={selectedPeriod}
             onChange={(e) => setSelectedPeriod(e.target.value)}
-            className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
           >
             {timePeriods.map((period) => (
               <option key={period} value={period}>{period}</option>
             ))}
           </select>
-          <Button variant="primary">
-            Export PDF
+          <Button variant="secondary" onClick={() => window.print()}>
+            🖨️ Print
           </Button>
         </div>
       </div>
 
       {/* Report Type Tabs */}
-      <div className="flex space-x-1 mb-6 bg-gray-100 p-1 rounded-lg w-fit">
+      <div className="flex space-x-1 mb-6 bg-gray-100 p-1 rounded-lg w-fit print:hidden">
         {reportTypes.map((type) => (
           <button
             key={type}
             onClick={() => setSelectedReport(type)}
             className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
               selectedReport === type
-                ? 'bg-white text-blue-600 shadow-sm'
+                ? 'bg-white text-orange-600 shadow-sm'
                 : 'text-gray-600 hover:text-gray-900'
             }`}
           >
@@ -73,134 +624,40 @@ const Reports: React.FC = () => {
         ))}
       </div>
 
-      {/* Overview Report */}
-      {selectedReport === 'Overview' && (
-        <div className="space-y-6">
-          {/* Key Metrics */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            <div className="bg-white p-6 rounded-lg shadow-md">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm font-medium text-gray-600">Total Projects</p>
-                  <p className="text-3xl font-bold text-gray-900">{overviewStats.totalProjects}</p>
-                </div>
-                <div className="p-3 bg-blue-100 rounded-full">
-                  <svg className="w-6 h-6 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
-                  </svg>
-                </div>
-              </div>
-              <div className="mt-4 flex items-center text-sm">
-                <span className="text-green-600 font-medium">↗ +12%</span>
-                <span className="text-gray-600 ml-2">vs last month</span>
-              </div>
+      {loading && (
+        <div className="animate-pulse grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          {[1, 2, 3, 4].map(i => (
+            <div key={i} className="bg-white rounded-lg shadow-md p-6 border-l-4 border-gray-200">
+              <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+              <div className="h-8 bg-gray-200 rounded w-1/2"></div>
             </div>
-
-            <div className="bg-white p-6 rounded-lg shadow-md">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm font-medium text-gray-600">Total Revenue</p>
-                  <p className="text-3xl font-bold text-gray-900">${overviewStats.totalRevenue.toLocaleString()}</p>
-                </div>
-                <div className="p-3 bg-green-100 rounded-full">
-                  <svg className="w-6 h-6 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1" />
-                  </svg>
-                </div>
-              </div>
-              <div className="mt-4 flex items-center text-sm">
-                <span className="text-green-600 font-medium">↗ +8%</span>
-                <span className="text-gray-600 ml-2">vs last month</span>
-              </div>
-            </div>
-
-            <div className="bg-white p-6 rounded-lg shadow-md">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm font-medium text-gray-600">Hours Worked</p>
-                  <p className="text-3xl font-bold text-gray-900">{overviewStats.hoursWorked}</p>
-                </div>
-                <div className="p-3 bg-purple-100 rounded-full">
-                  <svg className="w-6 h-6 text-purple-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                  </svg>
-                </div>
-              </div>
-              <div className="mt-4 flex items-center text-sm">
-                <span className="text-red-600 font-medium">↘ -5%</span>
-                <span className="text-gray-600 ml-2">vs last month</span>
-              </div>
-            </div>
-          </div>
-
-          {/* Charts Section */}
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            {/* Project Performance Chart */}
-            <div className="bg-white p-6 rounded-lg shadow-md">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">Project Performance</h3>
-              <div className="space-y-4">
-                {projectPerformance.map((project, index) => (
-                  <div key={index} className="border-b border-gray-100 pb-4 last:border-b-0">
-                    <div className="flex justify-between items-center mb-2">
-                      <span className="text-sm font-medium text-gray-900">{project.name}</span>
-                      <div className="flex space-x-2">
-                        <span className={`text-xs px-2 py-1 rounded ${
-                          project.onTime ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                        }`}>
-                          {project.onTime ? 'On Time' : 'Delayed'}
-                        </span>
-                        <span className="text-sm text-gray-600">{project.completion}%</span>
-                      </div>
-                    </div>
-                    <div className="w-full bg-gray-200 rounded-full h-2">
-                      <div
-                        className="bg-blue-600 h-2 rounded-full"
-                        style={{ width: `${project.completion}%` }}
-                      ></div>
-                    </div>
-                    <div className="flex justify-between text-xs text-gray-500 mt-1">
-                      <span>Budget: {project.budget}%</span>
-                      <span>{project.completion}/100%</span>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </div>
-
-            {/* Recent Activity */}
-            <div className="bg-white p-6 rounded-lg shadow-md">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Activity</h3>
-              <div className="space-y-4">
-                {recentActivity.map((activity, index) => (
-                  <div key={index} className="flex items-start space-x-3">
-                    <div className={`w-2 h-2 rounded-full mt-2 ${
-                      activity.type === 'success' ? 'bg-green-500' :
-                      activity.type === 'info' ? 'bg-blue-500' : 'bg-gray-500'
-                    }`}></div>
-                    <div className="flex-1">
-                      <p className="text-sm text-gray-900">{activity.action}</p>
-                      <p className="text-xs text-gray-500">{activity.date}</p>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </div>
-          </div>
+          ))}
         </div>
       )}
 
-      {/* Other Report Types Placeholder */}
-      {selectedReport !== 'Overview' && (
-        <div className="bg-white p-12 rounded-lg shadow-md text-center">
-          <div className="p-6 bg-gray-100 rounded-full w-24 h-24 mx-auto mb-4 flex items-center justify-center">
-            <svg className="w-12 h-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
-            </svg>
-          </div>
-          <h3 className="text-xl font-semibold text-gray-900 mb-2">{selectedReport} Report</h3>
-          <p className="text-gray-600">This report section is coming soon. We're working on bringing you detailed {selectedReport.toLowerCase()} analytics.</p>
+      {!loading && error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          <p className="font-medium">Error loading reports</p>
+          <p className="text-sm">{error}</p>
+          <button
+            onClick={fetchReports}
+            className="mt-2 bg-red-600 text-white px-3 py-1 rounded text-sm hover:bg-red-700"
+          >
+            Retry
+          </button>
         </div>
       )}
+
+      {!loading && !error && reportData && (
+        <>
+          {selectedReport === 'Overview' && renderOverview(reportData)}
+          {selectedReport === 'Throughput' && renderThroughput(reportData)}
+          {selectedReport === 'Delivery' && renderDelivery(reportData)}
+          {selectedReport === 'Slippage' && renderSlippage(reportData)}
+          {selectedReport === 'Lead Times' && renderLeadTimes(reportData)}
+          {selectedReport === 'Projects' && renderProjects(reportData)}
+        </>
+      )}
     </div>
   );
 };
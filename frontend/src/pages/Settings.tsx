@@ -1,10 +1,16 @@
 import React, { useState } from 'react';
 import JobStatusManagement from '../components/settings/JobStatusManagement';
+import ProjectStatusManagement from '../components/settings/ProjectStatusManagement';
 import HolidaysManagement from '../components/HolidaysManagement';
 import LeadTimesManagement from '../components/settings/LeadTimesManagement';
+import CapacityManagement from '../components/settings/CapacityManagement';
 import UserManagement from '../components/settings/UserManagement';
 import ImportManagement from '../components/settings/ImportManagement';
 import ArchivedClientsManagement from '../components/settings/ArchivedClientsManagement';
+import DuplicateClientsManagement from '../components/settings/DuplicateClientsManagement';
+import JobTemplatesManagement from '../components/settings/JobTemplatesManagement';
+import RecycleBinManagement from '../components/settings/RecycleBinManagement';
+import { DISPLAY_SETTINGS_EVENT } from '../utils/dateUtils';
 
 interface AppSettings {
   companyName: string;
@@ -25,13 +31,13 @@ interface DisplaySettings {
 }
 
 interface SettingsProps {
-  initialTab?: 'holidays' | 'job-status' | 'lead-times' | 'import' | 'company' | 'system' | 'users' | 'archived-clients' | 'display';
+  initialTab?: 'holidays' | 'job-status' | 'project-status' | 'lead-times' | 'capacity' | 'job-templates' | 'import' | 'company' | 'system' | 'users' | 'archived-clients' | 'duplicate-clients' | 'recycle-bin' | 'display';
   openProfileEdit?: boolean;
   onProfileEditClose?: () => void;
 }
 
 const Settings: React.FC<SettingsProps> = ({ initialTab = 'holidays', openProfileEdit = false, onProfileEditClose }) => {
-  const [activeTab, setActiveTab] = useState<'holidays' | 'job-status' | 'lead-times' | 'import' | 'company' | 'system' | 'users' | 'archived-clients' | 'display'>(initialTab);
+  const [activeTab, setActiveTab] = useState<'holidays' | 'job-status' | 'project-status' | 'lead-times' | 'capacity' | 'job-templates' | 'import' | 'company' | 'system' | 'users' | 'archived-clients' | 'duplicate-clients' | 'recycle-bin' | 'display'>(initialTab);
   const [appSettings, setAppSettings] = useState<AppSettings>({
     companyName: 'J11 Productions',
     companyEmail: 'info@j11productions.com',
@@ -86,6 +92,7 @@ const Settings: React.FC<SettingsProps> = ({ initialTab = 'holidays', openProfil
       setDisplayLoading(true);
       // Save to localStorage
       localStorage.setItem('displaySettings', JSON.stringify(displaySettings));
+      window.dispatchEvent(new Event(DISPLAY_SETTINGS_EVENT));
       
       // Simulate API delay for better UX
       await new Promise(resolve => setTimeout(resolve, 800));
@@ -103,10 +110,15 @@ const Settings: React.FC<SettingsProps> = ({ initialTab = 'holidays', openProfil
   const tabs = [
     { id: 'holidays', label: 'Holidays', icon: '📅' },
     { id: 'job-status', label: 'Job Status', icon: '⚡' },
+    { id: 'project-status', label: 'Project Status', icon: '🏁' },
     { id: 'lead-times', label: 'Lead Times', icon: '⏱️' },
+    { id: 'capacity', label: 'Capacity', icon: '🏭' },
+    { id: 'job-templates', label: 'Job Templates', icon: '🧩' },
     { id: 'import', label: 'Import', icon: '📁' },
     { id: 'users', label: 'Users', icon: '👥' },
     { id: 'archived-clients', label: 'Archived Clients', icon: '📋' },
+    { id: 'duplicate-clients', label: 'Duplicate Clients', icon: '🔀' },
+    { id: 'recycle-bin', label: 'Recycle Bin', icon: '🗑️' },
     { id: 'display', label: 'Display', icon: '📊' },
     { id: 'company', label: 'Company', icon: '🏢' },
     { id: 'system', label: 'System', icon: '⚙️' }
@@ -165,6 +177,13 @@ const Settings: React.FC<SettingsProps> = ({ initialTab = 'holidays', openProfil
         </div>
       )}
 
+      {/* Project Status Tab */}
+      {activeTab === 'project-status' && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <ProjectStatusManagement />
+        </div>
+      )}
+
       {/* Lead Times Tab */}
       {activeTab === 'lead-times' && (
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -172,6 +191,13 @@ const Settings: React.FC<SettingsProps> = ({ initialTab = 'holidays', openProfil
         </div>
       )}
 
+      {/* Capacity Tab */}
+      {activeTab === 'capacity' && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <CapacityManagement />
+        </div>
+      )}
+
       {/* Import Tab */}
       {activeTab === 'import' && (
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -193,6 +219,27 @@ const Settings: React.FC<SettingsProps> = ({ initialTab = 'holidays', openProfil
         </div>
       )}
 
+      {/* Job Templates Tab */}
+      {activeTab === 'job-templates' && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <JobTemplatesManagement />
+        </div>
+      )}
+
+      {/* Duplicate Clients Tab */}
+      {activeTab === 'duplicate-clients' && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <DuplicateClientsManagement />
+        </div>
+      )}
+
+      {/* Recycle Bin Tab */}
+      {activeTab === 'recycle-bin' && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <RecycleBinManagement />
+        </div>
+      )}
+
       {/* Display Tab */}
       {activeTab === 'display' && (
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -29,12 +29,16 @@ export const API_ENDPOINTS = {
   
   // Core entities
   jobs: '/api/jobs',
+  jobExceptions: '/api/jobs/exceptions',
+  notifications: '/api/notifications',
+  notificationPreferences: '/api/notifications/preferences',
   projects: '/api/projects',
   clients: '/api/clients',
   contacts: '/api/contacts',
   
   // Status and settings
   jobStatuses: '/api/job-statuses',
+  projectStatuses: '/api/project-statuses',
   leadTimes: '/api/lead-times',
   holidays: '/api/holidays',
   pinned: '/api/pinned',
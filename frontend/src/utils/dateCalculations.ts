@@ -1,4 +1,5 @@
-// Utility functions for calculating job dates based on lead times
+// Date helpers and types for job scheduling.
+// Stage dates are calculated on the server (POST /api/jobs/:id/schedule) so every client agrees.
 export interface LeadTime {
   id: number;
   fromStatusId: number;
@@ -60,71 +61,3 @@ export const parseDDMMYYYY = (dateString: string): Date | null => {
   
   return new Date(year, month, day);
 };
-
-// Map status names to date field names
-const statusToDateFieldMap: Record<string, string> = {
-  'not-assigned': 'nestingDate',
-  'nesting-complete': 'nestingDate',
-  'machining-complete': 'machiningDate', 
-  'assembly-complete': 'assemblyDate',
-  'delivered': 'deliveryDate'
-};
-
-// Main function to calculate all dates based on delivery date and lead times
-export const calculateJobDates = (
-  deliveryDateString: string,
-  leadTimes: LeadTime[],
-  jobStatuses: JobStatus[]
-): Record<string, string> => {
-  const deliveryDate = parseDDMMYYYY(deliveryDateString);
-  if (!deliveryDate) {
-    throw new Error('Invalid delivery date format. Please use DD/MM/YYYY.');
-  }
-
-  // Find the delivery status (typically the final status)
-  const deliveryStatus = jobStatuses.find(status => 
-    status.name.toLowerCase() === 'delivered' || status.isFinal
-  );
-  
-  if (!deliveryStatus) {
-    throw new Error('Could not find delivery status in job statuses.');
-  }
-
-  const calculatedDates: Record<string, string> = {
-    deliveryDate: deliveryDateString // Keep the original delivery date
-  };
-
-  // Calculate dates for each status based on lead times
-  jobStatuses.forEach(status => {
-    // Skip if this is the delivery status (already set)
-    if (status.id === deliveryStatus.id) return;
-
-    // Find lead time rule for this status relative to delivery status
-    const leadTime = leadTimes.find(lt => 
-      lt.fromStatusId === status.id && 
-      lt.toStatusId === deliveryStatus.id && 
-      lt.isActive
-    );
-
-    if (leadTime) {
-      // Calculate the date based on lead time
-      let calculatedDate: Date;
-      
-      if (leadTime.direction === 'before') {
-        // X days before delivery
-        calculatedDate = addWorkingDays(deliveryDate, -leadTime.days);
-      } else {
-        // X days after delivery (rare case)
-        calculatedDate = addWorkingDays(deliveryDate, leadTime.days);
-      }
-
-      // Map status to the appropriate date field
-      const dateField = statusToDateFieldMap[status.name];
-      if (dateField) {
-        calculatedDates[dateField] = formatDateToDDMMYYYY(calculatedDate);
-      }
-    }
-  });
-
-  return calculatedDates;
-};
\ No newline at end of file
@@ -7,6 +7,11 @@
  */
 export const DEFAULT_LOCALE = 'en-AU';
 
+/**
+ * Window event fired after the week display settings in localStorage are saved
+ */
+export const DISPLAY_SETTINGS_EVENT = 'displaySettingsChanged';
+
 /**
  * Standard date formatting options
  */
@@ -33,11 +38,21 @@ export const DATE_FORMAT_OPTIONS = {
 };
 
 /**
- * Parse Australian DD/MM/YYYY format date string to Date object
+ * Parse a date string to a Date object. Accepts the API's ISO YYYY-MM-DD format
+ * and the Australian DD/MM/YYYY display format.
  */
 export const parseAustralianDate = (dateString: string | null | undefined): Date | null => {
   if (!dateString) return null;
   
+  // ISO dates from the API are calendar dates, so build them in local time
+  // (new Date('YYYY-MM-DD') would treat them as UTC midnight)
+  const isoMatch = String(dateString).match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (isoMatch) {
+    const [, year, month, day] = isoMatch;
+    const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
+    return date.getDate() === parseInt(day) ? date : null;
+  }
+  
   // Check if it's already in DD/MM/YYYY format
   const ddmmyyyyPattern = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
   const match = String(dateString).match(ddmmyyyyPattern);
@@ -235,6 +250,29 @@ export const parseDateFromInput = (dateString: string): Date | null => {
   }
 };
 
+/**
+ * Convert an API date (YYYY-MM-DD) to the DD/MM/YYYY display format used in text inputs
+ */
+export const isoToDisplayDate = (date: string | null | undefined): string => {
+  if (!date) return '';
+  const parsedDate = parseAustralianDate(date);
+  if (!parsedDate) return '';
+  
+  const day = String(parsedDate.getDate()).padStart(2, '0');
+  const month = String(parsedDate.getMonth() + 1).padStart(2, '0');
+  return `${day}/${month}/${parsedDate.getFullYear()}`;
+};
+
+/**
+ * Convert a DD/MM/YYYY display date to the YYYY-MM-DD format the API expects.
+ * Returns null for empty or unparseable values.
+ */
+export const displayDateToIso = (date: string | null | undefined): string | null => {
+  if (!date || !date.trim()) return null;
+  const formatted = formatDateForInput(date.trim());
+  return formatted || null;
+};
+
 /**
  * Get the start and end of today
  */
@@ -0,0 +1,21 @@
+export interface FieldConflict {
+  field: string;
+  current: unknown;
+  submitted: unknown;
+  changedBy: string | null;
+  changedAt: string | null;
+}
+
+// The 409 body from PUT /api/jobs/:id and PUT /api/projects/:id when the record changed since it was loaded
+export interface EditConflict<T = unknown> {
+  error: string;
+  code: 'edit_conflict';
+  etag: string;
+  current: T;
+  conflicts: FieldConflict[];
+}
+
+export type ConflictChoice = 'mine' | 'theirs';
+
+export const isEditConflict = (data: unknown): data is EditConflict =>
+  typeof data === 'object' && data !== null && (data as { code?: unknown }).code === 'edit_conflict';
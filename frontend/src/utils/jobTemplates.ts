@@ -0,0 +1,58 @@
+/**
+ * Job templates: named job sets created for every unit of a project
+ */
+
+export interface JobTemplateItem {
+  id?: number;
+  items: string;
+  type: string | null;
+  statusId: number | null;
+  // Working days before the target delivery date this job is delivered
+  deliveryOffset: number;
+  // Working days before the job's delivery date; null uses the configured lead time
+  nestingOffset: number | null;
+  machiningOffset: number | null;
+  assemblyOffset: number | null;
+}
+
+export interface JobTemplate {
+  id: number;
+  name: string;
+  description: string | null;
+  items: JobTemplateItem[];
+}
+
+// Largest range a single "from..to" entry may expand to
+const MAX_RANGE_SIZE = 500;
+
+/**
+ * Expand "from..to" where both ends share a prefix and end in a number, keeping zero padding:
+ * "L1-01..L1-04" gives L1-01, L1-02, L1-03, L1-04. Returns null for anything else.
+ */
+const expandRange = (entry: string): string[] | null => {
+  const parts = entry.split('..');
+  if (parts.length !== 2) return null;
+  const from = /^(.*?)(\d+)$/.exec(parts[0].trim());
+  const to = /^(.*?)(\d+)$/.exec(parts[1].trim());
+  if (!from || !to || from[1] !== to[1]) return null;
+
+  const start = parseInt(from[2], 10);
+  const end = parseInt(to[2], 10);
+  if (end < start || end - start >= MAX_RANGE_SIZE) return null;
+
+  const width = from[2].length;
+  return Array.from({ length: end - start + 1 }, (_, index) => `${from[1]}${String(start + index).padStart(width, '0')}`);
+};
+
+/**
+ * Read a unit list typed one per line or comma separated, with "101..120" style ranges.
+ * Repeats are dropped and the order is kept.
+ */
+export const parseUnitList = (text: string): string[] => {
+  const units = text
+    .split(/[\n,]/)
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .flatMap(entry => expandRange(entry) ?? [entry]);
+  return [...new Set(units)];
+};
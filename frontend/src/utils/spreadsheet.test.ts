@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectDelimiter,
+  excelSerialToDisplayDate,
+  isSpreadsheetFile,
+  parseDelimitedText,
+  toSpreadsheetSheet,
+} from './spreadsheet';
+import excelCsv from './__fixtures__/builder-schedule-excel.csv?raw';
+import semicolonCsv from './__fixtures__/builder-schedule-semicolon.csv?raw';
+import tabSeparated from './__fixtures__/builder-schedule.tsv?raw';
+
+describe('parseDelimitedText', () => {
+  it('reads a CSV saved from Excel, with its byte order mark and Windows line endings', () => {
+    expect(excelCsv.charCodeAt(0)).toBe(0xfeff);
+    const rows = parseDelimitedText(excelCsv);
+
+    expect(rows[0]).toEqual(['Unit', 'Items', 'Status', 'Nesting', 'Delivery', 'Notes']);
+    expect(rows[1]).toEqual([
+      'L2-01',
+      'Kitchen, Butlers',
+      'In Production',
+      '45678',
+      '04/02/2025',
+      'Stone by others\r\nConfirm splashback height',
+    ]);
+    expect(rows[2][5]).toBe('Client said "no handles"');
+    expect(rows[4][1]).toBe('Robes, x3');
+  });
+
+  it('drops rows with no content', () => {
+    const rows = parseDelimitedText(excelCsv);
+    expect(rows).toHaveLength(5);
+    expect(rows.map(row => row[0])).toEqual(['Unit', 'L2-01', 'L2-02', 'L3-01', 'L3-02']);
+  });
+
+  it('keeps commas inside a semicolon-delimited export', () => {
+    const rows = parseDelimitedText(semicolonCsv);
+    expect(rows[1]).toEqual(['G-01', 'Kitchen, island bench', '14/03/2025']);
+    expect(rows[2]).toEqual(['G-02', 'Laundry; tub cabinet']);
+  });
+
+  it('reads tab-separated text with old Mac line endings', () => {
+    const rows = parseDelimitedText(tabSeparated, '\t');
+    expect(rows).toEqual([
+      ['Unit', 'Items', 'Status'],
+      ['B-01', 'Pantry', 'Complete'],
+      ['B-02', 'Study\tdesk', 'Not Started'],
+    ]);
+  });
+
+  it('drops spaces before an opening quote', () => {
+    expect(parseDelimitedText('a, "b, c",d')).toEqual([['a', 'b, c', 'd']]);
+  });
+
+  it('keeps the last row when the file has no trailing line break', () => {
+    expect(parseDelimitedText('a,b\nc,d')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('reports the line of a quoted field that is never closed', () => {
+    expect(() => parseDelimitedText('Unit,Items\nL1-01,Kitchen\nL1-02,"Laundry\n')).toThrow(
+      'A quoted field starting on line 3 is never closed'
+    );
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter used most in the first line', () => {
+    expect(detectDelimiter(excelCsv)).toBe(',');
+    expect(detectDelimiter(semicolonCsv)).toBe(';');
+    expect(detectDelimiter(tabSeparated)).toBe('\t');
+  });
+
+  it('ignores delimiters inside quotes', () => {
+    expect(detectDelimiter('"Unit; Level";Items;Status\n')).toBe(';');
+  });
+
+  it('prefers commas on a tie', () => {
+    expect(detectDelimiter('Unit\n')).toBe(',');
+  });
+});
+
+describe('toSpreadsheetSheet', () => {
+  it('trims cells and pads short rows to the widest row', () => {
+    const sheet = toSpreadsheetSheet('builder-schedule-semicolon.csv', parseDelimitedText(semicolonCsv));
+    expect(sheet.headers).toEqual(['Unit', 'Items', 'Delivery', '']);
+    expect(sheet.rows).toEqual([
+      ['G-01', 'Kitchen, island bench', '14/03/2025', ''],
+      ['G-02', 'Laundry; tub cabinet', '', ''],
+      ['G-03', 'Entry joinery', '21/03/2025', 'extra'],
+    ]);
+  });
+
+  it('gives an empty sheet for an empty file', () => {
+    expect(toSpreadsheetSheet('empty.csv', parseDelimitedText(''))).toEqual({ name: 'empty.csv', headers: [], rows: [] });
+  });
+});
+
+describe('excelSerialToDisplayDate', () => {
+  it('converts Excel serial dates to DD/MM/YYYY', () => {
+    expect(excelSerialToDisplayDate('45678')).toBe('21/01/2025');
+    expect(excelSerialToDisplayDate('45716.5')).toBe('28/02/2025');
+    expect(excelSerialToDisplayDate(' 45691 ')).toBe('03/02/2025');
+  });
+
+  it('leaves anything else alone', () => {
+    expect(excelSerialToDisplayDate('04/02/2025')).toBeNull();
+    expect(excelSerialToDisplayDate('2')).toBeNull();
+    expect(excelSerialToDisplayDate('L2-01')).toBeNull();
+  });
+});
+
+describe('isSpreadsheetFile', () => {
+  it('accepts delimited text and .xlsx files, in any case', () => {
+    expect(isSpreadsheetFile('Schedule.CSV')).toBe(true);
+    expect(isSpreadsheetFile('schedule.tsv')).toBe(true);
+    expect(isSpreadsheetFile('schedule.xlsx')).toBe(true);
+    expect(isSpreadsheetFile('schedule.xls')).toBe(false);
+    expect(isSpreadsheetFile('schedule')).toBe(false);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Spreadsheet reading for the import wizard and the bulk job upload.
+ *
+ * CSV, TSV and text files are parsed here, following RFC 4180: quoted fields may hold
+ * delimiters, line breaks and doubled quotes. .xlsx workbooks are read by the API, which
+ * returns every visible sheet with dates already formatted as DD/MM/YYYY.
+ */
+
+import { API_BASE_URL } from './api';
+
+export interface SpreadsheetSheet {
+  name: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export const SPREADSHEET_ACCEPT = '.csv,.tsv,.txt,.xlsx';
+
+const DELIMITED_EXTENSIONS = ['.csv', '.tsv', '.txt'];
+
+const extensionOf = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase();
+};
+
+export const isSpreadsheetFile = (fileName: string) =>
+  [...DELIMITED_EXTENSIONS, '.xlsx'].includes(extensionOf(fileName));
+
+// Days between Excel's 1900 epoch (with its phantom 29/02/1900) and 1970-01-01
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+
+/**
+ * Convert an Excel serial date such as 45678, as found in CSVs saved from Excel, to DD/MM/YYYY.
+ * Returns null for anything that isn't a five-digit serial (1927 to 2173).
+ */
+export const excelSerialToDisplayDate = (value: string): string | null => {
+  if (!/^\d{5}(\.\d+)?$/.test(value.trim())) return null;
+  const date = new Date(Math.floor(parseFloat(value) - EXCEL_EPOCH_OFFSET_DAYS) * 24 * 60 * 60 * 1000);
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  return `${day}/${month}/${date.getUTCFullYear()}`;
+};
+
+/**
+ * Pick the delimiter used most in the first line, ignoring quoted text. Commas win ties.
+ */
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r\n|\n|\r/, 1)[0].replace(/"[^"]*"/g, '');
+  const counts = [',', '\t', ';'].map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }));
+  return counts.reduce((best, next) => (next.count > best.count ? next : best)).delimiter;
+};
+
+/**
+ * Parse delimited text into rows of fields. Handles a byte order mark, Windows and old Mac
+ * line endings, and quoted fields. Rows with no content are dropped.
+ */
+export const parseDelimitedText = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quoteLine = 0;
+  let line = 1;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+  const endRow = () => {
+    endField();
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.trim() === '') {
+      // Opening quote; spaces before it are dropped
+      field = '';
+      inQuotes = true;
+      quoteLine = line;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      line++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(`A quoted field starting on line ${quoteLine} is never closed`);
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+/**
+ * Split parsed rows into headers and data rows, trimming every cell and padding short rows
+ */
+export const toSpreadsheetSheet = (name: string, parsedRows: string[][]): SpreadsheetSheet => {
+  const [headers = [], ...rows] = parsedRows.map(row => row.map(cell => cell.trim()));
+  const width = rows.reduce((max, row) => Math.max(max, row.length), headers.length);
+  const pad = (row: string[]) => [...row, ...Array<string>(width - row.length).fill('')];
+  return { name, headers: pad(headers), rows: rows.map(pad) };
+};
+
+/**
+ * Read a CSV, TSV, text or .xlsx file into sheets. Delimited files have a single sheet.
+ */
+export const readSpreadsheetFile = async (file: File, token: string): Promise<SpreadsheetSheet[]> => {
+  const extension = extensionOf(file.name);
+
+  if (extension === '.xlsx') {
+    const response = await fetch(`${API_BASE_URL}/api/import/workbook`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: file,
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to read the workbook');
+    }
+    return data.sheets;
+  }
+
+  if (!DELIMITED_EXTENSIONS.includes(extension)) {
+    throw new Error('Please choose a CSV, TSV, text or .xlsx file');
+  }
+
+  const text = await file.text();
+  const delimiter = extension === '.tsv' ? '\t' : detectDelimiter(text);
+  return [toSpreadsheetSheet(file.name, parseDelimitedText(text, delimiter))];
+};
@@ -0,0 +1,18 @@
+/**
+ * Planned and actual stage dates. Actual dates are recorded when a job enters the status
+ * that completes a stage; the API returns each stage's variance in working days.
+ */
+
+export type StageDateField = 'nestingDate' | 'machiningDate' | 'assemblyDate' | 'deliveryDate';
+
+export type StageActualField = 'nestingActualDate' | 'machiningActualDate' | 'assemblyActualDate' | 'deliveryActualDate';
+
+// Working days each stage finished after its planned date (negative when early)
+export type StageVariances = Record<StageDateField, number | null>;
+
+export const STAGE_ACTUALS: { stage: string; plannedField: StageDateField; actualField: StageActualField }[] = [
+  { stage: 'Nesting', plannedField: 'nestingDate', actualField: 'nestingActualDate' },
+  { stage: 'Machining', plannedField: 'machiningDate', actualField: 'machiningActualDate' },
+  { stage: 'Assembly', plannedField: 'assemblyDate', actualField: 'assemblyActualDate' },
+  { stage: 'Delivery', plannedField: 'deliveryDate', actualField: 'deliveryActualDate' },
+];